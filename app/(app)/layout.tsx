@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useState, useEffect, useCallback } from 'react';
 
 interface NavItem {
@@ -33,10 +33,24 @@ export default function AppLayout({
   children: React.ReactNode
 }) {
   const pathname = usePathname();
+  const router = useRouter();
+  const [session, setSession] = useState<{ email: string; role: string } | null>(null);
   const [queueCount, setQueueCount] = useState(0);
   const [chatUnreadCount, setChatUnreadCount] = useState(0);
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => data && setSession({ email: data.user.email, role: data.role }))
+      .catch(e => console.error('Failed to fetch session:', e));
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    router.push('/login');
+  };
+
   useEffect(() => {
     const fetchCounts = async () => {
       try {
@@ -331,11 +345,31 @@ export default function AppLayout({
               color: 'white',
               fontWeight: 600,
               fontSize: '14px',
-            }}>M</div>
-            <div style={{ display: 'flex', flexDirection: 'column' }}>
-              <span style={{ color: 'white', fontWeight: 500, fontSize: '14px' }}>Miguel</span>
-              <span style={{ color: '#A8A29E', fontSize: '12px' }}>Owner</span>
+            }}>{session?.email.charAt(0).toUpperCase() || '?'}</div>
+            <div style={{ display: 'flex', flexDirection: 'column', flex: 1, minWidth: 0 }}>
+              <span style={{
+                color: 'white',
+                fontWeight: 500,
+                fontSize: '14px',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+              }}>{session?.email || '...'}</span>
+              <span style={{ color: '#A8A29E', fontSize: '12px', textTransform: 'capitalize' }}>{session?.role || ''}</span>
             </div>
+            <button
+              onClick={handleSignOut}
+              title="Sign out"
+              aria-label="Sign out"
+              style={{
+                background: 'none',
+                border: 'none',
+                color: '#A8A29E',
+                cursor: 'pointer',
+                fontSize: '16px',
+              }}
+            >
+              ⎋
+            </button>
           </div>
         </div>
       </nav>
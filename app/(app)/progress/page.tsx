@@ -27,6 +27,7 @@ interface ChecklistItem {
   label: string;
   complete: boolean;
   category: string;
+  weight?: number;
 }
 
 interface WorkSummary {
@@ -233,7 +234,7 @@ function LaunchChecklist({ items }: { items: ChecklistItem[] }) {
               color: item.complete ? 'var(--accent-green)' : 'var(--text-muted)', 
               fontWeight: 600 
             }}>
-              {item.complete ? '+5' : ''}
+              {item.complete ? `+${item.weight ?? 5}` : ''}
             </span>
           </div>
         ))}
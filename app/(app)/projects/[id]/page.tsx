@@ -117,12 +117,12 @@ export default function ProjectDetailPage() {
       });
       const data = await res.json();
       if (data.success) {
-        alert(`✅ Queued ${data.scans.length} scans. Refresh the page in a few minutes to see updated results.`);
+        alert(`✅ ${data.message}. Refresh the page in a few minutes to see updated results.`);
         setTimeout(() => {
           fetchProject();
         }, 3000);
       } else {
-        alert('❌ Failed to trigger scans');
+        alert(`❌ ${data.error || 'Failed to trigger scans'}`);
       }
     } catch (error) {
       console.error('Error triggering scan:', error);
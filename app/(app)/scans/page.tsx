@@ -332,15 +332,16 @@ export default function ScansPage() {
     setTriggering(true);
     try {
       const res = await fetch('/api/scans/trigger', { method: 'POST' });
+      const data = await res.json().catch(() => null);
       if (res.ok) {
-        alert('✅ Scans triggered successfully!');
+        alert(`✅ ${data?.message || 'Scans triggered successfully!'}`);
         // Invalidate cache and refresh after delay
         setTimeout(() => {
           invalidateCache('/api/scans');
           refresh();
         }, 3000);
       } else {
-        alert('❌ Failed to trigger scans');
+        alert(`❌ ${res.status === 429 && data?.error ? data.error : 'Failed to trigger scans'}`);
       }
     } catch (error) {
       console.error('Failed to trigger scan:', error);
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { featureFlags } from '@/lib/config/feature-flags';
 
 interface FeatureFlag {
@@ -10,6 +10,541 @@ interface FeatureFlag {
   enabled: boolean;
 }
 
+interface BudgetLimits {
+  dailyBudget: number | null;
+  monthlyBudget: number | null;
+}
+
+interface BudgetUsage {
+  scope: 'workspace' | 'project';
+  scopeId: string;
+  name: string;
+  period: 'daily' | 'monthly';
+  limit: number;
+  spent: number;
+  percent: number;
+}
+
+interface BudgetsResponse {
+  workspace: BudgetLimits & { storyTokenLimit: number | null };
+  projects: Array<BudgetLimits & { id: string; name: string }>;
+  usage: BudgetUsage[];
+}
+
+interface QuotaUsage {
+  plan: string;
+  projects: { used: number; limit: number };
+  scans: { used: number; limit: number; resetsAt: string };
+}
+
+interface ProjectSchedules {
+  projectId: string;
+  projectName: string;
+  timezone: string;
+  paused: boolean;
+  active: boolean;
+  schedules: Array<{
+    id: string;
+    kind: 'scan' | 'orchestrator';
+    scanType: string | null;
+    cadence: string;
+    isDefault: boolean;
+    nextRuns: string[];
+  }>;
+}
+
+interface SchedulesResponse {
+  projects: ProjectSchedules[];
+  upcoming: Array<{ projectId: string; projectName: string; kind: 'scan' | 'orchestrator'; scanType: string | null; runAt: string }>;
+}
+
+interface SpendBreakdown {
+  total: number;
+  totalTokens: number;
+  byAgent: Array<{ agent: string; cost: number; tokens: number; sessions: number }>;
+  byProject: Array<{ projectId: string | null; name: string; cost: number; tokens: number }>;
+  byDay: Array<{ date: string; cost: number; tokens: number }>;
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function toInput(value: number | null): string {
+  return value === null ? '' : String(value);
+}
+
+function fromInput(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+function UsageBar({ usage }: { usage: BudgetUsage }) {
+  const color = usage.percent >= 100 ? 'bg-red-500' : usage.percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-700">
+          {usage.name} · {usage.period}
+        </span>
+        <span className="text-gray-500">
+          {formatUsd(usage.spent)} / {formatUsd(usage.limit)}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${Math.min(usage.percent, 100)}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function QuotaBar({ label, used, limit }: { label: string; used: number; limit: number }) {
+  const percent = limit > 0 ? used / limit * 100 : 100;
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-700">{label}</span>
+        <span className="text-gray-500">
+          {used} / {limit}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function PlanUsageSection() {
+  const [quotas, setQuotas] = useState<QuotaUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/quotas')
+      .then(async (res) => {
+        if (!res.ok) throw new Error('Failed to load plan usage');
+        setQuotas(await res.json());
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load plan usage'));
+  }, []);
+
+  if (!quotas) {
+    return (
+      <div className="card" style={{ padding: '20px' }}>
+        <p className="text-sm text-gray-500">{error || 'Loading plan usage...'}</p>
+      </div>
+    );
+  }
+
+  const resetsAt = new Date(quotas.scans.resetsAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <div className="card" style={{ padding: '20px' }}>
+      <p className="text-sm text-gray-700 mb-4">
+        Plan: <span className="font-semibold capitalize">{quotas.plan}</span>
+      </p>
+      <div className="space-y-3">
+        <QuotaBar label="Projects" used={quotas.projects.used} limit={quotas.projects.limit} />
+        <QuotaBar label="Scans today" used={quotas.scans.used} limit={quotas.scans.limit} />
+        <p className="text-xs text-gray-400">
+          Scan jobs, chat &quot;analyze&quot; commands and projects analyzed by the orchestrator count as scans.
+          The daily count resets at {resetsAt} (midnight UTC).
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function formatRunAt(runAt: string): string {
+  return new Date(runAt).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+}
+
+function ScheduleEditor({ project, onSave }: { project: ProjectSchedules; onSave: (update: object) => Promise<void> }) {
+  const [timezone, setTimezone] = useState(project.timezone);
+  const [cadences, setCadences] = useState<Record<string, string>>(() =>
+    Object.fromEntries(project.schedules.map((s) => [s.scanType ?? 'orchestrator', s.isDefault ? '' : s.cadence]))
+  );
+
+  const save = () => {
+    // Blank resets a schedule to its default
+    const scanSchedules: Record<string, string | null> = {};
+    for (const [key, cadence] of Object.entries(cadences)) {
+      if (key !== 'orchestrator') scanSchedules[key] = cadence.trim() || null;
+    }
+    return onSave({
+      timezone,
+      scanSchedules,
+      orchestratorSchedule: cadences.orchestrator?.trim() || null,
+    });
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 rounded-md space-y-2">
+      <div className="flex items-center gap-3">
+        <label className="w-32 text-sm text-gray-700">Time zone</label>
+        <input
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          placeholder="UTC"
+        />
+      </div>
+      {project.schedules.map((schedule) => {
+        const key = schedule.scanType ?? 'orchestrator';
+        return (
+          <div key={schedule.id} className="flex items-center gap-3">
+            <label className="w-32 text-sm text-gray-700">{key}</label>
+            <input
+              value={cadences[key] ?? ''}
+              onChange={(e) => setCadences({ ...cadences, [key]: e.target.value })}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm font-mono"
+              placeholder={schedule.isDefault ? `${schedule.cadence} (default)` : 'Default'}
+            />
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-400">
+        Cron expressions (minute hour day month weekday) in the project&apos;s time zone, &quot;on_push&quot; for repo
+        scans, or &quot;off&quot;. Leave blank for the default.
+      </p>
+      <button
+        onClick={save}
+        className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700"
+      >
+        Save Schedule
+      </button>
+    </div>
+  );
+}
+
+function SchedulesSection() {
+  const [schedules, setSchedules] = useState<SchedulesResponse | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/schedules?limit=10');
+      if (!res.ok) throw new Error('Failed to load schedules');
+      setSchedules(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const update = async (projectId: string, body: object) => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/schedules`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update schedule');
+      setEditing(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  if (!schedules) {
+    return (
+      <div className="card" style={{ padding: '20px' }}>
+        <p className="text-sm text-gray-500">{error || 'Loading schedules...'}</p>
+      </div>
+    );
+  }
+
+  const projects = schedules.projects.filter((p) => p.active);
+
+  return (
+    <div className="card" style={{ padding: '20px' }}>
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div style={{ marginBottom: '20px' }}>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Upcoming Runs</h3>
+        {schedules.upcoming.length === 0 ? (
+          <p className="text-sm text-gray-400">Nothing scheduled</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {schedules.upcoming.map((run) => (
+                <tr key={`${run.projectId}-${run.scanType ?? 'orchestrator'}-${run.runAt}`} className="border-t border-gray-100">
+                  <td className="py-1.5 text-gray-500 w-40">{formatRunAt(run.runAt)}</td>
+                  <td className="py-1.5 text-gray-700">{run.projectName}</td>
+                  <td className="py-1.5 text-right text-gray-500">
+                    {run.kind === 'scan' ? `${run.scanType} scan` : 'Orchestrator'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-gray-100">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Per-Project Schedules</h3>
+        {projects.length === 0 ? (
+          <p className="text-sm text-gray-400">No active projects</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {projects.map((project) => (
+              <div key={project.projectId} className="py-3">
+                <div className="flex items-center gap-3">
+                  <span className="flex-1 text-sm font-medium text-gray-900">
+                    {project.projectName}
+                    <span className="ml-2 text-xs font-normal text-gray-400">{project.timezone}</span>
+                  </span>
+                  {project.paused && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-700">Paused</span>
+                  )}
+                  <button
+                    onClick={() => setEditing(editing === project.projectId ? null : project.projectId)}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    {editing === project.projectId ? 'Cancel' : 'Edit'}
+                  </button>
+                  <button
+                    onClick={() => update(project.projectId, { paused: !project.paused })}
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    {project.paused ? 'Resume' : 'Pause'}
+                  </button>
+                </div>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {project.schedules.map((schedule) => (
+                    <span
+                      key={schedule.id}
+                      className="text-xs font-mono px-2 py-0.5 rounded bg-gray-100 text-gray-600"
+                      title={schedule.nextRuns.map(formatRunAt).join(', ') || 'On each push to the default branch'}
+                    >
+                      {schedule.scanType ?? 'orchestrator'}: {schedule.cadence}
+                    </span>
+                  ))}
+                </div>
+                {editing === project.projectId && (
+                  <ScheduleEditor project={project} onSave={(body) => update(project.projectId, body)} />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SpendTable({ title, rows }: { title: string; rows: Array<{ key: string; label: string; cost: number; tokens: number }> }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400">No spend recorded</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-gray-100">
+                <td className="py-1.5 text-gray-700">{row.label}</td>
+                <td className="py-1.5 text-right text-gray-400">{row.tokens.toLocaleString()} tok</td>
+                <td className="py-1.5 text-right font-medium text-gray-900">{formatUsd(row.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function BudgetsSection() {
+  const [budgets, setBudgets] = useState<BudgetsResponse | null>(null);
+  const [spend, setSpend] = useState<SpendBreakdown | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [budgetsRes, spendRes] = await Promise.all([
+        fetch('/api/budgets'),
+        fetch('/api/budgets/spend?days=30'),
+      ]);
+      if (!budgetsRes.ok || !spendRes.ok) throw new Error('Failed to load budgets');
+      setBudgets(await budgetsRes.json());
+      setSpend(await spendRes.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load budgets');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const save = async () => {
+    if (!budgets) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/budgets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspace: budgets.workspace, projects: budgets.projects }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save budgets');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budgets');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateProject = (id: string, field: keyof BudgetLimits, value: string) => {
+    if (!budgets) return;
+    setBudgets({
+      ...budgets,
+      projects: budgets.projects.map((p) => (p.id === id ? { ...p, [field]: fromInput(value) } : p)),
+    });
+  };
+
+  if (!budgets) {
+    return (
+      <div className="card" style={{ padding: '20px' }}>
+        <p className="text-sm text-gray-500">{error || 'Loading budgets...'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card" style={{ padding: '20px' }}>
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="responsive-grid responsive-grid-2" style={{ marginBottom: '20px' }}>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Daily Budget (USD)</label>
+          <input
+            type="number"
+            value={toInput(budgets.workspace.dailyBudget)}
+            onChange={(e) => setBudgets({ ...budgets, workspace: { ...budgets.workspace, dailyBudget: fromInput(e.target.value) } })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            min={0}
+            step={1}
+            placeholder="No limit"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Monthly Budget (USD)</label>
+          <input
+            type="number"
+            value={toInput(budgets.workspace.monthlyBudget)}
+            onChange={(e) => setBudgets({ ...budgets, workspace: { ...budgets.workspace, monthlyBudget: fromInput(e.target.value) } })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            min={0}
+            step={10}
+            placeholder="No limit"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Token Ceiling per Story</label>
+          <input
+            type="number"
+            value={toInput(budgets.workspace.storyTokenLimit)}
+            onChange={(e) => setBudgets({ ...budgets, workspace: { ...budgets.workspace, storyTokenLimit: fromInput(e.target.value) } })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            min={0}
+            step={10000}
+            placeholder="No limit"
+          />
+          <p className="text-xs text-gray-400 mt-1">
+            Stories stop executing once their sessions have used this many tokens
+          </p>
+        </div>
+      </div>
+
+      {budgets.projects.length > 0 && (
+        <div style={{ marginBottom: '20px' }}>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Per-Project Budgets (USD)</h3>
+          <div className="divide-y divide-gray-100">
+            {budgets.projects.map((project) => (
+              <div key={project.id} className="py-2 flex items-center gap-3">
+                <span className="flex-1 text-sm text-gray-700">{project.name}</span>
+                <input
+                  type="number"
+                  value={toInput(project.dailyBudget)}
+                  onChange={(e) => updateProject(project.id, 'dailyBudget', e.target.value)}
+                  className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  min={0}
+                  placeholder="Daily"
+                />
+                <input
+                  type="number"
+                  value={toInput(project.monthlyBudget)}
+                  onChange={(e) => updateProject(project.id, 'monthlyBudget', e.target.value)}
+                  className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  min={0}
+                  placeholder="Monthly"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {budgets.usage.length > 0 && (
+        <div className="space-y-3" style={{ marginBottom: '20px' }}>
+          {budgets.usage.map((usage) => (
+            <UsageBar key={`${usage.scope}-${usage.scopeId}-${usage.period}`} usage={usage} />
+          ))}
+          <p className="text-xs text-gray-400">
+            Above 80% agents switch to a cheaper model; at 100% new sessions are refused.
+          </p>
+        </div>
+      )}
+
+      <div className="pt-4 border-t border-gray-100" style={{ marginBottom: '20px' }}>
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Budgets'}
+        </button>
+      </div>
+
+      {spend && (
+        <div className="pt-4 border-t border-gray-100">
+          <p className="text-sm text-gray-700 mb-4">
+            Last 30 days: <span className="font-semibold">{formatUsd(spend.total)}</span>{' '}
+            <span className="text-gray-400">({spend.totalTokens.toLocaleString()} tokens)</span>
+          </p>
+          <div className="responsive-grid responsive-grid-2">
+            <SpendTable
+              title="By Agent"
+              rows={spend.byAgent.map((a) => ({ key: a.agent, label: `${a.agent} (${a.sessions})`, cost: a.cost, tokens: a.tokens }))}
+            />
+            <SpendTable
+              title="By Project"
+              rows={spend.byProject.map((p) => ({ key: p.projectId || 'workspace', label: p.name, cost: p.cost, tokens: p.tokens }))}
+            />
+            <SpendTable
+              title="By Day"
+              rows={[...spend.byDay].reverse().map((d) => ({ key: d.date, label: d.date, cost: d.cost, tokens: d.tokens }))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function SettingsPage() {
   // Mock integrations - in real app, these would come from DB
   const [integrations] = useState([
@@ -94,7 +629,6 @@ export default function SettingsPage() {
   const [limits, setLimits] = useState({
     maxConcurrentAgents: 3,
     maxIterationsPerRun: 10,
-    dailyTokenBudget: 1000000,
     maxStoriesPerProject: 50,
   });
 
@@ -105,7 +639,7 @@ export default function SettingsPage() {
         <div>
           <h1 className="page-title">⚙️ Settings</h1>
           <p className="page-subtitle">
-            Manage integrations, feature flags, and system limits
+            Manage integrations, feature flags, plan usage, schedules, budgets, and system limits
           </p>
         </div>
       </div>
@@ -211,24 +745,6 @@ export default function SettingsPage() {
                 Safety limit for agent thinking loops
               </p>
             </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Daily Token Budget
-              </label>
-              <input
-                type="number"
-                value={limits.dailyTokenBudget}
-                onChange={(e) =>
-                  setLimits({ ...limits, dailyTokenBudget: parseInt(e.target.value) })
-                }
-                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                min={10000}
-                step={100000}
-              />
-              <p className="text-xs text-gray-400 mt-1">
-                Maximum tokens to spend per day
-              </p>
-            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Max Stories per Project
@@ -259,6 +775,24 @@ export default function SettingsPage() {
         </div>
       </section>
 
+      {/* Plan & Usage */}
+      <section style={{ marginBottom: '40px' }}>
+        <h2 style={{ fontSize: '18px', fontWeight: 600, marginBottom: '16px' }}>Plan & Usage</h2>
+        <PlanUsageSection />
+      </section>
+
+      {/* Schedules */}
+      <section style={{ marginBottom: '40px' }}>
+        <h2 style={{ fontSize: '18px', fontWeight: 600, marginBottom: '16px' }}>Schedules</h2>
+        <SchedulesSection />
+      </section>
+
+      {/* Budgets & Spend */}
+      <section style={{ marginBottom: '40px' }}>
+        <h2 style={{ fontSize: '18px', fontWeight: 600, marginBottom: '16px' }}>Budgets & Spend</h2>
+        <BudgetsSection />
+      </section>
+
       {/* Danger Zone */}
       <section style={{ marginBottom: '40px' }}>
         <h2 style={{ fontSize: '18px', fontWeight: 600, color: '#DC2626', marginBottom: '16px' }}>Danger Zone</h2>
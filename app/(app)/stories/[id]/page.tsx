@@ -31,8 +31,23 @@ interface Story {
   };
 }
 
+interface StoryPlan {
+  id: string;
+  status: string;
+  createdAt: string;
+  plan: {
+    summary: string;
+    approach: string;
+    files: Array<{ path: string; action: string; reason: string }>;
+    risks: string[];
+    estimatedTokens: number;
+    estimatedCost: number;
+  };
+}
+
 interface StoryResponse {
   story: Story | null;
+  plan?: StoryPlan | null;
   error?: string;
 }
 
@@ -56,6 +71,10 @@ function StatusBadge({ status }: { status: string }) {
     approved: { bg: '#D1FAE5', color: '#065F46', label: 'Approved' },
     in_progress: { bg: '#DBEAFE', color: '#1E40AF', label: 'In Progress' },
     completed: { bg: '#D1FAE5', color: '#065F46', label: 'Completed' },
+    pr_open: { bg: '#EDE9FE', color: '#5B21B6', label: 'PR Open' },
+    merged: { bg: '#D1FAE5', color: '#065F46', label: 'Merged' },
+    pr_closed: { bg: '#FEF3C7', color: '#92400E', label: 'PR Closed' },
+    no_op: { bg: '#F1F5F9', color: '#475569', label: 'No Changes' },
     failed: { bg: '#FEE2E2', color: '#991B1B', label: 'Failed' },
     rejected: { bg: '#FEF3C7', color: '#92400E', label: 'Rejected' },
   };
@@ -109,6 +128,7 @@ export default function StoryDetailPage() {
   const storyId = params.id as string;
   
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [planRequested, setPlanRequested] = useState(false);
   
   const { data, loading, error, refresh } = useApiCache<StoryResponse>(
     `/api/stories/${storyId}`,
@@ -120,7 +140,13 @@ export default function StoryDetailPage() {
     }
   );
   
+  const { data: session } = useApiCache<{ canExecute: boolean }>('/api/auth/session', {
+    ttl: 5 * 60 * 1000,
+  });
+  
   const story = data?.story;
+  const storyPlan = data?.plan;
+  const canExecute = session?.canExecute ?? false;
   
   const handleApprove = async () => {
     setActionLoading('approve');
@@ -158,6 +184,41 @@ export default function StoryDetailPage() {
     }
   };
   
+  const handleCancel = async () => {
+    setActionLoading('cancel');
+    try {
+      const res = await fetch(`/api/stories/${storyId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (res.ok) {
+        invalidateCache(`/api/stories/${storyId}`);
+        refresh();
+      }
+    } catch (err) {
+      console.error('Failed to cancel:', err);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+  
+  const handleRequestPlan = async () => {
+    setActionLoading('plan');
+    try {
+      const res = await fetch(`/api/stories/${storyId}/plan`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (res.ok) {
+        setPlanRequested(true);
+      }
+    } catch (err) {
+      console.error('Failed to request plan:', err);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+  
   const handleSetPriority = async (level: string) => {
     setActionLoading('priority');
     try {
@@ -290,6 +351,76 @@ export default function StoryDetailPage() {
             </p>
           </div>
           
+          {/* Plan Card */}
+          {(storyPlan || story.status === 'pending') && (
+            <div className="card" style={{ marginBottom: '16px' }}>
+              <div className="card-header">
+                <span className="card-title">📋 Execution Plan</span>
+                {storyPlan && (
+                  <span style={{ fontSize: '12px', color: 'var(--text-muted)' }}>
+                    {storyPlan.status === 'approved' ? 'Approved' : 'Awaiting approval'} • {formatDate(storyPlan.createdAt)}
+                  </span>
+                )}
+              </div>
+              {storyPlan ? (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '16px', fontSize: '14px', lineHeight: 1.6 }}>
+                  {storyPlan.plan.summary && <p>{storyPlan.plan.summary}</p>}
+                  <div>
+                    <div style={{ fontWeight: 600, marginBottom: '4px' }}>Approach</div>
+                    <p style={{ whiteSpace: 'pre-wrap' }}>{storyPlan.plan.approach}</p>
+                  </div>
+                  <div>
+                    <div style={{ fontWeight: 600, marginBottom: '4px' }}>Files</div>
+                    {storyPlan.plan.files.length > 0 ? (
+                      <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                        {storyPlan.plan.files.map((file) => (
+                          <li key={file.path}>
+                            <code style={{ fontFamily: "'DM Mono', monospace", fontSize: '13px' }}>{file.path}</code>
+                            {' '}({file.action}){file.reason ? ` - ${file.reason}` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p style={{ color: 'var(--text-muted)' }}>No file changes expected</p>
+                    )}
+                  </div>
+                  <div>
+                    <div style={{ fontWeight: 600, marginBottom: '4px' }}>Risks</div>
+                    {storyPlan.plan.risks.length > 0 ? (
+                      <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                        {storyPlan.plan.risks.map((risk, i) => <li key={i}>{risk}</li>)}
+                      </ul>
+                    ) : (
+                      <p style={{ color: 'var(--text-muted)' }}>None identified</p>
+                    )}
+                  </div>
+                  <div style={{ fontSize: '13px', color: 'var(--text-muted)' }}>
+                    Estimated cost: ~{storyPlan.plan.estimatedTokens.toLocaleString()} tokens (${storyPlan.plan.estimatedCost.toFixed(2)})
+                  </div>
+                </div>
+              ) : (
+                <div style={{ padding: '16px', textAlign: 'center', color: 'var(--text-muted)' }}>
+                  {planRequested ? (
+                    <p>⏳ Planning queued - the plan will appear here when ready</p>
+                  ) : (
+                    <>
+                      <p style={{ marginBottom: '12px' }}>
+                        See which files the agent would change, and how, before approving.
+                      </p>
+                      <button
+                        onClick={handleRequestPlan}
+                        disabled={actionLoading === 'plan' || !story.project.repo}
+                        className="btn btn-secondary"
+                      >
+                        {actionLoading === 'plan' ? '⏳ Queuing...' : '📋 Generate Plan'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          
           {/* Links Card */}
           <div className="card" style={{ marginBottom: '16px' }}>
             <div className="card-header">
@@ -425,7 +556,13 @@ export default function StoryDetailPage() {
               <span className="card-title">⚡ Actions</span>
             </div>
             <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-              {story.status === 'pending' && (
+              {story.status === 'pending' && !canExecute && (
+                <div style={{ fontSize: '13px', color: 'var(--text-muted)', textAlign: 'center' }}>
+                  Only workspace owners and admins can approve stories
+                </div>
+              )}
+              
+              {story.status === 'pending' && canExecute && (
                 <>
                   <button
                     onClick={handleApprove}
@@ -433,7 +570,9 @@ export default function StoryDetailPage() {
                     className="btn btn-primary"
                     style={{ width: '100%', justifyContent: 'center' }}
                   >
-                    {actionLoading === 'approve' ? '⏳ Approving...' : '✅ Approve & Execute'}
+                    {actionLoading === 'approve'
+                      ? '⏳ Approving...'
+                      : storyPlan ? '✅ Approve Plan & Execute' : '✅ Approve & Execute'}
                   </button>
                   <button
                     onClick={handleReject}
@@ -470,7 +609,18 @@ export default function StoryDetailPage() {
                 </div>
               )}
               
-              {story.status === 'completed' && (
+              {canExecute && (story.status === 'approved' || story.status === 'in_progress') && (
+                <button
+                  onClick={handleCancel}
+                  disabled={actionLoading === 'cancel'}
+                  className="btn btn-secondary"
+                  style={{ width: '100%', justifyContent: 'center' }}
+                >
+                  {actionLoading === 'cancel' ? '⏳ Cancelling...' : '⏹️ Cancel Execution'}
+                </button>
+              )}
+              
+              {(story.status === 'completed' || story.status === 'merged') && (
                 <div style={{ 
                   padding: '16px', 
                   background: '#D1FAE5', 
@@ -482,6 +632,18 @@ export default function StoryDetailPage() {
                 </div>
               )}
               
+              {story.status === 'no_op' && (
+                <div style={{ 
+                  padding: '16px', 
+                  background: '#F1F5F9', 
+                  borderRadius: '8px',
+                  textAlign: 'center',
+                  color: '#475569',
+                }}>
+                  ➖ No changes were needed
+                </div>
+              )}
+              
               {story.status === 'failed' && (
                 <div style={{ 
                   padding: '16px', 
@@ -10,7 +10,7 @@ interface Story {
   rationale: string;
   priority: 'high' | 'medium' | 'low';
   priorityLevel: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'rejected';
+  status: 'pending' | 'in_progress' | 'pr_open' | 'merged' | 'pr_closed' | 'completed' | 'no_op' | 'failed' | 'rejected';
   prUrl: string | null;
   linearTaskId: string | null;
   linearIssueUrl: string | null;
@@ -196,11 +196,18 @@ export default function StoriesPage() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
+      case 'merged':
         return 'bg-green-100 text-green-800';
+      case 'pr_open':
+        return 'bg-purple-100 text-purple-800';
+      case 'pr_closed':
+        return 'bg-orange-100 text-orange-800';
       case 'in_progress':
         return 'bg-blue-100 text-blue-800';
       case 'pending':
         return 'bg-gray-100 text-gray-800';
+      case 'no_op':
+        return 'bg-slate-100 text-slate-600';
       case 'failed':
         return 'bg-red-100 text-red-800';
       case 'rejected':
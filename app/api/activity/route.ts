@@ -12,11 +12,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db, prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
 type ActivityType = 'orchestrator' | 'scan' | 'completion' | 'pr_merged' | 'message';
 
 interface ActivityItem {
@@ -31,6 +30,10 @@ interface ActivityItem {
 }
 
 export async function GET(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     const { searchParams } = new URL(request.url);
     
@@ -71,7 +74,7 @@ export async function GET(request: NextRequest) {
       (!activityType || activityType === 'scan')
         ? prisma.scan.findMany({
             where: {
-              workspaceId: SINGLE_USER_WORKSPACE_ID,
+              workspaceId,
               scannedAt: { gte: sinceDate },
               ...(projectId ? { projectId } : {}),
             },
@@ -93,8 +96,8 @@ export async function GET(request: NextRequest) {
       (!activityType || activityType === 'completion' || activityType === 'pr_merged')
         ? db.story.findMany({
             where: {
-              project: { workspaceId: SINGLE_USER_WORKSPACE_ID },
-              status: { in: ['completed', 'in_progress'] },
+              project: { workspaceId },
+              status: { in: ['completed', 'in_progress', 'pr_open', 'merged', 'pr_closed'] },
               createdAt: { gte: sinceDate },
               ...(projectId ? { projectId } : {}),
             },
@@ -116,7 +119,7 @@ export async function GET(request: NextRequest) {
       
       // Get projects for reference
       db.project.findMany({
-        where: { workspaceId: SINGLE_USER_WORKSPACE_ID },
+        where: { workspaceId },
         select: { id: true, name: true },
       }),
     ]);
@@ -163,7 +166,9 @@ export async function GET(request: NextRequest) {
       activities.push({
         id: `story-${story.id}`,
         type: hasPr ? 'pr_merged' : 'completion',
-        title: hasPr ? 'PR Created' : 'Work Completed',
+        title: story.status === 'merged' ? 'PR Merged'
+          : story.status === 'pr_closed' ? 'PR Closed'
+          : hasPr ? 'PR Created' : 'Work Completed',
         description: story.title,
         project: story.project.name,
         projectId: story.project.id,
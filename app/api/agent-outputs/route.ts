@@ -1,12 +1,20 @@
 import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-// The hardcoded workspace ID for single-user mode
-const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000001';
+async function workspaceProjectIds(workspaceId: string): Promise<string[]> {
+  const projects = await prisma.project.findMany({ where: { workspaceId }, select: { id: true } });
+  return projects.map(p => p.id);
+}
 
 export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
@@ -16,16 +24,16 @@ export async function GET(request: Request) {
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
 
+    // Outputs belong to the workspace through their project or agent session
+    const workspaceScope: Prisma.AgentOutputWhereInput = {
+      OR: [
+        { projectId: { in: await workspaceProjectIds(workspaceId) } },
+        { agentSession: { workspaceId } },
+      ],
+    };
+
     // Build the where clause
-    const where: {
-      projectId?: string;
-      outputType?: string;
-      status?: string;
-      OR?: Array<{
-        title?: { contains: string; mode: 'insensitive' };
-        description?: { contains: string; mode: 'insensitive' };
-      }>;
-    } = {};
+    const where: Prisma.AgentOutputWhereInput = { AND: [workspaceScope] };
 
     if (projectId) {
       where.projectId = projectId;
@@ -81,17 +89,19 @@ export async function GET(request: Request) {
     // Get available filter options
     const outputTypes = await prisma.agentOutput.groupBy({
       by: ['outputType'],
+      where: workspaceScope,
       _count: { outputType: true },
     });
 
     const statuses = await prisma.agentOutput.groupBy({
       by: ['status'],
+      where: workspaceScope,
       _count: { status: true },
     });
 
     // Get projects that have outputs
     const projects = await prisma.project.findMany({
-      where: { workspaceId: SINGLE_USER_WORKSPACE_ID },
+      where: { workspaceId },
       select: {
         id: true,
         name: true,
@@ -154,6 +164,10 @@ export async function GET(request: Request) {
 
 // Update the status of an output (approve/reject)
 export async function PATCH(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     const body = await request.json();
     const { outputId, status, reviewNotes } = body;
@@ -173,6 +187,18 @@ export async function PATCH(request: Request) {
       );
     }
 
+    const output = await prisma.agentOutput.findUnique({
+      where: { id: outputId },
+      include: { agentSession: { select: { workspaceId: true } } },
+    });
+    const inWorkspace = output && (
+      output.agentSession.workspaceId === workspaceId ||
+      (output.projectId && (await workspaceProjectIds(workspaceId)).includes(output.projectId))
+    );
+    if (!inWorkspace) {
+      return NextResponse.json({ error: 'Output not found' }, { status: 404 });
+    }
+
     const updated = await prisma.agentOutput.update({
       where: { id: outputId },
       data: {
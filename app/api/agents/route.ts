@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { agentRegistry, type AgentDefinition } from '@/lib/agents/index';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
@@ -25,11 +26,16 @@ const AGENT_DISPLAY = {
   'api': { icon: '🔌', gradient: 'from-blue-600 to-indigo-700' },
 } as const;
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     // Get active agent sessions (running or recent)
     const activeSessions = await prisma.agentSession.findMany({
       where: {
+        workspaceId,
         OR: [
           { status: 'running' },
           { 
@@ -49,6 +55,7 @@ export async function GET() {
 
     // Get recent findings from stories
     const recentStories = await prisma.story.findMany({
+      where: { project: { workspaceId } },
       take: 50,
       orderBy: { createdAt: 'desc' },
       include: {
@@ -0,0 +1,32 @@
+// app/api/auth/callback/route.ts
+/**
+ * Magic Link Callback
+ *
+ * Exchanges the emailed token for a session cookie and redirects into the app.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+import { consumeLoginToken, createSession, sessionCookieOptions } from '@/lib/auth/session';
+import { SESSION_COOKIE, sameOriginPath } from '@/lib/auth/constants';
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+  const next = sameOriginPath(request.nextUrl.searchParams.get('next'), request.nextUrl.origin) || '/dashboard';
+
+  try {
+    const login = token ? await consumeLoginToken(token) : null;
+    if (!login) {
+      return NextResponse.redirect(new URL('/login?error=expired', request.url));
+    }
+
+    const session = await createSession(login.userId);
+    const response = NextResponse.redirect(new URL(next, request.nextUrl.origin));
+    response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expiresAt));
+    return response;
+  } catch (error) {
+    console.error('[Auth] Callback error:', error);
+    return NextResponse.redirect(new URL('/login?error=failed', request.url));
+  }
+}
@@ -0,0 +1,46 @@
+// app/api/auth/login/route.ts
+/**
+ * Magic Link Sign-In
+ *
+ * POST { email, next? } mails a single-use sign-in link. Outside production
+ * the link is also returned (and logged), so sign-in can be tested locally
+ * without an email provider.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+import { appUrl, normalizeEmail, sendLoginLink } from '@/lib/auth/session';
+import { sameOriginPath } from '@/lib/auth/constants';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' ? normalizeEmail(body.email) : '';
+    // Only same-site paths, so the link can't redirect elsewhere
+    const next = sameOriginPath(body.next, request.nextUrl.origin) ?? undefined;
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    const link = await sendLoginLink(email, appUrl(request), next);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Check your email for a sign-in link',
+      ...(process.env.NODE_ENV !== 'production' ? { devLink: link } : {}),
+    });
+  } catch (error) {
+    console.error('[Auth] Login error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send sign-in link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/auth/logout/route.ts
+/**
+ * Sign Out
+ *
+ * Deletes the session and clears the session and workspace cookies.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+import { deleteSession, sessionCookieOptions } from '@/lib/auth/session';
+import { SESSION_COOKIE, WORKSPACE_COOKIE } from '@/lib/auth/constants';
+
+export async function POST(request: NextRequest) {
+  try {
+    await deleteSession(request);
+  } catch (error) {
+    console.error('[Auth] Logout error:', error);
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions());
+  response.cookies.set(WORKSPACE_COOKIE, '', sessionCookieOptions());
+  return response;
+}
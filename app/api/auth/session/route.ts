@@ -0,0 +1,66 @@
+// app/api/auth/session/route.ts
+/**
+ * Current Session
+ *
+ * GET: Signed-in user, active workspace, role and all workspaces
+ * PUT: Switch the active workspace { workspaceId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+import { authorize, canExecuteStories, getWorkspaceRole, listWorkspaces } from '@/lib/auth/access';
+import { getSessionUser, sessionCookieOptions } from '@/lib/auth/session';
+import { SESSION_TTL_MS, WORKSPACE_COOKIE } from '@/lib/auth/constants';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const workspaces = auth.userId ? await listWorkspaces(auth.userId) : [];
+
+    return NextResponse.json({
+      user: { id: auth.userId, email: auth.email },
+      workspaceId: auth.workspaceId,
+      role: auth.role,
+      canExecute: canExecuteStories(auth.role),
+      workspaces,
+    });
+  } catch (error) {
+    console.error('[Auth] Session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const workspaceId = typeof body.workspaceId === 'string' ? body.workspaceId : '';
+    const role = workspaceId ? await getWorkspaceRole(user.userId, workspaceId) : null;
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Not a member of this workspace' },
+        { status: 403 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true, workspaceId, role });
+    response.cookies.set(WORKSPACE_COOKIE, workspaceId, sessionCookieOptions(new Date(Date.now() + SESSION_TTL_MS)));
+    return response;
+  } catch (error) {
+    console.error('[Auth] Workspace switch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch workspace' },
+      { status: 500 }
+    );
+  }
+}
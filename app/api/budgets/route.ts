@@ -0,0 +1,131 @@
+/**
+ * Budgets API
+ *
+ * GET: workspace and project limits with current usage
+ * PUT: update limits. Body: { workspace?: {...}, projects?: [{ id, ... }] }
+ *      where limits are { dailyBudget, monthlyBudget } in USD (null clears)
+ *      and workspace also accepts storyTokenLimit.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getBudgetUsage } from '@/lib/budgets';
+import { authorize } from '@/lib/auth/access';
+
+export const dynamic = 'force-dynamic';
+
+type LimitInput = { dailyBudget?: number | null; monthlyBudget?: number | null };
+
+/**
+ * Validate a USD or token limit: null clears it, otherwise a non-negative number
+ */
+function parseLimit(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`Invalid limit: ${value}`);
+  return n;
+}
+
+function limitData(input: LimitInput) {
+  return {
+    dailyBudget: parseLimit(input.dailyBudget),
+    monthlyBudget: parseLimit(input.monthlyBudget),
+  };
+}
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
+  try {
+    const [workspace, projects] = await Promise.all([
+      db.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { dailyBudget: true, monthlyBudget: true, storyTokenLimit: true },
+      }),
+      db.project.findMany({
+        where: { workspaceId },
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true, dailyBudget: true, monthlyBudget: true },
+      }),
+    ]);
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const workspaceUsage = await getBudgetUsage(workspaceId);
+    const projectUsage = await Promise.all(
+      projects
+        .filter(p => p.dailyBudget !== null || p.monthlyBudget !== null)
+        .map(p => getBudgetUsage(workspaceId, p.id))
+    );
+
+    return NextResponse.json({
+      workspace: {
+        dailyBudget: workspace.dailyBudget === null ? null : Number(workspace.dailyBudget),
+        monthlyBudget: workspace.monthlyBudget === null ? null : Number(workspace.monthlyBudget),
+        storyTokenLimit: workspace.storyTokenLimit,
+      },
+      projects: projects.map(p => ({
+        id: p.id,
+        name: p.name,
+        dailyBudget: p.dailyBudget === null ? null : Number(p.dailyBudget),
+        monthlyBudget: p.monthlyBudget === null ? null : Number(p.monthlyBudget),
+      })),
+      usage: [
+        ...workspaceUsage,
+        ...projectUsage.flat().filter(u => u.scope === 'project'),
+      ],
+    });
+  } catch (error) {
+    console.error('[Budgets API] Failed to load budgets:', error);
+    return NextResponse.json({ error: 'Failed to load budgets' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const auth = await authorize(request, { role: 'admin' });
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
+  let body: { workspace?: LimitInput & { storyTokenLimit?: number | null }; projects?: Array<LimitInput & { id: string }> };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  let workspaceData;
+  let projectUpdates;
+  try {
+    if (body.workspace) {
+      const storyTokenLimit = parseLimit(body.workspace.storyTokenLimit);
+      workspaceData = {
+        ...limitData(body.workspace),
+        storyTokenLimit: storyTokenLimit === null || storyTokenLimit === undefined ? storyTokenLimit : Math.round(storyTokenLimit),
+        // New limits start a fresh alert cycle
+        budgetAlerts: {},
+      };
+    }
+    projectUpdates = (body.projects || []).map(p => ({ id: p.id, data: { ...limitData(p), budgetAlerts: {} } }));
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid limits' }, { status: 400 });
+  }
+
+  try {
+    if (workspaceData) {
+      await db.workspace.update({ where: { id: workspaceId }, data: workspaceData });
+    }
+    for (const { id, data } of projectUpdates) {
+      await db.project.updateMany({ where: { id, workspaceId }, data });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Budgets API] Failed to update budgets:', error);
+    return NextResponse.json({ error: 'Failed to update budgets' }, { status: 500 });
+  }
+}
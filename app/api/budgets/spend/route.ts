@@ -0,0 +1,34 @@
+/**
+ * Spend Breakdown API
+ *
+ * GET /api/budgets/spend?days=30&projectId=...
+ * Returns spend by agent, project and day.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSpendBreakdown } from '@/lib/budgets';
+import { authorize } from '@/lib/auth/access';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
+  const { searchParams } = new URL(request.url);
+  const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30', 10) || 30, 1), 365);
+  const projectId = searchParams.get('projectId') || undefined;
+
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  try {
+    const breakdown = await getSpendBreakdown(workspaceId, { since, projectId });
+    return NextResponse.json(breakdown);
+  } catch (error) {
+    console.error('[Budgets API] Failed to load spend:', error);
+    return NextResponse.json({ error: 'Failed to load spend' }, { status: 500 });
+  }
+}
@@ -7,13 +7,11 @@
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// Default workspace for MVP (single-tenant)
-const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
 interface MarkReadRequest {
   beforeTimestamp?: string; // ISO timestamp
   messageIds?: string[]; // Or specific message IDs
@@ -21,6 +19,10 @@ interface MarkReadRequest {
 }
 
 export async function POST(req: Request) {
+  const auth = await authorize(req);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     const body: MarkReadRequest = await req.json();
     const { beforeTimestamp, messageIds, conversationId = 'main' } = body;
@@ -33,7 +35,7 @@ export async function POST(req: Request) {
       const result = await prisma.chatMessage.updateMany({
         where: {
           id: { in: messageIds },
-          workspaceId: DEFAULT_WORKSPACE_ID,
+          workspaceId,
           readAt: null,
         },
         data: { readAt: now },
@@ -45,7 +47,7 @@ export async function POST(req: Request) {
       
       const result = await prisma.chatMessage.updateMany({
         where: {
-          workspaceId: DEFAULT_WORKSPACE_ID,
+          workspaceId,
           conversationId,
           role: 'assistant', // Only mark assistant messages
           readAt: null,
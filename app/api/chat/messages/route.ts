@@ -7,13 +7,11 @@
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// Default workspace for MVP (single-tenant)
-const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
 // Time window constants
 const TIME_WINDOWS: Record<string, number> = {
   '1h': 60 * 60 * 1000,
@@ -22,6 +20,10 @@ const TIME_WINDOWS: Record<string, number> = {
 };
 
 export async function GET(req: Request) {
+  const auth = await authorize(req);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     const { searchParams } = new URL(req.url);
     
@@ -40,7 +42,7 @@ export async function GET(req: Request) {
 
     // Build query
     const where: any = {
-      workspaceId: DEFAULT_WORKSPACE_ID,
+      workspaceId,
       conversationId,
     };
 
@@ -18,13 +18,12 @@ import Redis from 'ioredis';
 import { prisma } from '@/lib/db';
 import { parseQuickCommand } from '@/lib/agents/chat';
 import { syncMessageToSlack } from '@/lib/chat-slack-sync';
+import { authorize, canExecuteStories } from '@/lib/auth/access';
+import { reserveScans, releaseScans, quotaExceededResponse, QuotaExceededError } from '@/lib/quotas';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// Default workspace for MVP (single-tenant)
-const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
 // Redis connection for BullMQ
 let chatQueue: Queue | null = null;
 
@@ -49,6 +48,12 @@ interface SendMessageRequest {
 }
 
 export async function POST(req: Request) {
+  const auth = await authorize(req);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+  // Scans reserved for this message and not yet queued
+  let reserved = 0;
+
   try {
     const body: SendMessageRequest = await req.json();
     const { content, projectId, conversationId = 'main' } = body;
@@ -60,13 +65,33 @@ export async function POST(req: Request) {
       );
     }
 
+    if (projectId) {
+      const project = await prisma.project.findFirst({ where: { id: projectId, workspaceId }, select: { id: true } });
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+    }
+
     // Parse for quick commands
     const command = parseQuickCommand(content);
+
+    // Approving and cancelling run stories, so they need the same role as the buttons
+    if ((command.type === 'approval' || command.type === 'cancel') && !canExecuteStories(auth.role)) {
+      return NextResponse.json(
+        { error: `Only owners and admins can ${command.type === 'approval' ? 'approve' : 'cancel'} stories` },
+        { status: 403 }
+      );
+    }
+
+    // "analyze security on X" is a scan by another name
+    if (command.type === 'analyze') {
+      reserved = await reserveScans(workspaceId, 1);
+    }
     
     // Create user message
     const userMessage = await prisma.chatMessage.create({
       data: {
-        workspaceId: DEFAULT_WORKSPACE_ID,
+        workspaceId,
         conversationId,
         role: 'user',
         content: content.trim(),
@@ -81,7 +106,7 @@ export async function POST(req: Request) {
     // Create placeholder assistant message (will be filled by worker)
     const assistantMessage = await prisma.chatMessage.create({
       data: {
-        workspaceId: DEFAULT_WORKSPACE_ID,
+        workspaceId,
         conversationId,
         role: 'assistant',
         content: '',
@@ -100,7 +125,7 @@ export async function POST(req: Request) {
       {
         messageId: assistantMessage.id,
         userMessageId: userMessage.id,
-        workspaceId: DEFAULT_WORKSPACE_ID,
+        workspaceId,
         conversationId,
         userContent: content.trim(),
         projectId,
@@ -116,6 +141,7 @@ export async function POST(req: Request) {
       }
     );
 
+    reserved = 0;
     console.log(`[Chat API] Queued message ${assistantMessage.id} for processing`);
 
     // Sync user message to Slack (async, don't block)
@@ -142,6 +168,10 @@ export async function POST(req: Request) {
       command: command.type !== 'none' ? command : undefined,
     });
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
+    await releaseScans(workspaceId, reserved);
     console.error('[Chat API] Error creating message:', error);
     return NextResponse.json(
       { error: 'Failed to create message' },
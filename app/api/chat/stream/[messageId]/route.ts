@@ -15,6 +15,7 @@
 
 import { prisma } from '@/lib/db';
 import Redis from 'ioredis';
+import { authorize } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -28,7 +29,18 @@ export async function GET(
   req: Request,
   { params }: { params: { messageId: string } }
 ) {
+  const auth = await authorize(req);
+  if (!auth.ok) return auth.response;
+
   const messageId = params.messageId;
+
+  const owned = await prisma.chatMessage.findFirst({
+    where: { id: messageId, workspaceId: auth.workspaceId },
+    select: { id: true },
+  });
+  if (!owned) {
+    return Response.json({ error: 'Message not found' }, { status: 404 });
+  }
   
   const encoder = new TextEncoder();
   
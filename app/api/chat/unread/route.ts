@@ -7,19 +7,21 @@
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// Default workspace for MVP (single-tenant)
-const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
 
-export async function GET() {
   try {
     // Count assistant messages that haven't been read
     const unreadCount = await prisma.chatMessage.count({
       where: {
-        workspaceId: DEFAULT_WORKSPACE_ID,
+        workspaceId,
         role: 'assistant',
         readAt: null,
         isProcessing: false, // Don't count messages still being generated
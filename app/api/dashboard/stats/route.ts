@@ -12,12 +12,15 @@
 
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
 
-export async function GET() {
   try {
     // Get current date boundaries for "this week" calculation
     const now = new Date();
@@ -37,7 +40,7 @@ export async function GET() {
       db.story.groupBy({
         by: ['status'],
         where: {
-          project: { workspaceId: SINGLE_USER_WORKSPACE_ID },
+          project: { workspaceId },
         },
         _count: { status: true },
       }),
@@ -45,7 +48,7 @@ export async function GET() {
       // 2. Get top 5 high-priority stories for "Today's Focus"
       db.story.findMany({
         where: {
-          project: { workspaceId: SINGLE_USER_WORKSPACE_ID },
+          project: { workspaceId },
           status: { in: ['pending', 'approved', 'in_progress'] },
         },
         select: {
@@ -69,21 +72,21 @@ export async function GET() {
       // 3. Count stories completed this week
       db.story.count({
         where: {
-          project: { workspaceId: SINGLE_USER_WORKSPACE_ID },
-          status: 'completed',
+          project: { workspaceId },
+          status: { in: ['completed', 'merged'] },
           executedAt: { gte: startOfWeek },
         },
       }),
 
       // 4. Get project count for launch score calculation
       db.project.count({
-        where: { workspaceId: SINGLE_USER_WORKSPACE_ID },
+        where: { workspaceId },
       }),
 
       // 5. Get recent activity summary (last 24h)
       db.story.count({
         where: {
-          project: { workspaceId: SINGLE_USER_WORKSPACE_ID },
+          project: { workspaceId },
           createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
         },
       }),
@@ -98,7 +101,7 @@ export async function GET() {
     // Calculate launch score based on completion rate and project health
     // This is a simplified calculation - in production would use project snapshots
     const totalStories = Object.values(statusMap).reduce((sum, count) => sum + count, 0);
-    const completedStories = statusMap['completed'] || 0;
+    const completedStories = (statusMap['completed'] || 0) + (statusMap['merged'] || 0);
     const baseScore = totalStories > 0 
       ? Math.round((completedStories / totalStories) * 60) 
       : 50;
@@ -0,0 +1,29 @@
+/**
+ * GitHub App Install
+ *
+ * GET: send an admin to GitHub to install the App for their workspace. The
+ * workspace and user travel in signed state to /api/github/setup, which links
+ * the installation once GitHub confirms the user can access it.
+ */
+
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/access';
+import { signState } from '@/lib/crypto';
+import { getAppInstallUrl } from '@/lib/github';
+
+export const dynamic = 'force-dynamic';
+
+const INSTALL_STATE_TTL_MS = 15 * 60 * 1000;
+
+export async function GET(request: Request) {
+  const auth = await authorize(request, { role: 'admin' });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const state = signState(`${auth.workspaceId}:${auth.userId}`, INSTALL_STATE_TTL_MS);
+    return NextResponse.redirect(getAppInstallUrl(state));
+  } catch (error) {
+    console.error('[GitHub Install] Failed to start install:', error);
+    return NextResponse.json({ error: 'GitHub App install is not configured' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * GitHub App Setup Callback
+ *
+ * GitHub redirects here after the App is installed (the App's setup URL, with
+ * "Request user authorization (OAuth) during installation" enabled). The
+ * installation is linked to the workspace in the signed state only if:
+ * - the state is valid and was issued to the signed-in user, who is still an
+ *   admin of that workspace
+ * - the GitHub user behind the OAuth code can access the installation
+ * installation_id alone proves nothing, since anyone can put it in the URL.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getWorkspaceRole, hasRole } from '@/lib/auth/access';
+import { getSessionUser } from '@/lib/auth/session';
+import { verifyState } from '@/lib/crypto';
+import { userCanAccessInstallation } from '@/lib/github';
+import { updateWorkspaceIntegrations } from '@/lib/integrations';
+
+export const dynamic = 'force-dynamic';
+
+function backToSettings(request: NextRequest, result: string) {
+  return NextResponse.redirect(new URL(`/settings?github=${result}`, request.nextUrl.origin));
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const installationId = params.get('installation_id');
+  const code = params.get('code');
+  const state = params.get('state');
+
+  // Org owners approve installs requested by members; they are linked from a new install flow
+  if (params.get('setup_action') === 'request') {
+    return backToSettings(request, 'requested');
+  }
+  if (!installationId || !/^\d+$/.test(installationId) || !code || !state) {
+    return backToSettings(request, 'invalid');
+  }
+
+  const user = await getSessionUser(request);
+  const [workspaceId, userId] = (verifyState(state) || '').split(':');
+  if (!user || !workspaceId || userId !== user.userId) {
+    return backToSettings(request, 'invalid');
+  }
+  const role = await getWorkspaceRole(user.userId, workspaceId);
+  if (!role || !hasRole(role, 'admin')) {
+    return backToSettings(request, 'forbidden');
+  }
+
+  try {
+    if (!(await userCanAccessInstallation(code, installationId))) {
+      console.warn(`[GitHub Setup] User ${user.userId} can't access installation ${installationId}`);
+      return backToSettings(request, 'forbidden');
+    }
+
+    await updateWorkspaceIntegrations(workspaceId, { githubInstallationId: installationId });
+    return backToSettings(request, 'connected');
+  } catch (error) {
+    // An installation belongs to one workspace
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return backToSettings(request, 'taken');
+    }
+    console.error('[GitHub Setup] Failed to link installation:', error);
+    return backToSettings(request, 'failed');
+  }
+}
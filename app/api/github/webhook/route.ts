@@ -0,0 +1,121 @@
+/**
+ * GitHub Webhook Handler
+ *
+ * Tracks the PRs opened by the execution worker after creation:
+ * - Opened / reopened / review requested
+ * - Reviews (changes requested, approved)
+ * - Check suite results, aggregated per PR
+ * - Merged or closed, moving the story to `merged` / `pr_closed`
+ * - Human reviews by repo owners, members or collaborators, which queue a
+ *   follow-up run on the PR branch (outsiders can't instruct the agent)
+ *
+ * Pushes to a repo's default branch queue the 'on_push' scans of the
+ * projects using it (see lib/schedules.ts).
+ *
+ * Transitions are synced to Linear and Slack (see lib/stories/pr-lifecycle.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+import crypto from 'crypto';
+import { db as prisma } from '@/lib/db';
+import { parseGitHubEvent, parseReviewFollowUp, applyPullRequestEvent } from '@/lib/stories/pr-lifecycle';
+import { enqueueReviewFollowUp } from '@/lib/queue/execution';
+import { enqueuePushScans } from '@/lib/schedules';
+
+/**
+ * Verify GitHub webhook signature (X-Hub-Signature-256)
+ */
+function verifySignature(payload: string, signature: string): boolean {
+  const webhookSecret = process.env.GITHUB_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    console.error('GITHUB_WEBHOOK_SECRET not configured');
+    return false;
+  }
+
+  const expected = `sha256=${crypto.createHmac('sha256', webhookSecret).update(payload).digest('hex')}`;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Handle GitHub webhook events
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+    const signature = request.headers.get('x-hub-signature-256') || '';
+    const eventName = request.headers.get('x-github-event') || '';
+
+    // Verify webhook signature
+    if (!verifySignature(rawBody, signature)) {
+      console.error('[GitHubWebhook] Invalid webhook signature');
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      );
+    }
+
+    if (eventName === 'ping') {
+      return NextResponse.json({ received: true, pong: true });
+    }
+
+    const payload = JSON.parse(rawBody);
+
+    if (eventName === 'push') {
+      const defaultRef = `refs/heads/${payload.repository?.default_branch}`;
+      if (payload.deleted || payload.ref !== defaultRef || !payload.repository?.full_name) {
+        return NextResponse.json({ received: true });
+      }
+      const scans = await enqueuePushScans(payload.repository.full_name);
+      return NextResponse.json({ success: true, scans });
+    }
+
+    const events = parseGitHubEvent(eventName, payload);
+    const followUp = parseReviewFollowUp(eventName, payload);
+
+    if (events.length === 0 && !followUp) {
+      return NextResponse.json({ received: true });
+    }
+
+    const updated = [];
+    for (const event of events) {
+      const result = await applyPullRequestEvent(event);
+      if (result) updated.push({ ...result, event: event.kind });
+    }
+
+    // Queue a run that addresses the review on the same branch
+    let reviewJobId: string | null = null;
+    if (followUp) {
+      const story = await prisma.story.findFirst({
+        where: { prUrl: followUp.prUrl },
+        select: { id: true },
+      });
+      if (story) {
+        reviewJobId = await enqueueReviewFollowUp(story.id, followUp);
+      }
+    }
+
+    return NextResponse.json({ success: true, updated, reviewJobId });
+  } catch (error) {
+    console.error('Error processing GitHub webhook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Health check endpoint
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: 'ok',
+    webhook: 'github',
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Integrations API
+ *
+ * GET: the workspace's Slack, Linear and GitHub connections (never secrets)
+ * PUT: connect or disconnect. Body: { githubInstallationId?: null, slack?: { botToken,
+ *      channelId? }, linear?: { apiKey, teamId? } } where null disconnects.
+ *      Credentials are verified with the provider before they are stored.
+ *      GitHub installations are only linked through the App install flow
+ *      (/api/github/install), which proves the user controls the installation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { authorize } from '@/lib/auth/access';
+import { getWorkspaceIntegrations, updateWorkspaceIntegrations, type IntegrationUpdate } from '@/lib/integrations';
+import { verifySlackToken } from '@/lib/slack';
+import { verifyLinearApiKey } from '@/lib/linear';
+
+export const dynamic = 'force-dynamic';
+
+type IntegrationsBody = {
+  githubInstallationId?: null;
+  slack?: { botToken?: string; channelId?: string | null } | null;
+  linear?: { apiKey?: string; teamId?: string | null } | null;
+};
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const integrations = await getWorkspaceIntegrations(auth.workspaceId);
+
+    return NextResponse.json({
+      github: {
+        connected: !!integrations.githubInstallationId || integrations.usesEnvFallback,
+        installationId: integrations.githubInstallationId,
+      },
+      slack: {
+        connected: !!integrations.slack,
+        teamId: integrations.slack?.teamId ?? null,
+        channel: integrations.slack?.channel ?? null,
+      },
+      linear: {
+        connected: !!integrations.linear,
+        orgId: integrations.linear?.orgId ?? null,
+        teamId: integrations.linear?.teamId ?? null,
+      },
+      usesEnvFallback: integrations.usesEnvFallback,
+    });
+  } catch (error) {
+    console.error('[Integrations API] Failed to load integrations:', error);
+    return NextResponse.json({ error: 'Failed to load integrations' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const auth = await authorize(request, { role: 'admin' });
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
+  let body: IntegrationsBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  // Verify each credential; team and org IDs come from the provider, not the client
+  const update: IntegrationUpdate = {};
+  try {
+    if (body.githubInstallationId === null) {
+      update.githubInstallationId = null;
+    } else if (body.githubInstallationId !== undefined) {
+      throw new Error('Connect GitHub by installing the App (GET /api/github/install)');
+    }
+
+    if (body.slack === null) {
+      update.slack = null;
+    } else if (body.slack) {
+      if (!body.slack.botToken) throw new Error('slack.botToken is required');
+      const { teamId } = await verifySlackToken(body.slack.botToken);
+      update.slack = { teamId, botToken: body.slack.botToken, channelId: body.slack.channelId };
+    }
+
+    if (body.linear === null) {
+      update.linear = null;
+    } else if (body.linear) {
+      if (!body.linear.apiKey) throw new Error('linear.apiKey is required');
+      const { orgId } = await verifyLinearApiKey(body.linear.apiKey);
+      update.linear = { orgId, apiKey: body.linear.apiKey, teamId: body.linear.teamId };
+    }
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid credentials' }, { status: 400 });
+  }
+
+  try {
+    await updateWorkspaceIntegrations(workspaceId, update);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // Slack teams and Linear orgs belong to one workspace
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'Already connected to another workspace' }, { status: 409 });
+    }
+    console.error('[Integrations API] Failed to update integrations:', error);
+    return NextResponse.json({ error: 'Failed to update integrations' }, { status: 500 });
+  }
+}
@@ -6,6 +6,7 @@
  * - Status changes trigger story updates
  * - "In Progress" status triggers execution queue (with MULTI_SOURCE_APPROVAL flag)
  * - Comments are captured as priority signals
+ * - Events are routed to the workspace that connected the Linear organization
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -17,10 +18,13 @@ import { featureFlags } from '@/lib/config/feature-flags';
 import { enqueueStoryForExecution } from '@/lib/queue/execution';
 import { processPrioritySignal } from '@/lib/priority/classifier';
 import { mapLinearToPriorityLevel } from '@/lib/linear';
+import { findWorkspaceForLinearOrg } from '@/lib/integrations';
+import { PR_STATUSES } from '@/lib/stories/pr-lifecycle';
 
 interface LinearWebhookPayload {
   action: string;
   type: string;
+  organizationId?: string;
   data: {
     id: string;
     title?: string;
@@ -51,7 +55,7 @@ interface LinearWebhookPayload {
 /**
  * Handle Linear comments as priority signals
  */
-async function handleLinearComment(payload: LinearWebhookPayload): Promise<void> {
+async function handleLinearComment(payload: LinearWebhookPayload, workspaceId: string): Promise<void> {
   const commentBody = payload.data.body;
   const issueId = payload.data.issue?.id;
   
@@ -62,7 +66,7 @@ async function handleLinearComment(payload: LinearWebhookPayload): Promise<void>
 
   // Find the story for this Linear issue
   const story = await prisma.story.findFirst({
-    where: { linearTaskId: issueId },
+    where: { linearTaskId: issueId, workspaceId },
     include: {
       project: {
         select: { workspaceId: true },
@@ -169,6 +173,12 @@ export async function POST(request: NextRequest) {
 
     const payload: LinearWebhookPayload = JSON.parse(rawBody);
 
+    const workspaceId = await findWorkspaceForLinearOrg(payload.organizationId);
+    if (!workspaceId) {
+      console.warn(`[LinearWebhook] No workspace for Linear organization ${payload.organizationId} - ignoring`);
+      return NextResponse.json({ received: true });
+    }
+
     // Handle issue update events
     if (payload.type === 'Issue' && payload.action === 'update') {
       const linearTaskId = payload.data.id;
@@ -181,6 +191,7 @@ export async function POST(request: NextRequest) {
       const story = await prisma.story.findFirst({
         where: {
           linearTaskId,
+          workspaceId,
         },
         include: {
           project: {
@@ -228,8 +239,11 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Handle status change
-      if (newState && payload.updatedFrom?.stateId) {
+      // Handle status change. Once a PR exists GitHub owns the status, and
+      // Linear updates are usually our own sync echoing back.
+      if (newState && payload.updatedFrom?.stateId && PR_STATUSES.includes(story.status)) {
+        console.log(`[LinearWebhook] Ignoring Linear state ${newState.name} for story ${story.id} (${story.status})`);
+      } else if (newState && payload.updatedFrom?.stateId) {
         const newStatus = mapLinearStateToStatus(newState.type);
         updates.status = newStatus;
 
@@ -278,7 +292,7 @@ export async function POST(request: NextRequest) {
 
     // Handle Linear comments - capture as priority signals
     if (payload.type === 'Comment' && payload.action === 'create') {
-      await handleLinearComment(payload);
+      await handleLinearComment(payload, workspaceId);
       return NextResponse.json({ received: true, processed: 'comment' });
     }
 
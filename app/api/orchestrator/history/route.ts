@@ -1,11 +1,17 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     const runs = await db.orchestratorRun.findMany({
+      where: { workspaceId },
       orderBy: {
         startedAt: 'desc',
       },
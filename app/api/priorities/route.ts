@@ -10,15 +10,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { classifyPrioritySignal } from '@/lib/priority/classifier';
 import { updateLinearTaskPriority, mapPriorityToLinear } from '@/lib/linear';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-// Single-user mode workspace ID
-const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
 export async function GET(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   const searchParams = request.nextUrl.searchParams;
-  const workspaceId = searchParams.get('workspaceId') || SINGLE_USER_WORKSPACE_ID;
   const projectId = searchParams.get('projectId');
   const page = parseInt(searchParams.get('page') || '1', 10);
   const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 100);
@@ -166,13 +167,28 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     const body = await request.json();
     const { projectId, storyId, priorityLevel, source = 'dashboard' } = body;
-    const workspaceId = body.workspaceId || SINGLE_USER_WORKSPACE_ID;
+
+    if (projectId) {
+      const project = await db.project.findFirst({ where: { id: projectId, workspaceId }, select: { id: true } });
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+    }
 
     // If storyId is provided, update story priority directly
     if (storyId) {
+      const story = await db.story.findFirst({ where: { id: storyId, project: { workspaceId } }, select: { id: true } });
+      if (!story) {
+        return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+      }
+
       const classified = await classifyPrioritySignal(
         priorityLevel ? `[${priorityLevel}] Manual override` : 'Manual priority change'
       );
@@ -206,7 +222,7 @@ export async function POST(request: NextRequest) {
       if (updatedStory.linearTaskId) {
         try {
           const linearPriority = mapPriorityToLinear(priorityLevel || classified.priorityLevel);
-          await updateLinearTaskPriority(updatedStory.linearTaskId, linearPriority);
+          await updateLinearTaskPriority(updatedStory.linearTaskId, linearPriority, workspaceId);
           linearSynced = true;
           console.log(`[PrioritiesAPI] Synced priority ${priorityLevel} to Linear task ${updatedStory.linearTaskId}`);
         } catch (linearError) {
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 import { agentRegistry, type AgentDefinition } from '@/lib/agents/index';
 
 export const dynamic = 'force-dynamic';
@@ -41,8 +42,19 @@ export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
   try {
     const { id: projectId } = await params;
+
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, workspaceId: auth.workspaceId },
+      select: { id: true },
+    });
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '20');
     const includeCompleted = searchParams.get('includeCompleted') !== 'false';
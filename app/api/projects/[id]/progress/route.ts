@@ -12,6 +12,7 @@ import { NextRequest, NextResponse } from 'next/server';
 
 export const dynamic = 'force-dynamic';
 import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 import { 
   aggregateProjectState, 
   LAUNCH_STAGES,
@@ -30,23 +31,9 @@ interface ChecklistItem {
   label: string;
   complete: boolean;
   category: string;
+  weight: number;
 }
 
-const CHECKLIST_LABELS: Record<string, { label: string; category: string }> = {
-  repository_exists: { label: 'Repository exists', category: 'core' },
-  has_deployment: { label: 'Deployment configured', category: 'core' },
-  domain_configured: { label: 'Domain configured', category: 'core' },
-  ssl_valid: { label: 'SSL certificate valid', category: 'core' },
-  auth_working: { label: 'Authentication working', category: 'core' },
-  security_passing: { label: 'Security scan passing', category: 'quality' },
-  performance_passing: { label: 'Performance passing', category: 'quality' },
-  seo_optimized: { label: 'SEO optimized', category: 'quality' },
-  error_monitoring: { label: 'Error monitoring', category: 'quality' },
-  analytics_installed: { label: 'Analytics installed', category: 'growth' },
-  payments_configured: { label: 'Payments configured', category: 'growth' },
-  has_users: { label: 'Has active users', category: 'growth' },
-};
-
 const STAGE_NAMES: Record<LaunchStage, string> = {
   idea: 'Idea',
   mvp: 'MVP',
@@ -76,7 +63,8 @@ function generateRecommendations(
   ];
 
   for (const item of priorityItems) {
-    if (!checklist[item.key]) {
+    // Excluded items are absent from the checklist, so only recommend known gaps
+    if (checklist[item.key] === false) {
       recommendations.push(item.msg);
       if (recommendations.length >= 4) break;
     }
@@ -106,12 +94,15 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
   try {
     const { id } = await params;
 
     // Verify project exists
-    const project = await prisma.project.findUnique({
-      where: { id },
+    const project = await prisma.project.findFirst({
+      where: { id, workspaceId: auth.workspaceId },
       select: { id: true, name: true },
     });
 
@@ -131,12 +122,13 @@ export async function GET(
       current: index === currentStageIndex,
     }));
 
-    // Build checklist items
+    // Build checklist items (includes the project's custom items, minus exclusions)
     const checklist: ChecklistItem[] = Object.entries(state.launchChecklist).map(
       ([key, complete]) => ({
         id: key,
-        label: CHECKLIST_LABELS[key]?.label || key,
-        category: CHECKLIST_LABELS[key]?.category || 'other',
+        label: state.checklistItems[key]?.label || key,
+        category: state.checklistItems[key]?.category || 'other',
+        weight: state.checklistItems[key]?.weight ?? 0,
         complete: complete as boolean,
       })
     );
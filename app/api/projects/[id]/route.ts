@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
@@ -7,12 +8,15 @@ export async function GET(
   request: Request,
   context: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
   try {
     // In Next.js 15, params is a Promise that needs to be awaited
     const { id: projectId } = await context.params;
 
-    const project = await db.project.findUnique({
-      where: { id: projectId },
+    const project = await db.project.findFirst({
+      where: { id: projectId, workspaceId: auth.workspaceId },
       select: {
         id: true,
         name: true,
@@ -230,14 +234,15 @@ function generateHistory(stories: any[], scans: any[], agentSessions: any[] = []
 
   // Add events from stories
   stories.forEach((story) => {
-    if (story.status === 'completed' && story.prUrl) {
+    if ((story.status === 'merged' || story.status === 'completed') && story.prUrl) {
+      const mergedAt = story.prMergedAt || story.createdAt;
       events.push({
         id: `pr-${story.id}`,
         type: 'pr_merged',
         title: `PR Merged: ${story.title}`,
         description: 'Code Generation Agent completed the implementation.',
         status: 'completed',
-        timestamp: story.createdAt.toISOString ? story.createdAt.toISOString() : story.createdAt,
+        timestamp: mergedAt.toISOString ? mergedAt.toISOString() : mergedAt,
         metadata: { prUrl: story.prUrl, storyId: story.id }
       });
     } else if (story.status === 'approved') {
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { Queue } from 'bullmq';
 import Redis from 'ioredis';
+import { listScanners, canRunScanner } from '@/lib/scanners/registry';
+import { authorize } from '@/lib/auth/access';
+import { reserveScans, releaseScans, quotaExceededResponse, QuotaExceededError } from '@/lib/quotas';
 
 export const dynamic = 'force-dynamic';
 
@@ -23,57 +26,71 @@ export async function POST(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
   try {
     // In Next.js 15, params is a Promise that needs to be awaited
     const { id: projectId } = await context.params;
 
     // Get project
-    const project = await db.project.findUnique({
-      where: { id: projectId }
+    const project = await db.project.findFirst({
+      where: { id: projectId, workspaceId: auth.workspaceId }
     });
 
     if (!project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    // Queue all scan types for this project
-    const scanTypes = ['domain', 'seo', 'analytics', 'vercel', 'performance', 'screenshot', 'npm_audit', 'secrets'];
+    // Queue every registered scanner the project has inputs for
+    // (e.g. skip repo scanners if no repo), as far as today's allowance goes
+    const scanTypes = listScanners()
+      .filter(scanner => canRunScanner(scanner, project))
+      .map(scanner => scanner.type);
+    const granted = await reserveScans(auth.workspaceId, scanTypes.length, { partial: true });
     const queuedScans = [];
 
-    for (const scanType of scanTypes) {
-      // Skip npm_audit and secrets if no repo
-      if ((scanType === 'npm_audit' || scanType === 'secrets') && !project.repo) {
-        continue;
-      }
-
-      const job = await scanQueue.add('scan-job', {
-        projectId: project.id,
-        projectName: project.name,
-        domain: project.domain,
-        repo: project.repo,
-        scanType,
-        workspaceId: project.workspaceId,
-      }, {
-        attempts: 3,
-        backoff: {
-          type: 'exponential',
-          delay: 5000,
-        }
-      });
+    try {
+      for (const scanType of scanTypes.slice(0, granted)) {
+        const job = await scanQueue.add('scan-job', {
+          projectId: project.id,
+          projectName: project.name,
+          domain: project.domain,
+          repo: project.repo,
+          scanType,
+          workspaceId: project.workspaceId,
+        }, {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          }
+        });
 
-      queuedScans.push({
-        scanType,
-        jobId: job.id
-      });
+        queuedScans.push({
+          scanType,
+          jobId: job.id
+        });
+      }
+    } catch (error) {
+      // Give back the scans that never made it onto the queue
+      await releaseScans(auth.workspaceId, granted - queuedScans.length);
+      throw error;
     }
 
+    const skipped = scanTypes.length - queuedScans.length;
     return NextResponse.json({
       success: true,
-      message: `Queued ${queuedScans.length} scans for ${project.name}`,
-      scans: queuedScans
+      message: `Queued ${queuedScans.length} scans for ${project.name}` +
+        (skipped > 0 ? ` (${skipped} skipped: daily scan limit reached)` : ''),
+      scans: queuedScans,
+      skipped
     });
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
     console.error('Error triggering scans:', error);
     return NextResponse.json(
       { error: 'Failed to trigger scans' },
@@ -0,0 +1,90 @@
+/**
+ * Project Schedules API
+ *
+ * GET: the project's scan and orchestrator schedules with their next runs
+ * PUT: update them. Body: { timezone?, paused?, scanSchedules?: { [scanType]:
+ *      cron | 'on_push' | 'off' | null }, orchestratorSchedule?: cron | 'off' | null }
+ *      where null resets to the default. { paused: true } pauses every schedule.
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
+import {
+  getProjectSchedules,
+  updateProjectSchedules,
+  validateScheduleUpdate,
+  type ScheduleUpdate,
+} from '@/lib/schedules';
+
+export const dynamic = 'force-dynamic';
+
+// Next runs listed per schedule
+const NEXT_RUNS = 5;
+
+async function findProject(projectId: string, workspaceId: string) {
+  return prisma.project.findFirst({
+    where: { id: projectId, workspaceId },
+    select: { id: true, workspaceId: true },
+  });
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id: projectId } = await params;
+    if (!(await findProject(projectId, auth.workspaceId))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getProjectSchedules(projectId, NEXT_RUNS));
+  } catch (error) {
+    console.error('[Schedules API] Failed to load schedules:', error);
+    return NextResponse.json({ error: 'Failed to load schedules' }, { status: 500 });
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize(request, { role: 'member' });
+  if (!auth.ok) return auth.response;
+
+  let update: ScheduleUpdate;
+  try {
+    update = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const invalid = validateScheduleUpdate(update);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  try {
+    const { id: projectId } = await params;
+    const project = await findProject(projectId, auth.workspaceId);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    await updateProjectSchedules(project, {
+      timezone: update.timezone,
+      paused: update.paused,
+      scanSchedules: update.scanSchedules,
+      orchestratorSchedule: update.orchestratorSchedule,
+    });
+
+    return NextResponse.json(await getProjectSchedules(projectId, NEXT_RUNS));
+  } catch (error) {
+    console.error('[Schedules API] Failed to update schedules:', error);
+    return NextResponse.json({ error: 'Failed to update schedules' }, { status: 500 });
+  }
+}
@@ -1,15 +1,20 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
+import { createProjectWithinQuota, quotaExceededResponse, QuotaExceededError } from '@/lib/quotas';
+import { syncProjectSchedules } from '@/lib/schedules';
 
 export const dynamic = 'force-dynamic';
 
-const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
 
-export async function GET() {
   try {
     const projects = await db.project.findMany({
       where: {
-        workspaceId: SINGLE_USER_WORKSPACE_ID
+        workspaceId
       },
       orderBy: {
         name: 'asc'
@@ -42,3 +47,58 @@ export async function GET() {
     );
   }
 }
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, { role: 'member' });
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
+  let body: { name?: string; domain?: string | null; repo?: string | null; status?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const name = body.name?.trim();
+  if (!name) {
+    return NextResponse.json({ error: 'name is required' }, { status: 400 });
+  }
+
+  try {
+    const project = await createProjectWithinQuota(workspaceId, tx => tx.project.create({
+      data: {
+        workspaceId,
+        name,
+        domain: body.domain?.trim() || null,
+        repo: body.repo?.trim() || null,
+        status: body.status || 'ACTIVE - Pre-Launch',
+      },
+      select: {
+        id: true,
+        name: true,
+        domain: true,
+        repo: true,
+        status: true,
+        createdAt: true
+      }
+    }));
+
+    // Start its scan and orchestrator schedules; the schedule worker's periodic
+    // resync retries if Redis is unavailable
+    await syncProjectSchedules(project.id).catch(error =>
+      console.error(`Failed to sync schedules for project ${project.id}:`, error)
+    );
+
+    return NextResponse.json({ project }, { status: 201 });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
+    if ((error as any)?.code === 'P2002') {
+      return NextResponse.json({ error: `A project named "${name}" already exists` }, { status: 409 });
+    }
+    console.error('Failed to create project:', error);
+    return NextResponse.json({ error: 'Failed to create project' }, { status: 500 });
+  }
+}
@@ -9,11 +9,10 @@
 
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
 // Launch stage definitions
 const STAGES = ['idea', 'mvp', 'alpha', 'beta', 'launch', 'growth'] as const;
 
@@ -26,11 +25,15 @@ function calculateStageFromScore(score: number): typeof STAGES[number] {
   return 'idea';
 }
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     // Fetch projects with aggregated story counts in a single query
     const projects = await db.project.findMany({
-      where: { workspaceId: SINGLE_USER_WORKSPACE_ID },
+      where: { workspaceId },
       select: {
         id: true,
         name: true,
@@ -75,7 +78,7 @@ export async function GET() {
       // Calculate work summary from stories
       const pending = stories.filter(s => s.status === 'pending').length;
       const inProgress = stories.filter(s => s.status === 'in_progress').length;
-      const completed = stories.filter(s => s.status === 'completed').length;
+      const completed = stories.filter(s => s.status === 'completed' || s.status === 'merged').length;
       const total = stories.length;
       
       // Calculate launch score
@@ -9,14 +9,16 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
 export async function GET(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   const searchParams = request.nextUrl.searchParams;
-  const workspaceId = searchParams.get('workspaceId') || SINGLE_USER_WORKSPACE_ID;
   const projectId = searchParams.get('projectId');
   const page = parseInt(searchParams.get('page') || '1', 10);
   const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 100);
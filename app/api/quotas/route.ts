@@ -0,0 +1,23 @@
+/**
+ * Plan Quotas API
+ *
+ * GET: the workspace's plan, its limits and today's usage (see lib/quotas.ts)
+ */
+
+import { NextResponse } from 'next/server';
+import { getQuotaUsage } from '@/lib/quotas';
+import { authorize } from '@/lib/auth/access';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    return NextResponse.json(await getQuotaUsage(auth.workspaceId));
+  } catch (error) {
+    console.error('[Quotas API] Failed to load quotas:', error);
+    return NextResponse.json({ error: 'Failed to load quotas' }, { status: 500 });
+  }
+}
@@ -6,12 +6,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
 export async function GET(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     const { searchParams } = new URL(request.url);
     
@@ -26,7 +29,7 @@ export async function GET(request: NextRequest) {
 
     // Build where clause
     const where: Record<string, unknown> = {
-      workspaceId: SINGLE_USER_WORKSPACE_ID,
+      workspaceId,
     };
     if (projectId && projectId !== 'all') where.projectId = projectId;
     if (scanType) where.scanType = scanType;
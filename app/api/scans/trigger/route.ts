@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Queue } from 'bullmq';
 import { db } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 import Redis from 'ioredis';
+import { listScanners, getScanner, canRunScanner } from '@/lib/scanners/registry';
+import { getPlanLimits, reserveScans, releaseScans, quotaExceededResponse, QuotaExceededError } from '@/lib/quotas';
 
 export const dynamic = 'force-dynamic';
 
@@ -36,10 +39,24 @@ function getQueue() {
 }
 
 export async function POST(req: NextRequest) {
+  const auth = await authorize(req, { allowCron: true });
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
-    const workspaceId = process.env.WORKSPACE_ID || '00000000-0000-0000-0000-000000000002';
+    // Optional { scanTypes: [...] } body; defaults to the scheduled scanners
+    const body = await req.json().catch(() => ({}));
+    const requestedTypes: string[] | undefined = Array.isArray(body?.scanTypes) ? body.scanTypes : undefined;
+    const unknownTypes = (requestedTypes || []).filter(type => !getScanner(type));
+    if (unknownTypes.length > 0) {
+      return NextResponse.json(
+        { status: 'error', message: `Unknown scan types: ${unknownTypes.join(', ')}`, jobs: [] },
+        { status: 400 }
+      );
+    }
 
-    // Get all active projects for the workspace
+    // Active projects within the plan's project limit (oldest first)
+    const { maxProjects } = await getPlanLimits(workspaceId);
     const projects = await db.project.findMany({
       where: {
         workspaceId,
@@ -47,10 +64,15 @@ export async function POST(req: NextRequest) {
           contains: 'ACTIVE'
         }
       },
+      orderBy: {
+        createdAt: 'asc'
+      },
+      take: maxProjects,
       select: {
         id: true,
         name: true,
-        domain: true
+        domain: true,
+        repo: true
       }
     });
 
@@ -62,17 +84,22 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Enqueue scan jobs for each project
-    const jobs = [];
-    const scanTypes = ['domain', 'seo', 'analytics'];
+    // Every selected scanner each project has the inputs for
+    const scanners = requestedTypes
+      ? requestedTypes.map(type => getScanner(type)!)
+      : listScanners({ scheduled: true });
+    const planned = projects.flatMap(project =>
+      scanners
+        .filter(scanner => canRunScanner(scanner, project))
+        .map(scanner => ({ project, scanType: scanner.type }))
+    );
 
-    for (const project of projects) {
-      // Skip projects without domains
-      if (!project.domain) {
-        continue;
-      }
+    // Enqueue as many as today's scan allowance covers
+    const granted = await reserveScans(workspaceId, planned.length, { partial: true });
+    const jobs = [];
 
-      for (const scanType of scanTypes) {
+    try {
+      for (const { project, scanType } of planned.slice(0, granted)) {
         const queue = getQueue();
         const job = await queue.add(
           `scan-${scanType}`,
@@ -80,6 +107,7 @@ export async function POST(req: NextRequest) {
             projectId: project.id,
             projectName: project.name,
             domain: project.domain,
+            repo: project.repo,
             scanType,
             workspaceId
           },
@@ -101,13 +129,17 @@ export async function POST(req: NextRequest) {
           status: 'queued'
         });
       }
+    } catch (error) {
+      // Give back the scans that never made it onto the queue
+      await releaseScans(workspaceId, granted - jobs.length);
+      throw error;
     }
 
-    // Update last_scanned_at for all projects
+    // Update last_scanned_at for the projects that got scans
     await db.project.updateMany({
       where: {
         id: {
-          in: projects.map(p => p.id)
+          in: Array.from(new Set(jobs.map(j => j.projectId)))
         }
       },
       data: {
@@ -115,15 +147,21 @@ export async function POST(req: NextRequest) {
       }
     });
 
+    const skipped = planned.length - jobs.length;
     return NextResponse.json({
       status: 'success',
-      message: `Enqueued ${jobs.length} scan jobs for ${projects.length} projects`,
+      message: `Enqueued ${jobs.length} scan jobs for ${projects.length} projects` +
+        (skipped > 0 ? ` (${skipped} skipped: daily scan limit reached)` : ''),
       projects: projects.length,
       jobs: jobs.length,
+      skipped,
       jobDetails: jobs
     });
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
     console.error('Error triggering scans:', error);
 
     return NextResponse.json(
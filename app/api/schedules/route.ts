@@ -0,0 +1,39 @@
+/**
+ * Schedules API
+ *
+ * GET: every project's scan and orchestrator schedules, plus the workspace's
+ * upcoming runs merged into one timeline (?limit=, default 20).
+ * Projects are updated through /api/projects/[id]/schedules.
+ */
+
+import { NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth/access';
+import { listWorkspaceSchedules, mergeUpcomingRuns } from '@/lib/schedules';
+
+export const dynamic = 'force-dynamic';
+
+// Next runs listed per schedule
+const NEXT_RUNS = 3;
+
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100);
+
+    // Each schedule could fill the whole timeline, so compute `limit` runs before merging
+    const projects = await listWorkspaceSchedules(auth.workspaceId, limit);
+    return NextResponse.json({
+      projects: projects.map(project => ({
+        ...project,
+        schedules: project.schedules.map(schedule => ({ ...schedule, nextRuns: schedule.nextRuns.slice(0, NEXT_RUNS) })),
+      })),
+      upcoming: mergeUpcomingRuns(projects, limit),
+    });
+  } catch (error) {
+    console.error('[Schedules API] Failed to load schedules:', error);
+    return NextResponse.json({ error: 'Failed to load schedules' }, { status: 500 });
+  }
+}
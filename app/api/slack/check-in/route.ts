@@ -2,22 +2,40 @@
 // Sends daily message to Slack asking user about priorities
 import { NextResponse } from 'next/server';
 import { sendMorningCheckIn } from '@/lib/slack';
+import { authorize } from '@/lib/auth/access';
+import { listSlackWorkspaces } from '@/lib/integrations';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: Request) {
+  const auth = await authorize(request, { role: 'member', allowCron: true });
+  if (!auth.ok) return auth.response;
+
   try {
-    console.log('[Check-in] Sending morning check-in to Slack...');
+    // Cron checks in with every workspace that connected Slack
+    const workspaceIds = auth.via === 'cron' ? await listSlackWorkspaces() : [auth.workspaceId];
+    console.log(`[Check-in] Sending morning check-in to ${workspaceIds.length} workspace(s)...`);
 
-    // Send morning check-in message
-    await sendMorningCheckIn();
+    let failed = 0;
+    for (const workspaceId of workspaceIds) {
+      try {
+        await sendMorningCheckIn(workspaceId);
+      } catch (error) {
+        failed++;
+        console.error(`[Check-in] Failed for workspace ${workspaceId}:`, error);
+      }
+    }
+    if (failed > 0 && failed === workspaceIds.length) {
+      throw new Error('Morning check-in failed for every workspace');
+    }
 
     console.log('[Check-in] Morning check-in sent successfully');
 
     return NextResponse.json({
       success: true,
       message: 'Morning check-in sent',
+      workspaces: workspaceIds.length - failed,
       timestamp: new Date().toISOString(),
     });
 
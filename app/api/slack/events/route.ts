@@ -3,6 +3,11 @@
  * 
  * Handles all Slack events: messages, app mentions, reactions, button clicks.
  * All inbound messages are logged to SlackInbound table and processed for priority signals.
+ * Events are routed to the workspace that connected the sending Slack team.
+ * Every request must carry a valid Slack signature (lib/webhooks.ts), and each
+ * event or button click is processed once even if Slack retries it.
+ * Approving or cancelling stories needs an owner or admin, matched to the
+ * Slack user by their profile email (users:read.email scope).
  */
 import { NextResponse } from 'next/server';
 import { storeUserPriority } from '@/lib/priority-parser';
@@ -11,8 +16,12 @@ import { getSlackClient } from '@/lib/slack';
 import Anthropic from '@anthropic-ai/sdk';
 import { featureFlags } from '@/lib/config/feature-flags';
 import { processPrioritySignal } from '@/lib/priority/classifier';
-import { enqueueStoryForExecution } from '@/lib/queue/execution';
-import { updateLinearTaskPriority, mapPriorityToLinear, updateLinearTaskStatus, getTeamWorkflowStates } from '@/lib/linear';
+import { enqueueStoryForExecution, findStoryToCancel, requestCancellation } from '@/lib/queue/execution';
+import { updateLinearTaskPriority, mapPriorityToLinear, updateLinearTaskStatus, getTeamWorkflowStates, getDefaultTeamId } from '@/lib/linear';
+import { internalAuthHeaders, canExecuteStories, getWorkspaceRole } from '@/lib/auth/access';
+import { normalizeEmail } from '@/lib/auth/session';
+import { findWorkspaceForSlackTeam } from '@/lib/integrations';
+import { claimWebhookEvent, verifySlackRequest } from '@/lib/webhooks';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -23,13 +32,21 @@ const anthropic = new Anthropic({
 
 export async function POST(request: Request) {
   try {
+    const rawBody = await request.text();
+
+    // Reject unsigned, forged or replayed requests before acting on anything
+    const verification = verifySlackRequest(request.headers, rawBody);
+    if (!verification.ok) {
+      console.error(`[Slack Events] Rejected request: ${verification.reason}`);
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
     const contentType = request.headers.get('content-type') || '';
     let body: any;
 
     // Slack sends button clicks as form-urlencoded with a 'payload' field
     if (contentType.includes('application/x-www-form-urlencoded')) {
-      const formData = await request.text();
-      const params = new URLSearchParams(formData);
+      const params = new URLSearchParams(rawBody);
       const payloadStr = params.get('payload');
       if (payloadStr) {
         body = JSON.parse(payloadStr);
@@ -39,7 +56,7 @@ export async function POST(request: Request) {
       }
     } else {
       // Regular JSON payload (events)
-      body = await request.json();
+      body = JSON.parse(rawBody);
     }
 
     // Handle Slack URL verification challenge
@@ -48,6 +65,21 @@ export async function POST(request: Request) {
       return NextResponse.json({ challenge: body.challenge });
     }
 
+    // Slack retries events it thinks we missed; button clicks carry a trigger_id
+    const eventId: string | undefined = body.event_id || body.trigger_id;
+    if (eventId && !(await claimWebhookEvent('slack', eventId))) {
+      console.log(`[Slack Events] Already processed ${eventId}, skipping`);
+      return NextResponse.json({ ok: true });
+    }
+
+    // Route to the workspace that owns the Slack team
+    const teamId: string | undefined = body.team_id || body.team?.id;
+    const workspaceId = await findWorkspaceForSlackTeam(teamId);
+    if (!workspaceId) {
+      console.warn(`[Slack Events] No workspace for Slack team ${teamId}, ignoring ${body.type}`);
+      return NextResponse.json({ ok: true });
+    }
+
     // Handle event callback
     if (body.type === 'event_callback') {
       const event = body.event;
@@ -55,7 +87,7 @@ export async function POST(request: Request) {
       console.log(`[Slack Events] Received event: ${event.type}`);
 
       // Log all events to SlackInbound for comprehensive signal tracking
-      await logSlackInbound(event, body.team_id);
+      await logSlackInbound(event, workspaceId);
 
       // Handle message events (user replies to check-in)
       // DISABLED: Auto-reply to all messages was too noisy
@@ -70,7 +102,7 @@ export async function POST(request: Request) {
         // Only respond if this is a reply in a thread the bot started
         // (thread_ts exists and is different from ts means it's a reply)
         if (event.thread_ts && event.thread_ts !== event.ts) {
-          await handleUserMessage(event);
+          await handleUserMessage(event, workspaceId);
         }
         // Otherwise just log the message for signal tracking (no auto-reply)
         // The message is already logged to SlackInbound above
@@ -78,17 +110,17 @@ export async function POST(request: Request) {
 
       // Handle app mentions (when someone @mentions the bot)
       if (event.type === 'app_mention') {
-        await handleAppMention(event);
+        await handleAppMention(event, workspaceId);
       }
 
       // Handle button interactions
       if (event.type === 'block_actions') {
-        await handleButtonClick(event);
+        await handleButtonClick(event, workspaceId);
       }
 
       // Handle reaction events (emoji as priority signals)
       if (event.type === 'reaction_added') {
-        await handleReactionAdded(event);
+        await handleReactionAdded(event, workspaceId);
       }
 
       // Acknowledge event receipt immediately (Slack requires response within 3s)
@@ -97,7 +129,7 @@ export async function POST(request: Request) {
 
     // Handle interactive messages (button clicks)
     if (body.type === 'block_actions') {
-      await handleButtonClick(body);
+      await handleButtonClick(body, workspaceId);
       return NextResponse.json({ ok: true });
     }
 
@@ -115,13 +147,7 @@ export async function POST(request: Request) {
  * Handle user messages with conversational AI
  * ALL messages get a conversational response powered by Claude
  */
-async function handleUserMessage(event: any): Promise<void> {
-  const workspaceId = process.env.WORKSPACE_ID;
-  if (!workspaceId) {
-    console.error('[Slack Events] WORKSPACE_ID not configured');
-    return;
-  }
-
+async function handleUserMessage(event: any, workspaceId: string): Promise<void> {
   const message = event.text;
   const messageTs = event.ts;
   const channelId = event.channel;
@@ -137,20 +163,6 @@ async function handleUserMessage(event: any): Promise<void> {
 
   console.log(`[Slack Events] User message from ${userId}: "${message}"`);
 
-  // Check for duplicate - if this message already exists, skip processing
-  const existing = await db.slackMessage.findFirst({
-    where: {
-      messageTs,
-      channelId,
-      userId,
-    },
-  });
-
-  if (existing) {
-    console.log('[Slack Events] Duplicate message detected, skipping');
-    return;
-  }
-
   // 1. Store user message in database
   try {
     await db.slackMessage.create({
@@ -180,7 +192,7 @@ async function handleUserMessage(event: any): Promise<void> {
     const aiResponse = await generateConversationalResponse(message, context);
 
     // 4. Send response to Slack
-    const client = getSlackClient();
+    const client = await getSlackClient(workspaceId);
     const response = await client.chat.postMessage({
       channel: channelId,
       thread_ts: threadTs,
@@ -208,7 +220,7 @@ async function handleUserMessage(event: any): Promise<void> {
 
     // Fallback error message
     try {
-      const client = getSlackClient();
+      const client = await getSlackClient(workspaceId);
       await client.chat.postMessage({
         channel: channelId,
         thread_ts: threadTs,
@@ -337,13 +349,7 @@ ${context.recentMessages.slice(0, 5).reverse().map((m: any) => `${m.userId === '
 /**
  * Handle app mentions (when someone @mentions the bot)
  */
-async function handleAppMention(event: any): Promise<void> {
-  const workspaceId = process.env.WORKSPACE_ID;
-  if (!workspaceId) {
-    console.error('[Slack Events] WORKSPACE_ID not configured');
-    return;
-  }
-
+async function handleAppMention(event: any, workspaceId: string): Promise<void> {
   const message = event.text;
   const channelId = event.channel;
   const userId = event.user;
@@ -357,7 +363,9 @@ async function handleAppMention(event: any): Promise<void> {
 
   // Determine command type
   let commandType: string | undefined;
+  const isCancel = /\b(cancel|abort)\b/.test(lowerMessage);
   if (lowerMessage.includes('help')) commandType = 'help';
+  else if (isCancel) commandType = 'cancel_execution';
   else if (lowerMessage.includes('run scan') || lowerMessage.includes('scan')) commandType = 'run_scans';
   else if (lowerMessage.includes('run orchestrator') || lowerMessage.includes('analyze')) commandType = 'run_orchestrator';
   else if (lowerMessage.includes('run execution') || lowerMessage.includes('execute')) commandType = 'run_execution';
@@ -383,7 +391,7 @@ async function handleAppMention(event: any): Promise<void> {
   }
 
   try {
-    const client = getSlackClient();
+    const client = await getSlackClient(workspaceId);
 
     // Help command
     if (lowerMessage.includes('help')) {
@@ -394,12 +402,19 @@ async function handleAppMention(event: any): Promise<void> {
           `• **Run scans**: Mention "run scans" to scan all projects\n` +
           `• **Run orchestrator**: Mention "run orchestrator" to analyze scans and create stories\n` +
           `• **Run execution**: Mention "run execution" to process approved stories\n` +
+          `• **Cancel execution**: Mention "cancel <story id>" (or reply "cancel" to a story) to stop it\n` +
           `• **Check status**: Mention "status" to see project health\n\n` +
           `You can also use the dashboard to manage everything!`,
       });
       return;
     }
 
+    // Cancel command: "cancel 1a2b3c4d", or "cancel" in a story notification's thread
+    if (isCancel) {
+      await handleCancelCommand(workspaceId, message, userId, channelId, threadTs);
+      return;
+    }
+
     // Run scans command
     if (lowerMessage.includes('run scan') || lowerMessage.includes('scan project')) {
       await client.chat.postMessage({
@@ -416,6 +431,7 @@ async function handleAppMention(event: any): Promise<void> {
 
         const response = await fetch(`${baseUrl}/api/scans/trigger`, {
           method: 'POST',
+          headers: internalAuthHeaders(workspaceId),
         });
 
         if (response.ok) {
@@ -428,6 +444,13 @@ async function handleAppMention(event: any): Promise<void> {
               `**Jobs:** ${data.jobs}\n\n` +
               `Results will be available in the dashboard shortly.`,
           });
+        } else if (response.status === 429) {
+          const failure = await response.json();
+          await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            text: `⏳ ${failure.error}`,
+          });
         } else {
           await client.chat.postMessage({
             channel: channelId,
@@ -462,6 +485,7 @@ async function handleAppMention(event: any): Promise<void> {
 
         const response = await fetch(`${baseUrl}/api/orchestrator/run`, {
           method: 'POST',
+          headers: internalAuthHeaders(workspaceId),
         });
 
         if (response.ok) {
@@ -474,6 +498,13 @@ async function handleAppMention(event: any): Promise<void> {
               `**Projects Queued:** ${data.projects_queued}\n\n` +
               `I'll send you new story notifications as they're created.`,
           });
+        } else if (response.status === 429) {
+          const failure = await response.json();
+          await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            text: `⏳ ${failure.error}`,
+          });
         } else {
           await client.chat.postMessage({
             channel: channelId,
@@ -572,15 +603,79 @@ async function handleAppMention(event: any): Promise<void> {
 }
 
 /**
- * Handle button clicks (approve, view, snooze)
+ * Whether a Slack user may approve, execute or cancel stories: the workspace
+ * member with their Slack profile email must be an owner or admin
  */
-async function handleButtonClick(event: any): Promise<void> {
-  const workspaceId = process.env.WORKSPACE_ID;
-  if (!workspaceId) {
-    console.error('[Slack Events] WORKSPACE_ID not configured');
+async function canSlackUserExecute(workspaceId: string, slackUserId?: string): Promise<boolean> {
+  if (!slackUserId) return false;
+
+  try {
+    const client = await getSlackClient(workspaceId);
+    const { user: slackUser } = await client.users.info({ user: slackUserId });
+    const email = slackUser?.profile?.email;
+    if (!email || slackUser?.deleted || slackUser?.is_bot) return false;
+
+    const user = await db.user.findUnique({ where: { email: normalizeEmail(email) }, select: { id: true } });
+    const role = user ? await getWorkspaceRole(user.id, workspaceId) : null;
+    return !!role && canExecuteStories(role);
+  } catch (error) {
+    console.error(`[Slack Events] Failed to look up Slack user ${slackUserId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Cancel a queued or running execution from an app mention
+ */
+async function handleCancelCommand(
+  workspaceId: string,
+  message: string,
+  userId: string,
+  channelId: string,
+  threadTs: string
+): Promise<void> {
+  const client = await getSlackClient(workspaceId);
+
+  if (!(await canSlackUserExecute(workspaceId, userId))) {
+    await client.chat.postEphemeral({
+      channel: channelId,
+      user: userId,
+      thread_ts: threadTs,
+      text: `🔒 Only workspace owners and admins can cancel stories.`,
+    });
+    return;
+  }
+
+  // Replying in a story notification's thread targets that story
+  const parent = threadTs
+    ? await db.slackMessage.findFirst({ where: { workspaceId, channelId, messageTs: threadTs } })
+    : null;
+  const threadStoryId = parent?.commandType?.startsWith('story_') ? parent.commandType.replace('story_', '') : undefined;
+
+  const story = await findStoryToCancel(workspaceId, threadStoryId || message.replace(/<@[^>]+>/g, ''));
+  if (!story) {
+    await client.chat.postMessage({
+      channel: channelId,
+      thread_ts: threadTs,
+      text: `🤷 No queued or running execution found to cancel.`,
+    });
     return;
   }
 
+  const result = await requestCancellation(story.id, 'slack', userId ? `<@${userId}>` : undefined);
+  const text = result.outcome === 'dequeued'
+    ? `⏹️ Removed "${story.title}" from the queue. It's back to pending.`
+    : result.outcome === 'signalled'
+      ? `⏹️ Cancelling "${story.title}"... The agent will stop and the story will go back to pending.`
+      : `🤷 "${story.title}" isn't queued or running (${result.status}).`;
+
+  await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text });
+}
+
+/**
+ * Handle button clicks (approve, view, snooze)
+ */
+async function handleButtonClick(event: any, workspaceId: string): Promise<void> {
   const actions = event.actions || [];
   const userId = event.user?.id;
   const channelId = event.channel?.id;
@@ -606,18 +701,36 @@ async function handleButtonClick(event: any): Promise<void> {
       continue;
     }
 
+    // Buttons only act on the workspace's own stories
+    const owned = await db.story.findFirst({ where: { id: storyId, workspaceId }, select: { id: true } });
+    if (!owned) {
+      console.warn(`[Slack Events] Story ${storyId} not in workspace ${workspaceId}`);
+      continue;
+    }
+
     // Handle different button actions
     switch (actionId) {
       case 'approve_completion':
-        await approveStory(storyId, userId, channelId);
+        if (!(await canSlackUserExecute(workspaceId, userId))) {
+          if (userId && channelId) {
+            const client = await getSlackClient(workspaceId);
+            await client.chat.postEphemeral({
+              channel: channelId,
+              user: userId,
+              text: `🔒 Only workspace owners and admins can approve stories.`,
+            });
+          }
+          break;
+        }
+        await approveStory(workspaceId, storyId, userId, channelId);
         break;
 
       case 'view_completion':
-        await viewStory(storyId, userId, channelId);
+        await viewStory(workspaceId, storyId, userId, channelId);
         break;
 
       case 'snooze_completion':
-        await snoozeStory(storyId, userId, channelId);
+        await snoozeStory(workspaceId, storyId, userId, channelId);
         break;
 
       default:
@@ -629,7 +742,7 @@ async function handleButtonClick(event: any): Promise<void> {
 /**
  * Approve a story (mark for execution)
  */
-async function approveStory(storyId: string, userId?: string, channelId?: string): Promise<void> {
+async function approveStory(workspaceId: string, storyId: string, userId?: string, channelId?: string): Promise<void> {
   try {
     const story = await db.story.update({
       where: { id: storyId },
@@ -643,14 +756,13 @@ async function approveStory(storyId: string, userId?: string, channelId?: string
     console.log(`[Slack Events] Story ${storyId} approved`);
 
     // Sync status to Linear
-    const DEFAULT_LINEAR_TEAM_ID = 'd5cbb99d-df57-4b21-87c9-95fc5089a6a2'; // Virtual cofounder team
     if (story.linearTaskId) {
       try {
-        const teamId = story.project.linearTeamId || DEFAULT_LINEAR_TEAM_ID;
-        const states = await getTeamWorkflowStates(teamId);
+        const teamId = story.project.linearTeamId || await getDefaultTeamId(workspaceId);
+        const states = await getTeamWorkflowStates(teamId, workspaceId);
         const inProgressState = states.find(s => s.type === 'started' && s.name.toLowerCase().includes('progress'));
         if (inProgressState) {
-          await updateLinearTaskStatus(story.linearTaskId, inProgressState.id);
+          await updateLinearTaskStatus(story.linearTaskId, inProgressState.id, workspaceId);
           console.log(`[Slack Events] Synced Linear status to In Progress for ${story.linearTaskId}`);
         }
       } catch (linearError) {
@@ -660,7 +772,7 @@ async function approveStory(storyId: string, userId?: string, channelId?: string
 
     // Send confirmation to user
     if (userId && channelId) {
-      const client = getSlackClient();
+      const client = await getSlackClient(workspaceId);
       await client.chat.postEphemeral({
         channel: channelId,
         user: userId,
@@ -675,7 +787,7 @@ async function approveStory(storyId: string, userId?: string, channelId?: string
 /**
  * View story details with Linear link
  */
-async function viewStory(storyId: string, userId?: string, channelId?: string): Promise<void> {
+async function viewStory(workspaceId: string, storyId: string, userId?: string, channelId?: string): Promise<void> {
   console.log(`[Slack Events] View story: ${storyId}`);
 
   if (userId && channelId) {
@@ -687,7 +799,7 @@ async function viewStory(storyId: string, userId?: string, channelId?: string):
       });
 
       if (!story) {
-        const client = getSlackClient();
+        const client = await getSlackClient(workspaceId);
         await client.chat.postEphemeral({
           channel: channelId,
           user: userId,
@@ -696,7 +808,7 @@ async function viewStory(storyId: string, userId?: string, channelId?: string):
         return;
       }
 
-      const client = getSlackClient();
+      const client = await getSlackClient(workspaceId);
 
       // Build message with Slack mrkdwn formatting (use * for bold, not **)
       let message = `📋 *${story.title}*\n\n`;
@@ -740,7 +852,7 @@ async function viewStory(storyId: string, userId?: string, channelId?: string):
       });
     } catch (error) {
       console.error('[Slack Events] Error viewing story:', error);
-      const client = getSlackClient();
+      const client = await getSlackClient(workspaceId);
       await client.chat.postEphemeral({
         channel: channelId,
         user: userId,
@@ -753,7 +865,7 @@ async function viewStory(storyId: string, userId?: string, channelId?: string):
 /**
  * Snooze a story for 24 hours (sets status to rejected with snooze note)
  */
-async function snoozeStory(storyId: string, userId?: string, channelId?: string): Promise<void> {
+async function snoozeStory(workspaceId: string, storyId: string, userId?: string, channelId?: string): Promise<void> {
   console.log(`[Slack Events] Snooze story: ${storyId}`);
 
   try {
@@ -771,7 +883,7 @@ async function snoozeStory(storyId: string, userId?: string, channelId?: string)
     });
 
     if (userId && channelId) {
-      const client = getSlackClient();
+      const client = await getSlackClient(workspaceId);
       
       // Build confirmation message with links
       let message = `⏰ *Snoozed:* ${story.title}\n\n`;
@@ -792,7 +904,7 @@ async function snoozeStory(storyId: string, userId?: string, channelId?: string)
   } catch (error) {
     console.error('[Slack Events] Error snoozing story:', error);
     if (userId && channelId) {
-      const client = getSlackClient();
+      const client = await getSlackClient(workspaceId);
       await client.chat.postEphemeral({
         channel: channelId,
         user: userId,
@@ -805,10 +917,7 @@ async function snoozeStory(storyId: string, userId?: string, channelId?: string)
 /**
  * Log all Slack inbound events for comprehensive signal tracking
  */
-async function logSlackInbound(event: any, teamId?: string): Promise<void> {
-  const workspaceId = process.env.WORKSPACE_ID;
-  if (!workspaceId) return;
-
+async function logSlackInbound(event: any, workspaceId: string): Promise<void> {
   try {
     await db.slackInbound.create({
       data: {
@@ -836,10 +945,7 @@ async function logSlackInbound(event: any, teamId?: string): Promise<void> {
  * Handle reaction_added events (emoji as priority signals)
  * Maps certain emojis to priority levels
  */
-async function handleReactionAdded(event: any): Promise<void> {
-  const workspaceId = process.env.WORKSPACE_ID;
-  if (!workspaceId) return;
-
+async function handleReactionAdded(event: any, workspaceId: string): Promise<void> {
   if (!featureFlags.PRIORITY_SYSTEM_ENABLED) return;
 
   const reaction = event.reaction;
@@ -897,6 +1003,7 @@ async function handleReactionAdded(event: any): Promise<void> {
       if (event.item?.ts && event.item?.channel) {
         const slackMessage = await db.slackMessage.findFirst({
           where: {
+            workspaceId,
             messageTs: event.item.ts,
             channelId: event.item.channel,
           },
@@ -923,7 +1030,7 @@ async function handleReactionAdded(event: any): Promise<void> {
             if (story.linearTaskId) {
               try {
                 const linearPriority = mapPriorityToLinear(action);
-                await updateLinearTaskPriority(story.linearTaskId, linearPriority);
+                await updateLinearTaskPriority(story.linearTaskId, linearPriority, workspaceId);
                 console.log(`[Slack Events] Synced priority ${action} to Linear task ${story.linearTaskId}`);
               } catch (linearError) {
                 console.error('[Slack Events] Failed to sync priority to Linear:', linearError);
@@ -939,6 +1046,7 @@ async function handleReactionAdded(event: any): Promise<void> {
       // Try to find a story associated with this message
       const slackMessage = await db.slackMessage.findFirst({
         where: {
+          workspaceId,
           messageTs: event.item.ts,
           channelId: event.item.channel,
         },
@@ -948,6 +1056,10 @@ async function handleReactionAdded(event: any): Promise<void> {
         const storyId = slackMessage.commandType.replace('story_', '');
         
         if (action === 'approve' && featureFlags.MULTI_SOURCE_APPROVAL) {
+          if (!(await canSlackUserExecute(workspaceId, userId))) {
+            console.log(`[Slack Events] Ignoring approval from ${userId}: not an owner or admin`);
+            return;
+          }
           await enqueueStoryForExecution(storyId, undefined, 'slack');
           console.log(`[Slack Events] Story ${storyId} approved via emoji`);
         }
@@ -1,20 +1,21 @@
 import { NextResponse } from 'next/server';
-import { getSlackClient } from '@/lib/slack';
+import { getWorkspaceSlack } from '@/lib/slack';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * Health check endpoint for Slack integration
- * Returns 200 if Slack bot token is configured and client is working
+ * Returns 200 if the default workspace's Slack bot token is configured and working
  */
 export async function GET() {
   try {
     // Check if Slack bot token is configured
-    if (!process.env.SLACK_BOT_TOKEN) {
+    const slack = await getWorkspaceSlack();
+    if (!slack) {
       return NextResponse.json(
         {
           status: 'error',
-          message: 'SLACK_BOT_TOKEN not configured',
+          message: 'Slack not configured',
           listening: false,
         },
         { status: 503 }
@@ -22,8 +23,7 @@ export async function GET() {
     }
 
     // Try to get Slack client and verify auth
-    const client = getSlackClient();
-    const auth = await client.auth.test();
+    const auth = await slack.client.auth.test();
 
     if (!auth.ok) {
       return NextResponse.json(
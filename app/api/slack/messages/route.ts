@@ -1,21 +1,18 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * Get all Slack messages for the workspace
  */
-export async function GET() {
-  try {
-    const workspaceId = process.env.WORKSPACE_ID;
-    if (!workspaceId) {
-      return NextResponse.json(
-        { error: 'WORKSPACE_ID not configured' },
-        { status: 500 }
-      );
-    }
+export async function GET(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
 
+  try {
     const messages = await db.slackMessage.findMany({
       where: { workspaceId },
       orderBy: {
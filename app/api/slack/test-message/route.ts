@@ -1,9 +1,14 @@
 import { NextResponse } from 'next/server';
 import { sendSlackNotification } from '@/lib/slack';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST() {
+export async function POST(request: Request) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { workspaceId } = auth;
+
   try {
     // Send a test PR notification to Slack
     await sendSlackNotification({
@@ -12,6 +17,7 @@ export async function POST() {
       title: '🧪 Test Message from Dashboard',
       rationale: 'This is a test message to verify Slack integration is working correctly.',
       prUrl: 'https://github.com/test/test/pull/1',
+      workspaceId,
     });
 
     return NextResponse.json({
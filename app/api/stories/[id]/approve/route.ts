@@ -12,8 +12,9 @@ export const dynamic = 'force-dynamic';
 import { db } from '@/lib/db';
 import { enqueueStoryForExecution } from '@/lib/queue/execution';
 import { sendMessage } from '@/lib/slack';
-import { addLinearComment, updateLinearTaskStatus, getTeamWorkflowStates } from '@/lib/linear';
+import { addLinearComment, updateLinearTaskStatus, getTeamWorkflowStates, getDefaultTeamId } from '@/lib/linear';
 import { featureFlags } from '@/lib/config/feature-flags';
+import { authorize } from '@/lib/auth/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -23,14 +24,17 @@ export async function POST(
   request: NextRequest,
   { params }: RouteParams
 ) {
+  const auth = await authorize(request, { role: 'admin' });
+  if (!auth.ok) return auth.response;
+
   try {
     const { id: storyId } = await params;
     const body = await request.json().catch(() => ({}));
-    const { source = 'dashboard', userId } = body;
+    const { source = 'dashboard' } = body;
 
     // Find the story with project
-    const story = await db.story.findUnique({
-      where: { id: storyId },
+    const story = await db.story.findFirst({
+      where: { id: storyId, workspaceId: auth.workspaceId },
       include: {
         project: {
           select: {
@@ -63,7 +67,7 @@ export async function POST(
       data: {
         status: 'approved',
         userApproved: true,
-        userNotes: `Approved via ${source} by ${userId || 'user'}`,
+        userNotes: `Approved via ${source} by ${auth.email || 'user'}`,
       },
     });
 
@@ -75,25 +79,26 @@ export async function POST(
     await sendMessage(
       `✅ Story approved (via ${source}): "${story.title}"\n` +
       `Priority: ${priorityLevel}\n` +
-      `Agent will begin work shortly...`
+      `Agent will begin work shortly...`,
+      { workspaceId: story.workspaceId }
     );
 
     // Sync to Linear if task is linked
-    const DEFAULT_LINEAR_TEAM_ID = 'd5cbb99d-df57-4b21-87c9-95fc5089a6a2'; // Virtual cofounder team
     if (story.linearTaskId) {
       try {
         // Update status to Todo (ready for execution)
-        const teamId = story.project.linearTeamId || DEFAULT_LINEAR_TEAM_ID;
-        const states = await getTeamWorkflowStates(teamId);
+        const teamId = story.project.linearTeamId || await getDefaultTeamId(story.workspaceId);
+        const states = await getTeamWorkflowStates(teamId, story.workspaceId);
         const todoState = states.find(s => s.type === 'unstarted' && s.name.toLowerCase().includes('todo'));
         if (todoState) {
-          await updateLinearTaskStatus(story.linearTaskId, todoState.id);
+          await updateLinearTaskStatus(story.linearTaskId, todoState.id, story.workspaceId);
           console.log(`[ApproveStory] Updated Linear ${story.linearTaskId} to Todo`);
         }
         // Add comment
         await addLinearComment(
           story.linearTaskId,
-          `✅ Story approved via ${source}. Agent execution queued.`
+          `✅ Story approved via ${source}. Agent execution queued.`,
+          story.workspaceId
         );
       } catch (linearError) {
         console.error('[ApproveStory] Failed to sync Linear:', linearError);
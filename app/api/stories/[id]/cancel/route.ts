@@ -0,0 +1,72 @@
+// app/api/stories/[id]/cancel/route.ts
+/**
+ * Cancel Story Execution Endpoint
+ *
+ * Stops a queued or running execution. Queued stories go straight back to
+ * pending; for a running story the execution worker aborts the agent, cleans
+ * up its branch and resets the story.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+import { db } from '@/lib/db';
+import { requestCancellation } from '@/lib/queue/execution';
+import { authorize } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const auth = await authorize(request, { role: 'admin' });
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id: storyId } = await params;
+
+    const story = await db.story.findFirst({
+      where: { id: storyId, workspaceId: auth.workspaceId },
+      select: { id: true },
+    });
+    if (!story) {
+      return NextResponse.json(
+        { error: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await requestCancellation(storyId, 'dashboard', auth.email || undefined);
+
+    if (result.outcome === 'not_found') {
+      return NextResponse.json(
+        { error: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.outcome === 'not_running') {
+      return NextResponse.json(
+        { error: `Story is ${result.status}, not queued or executing` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      outcome: result.outcome,
+      message: result.outcome === 'dequeued'
+        ? 'Removed from the queue; story is back to pending'
+        : 'Cancel sent to the execution worker',
+    });
+  } catch (error) {
+    console.error('[CancelStory] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel story' },
+      { status: 500 }
+    );
+  }
+}
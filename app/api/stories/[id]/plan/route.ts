@@ -0,0 +1,110 @@
+// app/api/stories/[id]/plan/route.ts
+/**
+ * Story Execution Plan Endpoint
+ *
+ * GET returns the story's current plan; POST queues a new read-only
+ * planning run (see lib/stories/execution-plan.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+import { db } from '@/lib/db';
+import { enqueueStoryPlan } from '@/lib/queue/execution';
+import { getLatestPlan } from '@/lib/stories/execution-plan';
+import { authorize } from '@/lib/auth/access';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id: storyId } = await params;
+
+    const story = await db.story.findFirst({
+      where: { id: storyId, workspaceId: auth.workspaceId },
+      select: { id: true },
+    });
+    if (!story) {
+      return NextResponse.json(
+        { error: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    const plan = await getLatestPlan(storyId);
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error('[StoryPlan] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch plan' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { id: storyId } = await params;
+
+    const story = await db.story.findFirst({
+      where: { id: storyId, workspaceId: auth.workspaceId },
+      select: { id: true, status: true, project: { select: { repo: true } } },
+    });
+
+    if (!story) {
+      return NextResponse.json(
+        { error: 'Story not found' },
+        { status: 404 }
+      );
+    }
+
+    if (story.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Cannot plan story with status: ${story.status}` },
+        { status: 400 }
+      );
+    }
+
+    if (!story.project.repo) {
+      return NextResponse.json(
+        { error: 'Project has no repository configured' },
+        { status: 400 }
+      );
+    }
+
+    const jobId = await enqueueStoryPlan(storyId, 'dashboard');
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Failed to queue plan' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      message: 'Planning queued - the plan will appear here when ready',
+    });
+  } catch (error) {
+    console.error('[StoryPlan] Error:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,8 @@ export const dynamic = 'force-dynamic';
 import { db } from '@/lib/db';
 import { sendMessage } from '@/lib/slack';
 import { addLinearComment, updateLinearTaskStatus, getTeamWorkflowStates } from '@/lib/linear';
+import { rejectPlans } from '@/lib/stories/execution-plan';
+import { authorize } from '@/lib/auth/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -20,14 +22,17 @@ export async function POST(
   request: NextRequest,
   { params }: RouteParams
 ) {
+  const auth = await authorize(request, { role: 'admin' });
+  if (!auth.ok) return auth.response;
+
   try {
     const { id: storyId } = await params;
     const body = await request.json().catch(() => ({}));
     const { source = 'dashboard', reason } = body;
 
     // Find the story with project
-    const story = await db.story.findUnique({
-      where: { id: storyId },
+    const story = await db.story.findFirst({
+      where: { id: storyId, workspaceId: auth.workspaceId },
       include: {
         project: {
           select: {
@@ -56,10 +61,13 @@ export async function POST(
       },
     });
 
+    await rejectPlans(storyId, reason);
+
     // Send Slack notification
     await sendMessage(
       `❌ Story rejected (via ${source}): "${story.title}"\n` +
-      (reason ? `Reason: ${reason}` : '')
+      (reason ? `Reason: ${reason}` : ''),
+      { workspaceId: story.workspaceId }
     );
 
     // Update Linear task status
@@ -67,19 +75,20 @@ export async function POST(
       try {
         const linearTeamId = story.project?.linearTeamId;
         if (linearTeamId) {
-          const states = await getTeamWorkflowStates(linearTeamId);
+          const states = await getTeamWorkflowStates(linearTeamId, story.workspaceId);
           const canceledState = states.find(s => 
             s.type.toLowerCase() === 'canceled' || s.name.toLowerCase().includes('rejected')
           );
           
           if (canceledState) {
-            await updateLinearTaskStatus(story.linearTaskId, canceledState.id);
+            await updateLinearTaskStatus(story.linearTaskId, canceledState.id, story.workspaceId);
           }
         }
 
         await addLinearComment(
           story.linearTaskId,
-          `❌ Story rejected via ${source}.${reason ? `\nReason: ${reason}` : ''}`
+          `❌ Story rejected via ${source}.${reason ? `\nReason: ${reason}` : ''}`,
+          story.workspaceId
         );
       } catch (linearError) {
         console.error('[RejectStory] Linear update error:', linearError);
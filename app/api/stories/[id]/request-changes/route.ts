@@ -11,6 +11,7 @@ export const dynamic = 'force-dynamic';
 import { db } from '@/lib/db';
 import { sendMessage } from '@/lib/slack';
 import { addLinearComment } from '@/lib/linear';
+import { authorize } from '@/lib/auth/access';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -20,6 +21,9 @@ export async function POST(
   request: NextRequest,
   { params }: RouteParams
 ) {
+  const auth = await authorize(request, { role: 'admin' });
+  if (!auth.ok) return auth.response;
+
   try {
     const { id: storyId } = await params;
     const body = await request.json();
@@ -33,8 +37,8 @@ export async function POST(
     }
 
     // Find the story with project
-    const story = await db.story.findUnique({
-      where: { id: storyId },
+    const story = await db.story.findFirst({
+      where: { id: storyId, workspaceId: auth.workspaceId },
       include: {
         project: {
           select: {
@@ -66,14 +70,16 @@ export async function POST(
     await sendMessage(
       `🔄 Changes requested (via ${source}) for: "${story.title}"\n` +
       `Feedback: ${feedback}\n` +
-      `Orchestrator will re-analyze...`
+      `Orchestrator will re-analyze...`,
+      { workspaceId: story.workspaceId }
     );
 
     // Add Linear comment
     if (story.linearTaskId) {
       await addLinearComment(
         story.linearTaskId,
-        `🔄 Changes requested via ${source}.\n\nFeedback:\n${feedback}`
+        `🔄 Changes requested via ${source}.\n\nFeedback:\n${feedback}`,
+        story.workspaceId
       );
     }
 
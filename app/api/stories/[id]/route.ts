@@ -4,6 +4,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { getLatestPlan } from '@/lib/stories/execution-plan';
+import { authorize } from '@/lib/auth/access';
 
 export const dynamic = 'force-dynamic';
 
@@ -11,11 +13,14 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
   try {
     const { id } = await params;
     
-    const story = await db.story.findUnique({
-      where: { id },
+    const story = await db.story.findFirst({
+      where: { id, workspaceId: auth.workspaceId },
       include: {
         project: {
           select: {
@@ -25,6 +30,9 @@ export async function GET(
             linearTeamId: true,
           },
         },
+        observations: {
+          orderBy: { observedAt: 'desc' },
+        },
       },
     });
 
@@ -35,8 +43,11 @@ export async function GET(
       );
     }
 
+    const plan = await getLatestPlan(id);
+
     return NextResponse.json({
       story,
+      plan,
       _meta: {
         generatedAt: new Date().toISOString(),
         ttlSeconds: 60,
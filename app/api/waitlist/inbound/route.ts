@@ -1,16 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Resend } from 'resend';
 import { prisma } from '@/lib/db';
+import { claimWebhookEvent, releaseWebhookEvent, verifyResendRequest } from '@/lib/webhooks';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
 // Your personal email for forwarded replies
 const FORWARD_TO = 'msanchezgrice@gmail.com';
 
-// Resend inbound webhook for email replies
+// Resend inbound webhook for email replies (signed; see lib/webhooks.ts)
 export async function POST(request: NextRequest) {
+  let deliveryId: string | null = null;
   try {
-    const payload = await request.json();
+    const rawBody = await request.text();
+
+    const verification = verifyResendRequest(request.headers, rawBody);
+    if (!verification.ok) {
+      console.error(`Inbound email rejected: ${verification.reason}`);
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    // Resend retries failed deliveries with the same svix-id
+    const svixId = request.headers.get('svix-id')!;
+    if (!(await claimWebhookEvent('resend', svixId))) {
+      console.log('📧 Inbound email already processed, skipping');
+      return NextResponse.json({ success: true });
+    }
+    deliveryId = svixId; // Released on failure so the retry goes through
+
+    const payload = JSON.parse(rawBody);
     
     console.log('📧 Inbound email received:', {
       from: payload.from,
@@ -65,6 +83,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Inbound email error:', error);
+    if (deliveryId) {
+      await releaseWebhookEvent('resend', deliveryId).catch(() => {});
+    }
     return NextResponse.json(
       { error: 'Failed to process inbound email' },
       { status: 500 }
@@ -0,0 +1,109 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+const ERRORS: Record<string, string> = {
+  expired: 'That sign-in link has expired or was already used. Request a new one.',
+  failed: 'Sign-in failed. Please try again.',
+};
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const next = searchParams.get('next') || '/dashboard';
+  const linkError = searchParams.get('error');
+
+  const [email, setEmail] = useState('');
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+  const [message, setMessage] = useState(linkError ? ERRORS[linkError] || ERRORS.failed : '');
+  const [devLink, setDevLink] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus('sending');
+    setMessage('');
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, next }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setStatus('error');
+        setMessage(data.error || 'Failed to send sign-in link');
+        return;
+      }
+      setStatus('sent');
+      setMessage(data.message);
+      setDevLink(data.devLink || null);
+    } catch {
+      setStatus('error');
+      setMessage('Failed to send sign-in link');
+    }
+  };
+
+  return (
+    <div className="card" style={{ width: '100%', maxWidth: '400px' }}>
+      <div className="card-header">
+        <span className="card-title">⚡ Sign in to Virtual Cofounder</span>
+      </div>
+
+      {status === 'sent' ? (
+        <div style={{ fontSize: '14px', color: '#44403C' }}>
+          <p>📬 {message} ({email}).</p>
+          {devLink && (
+            <p style={{ marginTop: '12px', fontSize: '12px', color: '#78716C', wordBreak: 'break-all' }}>
+              Dev link: <a href={devLink}>{devLink}</a>
+            </p>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <input
+            type="email"
+            required
+            autoFocus
+            placeholder="you@company.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            style={{
+              padding: '10px 12px',
+              border: '1px solid #E7E5E4',
+              borderRadius: '8px',
+              fontSize: '14px',
+            }}
+          />
+          <button
+            type="submit"
+            disabled={status === 'sending'}
+            className="btn btn-primary"
+            style={{ justifyContent: 'center' }}
+          >
+            {status === 'sending' ? '⏳ Sending...' : 'Email me a sign-in link'}
+          </button>
+          {message && (
+            <p style={{ fontSize: '13px', color: '#B91C1C' }}>{message}</p>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <main style={{
+      minHeight: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: '#FDF8F3',
+      padding: '24px',
+    }}>
+      <Suspense fallback={null}>
+        <LoginForm />
+      </Suspense>
+    </main>
+  );
+}
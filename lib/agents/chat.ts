@@ -197,7 +197,7 @@ export const chatAgent: AgentDefinition = {
  * Returns the command type and extracted data
  */
 export function parseQuickCommand(input: string): {
-  type: 'priority' | 'approval' | 'status' | 'analyze' | 'none';
+  type: 'priority' | 'approval' | 'status' | 'analyze' | 'cancel' | 'none';
   data?: {
     priority?: 'P0' | 'P1' | 'P2' | 'P3';
     content?: string;
@@ -226,6 +226,12 @@ export function parseQuickCommand(input: string): {
     return { type: 'approval' };
   }
   
+  // Cancel commands: "cancel", "cancel 1a2b3c4d", "stop execution"
+  const cancelMatch = trimmed.match(/^(?:cancel|abort|stop)(?:\s+(?:the\s+)?(?:execution|run|story|it))?(?:\s+([0-9a-f]{8}[0-9a-f-]*))?$/i);
+  if (cancelMatch) {
+    return { type: 'cancel', data: { target: cancelMatch[1]?.trim() } };
+  }
+  
   // Status commands
   if (/^(status|what'?s (up|happening)|updates?|show me)$/i.test(trimmed)) {
     return { type: 'status' };
@@ -7,13 +7,10 @@
 
 import { createLinearTask, addLinearComment, updateLinearTaskStatus, getDefaultTeamId } from '@/lib/linear';
 import { sendSlackNotification } from '@/lib/slack';
-import { scanDomain } from '@/lib/scanners/domain';
-import { scanSEO } from '@/lib/scanners/seo';
-import { scanPerformance } from '@/lib/scanners/performance';
-import { scanNpmAudit } from '@/lib/scanners/security-npm';
-import { scanSecrets } from '@/lib/scanners/security-secrets';
+import { listScanners, runScanner, type ScannerDefinition, type ScanTarget } from '@/lib/scanners/registry';
 import { PrismaClient } from '@prisma/client';
 import { enqueueStoryForExecution } from '@/lib/queue/execution';
+import { detectProjectCommands, runVerificationStep } from '@/lib/verification';
 import { randomUUID } from 'crypto';
 
 const prisma = new PrismaClient();
@@ -55,12 +52,13 @@ export const createLinearTaskTool: ToolDefinition = {
   },
   async execute(input, context) {
     try {
-      const teamId = await getDefaultTeamId();
+      const teamId = await getDefaultTeamId(context.workspaceId);
       const task = await createLinearTask({
         teamId,
         title: input.title,
         description: input.description || '',
         priority: input.priority || 2,
+        workspaceId: context.workspaceId,
       });
       return JSON.stringify({ success: true, taskId: task.id, url: task.url, identifier: task.identifier });
     } catch (error) {
@@ -85,7 +83,7 @@ export const addLinearCommentTool: ToolDefinition = {
       const issueId = input.issueId || context.linearTaskId;
       if (!issueId) throw new Error('No Linear issue ID provided');
       
-      await addLinearComment(issueId, input.body);
+      await addLinearComment(issueId, input.body, context.workspaceId);
       return JSON.stringify({ success: true });
     } catch (error) {
       return JSON.stringify({ success: false, error: (error as Error).message });
@@ -109,7 +107,7 @@ export const updateLinearTaskTool: ToolDefinition = {
       const issueId = input.issueId || context.linearTaskId;
       if (!issueId) throw new Error('No Linear issue ID provided');
 
-      await updateLinearTaskStatus(issueId, input.status);
+      await updateLinearTaskStatus(issueId, input.status, context.workspaceId);
       return JSON.stringify({ success: true });
     } catch (error) {
       return JSON.stringify({ success: false, error: (error as Error).message });
@@ -190,10 +188,11 @@ export const createStoryTool: ToolDefinition = {
 
       // Create Linear issue
       let linearUrl: string | null = null;
-      const teamId = await getDefaultTeamId();
+      const teamId = await getDefaultTeamId(context.workspaceId);
 
       if (teamId) {
         const linearTask = await createLinearTask({
+          workspaceId: context.workspaceId,
           teamId,
           title: input.title,
           description: `**Type:** ${input.agentType || 'General'}\n\n**Description:**\n${input.rationale}\n\n**Requested from:** Chat\n**Priority:** ${input.priority}`,
@@ -256,6 +255,7 @@ export const sendSlackMessageTool: ToolDefinition = {
         title: 'Agent Message',
         rationale: input.message,
         prUrl: '', // Optional for agent messages
+        workspaceId: context.workspaceId,
       });
       return JSON.stringify({ success: true });
     } catch (error) {
@@ -268,134 +268,140 @@ export const sendSlackMessageTool: ToolDefinition = {
 // SCANNER TOOLS
 // ============================================================================
 
-export const scanDomainTool: ToolDefinition = {
-  name: 'ScanDomain',
-  description: 'Scan a domain for SSL, DNS, and availability issues',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      domain: { type: 'string', description: 'Domain to scan (e.g., example.com)' },
-    },
-    required: ['domain'],
-  },
-  async execute(input, _context) {
-    try {
-      const result = await scanDomain(input.domain);
-      return JSON.stringify(result);
-    } catch (error) {
-      return JSON.stringify({ success: false, error: (error as Error).message });
-    }
-  },
-};
+/**
+ * Build a tool that runs one or more registered scanners. Scanners that share a
+ * tool name (npm_audit + secrets -> ScanSecurity) run together and their
+ * results come back keyed by scan type.
+ */
+function createScannerTool(
+  name: string,
+  description: string,
+  scanners: ScannerDefinition[]
+): ToolDefinition {
+  const inputs = new Set(scanners.flatMap(scanner => scanner.inputs));
+  const properties: Record<string, any> = {};
+  if (inputs.has('domain')) {
+    properties.url = { type: 'string', description: 'URL or domain to scan (e.g., example.com)' };
+  }
+  if (inputs.has('repo')) {
+    properties.repoPath = { type: 'string', description: 'Path to repository (defaults to the working directory)' };
+  }
+  if (inputs.has('project')) {
+    properties.projectName = { type: 'string', description: 'Project name' };
+  }
 
-export const scanSEOTool: ToolDefinition = {
-  name: 'ScanSEO',
-  description: 'Scan a URL for SEO issues (meta tags, headings, etc)',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      url: { type: 'string', description: 'URL to scan' },
+  return {
+    name,
+    description,
+    inputSchema: {
+      type: 'object',
+      properties,
+      required: inputs.has('domain') ? ['url'] : [],
     },
-    required: ['url'],
-  },
-  async execute(input, _context) {
-    try {
-      // Extract domain from URL
-      const domain = input.url.replace(/^https?:\/\//, '').split('/')[0];
-      const result = await scanSEO(domain);
-      return JSON.stringify(result);
-    } catch (error) {
-      return JSON.stringify({ success: false, error: (error as Error).message });
-    }
-  },
-};
-
-export const scanPerformanceTool: ToolDefinition = {
-  name: 'ScanPerformance',
-  description: 'Scan a URL for performance metrics (Core Web Vitals)',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      url: { type: 'string', description: 'URL to scan' },
+    async execute(input, context) {
+      try {
+        const target: ScanTarget = {
+          projectName: input.projectName || '',
+          domain: input.url || input.domain || null,
+          repoPath: input.repoPath || context.workingDirectory,
+        };
+
+        if (scanners.length === 1) {
+          return JSON.stringify(await runScanner(scanners[0], target));
+        }
+
+        const results: Record<string, unknown> = {};
+        for (const scanner of scanners) {
+          results[scanner.type] = await runScanner(scanner, target);
+        }
+        return JSON.stringify(results);
+      } catch (error) {
+        return JSON.stringify({ success: false, error: (error as Error).message });
+      }
     },
-    required: ['url'],
-  },
-  async execute(input, _context) {
-    try {
-      const result = await scanPerformance(input.url);
-      return JSON.stringify(result);
-    } catch (error) {
-      return JSON.stringify({ success: false, error: (error as Error).message });
-    }
-  },
-};
+  };
+}
 
-export const scanSecurityTool: ToolDefinition = {
-  name: 'ScanSecurity',
-  description: 'Scan a repository for security issues (npm audit, secrets)',
-  inputSchema: {
-    type: 'object',
-    properties: {
-      repoPath: { type: 'string', description: 'Path to repository' },
-    },
-    required: ['repoPath'],
-  },
-  async execute(input, context) {
-    try {
-      const repoPath = input.repoPath || context.workingDirectory;
-      if (!repoPath) throw new Error('No repository path provided');
-      
-      // Run npm audit scan
-      const npmResult = await scanNpmAudit(repoPath);
-      
-      return JSON.stringify({
-        npmAudit: npmResult,
-      });
-    } catch (error) {
-      return JSON.stringify({ success: false, error: (error as Error).message });
-    }
-  },
-};
+/**
+ * Scanner tools generated from the scanner registry (ScanDomain, ScanSEO, ...)
+ */
+export const scannerTools: Record<string, ToolDefinition> = (() => {
+  const grouped: Record<string, { description: string; scanners: ScannerDefinition[] }> = {};
+  for (const scanner of listScanners()) {
+    if (!scanner.tool) continue;
+    grouped[scanner.tool.name] ||= { description: scanner.tool.description, scanners: [] };
+    grouped[scanner.tool.name].scanners.push(scanner);
+  }
+
+  return Object.fromEntries(
+    Object.entries(grouped).map(([name, { description, scanners }]) => [
+      name,
+      createScannerTool(name, description, scanners),
+    ])
+  );
+})();
 
 // ============================================================================
 // QUALITY TOOLS
 // ============================================================================
 
+/**
+ * Run a verification step in the agent's working directory, defaulting to
+ * the command detected from the repository's package.json
+ */
+async function runQualityStep(
+  name: 'lint' | 'test',
+  input: Record<string, any>,
+  context: ToolContext
+): Promise<string> {
+  if (!context.workingDirectory) {
+    return JSON.stringify({ success: false, error: 'No working directory for this session' });
+  }
+
+  try {
+    const command = input.command || detectProjectCommands(context.workingDirectory)?.[name];
+    if (!command) {
+      return JSON.stringify({ success: true, skipped: true, message: `No ${name} script found in package.json` });
+    }
+
+    const step = await runVerificationStep(name, command, context.workingDirectory);
+    return JSON.stringify({
+      success: step.passed,
+      command: step.command,
+      exitCode: step.exitCode,
+      timedOut: step.timedOut,
+      output: step.output,
+    });
+  } catch (error) {
+    return JSON.stringify({ success: false, error: (error as Error).message });
+  }
+}
+
 export const runTestsTool: ToolDefinition = {
   name: 'RunTests',
-  description: 'Run the test suite for a project',
+  description: 'Run the test suite for a project and return its output',
   inputSchema: {
     type: 'object',
     properties: {
-      command: { type: 'string', description: 'Test command (default: npm test)' },
+      command: { type: 'string', description: 'Test command (default: detected from package.json)' },
     },
   },
   async execute(input, context) {
-    // This tool is a hint to the agent - actual execution happens via Bash
-    const cmd = input.command || 'npm test';
-    return JSON.stringify({
-      hint: `Run "${cmd}" via the Bash tool to execute tests`,
-      workingDirectory: context.workingDirectory,
-    });
+    return runQualityStep('test', input, context);
   },
 };
 
 export const runLinterTool: ToolDefinition = {
   name: 'RunLinter',
-  description: 'Run the linter for a project',
+  description: 'Run the linter for a project and return its output',
   inputSchema: {
     type: 'object',
     properties: {
-      command: { type: 'string', description: 'Lint command (default: npm run lint)' },
+      command: { type: 'string', description: 'Lint command (default: detected from package.json)' },
     },
   },
   async execute(input, context) {
-    // This tool is a hint to the agent - actual execution happens via Bash
-    const cmd = input.command || 'npm run lint';
-    return JSON.stringify({
-      hint: `Run "${cmd}" via the Bash tool to lint code`,
-      workingDirectory: context.workingDirectory,
-    });
+    return runQualityStep('lint', input, context);
   },
 };
 
@@ -468,10 +474,7 @@ export const customTools: Record<string, ToolDefinition> = {
   AddLinearComment: addLinearCommentTool,
   UpdateLinearTask: updateLinearTaskTool,
   SendSlackMessage: sendSlackMessageTool,
-  ScanDomain: scanDomainTool,
-  ScanSEO: scanSEOTool,
-  ScanPerformance: scanPerformanceTool,
-  ScanSecurity: scanSecurityTool,
+  ...scannerTools,
   RunTests: runTestsTool,
   RunLinter: runLinterTool,
   HostOutput: hostOutputTool,
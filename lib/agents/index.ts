@@ -24,14 +24,18 @@ export type ToolName =
   | 'HostOutput' | 'TakeScreenshot'  // Output tools
   | 'QueryDatabase' | 'RunMigration';  // Database tools
 
+// Haiku isn't assigned to any agent; sessions fall back to it near a budget limit
+export type AgentModel = 'claude-opus-4-5-20251101' | 'claude-sonnet-4-5-20250929' | 'claude-haiku-4-5-20251001';
+
 export interface AgentDefinition {
   name: string;
   role: string;
   type: 'code' | 'ops' | 'content' | 'infra';
-  model: 'claude-opus-4-5-20251101' | 'claude-sonnet-4-5-20250929';
+  model: AgentModel;
   tools: ToolName[];
   prompt: string;
   maxTurns: number;
+  maxDurationMs?: number; // Wall-clock limit per run (sdk-runner default when unset)
   canSpawnSubagents: boolean;
   description?: string;
 }
@@ -273,6 +277,7 @@ export const codeGenerationAgent: AgentDefinition = {
   model: 'claude-opus-4-5-20251101', // High stakes - writing code
   tools: ['Read', 'Write', 'Edit', 'Bash', 'Glob', 'Grep', 'RunTests', 'RunLinter'],
   maxTurns: 15,
+  maxDurationMs: 30 * 60 * 1000, // Runs tests and builds
   canSpawnSubagents: true,
   description: 'Writes and modifies code to fix issues',
   prompt: `You are a Code Generation Agent that writes production-quality code.
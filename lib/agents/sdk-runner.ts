@@ -8,8 +8,18 @@
  */
 
 import { featureFlags } from '@/lib/config/feature-flags';
-import { AgentDefinition as AppAgentDefinition, getAgentDefinition, agentRegistry } from './index';
+import { AgentDefinition as AppAgentDefinition, type AgentModel, getAgentDefinition, agentRegistry } from './index';
 import { prisma } from '@/lib/db';
+import {
+  calculateCost,
+  costFields,
+  countTokens,
+  mergeUsage,
+  usageFromMessage,
+  usageFromSDKResult,
+  type CostBreakdown,
+  type ModelTokenUsage,
+} from '@/lib/pricing';
 import Anthropic from '@anthropic-ai/sdk';
 import {
   query,
@@ -25,6 +35,7 @@ interface AgentSessionData {
   messages: Array<{ role: string; content: string }>;
   toolCalls: Array<{ tool: string; input: unknown; output: unknown; duration: number }>;
   tokensUsed: number;
+  cost: CostBreakdown;
   status: 'running' | 'completed' | 'failed' | 'cancelled';
 }
 
@@ -47,16 +58,11 @@ interface AgentFinding {
 // Standard Anthropic SDK client (for fallback)
 const anthropic = new Anthropic();
 
-// Token costs for estimation (per 1K tokens)
-const TOKEN_COSTS = {
-  'claude-opus-4-5-20251101': { input: 0.015, output: 0.075 },
-  'claude-sonnet-4-5-20250929': { input: 0.003, output: 0.015 },
-};
-
 // Map our model names to SDK model identifiers
 const MODEL_MAP: Record<string, 'opus' | 'sonnet' | 'haiku'> = {
   'claude-opus-4-5-20251101': 'opus',
   'claude-sonnet-4-5-20250929': 'sonnet',
+  'claude-haiku-4-5-20251001': 'haiku',
 };
 
 // Map our tool names to SDK tool names
@@ -73,6 +79,25 @@ const TOOL_MAP: Record<string, string> = {
   'SQL': 'Bash', // SQL runs through bash
 };
 
+// Tools available in read-only runs (e.g. execution plans)
+const READ_ONLY_TOOLS = ['Read', 'Grep', 'Glob'];
+
+// Wall-clock limit for agents without their own maxDurationMs
+const DEFAULT_MAX_DURATION_MS = 15 * 60 * 1000;
+
+export type AgentStopReason = 'cancelled' | 'timeout' | 'max_turns';
+
+/**
+ * Thrown when a run is aborted (cancel request) or hits its wall-clock or
+ * turn limit. The session is recorded as `cancelled`.
+ */
+export class AgentCancelledError extends Error {
+  constructor(public readonly reason: AgentStopReason, message: string) {
+    super(message);
+    this.name = 'AgentCancelledError';
+  }
+}
+
 /**
  * Convert our agent definitions to SDK format for subagent spawning.
  * 
@@ -111,9 +136,14 @@ export async function runAgentWithSDK(
   options: {
     projectId?: string;
     storyId?: string;
+    workspaceId?: string; // Spend attribution for budgets
     orchestratorRunId?: string;
     maxTurns?: number;
     workingDirectory?: string;
+    readOnly?: boolean; // Restrict to Read/Grep/Glob and don't spawn subagents
+    model?: string; // Override the agent's model (e.g. a budget downgrade)
+    signal?: AbortSignal; // Aborts the SDK query (cancel requests)
+    strictTurnLimit?: boolean; // Treat hitting maxTurns as a stop instead of returning partial output
   } = {}
 ): Promise<RunResult> {
   const agent = getAgentDefinition(role);
@@ -123,7 +153,11 @@ export async function runAgentWithSDK(
 
   // If SDK is disabled, use legacy fallback
   if (!featureFlags.AGENT_SDK_ENABLED) {
-    return runAgentLegacy(agent, context, options);
+    return runAgentLegacy(options.model ? { ...agent, model: options.model as AgentModel } : agent, context, options);
+  }
+
+  if (options.signal?.aborted) {
+    throw new AgentCancelledError('cancelled', `${agent.name} run cancelled before it started`);
   }
 
   // Create agent session record
@@ -132,6 +166,7 @@ export async function runAgentWithSDK(
       orchestratorRunId: options.orchestratorRunId,
       storyId: options.storyId,
       projectId: options.projectId,
+      workspaceId: options.workspaceId,
       agentName: agent.name,
       agentType: agent.type,
       status: 'running',
@@ -140,24 +175,46 @@ export async function runAgentWithSDK(
     },
   });
 
+  // Aborted by the caller's signal or the wall-clock limit, whichever fires first
+  const maxDurationMs = agent.maxDurationMs ?? DEFAULT_MAX_DURATION_MS;
+  const abortController = new AbortController();
+  let stopReason: AgentStopReason | null = null;
+  const stop = (reason: AgentStopReason) => {
+    if (stopReason) return;
+    stopReason = reason;
+    abortController.abort();
+  };
+  const onAbort = () => stop('cancelled');
+  options.signal?.addEventListener('abort', onAbort);
+  const timer = setTimeout(() => stop('timeout'), maxDurationMs);
+
   try {
+    const tools = options.readOnly
+      ? READ_ONLY_TOOLS
+      : agent.tools.map(t => TOOL_MAP[t] || t).filter(Boolean) as string[];
+
     // Build SDK options
     const sdkOptions: SDKOptions = {
       // Allow all tools for this agent
-      tools: agent.tools.map(t => TOOL_MAP[t] || t).filter(Boolean) as string[],
-      allowedTools: agent.tools.map(t => TOOL_MAP[t] || t).filter(Boolean) as string[],
+      tools,
+      allowedTools: tools,
       
       // Set working directory if provided
       cwd: options.workingDirectory || process.cwd(),
+
+      // Only set when overridden; otherwise the SDK default applies
+      model: options.model,
       
       // Max turns
       maxTurns: options.maxTurns ?? agent.maxTurns,
       
       // Define all available subagents
-      agents: agent.canSpawnSubagents ? convertToSDKAgents() : undefined,
+      agents: agent.canSpawnSubagents && !options.readOnly ? convertToSDKAgents() : undefined,
       
       // Don't persist SDK sessions (we handle our own)
       persistSession: false,
+
+      abortController,
       
       // Include partial messages for streaming
       includePartialMessages: true,
@@ -173,22 +230,29 @@ export async function runAgentWithSDK(
     const fullPrompt = `${agent.prompt}\n\n---\n\nContext:\n${context}`;
 
     // Run the agent using the SDK
-    const result = await runAgentWithRealSDK(fullPrompt, sdkOptions, session.id);
+    const result = await runAgentWithRealSDK(fullPrompt, sdkOptions, options.model || agent.model);
+    const cost = calculateCost(result.usage);
+    const tokensUsed = countTokens(cost);
+    const hitTurnLimit = options.strictTurnLimit && result.stopSubtype === 'error_max_turns';
 
     // Update session with results
     await prisma.agentSession.update({
       where: { id: session.id },
       data: {
-        status: 'completed',
+        status: hitTurnLimit ? 'cancelled' : 'completed',
         thinkingTrace: result.thinkingTrace as object[],
         toolCalls: result.toolCalls as object[],
-        tokensUsed: result.tokensUsed,
-        estimatedCost: result.costUSD,
+        tokensUsed,
+        ...costFields(cost),
         turnsUsed: result.turnsUsed,
         completedAt: new Date(),
       },
     });
 
+    if (hitTurnLimit) {
+      throw new AgentCancelledError('max_turns', `${agent.name} hit its ${sdkOptions.maxTurns}-turn limit`);
+    }
+
     return {
       success: true,
       output: result.output,
@@ -197,23 +261,35 @@ export async function runAgentWithSDK(
         agent,
         messages: result.messages,
         toolCalls: result.toolCalls,
-        tokensUsed: result.tokensUsed,
+        tokensUsed,
+        cost,
         status: 'completed',
       },
       findings: result.findings,
     };
 
   } catch (error) {
+    if (error instanceof AgentCancelledError) throw error;
+
     // Update session with error
     await prisma.agentSession.update({
       where: { id: session.id },
       data: {
-        status: 'failed',
+        status: stopReason ? 'cancelled' : 'failed',
         completedAt: new Date(),
       },
     });
 
+    if (stopReason === 'timeout') {
+      throw new AgentCancelledError('timeout', `${agent.name} exceeded its ${Math.round(maxDurationMs / 60000)}-minute limit`);
+    }
+    if (stopReason === 'cancelled') {
+      throw new AgentCancelledError('cancelled', `${agent.name} run cancelled`);
+    }
     throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
   }
 }
 
@@ -223,23 +299,23 @@ export async function runAgentWithSDK(
 async function runAgentWithRealSDK(
   prompt: string,
   options: SDKOptions,
-  sessionId: string
+  model: string
 ): Promise<{
   output: string;
   messages: Array<{ role: string; content: string }>;
   thinkingTrace: Array<{ turn: number; thinking: string; action: string }>;
   toolCalls: Array<{ tool: string; input: unknown; output: unknown; duration: number }>;
-  tokensUsed: number;
+  usage: ModelTokenUsage;
   turnsUsed: number;
-  costUSD: number;
+  stopSubtype?: string; // Result subtype, e.g. 'error_max_turns'
   findings?: AgentFinding[];
 }> {
   const messages: Array<{ role: string; content: string }> = [];
   const thinkingTrace: Array<{ turn: number; thinking: string; action: string }> = [];
   const toolCalls: Array<{ tool: string; input: unknown; output: unknown; duration: number }> = [];
-  let tokensUsed = 0;
+  let usage: ModelTokenUsage = {};
   let turnsUsed = 0;
-  let costUSD = 0;
+  let stopSubtype: string | undefined;
   let finalOutput = '';
 
   try {
@@ -257,7 +333,8 @@ async function runAgentWithRealSDK(
         toolCalls,
         turnsUsed,
         onOutput: (text) => { finalOutput = text; },
-        onTokens: (tokens, cost) => { tokensUsed += tokens; costUSD += cost; },
+        onUsage: (result) => { usage = mergeUsage(usage, usageFromSDKResult(result, model)); },
+        onStop: (subtype) => { stopSubtype = subtype; },
         onTurn: () => { turnsUsed++; },
       });
     }
@@ -275,9 +352,9 @@ async function runAgentWithRealSDK(
     messages,
     thinkingTrace,
     toolCalls,
-    tokensUsed,
+    usage,
     turnsUsed,
-    costUSD,
+    stopSubtype,
     findings,
   };
 }
@@ -293,7 +370,8 @@ function processSDKMessage(
     toolCalls: Array<{ tool: string; input: unknown; output: unknown; duration: number }>;
     turnsUsed: number;
     onOutput: (text: string) => void;
-    onTokens: (tokens: number, cost: number) => void;
+    onUsage: (result: Parameters<typeof usageFromSDKResult>[0]) => void;
+    onStop: (subtype: string | undefined) => void;
     onTurn: () => void;
   }
 ) {
@@ -318,18 +396,13 @@ function processSDKMessage(
 
     case 'result':
       // Final result with usage stats
-      const resultMsg = message as { 
+      const resultMsg = message as Parameters<typeof usageFromSDKResult>[0] & {
         type: 'result'; 
         subtype?: string;
-        usage?: { inputTokens?: number; outputTokens?: number };
-        total_cost_usd?: number;
         result?: string;
       };
-      if (resultMsg.usage) {
-        const usage = resultMsg.usage;
-        const tokens = (usage.inputTokens || 0) + (usage.outputTokens || 0);
-        context.onTokens(tokens, resultMsg.total_cost_usd || 0);
-      }
+      context.onUsage(resultMsg);
+      context.onStop(resultMsg.subtype);
       // Only SDKResultSuccess has result
       if (resultMsg.subtype === 'success' && resultMsg.result) {
         context.onOutput(String(resultMsg.result));
@@ -387,7 +460,8 @@ async function runAgentLegacy(
 
   const textContent = response.content.find(c => c.type === 'text');
   const output = textContent?.type === 'text' ? textContent.text : '';
-  const tokensUsed = response.usage.input_tokens + response.usage.output_tokens;
+  const cost = calculateCost({ [agent.model]: usageFromMessage(response.usage) });
+  const tokensUsed = countTokens(cost);
 
   return {
     success: true,
@@ -401,6 +475,7 @@ async function runAgentLegacy(
       ],
       toolCalls: [],
       tokensUsed,
+      cost,
       status: 'completed',
     },
     findings: parseFindingsFromResponse(output),
@@ -426,17 +501,6 @@ function parseFindingsFromResponse(text: string): AgentFinding[] | undefined {
   }
 }
 
-/**
- * Estimate cost based on tokens and model
- */
-function estimateCost(model: AppAgentDefinition['model'], tokens: number): number {
-  const costs = TOKEN_COSTS[model];
-  // Rough split: 70% input, 30% output
-  const inputTokens = tokens * 0.7;
-  const outputTokens = tokens * 0.3;
-  return (inputTokens / 1000 * costs.input) + (outputTokens / 1000 * costs.output);
-}
-
 /**
  * Spawn a subagent from a parent agent
  */
@@ -171,22 +171,22 @@ function generateDefaultAssessment(state: AggregatedState): StateAssessment {
   // Generate recommendations based on incomplete items
   const recommendations: string[] = [];
   
-  if (!launchChecklist.analytics_installed) {
+  if (launchChecklist.analytics_installed === false) {
     recommendations.push('Set up PostHog or similar analytics to track user behavior');
   }
-  if (!launchChecklist.security_passing) {
+  if (launchChecklist.security_passing === false) {
     recommendations.push('Address critical security vulnerabilities found in scans');
   }
-  if (!launchChecklist.payments_configured) {
+  if (launchChecklist.payments_configured === false) {
     recommendations.push('Configure Stripe or payment processor for monetization');
   }
-  if (!launchChecklist.performance_passing) {
+  if (launchChecklist.performance_passing === false) {
     recommendations.push('Optimize page load times to improve Core Web Vitals');
   }
-  if (!launchChecklist.seo_optimized) {
+  if (launchChecklist.seo_optimized === false) {
     recommendations.push('Add meta descriptions and Open Graph tags for better SEO');
   }
-  if (!launchChecklist.error_monitoring) {
+  if (launchChecklist.error_monitoring === false) {
     recommendations.push('Set up Sentry or similar for production error monitoring');
   }
 
@@ -0,0 +1,144 @@
+/**
+ * Workspace Access
+ *
+ * Every API route resolves its workspace through authorize(): the signed-in
+ * user's selected workspace (header, cookie, then their default), checked
+ * against WorkspaceMember. Roles, lowest to highest:
+ * - viewer: read-only
+ * - member: can change data (priorities, chat, scans, plans)
+ * - admin / owner: can also approve, reject, execute and cancel stories and edit budgets
+ *
+ * Vercel cron calls carry `Authorization: Bearer $CRON_SECRET` instead of a
+ * session and act on the x-workspace-id header's workspace, or WORKSPACE_ID.
+ */
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { LEGACY_WORKSPACE_ID } from '@/lib/integrations';
+import { getSessionUser, readCookie } from './session';
+import { WORKSPACE_COOKIE, WORKSPACE_HEADER } from './constants';
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export interface AuthContext {
+  userId: string | null; // null for cron calls
+  email: string | null;
+  workspaceId: string;
+  role: WorkspaceRole;
+  via: 'session' | 'cron';
+}
+
+export type AuthResult = ({ ok: true } & AuthContext) | { ok: false; response: NextResponse };
+
+export function hasRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return (ROLE_RANK[role] ?? -1) >= ROLE_RANK[required];
+}
+
+/**
+ * Approving, executing and cancelling stories
+ */
+export function canExecuteStories(role: WorkspaceRole): boolean {
+  return hasRole(role, 'admin');
+}
+
+function toRole(role: string): WorkspaceRole {
+  return role in ROLE_RANK ? role as WorkspaceRole : 'viewer';
+}
+
+function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+/**
+ * Headers for server-to-server calls to cron routes (e.g. from Slack commands)
+ */
+export function internalAuthHeaders(workspaceId?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (process.env.CRON_SECRET) headers.authorization = `Bearer ${process.env.CRON_SECRET}`;
+  if (workspaceId) headers[WORKSPACE_HEADER] = workspaceId;
+  return headers;
+}
+
+/**
+ * A user's role in a workspace, or null if they aren't a member
+ */
+export async function getWorkspaceRole(userId: string, workspaceId: string): Promise<WorkspaceRole | null> {
+  const membership = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true },
+  });
+  if (membership) return toRole(membership.role);
+
+  const owned = await prisma.workspace.findFirst({
+    where: { id: workspaceId, ownerUserId: userId },
+    select: { id: true },
+  });
+  return owned ? 'owner' : null;
+}
+
+/**
+ * Workspaces a user belongs to, for the workspace switcher
+ */
+export async function listWorkspaces(userId: string): Promise<Array<{ id: string; name: string; role: WorkspaceRole }>> {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId },
+    include: { workspace: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return memberships.map(m => ({ id: m.workspace.id, name: m.workspace.name, role: toRole(m.role) }));
+}
+
+function deny(status: 401 | 403, error: string): AuthResult {
+  return { ok: false, response: NextResponse.json({ error }, { status }) };
+}
+
+/**
+ * Authenticate a request and resolve its workspace and role.
+ *
+ * @param options.role - Minimum role (default: viewer for GET/HEAD, member otherwise)
+ * @param options.allowCron - Accept the cron secret in place of a session
+ */
+export async function authorize(
+  request: Request,
+  options: { role?: WorkspaceRole; allowCron?: boolean } = {}
+): Promise<AuthResult> {
+  const required = options.role || (['GET', 'HEAD'].includes(request.method) ? 'viewer' : 'member');
+
+  if (options.allowCron && isCronRequest(request)) {
+    return {
+      ok: true,
+      userId: null,
+      email: null,
+      workspaceId: request.headers.get(WORKSPACE_HEADER) || LEGACY_WORKSPACE_ID,
+      role: 'owner',
+      via: 'cron',
+    };
+  }
+
+  const user = await getSessionUser(request);
+  if (!user) return deny(401, 'Not signed in');
+
+  let workspaceId = request.headers.get(WORKSPACE_HEADER) || readCookie(request, WORKSPACE_COOKIE) || user.defaultWorkspaceId;
+  if (!workspaceId) {
+    const [first] = await listWorkspaces(user.userId);
+    workspaceId = first?.id || null;
+  }
+  if (!workspaceId) return deny(403, 'No workspace');
+
+  const role = await getWorkspaceRole(user.userId, workspaceId);
+  if (!role) return deny(403, 'Not a member of this workspace');
+
+  if (!hasRole(role, required)) {
+    return deny(403, `Requires ${required} role (you are ${role})`);
+  }
+
+  return { ok: true, userId: user.userId, email: user.email, workspaceId, role, via: 'session' };
+}
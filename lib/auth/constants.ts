@@ -0,0 +1,59 @@
+/**
+ * Auth Constants
+ *
+ * Shared by the edge middleware and the Node route helpers, so this module
+ * must not import Prisma or Node built-ins.
+ */
+
+export const SESSION_COOKIE = 'vc_session';
+
+// Workspace picked in the UI; membership is checked on every request
+export const WORKSPACE_COOKIE = 'vc_workspace';
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Pages and API routes reachable without a session. Webhooks verify their
+// own signatures; cron routes check CRON_SECRET in the handler.
+export const PUBLIC_PATHS = [
+  '/',
+  '/login',
+  '/privacy',
+  '/terms',
+  '/api/auth/',
+  '/api/github/webhook',
+  '/api/linear/webhook',
+  '/api/slack/events',
+  '/api/slack/health',
+  '/api/waitlist',
+];
+
+// Cron targets; they also accept a session
+export const CRON_PATHS = [
+  '/api/slack/check-in',
+  '/api/scans/trigger',
+  '/api/orchestrator/run',
+];
+
+export function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some(path => {
+    if (path === '/') return pathname === '/';
+    if (path.endsWith('/')) return pathname.startsWith(path);
+    return pathname === path || pathname.startsWith(`${path}/`);
+  });
+}
+
+/**
+ * A post-login redirect target as a same-origin path, or null if it would
+ * leave the app. Resolving it like the browser does catches tricks such as
+ * "//evil.com" and "/\evil.com".
+ */
+export function sameOriginPath(next: unknown, origin: string): string | null {
+  if (typeof next !== 'string' || !next.startsWith('/')) return null;
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Sessions & Magic Links
+ *
+ * Email sign-in: POST /api/auth/login mails a single-use link, and
+ * /api/auth/callback exchanges it for a session cookie. Tokens are random
+ * and only their SHA-256 hash is stored, for both links and sessions.
+ *
+ * Without RESEND_API_KEY (local development) the link is logged instead of
+ * mailed, so sign-in works with no email provider.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Resend } from 'resend';
+import { prisma } from '@/lib/db';
+import { SESSION_COOKIE, SESSION_TTL_MS } from './constants';
+
+const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// Refresh lastUsedAt at most this often
+const SESSION_TOUCH_MS = 60 * 60 * 1000;
+
+const FROM_EMAIL = process.env.AUTH_FROM_EMAIL || 'Virtual Cofounder <miguel@virtualcofounder.ai>';
+
+export interface SessionUser {
+  sessionId: string;
+  userId: string;
+  email: string;
+  name: string | null;
+  defaultWorkspaceId: string | null;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function newToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Base URL for links in emails
+ */
+export function appUrl(request?: Request): string {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, '');
+  if (request) return new URL(request.url).origin;
+  return process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000';
+}
+
+// ============================================================================
+// MAGIC LINKS
+// ============================================================================
+
+/**
+ * Create a sign-in link for an email and send it
+ * @returns The link, for local development (never return it to clients in production)
+ */
+export async function sendLoginLink(email: string, baseUrl: string, next?: string): Promise<string> {
+  const token = newToken();
+  await prisma.loginToken.create({
+    data: {
+      email: normalizeEmail(email),
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + LOGIN_TOKEN_TTL_MS),
+    },
+  });
+
+  const params = new URLSearchParams({ token });
+  if (next) params.set('next', next);
+  const link = `${baseUrl}/api/auth/callback?${params.toString()}`;
+
+  if (!process.env.RESEND_API_KEY) {
+    console.log(`[Auth] Sign-in link for ${email}: ${link}`);
+    return link;
+  }
+
+  const resend = new Resend(process.env.RESEND_API_KEY);
+  const { error } = await resend.emails.send({
+    from: FROM_EMAIL,
+    to: email,
+    subject: 'Your Virtual Cofounder sign-in link',
+    text: `Sign in to Virtual Cofounder:\n\n${link}\n\nThis link expires in 15 minutes and works once.`,
+    html: `<p>Sign in to Virtual Cofounder:</p><p><a href="${link}">Sign in</a></p>` +
+      `<p style="color:#6B7280">This link expires in 15 minutes and works once.</p>`,
+  });
+  if (error) throw new Error(`Failed to send sign-in email: ${error.message}`);
+
+  return link;
+}
+
+/**
+ * Exchange a magic-link token for its user, creating the user (with a
+ * workspace of their own) on first sign-in. Returns null for unknown,
+ * expired or reused tokens.
+ */
+export async function consumeLoginToken(token: string): Promise<{ userId: string } | null> {
+  const loginToken = await prisma.loginToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!loginToken || loginToken.usedAt || loginToken.expiresAt < new Date()) return null;
+
+  // Guard against the link being opened twice at once
+  const claimed = await prisma.loginToken.updateMany({
+    where: { id: loginToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) return null;
+
+  const existing = await prisma.user.findUnique({ where: { email: loginToken.email } });
+  if (existing) {
+    if (!existing.emailVerified) {
+      await prisma.user.update({ where: { id: existing.id }, data: { emailVerified: new Date() } });
+    }
+    return { userId: existing.id };
+  }
+
+  const user = await prisma.user.create({
+    data: { email: loginToken.email, emailVerified: new Date() },
+  });
+  const workspace = await createPersonalWorkspace(user.id, user.email);
+  await prisma.user.update({ where: { id: user.id }, data: { defaultWorkspaceId: workspace.id } });
+
+  console.log(`[Auth] New user ${user.email} with workspace ${workspace.id}`);
+  return { userId: user.id };
+}
+
+async function createPersonalWorkspace(userId: string, email: string) {
+  const handle = email.split('@')[0].replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+  return prisma.workspace.create({
+    data: {
+      name: `${handle}'s workspace`,
+      slug: `${handle}-${randomBytes(3).toString('hex')}`,
+      ownerUserId: userId,
+      members: { create: { userId, role: 'owner' } },
+    },
+  });
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+/**
+ * Start a session; the returned token goes in the session cookie
+ */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const token = newToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await prisma.session.create({
+    data: { userId, tokenHash: hashToken(token), expiresAt },
+  });
+  return { token, expiresAt };
+}
+
+/**
+ * A cookie's value from a request
+ */
+export function readCookie(request: Request, name: string): string | null {
+  const cookies = request.headers.get('cookie') || '';
+  const match = cookies.split(/;\s*/).find(c => c.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+}
+
+function readSessionToken(request: Request): string | null {
+  return readCookie(request, SESSION_COOKIE);
+}
+
+/**
+ * The signed-in user for a request, or null
+ */
+export async function getSessionUser(request: Request): Promise<SessionUser | null> {
+  const token = readSessionToken(request);
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, email: true, name: true, defaultWorkspaceId: true } } },
+  });
+  if (!session) return null;
+
+  if (session.expiresAt < new Date()) {
+    await prisma.session.delete({ where: { id: session.id } }).catch(() => undefined);
+    return null;
+  }
+
+  if (Date.now() - session.lastUsedAt.getTime() > SESSION_TOUCH_MS) {
+    await prisma.session.update({ where: { id: session.id }, data: { lastUsedAt: new Date() } });
+  }
+
+  return {
+    sessionId: session.id,
+    userId: session.user.id,
+    email: session.user.email,
+    name: session.user.name,
+    defaultWorkspaceId: session.user.defaultWorkspaceId,
+  };
+}
+
+/**
+ * End the session behind a request's cookie
+ */
+export async function deleteSession(request: Request): Promise<void> {
+  const token = readSessionToken(request);
+  if (!token) return;
+  await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+/**
+ * Cookie options for the session cookie
+ */
+export function sessionCookieOptions(expiresAt?: Date) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    ...(expiresAt ? { expires: expiresAt } : { maxAge: 0 }),
+  };
+}
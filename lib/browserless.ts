@@ -4,13 +4,14 @@
  * Provides connection to Browserless cloud service for headless browser operations
  */
 
-import { chromium, Browser, Page } from 'playwright';
+import { chromium, Browser, BrowserContextOptions, Page } from 'playwright';
 
 const BROWSERLESS_TIMEOUT = 30000; // 30 seconds
 
 export interface BrowserlessConfig {
   apiKey?: string;
   timeout?: number;
+  contextOptions?: BrowserContextOptions; // Device emulation, e.g. devices['Pixel 5']
 }
 
 /**
@@ -57,7 +58,7 @@ export async function createBrowserlessPage(
   config: BrowserlessConfig = {}
 ): Promise<{ browser: Browser; page: Page }> {
   const browser = await connectBrowserless(config);
-  const page = await browser.newPage();
+  const page = await browser.newPage(config.contextOptions);
 
   return { browser, page };
 }
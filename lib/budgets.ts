@@ -0,0 +1,391 @@
+/**
+ * Cost Budgets
+ *
+ * Daily and monthly USD limits per workspace and per project, plus a token
+ * ceiling per story. Spend is read from what's already recorded on
+ * OrchestratorRun and AgentSession (sessions inside an orchestrator run are
+ * counted through the run). Callers check before starting a session: near a
+ * limit they switch to a cheaper model, over it they refuse. Crossing 50%,
+ * 80% and 100% of a limit posts one Slack alert per period.
+ */
+
+import { prisma } from '@/lib/db';
+import { sendBudgetAlert } from '@/lib/slack';
+
+// Percent of a limit that triggers a Slack alert
+export const ALERT_THRESHOLDS = [50, 80, 100];
+
+// Percent of a limit above which sessions use a cheaper model
+export const DOWNGRADE_THRESHOLD = 80;
+
+// One step down per model; aliases are used for SDK subagent definitions
+const MODEL_DOWNGRADES: Record<string, string> = {
+  'claude-opus-4-5-20251101': 'claude-sonnet-4-5-20250929',
+  'claude-sonnet-4-5-20250929': 'claude-haiku-4-5-20251001',
+  opus: 'sonnet',
+  sonnet: 'haiku',
+};
+
+// Agent name used for orchestrator run spend in breakdowns
+const ORCHESTRATOR_AGENT = 'Head of Product';
+
+export type BudgetScope = 'workspace' | 'project';
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetUsage {
+  scope: BudgetScope;
+  scopeId: string;
+  name: string;
+  period: BudgetPeriod;
+  limit: number;
+  spent: number;
+  percent: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  downgrade: boolean;
+  reason?: string;
+  usage: BudgetUsage[];
+  storyTokens?: { used: number; limit: number };
+}
+
+// Shape of Workspace.budgetAlerts / Project.budgetAlerts
+type AlertState = Partial<Record<BudgetPeriod, { period: string; sent: number[] }>>;
+
+export interface SpendBreakdown {
+  since: string;
+  total: number;
+  totalTokens: number;
+  byAgent: Array<{ agent: string; cost: number; tokens: number; sessions: number }>;
+  byProject: Array<{ projectId: string | null; name: string; cost: number; tokens: number }>;
+  byDay: Array<{ date: string; cost: number; tokens: number }>;
+}
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+/**
+ * Start of the current budget period (UTC)
+ */
+export function periodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Identifies a period for alert de-duplication: "2026-03-14" or "2026-03"
+ */
+export function periodKey(period: BudgetPeriod, now: Date = new Date()): string {
+  const iso = now.toISOString();
+  return period === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * The cheaper model to use near a limit (unchanged if there is none)
+ */
+export function downgradeModel(model: string): string {
+  return MODEL_DOWNGRADES[model] || model;
+}
+
+/**
+ * Decide whether a session may start, given current usage
+ */
+export function evaluateBudget(
+  usage: BudgetUsage[],
+  storyTokens?: { used: number; limit: number }
+): BudgetCheck {
+  const exhausted = usage.find(u => u.percent >= 100);
+  if (exhausted) {
+    const label = exhausted.scope === 'workspace' ? 'Workspace' : `Project "${exhausted.name}"`;
+    const resets = exhausted.period === 'daily' ? 'at midnight UTC' : 'on the 1st of the month (UTC)';
+    return {
+      allowed: false,
+      downgrade: false,
+      reason: `${label} ${exhausted.period} budget of $${exhausted.limit.toFixed(2)} reached ` +
+        `($${exhausted.spent.toFixed(2)} spent). It resets ${resets}, or raise it in Settings.`,
+      usage,
+      storyTokens,
+    };
+  }
+
+  if (storyTokens && storyTokens.used >= storyTokens.limit) {
+    return {
+      allowed: false,
+      downgrade: false,
+      reason: `Story token ceiling of ${storyTokens.limit.toLocaleString()} reached ` +
+        `(${storyTokens.used.toLocaleString()} used). Raise it in Settings to keep working on this story.`,
+      usage,
+      storyTokens,
+    };
+  }
+
+  const nearStoryLimit = storyTokens ? storyTokens.used / storyTokens.limit * 100 >= DOWNGRADE_THRESHOLD : false;
+
+  return {
+    allowed: true,
+    downgrade: nearStoryLimit || usage.some(u => u.percent >= DOWNGRADE_THRESHOLD),
+    usage,
+    storyTokens,
+  };
+}
+
+/**
+ * Thresholds newly crossed this period, given those already alerted
+ */
+export function newlyCrossedThresholds(percent: number, alreadySent: number[]): number[] {
+  return ALERT_THRESHOLDS.filter(t => percent >= t && !alreadySent.includes(t));
+}
+
+// ============================================================================
+// SPEND
+// ============================================================================
+
+/**
+ * USD spent since a date by a workspace, or one of its projects
+ */
+export async function getSpend(
+  filter: { workspaceId: string; projectId?: string },
+  since: Date
+): Promise<number> {
+  const where = { workspaceId: filter.workspaceId, projectId: filter.projectId, startedAt: { gte: since } };
+
+  const [sessions, runs] = await Promise.all([
+    prisma.agentSession.aggregate({
+      _sum: { estimatedCost: true },
+      where: { ...where, orchestratorRunId: null },
+    }),
+    prisma.orchestratorRun.aggregate({
+      _sum: { estimatedCost: true },
+      where,
+    }),
+  ]);
+
+  return Number(sessions._sum.estimatedCost || 0) + Number(runs._sum.estimatedCost || 0);
+}
+
+/**
+ * Spend by agent, project and day since a date
+ */
+export async function getSpendBreakdown(
+  workspaceId: string,
+  options: { since: Date; projectId?: string }
+): Promise<SpendBreakdown> {
+  const where = { workspaceId, projectId: options.projectId, startedAt: { gte: options.since } };
+
+  const [sessions, runs] = await Promise.all([
+    prisma.agentSession.findMany({
+      where: { ...where, orchestratorRunId: null },
+      select: { agentName: true, projectId: true, estimatedCost: true, tokensUsed: true, startedAt: true },
+    }),
+    prisma.orchestratorRun.findMany({
+      where,
+      select: { projectId: true, estimatedCost: true, totalTokens: true, startedAt: true },
+    }),
+  ]);
+
+  const entries = [
+    ...sessions.map(s => ({ agent: s.agentName, projectId: s.projectId, cost: Number(s.estimatedCost || 0), tokens: s.tokensUsed || 0, startedAt: s.startedAt })),
+    ...runs.map(r => ({ agent: ORCHESTRATOR_AGENT, projectId: r.projectId, cost: Number(r.estimatedCost || 0), tokens: r.totalTokens || 0, startedAt: r.startedAt })),
+  ];
+
+  const byAgent = new Map<string, { agent: string; cost: number; tokens: number; sessions: number }>();
+  const byProject = new Map<string | null, { cost: number; tokens: number }>();
+  const byDay = new Map<string, { cost: number; tokens: number }>();
+
+  for (const entry of entries) {
+    const agent = byAgent.get(entry.agent) || { agent: entry.agent, cost: 0, tokens: 0, sessions: 0 };
+    agent.cost += entry.cost;
+    agent.tokens += entry.tokens;
+    agent.sessions += 1;
+    byAgent.set(entry.agent, agent);
+
+    const project = byProject.get(entry.projectId) || { cost: 0, tokens: 0 };
+    project.cost += entry.cost;
+    project.tokens += entry.tokens;
+    byProject.set(entry.projectId, project);
+
+    const date = entry.startedAt.toISOString().slice(0, 10);
+    const day = byDay.get(date) || { cost: 0, tokens: 0 };
+    day.cost += entry.cost;
+    day.tokens += entry.tokens;
+    byDay.set(date, day);
+  }
+
+  const projectIds = Array.from(byProject.keys()).filter((id): id is string => Boolean(id));
+  const projects = projectIds.length > 0
+    ? await prisma.project.findMany({ where: { id: { in: projectIds } }, select: { id: true, name: true } })
+    : [];
+  const projectNames = new Map(projects.map(p => [p.id, p.name]));
+
+  return {
+    since: options.since.toISOString(),
+    total: entries.reduce((sum, e) => sum + e.cost, 0),
+    totalTokens: entries.reduce((sum, e) => sum + e.tokens, 0),
+    byAgent: Array.from(byAgent.values()).sort((a, b) => b.cost - a.cost),
+    byProject: Array.from(byProject.entries())
+      .map(([projectId, totals]) => ({
+        projectId,
+        name: projectId ? projectNames.get(projectId) || 'Unknown project' : 'Workspace',
+        ...totals,
+      }))
+      .sort((a, b) => b.cost - a.cost),
+    byDay: Array.from(byDay.entries())
+      .map(([date, totals]) => ({ date, ...totals }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+/**
+ * Current usage against every configured limit for a workspace (and project)
+ */
+export async function getBudgetUsage(
+  workspaceId: string,
+  projectId?: string
+): Promise<BudgetUsage[]> {
+  const [workspace, project] = await Promise.all([
+    prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { id: true, name: true, dailyBudget: true, monthlyBudget: true },
+    }),
+    projectId
+      ? prisma.project.findUnique({
+          where: { id: projectId },
+          select: { id: true, name: true, dailyBudget: true, monthlyBudget: true },
+        })
+      : null,
+  ]);
+
+  const scopes = [
+    workspace && { scope: 'workspace' as const, owner: workspace, filter: { workspaceId } },
+    project && { scope: 'project' as const, owner: project, filter: { workspaceId, projectId: project.id } },
+  ].filter(Boolean) as Array<{
+    scope: BudgetScope;
+    owner: { id: string; name: string; dailyBudget: unknown; monthlyBudget: unknown };
+    filter: { workspaceId: string; projectId?: string };
+  }>;
+
+  const usage: BudgetUsage[] = [];
+  for (const { scope, owner, filter } of scopes) {
+    for (const period of ['daily', 'monthly'] as const) {
+      const limitValue = period === 'daily' ? owner.dailyBudget : owner.monthlyBudget;
+      if (limitValue === null || limitValue === undefined) continue;
+
+      const limit = Number(limitValue);
+      const spent = await getSpend(filter, periodStart(period));
+      usage.push({
+        scope,
+        scopeId: owner.id,
+        name: owner.name,
+        period,
+        limit,
+        spent,
+        percent: limit > 0 ? spent / limit * 100 : 100,
+      });
+    }
+  }
+
+  return usage;
+}
+
+/**
+ * Check budgets before starting an agent session.
+ * Also sends any threshold alerts that are due.
+ */
+export async function checkBudget(params: {
+  workspaceId: string;
+  projectId?: string;
+  storyId?: string;
+}): Promise<BudgetCheck> {
+  const usage = await getBudgetUsage(params.workspaceId, params.projectId);
+
+  let storyTokens: { used: number; limit: number } | undefined;
+  if (params.storyId) {
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: params.workspaceId },
+      select: { storyTokenLimit: true },
+    });
+    if (workspace?.storyTokenLimit) {
+      const { _sum } = await prisma.agentSession.aggregate({
+        _sum: { tokensUsed: true },
+        where: { storyId: params.storyId },
+      });
+      storyTokens = { used: _sum.tokensUsed || 0, limit: workspace.storyTokenLimit };
+    }
+  }
+
+  try {
+    await sendThresholdAlerts(usage);
+  } catch (error) {
+    console.error('[Budgets] Failed to send alerts:', error);
+  }
+
+  const result = evaluateBudget(usage, storyTokens);
+  if (!result.allowed) {
+    console.log(`[Budgets] Refused: ${result.reason}`);
+  } else if (result.downgrade) {
+    console.log(`[Budgets] Near limit - downgrading model`);
+  }
+  return result;
+}
+
+/**
+ * Alert Slack once per period for each threshold a limit has crossed
+ */
+async function sendThresholdAlerts(usage: BudgetUsage[]): Promise<void> {
+  const owners = new Map<string, BudgetUsage[]>();
+  for (const u of usage) {
+    const key = `${u.scope}:${u.scopeId}`;
+    owners.set(key, [...(owners.get(key) || []), u]);
+  }
+
+  for (const entries of Array.from(owners.values())) {
+    const { scope, scopeId } = entries[0];
+    const owner = scope === 'workspace'
+      ? await prisma.workspace.findUnique({ where: { id: scopeId }, select: { id: true, budgetAlerts: true } })
+      : await prisma.project.findUnique({ where: { id: scopeId }, select: { workspaceId: true, budgetAlerts: true } });
+    if (!owner) continue;
+    const workspaceId = 'workspaceId' in owner ? owner.workspaceId : owner.id;
+
+    const state = (owner.budgetAlerts || {}) as AlertState;
+    let changed = false;
+
+    for (const u of entries) {
+      const key = periodKey(u.period);
+      const sent = state[u.period]?.period === key ? state[u.period]!.sent : [];
+      const crossed = newlyCrossedThresholds(u.percent, sent);
+      if (crossed.length === 0) continue;
+
+      // One message for the highest threshold crossed since the last check
+      await sendBudgetAlert({
+        scope: u.scope,
+        name: u.name,
+        period: u.period,
+        threshold: Math.max(...crossed),
+        spent: u.spent,
+        limit: u.limit,
+        workspaceId,
+      });
+      state[u.period] = { period: key, sent: [...sent, ...crossed] };
+      changed = true;
+    }
+
+    if (changed) {
+      if (scope === 'workspace') {
+        await prisma.workspace.update({ where: { id: scopeId }, data: { budgetAlerts: state } });
+      } else {
+        await prisma.project.update({ where: { id: scopeId }, data: { budgetAlerts: state } });
+      }
+    }
+  }
+}
@@ -7,16 +7,7 @@
  */
 
 import { prisma } from '@/lib/db';
-import { WebClient } from '@slack/web-api';
-
-// Initialize Slack client
-const slack = new WebClient(process.env.SLACK_BOT_TOKEN);
-
-// Default workspace for MVP
-const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
-
-// Slack channel from environment (or default)
-const SLACK_CHANNEL = process.env.SLACK_CHANNEL_ID || process.env.SLACK_CHANNEL || '#cofounder-updates';
+import { getWorkspaceSlack } from '@/lib/slack';
 
 /**
  * Sync a chat message to Slack
@@ -34,12 +25,13 @@ export async function syncMessageToSlack(messageId: string): Promise<boolean> {
       return false;
     }
     
-    // Get Slack channel from environment
-    const slackChannelId = SLACK_CHANNEL;
-    if (!slackChannelId || !process.env.SLACK_BOT_TOKEN) {
+    // Post to the message's workspace's Slack
+    const slack = await getWorkspaceSlack(message.workspaceId);
+    if (!slack) {
       console.log('[Chat-Slack Sync] Slack not configured');
       return false;
     }
+    const slackChannelId = slack.channel;
     
     // Format message for Slack
     let slackText: string;
@@ -61,7 +53,7 @@ export async function syncMessageToSlack(messageId: string): Promise<boolean> {
     }
     
     // Post to Slack
-    const result = await slack.chat.postMessage({
+    const result = await slack.client.chat.postMessage({
       channel: slackChannelId,
       text: slackText,
       mrkdwn: true,
@@ -99,12 +91,13 @@ export async function importSlackMessage(
     user?: string;
     bot_id?: string;
   },
+  workspaceId: string,
   conversationId: string = 'main'
 ): Promise<string | null> {
   try {
     // Check if message already exists
     const existing = await prisma.chatMessage.findFirst({
-      where: { slackMessageTs: slackMessage.ts },
+      where: { workspaceId, slackMessageTs: slackMessage.ts },
     });
     
     if (existing) {
@@ -124,7 +117,7 @@ export async function importSlackMessage(
     // Create chat message
     const chatMessage = await prisma.chatMessage.create({
       data: {
-        workspaceId: DEFAULT_WORKSPACE_ID,
+        workspaceId,
         conversationId,
         role,
         content,
@@ -149,17 +142,24 @@ export async function importSlackMessage(
  * Fetches messages from Slack channel and imports them
  */
 export async function syncRecentSlackMessages(
+  workspaceId: string,
   channelId: string,
   since?: Date,
   limit: number = 50
 ): Promise<number> {
   try {
+    const slack = await getWorkspaceSlack(workspaceId);
+    if (!slack) {
+      console.log('[Chat-Slack Sync] Slack not configured');
+      return 0;
+    }
+
     // Fetch messages from Slack
     const oldest = since 
       ? (since.getTime() / 1000).toString() 
       : undefined;
     
-    const result = await slack.conversations.history({
+    const result = await slack.client.conversations.history({
       channel: channelId,
       oldest,
       limit,
@@ -180,7 +180,7 @@ export async function syncRecentSlackMessages(
           text: msg.text,
           user: msg.user,
           bot_id: msg.bot_id,
-        });
+        }, workspaceId);
         if (id) imported++;
       }
     }
@@ -9,6 +9,7 @@
  * - STATE_AGENT_ENABLED: Enable State Manager agent for project snapshots
  * - MULTI_SOURCE_APPROVAL: Enable approval from Linear, Slack, and Dashboard
  * - LAUNCH_READINESS: Enable launch score and Progress page features
+ * - EXECUTION_PLANS_ENABLED: Plan approval_required stories before approval
  */
 
 export const featureFlags = {
@@ -60,6 +61,13 @@ export const featureFlags = {
    * When false: Uses legacy high/medium/low
    */
   PRIORITY_SYSTEM_ENABLED: process.env.PRIORITY_SYSTEM_ENABLED === 'true',
+
+  /**
+   * Enable execution plans
+   * When true: approval_required stories get a read-only agent plan before approval
+   * When false: Plans are only generated on request from the story page
+   */
+  EXECUTION_PLANS_ENABLED: process.env.EXECUTION_PLANS_ENABLED === 'true',
 } as const;
 
 /**
@@ -0,0 +1,66 @@
+/**
+ * Secret Encryption
+ *
+ * AES-256-GCM for integration secrets stored in the database (Slack bot
+ * tokens, Linear API keys). The key comes from INTEGRATIONS_ENCRYPTION_KEY;
+ * any string works, it is hashed to 32 bytes. Ciphertexts are versioned
+ * ("v1.<iv>.<tag>.<data>", base64url) so the scheme can change later.
+ *
+ * signState()/verifyState() protect values that round-trip through a third
+ * party, such as the workspace in the GitHub App install flow.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const VERSION = 'v1';
+
+function getKey(): Buffer {
+  const secret = process.env.INTEGRATIONS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('INTEGRATIONS_ENCRYPTION_KEY not configured');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv, tag, data].map(part => typeof part === 'string' ? part : part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(ciphertext: string): string {
+  const [version, iv, tag, data] = ciphertext.split('.');
+  if (version !== VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Unrecognized encrypted secret format');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Sign a value with an expiry ("<value>.<expiresAt>.<hmac>", base64url)
+ */
+export function signState(value: string, ttlMs: number, now: number = Date.now()): string {
+  const body = `${Buffer.from(value).toString('base64url')}.${now + ttlMs}`;
+  const mac = createHmac('sha256', getKey()).update(body).digest('base64url');
+  return `${body}.${mac}`;
+}
+
+/**
+ * The signed value, or null if the state was tampered with or has expired
+ */
+export function verifyState(state: string, now: number = Date.now()): string | null {
+  const [value, expiresAt, mac] = state.split('.');
+  if (!value || !expiresAt || !mac) return null;
+
+  const expected = createHmac('sha256', getKey()).update(`${value}.${expiresAt}`).digest();
+  const actual = Buffer.from(mac, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  if (!(Number(expiresAt) > now)) return null;
+
+  return Buffer.from(value, 'base64url').toString('utf8');
+}
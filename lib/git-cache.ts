@@ -0,0 +1,360 @@
+/**
+ * Git Worktree Cache
+ *
+ * Keeps one bare clone per repository on local disk and gives each job its
+ * own `git worktree` checked out from it, instead of a fresh clone per
+ * story or scan. The bare repo is fetched every time a worktree is taken,
+ * so jobs always start from the current remote state.
+ *
+ * - Locking: bare-repo operations (clone, fetch, worktree add/remove,
+ *   eviction) hold a per-repo lock file, so concurrent jobs - including
+ *   jobs in other worker processes - never race on the same repo. Every
+ *   job gets its own worktree directory; git refuses to check out a branch
+ *   in two worktrees at once.
+ * - Eviction: when the cache exceeds its disk quota, repos with no active
+ *   worktrees are removed least-recently-used first. Worktrees left behind
+ *   by crashed jobs are reclaimed once they are older than a few hours.
+ * - Credentials: tokens in clone URLs are never written to disk. `origin`
+ *   is stored without them, and each command that reaches the remote gets
+ *   them as an `http.extraHeader` (see worktreeGitConfig).
+ *
+ * Config: GIT_CACHE_DIR (default /tmp/git-cache),
+ *         GIT_CACHE_MAX_MB (default 5120)
+ */
+
+import simpleGit from 'simple-git';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { createHash, randomUUID } from 'crypto';
+
+const CACHE_DIR = process.env.GIT_CACHE_DIR || '/tmp/git-cache';
+const MAX_CACHE_BYTES = parseInt(process.env.GIT_CACHE_MAX_MB || '5120', 10) * 1024 * 1024;
+
+const REPOS_DIR = join(CACHE_DIR, 'repos');
+const WORKTREES_DIR = join(CACHE_DIR, 'worktrees');
+
+// Lock acquisition
+const LOCK_RETRY_MS = 250;
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000; // a first clone of a large repo can be slow
+const LOCK_STALE_MS = 30 * 60 * 1000;
+
+// Worktrees older than this belong to a job that died without releasing
+const WORKTREE_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+// Credential config per worktree acquired by this process, kept in memory only
+const worktreeCredentials = new Map<string, string[]>();
+
+// ============================================================================
+// KEYS & PATHS
+// ============================================================================
+
+/**
+ * Stable cache key for a clone URL, ignoring embedded credentials
+ * (installation tokens change on every job)
+ */
+export function repoCacheKey(cloneUrl: string): string {
+  let identity = cloneUrl;
+  try {
+    const url = new URL(cloneUrl);
+    identity = `${url.host}${url.pathname}`;
+  } catch {
+    // scp-style or local path: use as-is
+  }
+  identity = identity.replace(/\.git$/, '').replace(/\/+$/, '').toLowerCase();
+
+  const slug = identity.split('/').slice(-2).join('-').replace(/[^a-z0-9._-]/g, '-');
+  const hash = createHash('sha1').update(identity).digest('hex').slice(0, 8);
+  return `${slug}-${hash}`;
+}
+
+/**
+ * Split a clone URL into the URL git should store and the per-command
+ * config that authenticates with its embedded credentials, if any
+ */
+export function splitCredentials(cloneUrl: string): { url: string; config: string[] } {
+  let url: URL;
+  try {
+    url = new URL(cloneUrl);
+  } catch {
+    return { url: cloneUrl, config: [] }; // scp-style or local path
+  }
+  if (!url.username && !url.password) return { url: cloneUrl, config: [] };
+
+  const basic = Buffer.from(`${decodeURIComponent(url.username)}:${decodeURIComponent(url.password)}`).toString('base64');
+  url.username = '';
+  url.password = '';
+  return { url: url.toString(), config: [`http.extraHeader=Authorization: Basic ${basic}`] };
+}
+
+function barePath(key: string): string {
+  return join(REPOS_DIR, `${key}.git`);
+}
+
+function lockPath(key: string): string {
+  return join(REPOS_DIR, `${key}.lock`);
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// LOCKING
+// ============================================================================
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Run fn while holding an exclusive lock file. Locks left by dead
+ * processes, or older than LOCK_STALE_MS, are broken.
+ */
+async function withRepoLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const path = lockPath(key);
+  const started = Date.now();
+  await fs.mkdir(REPOS_DIR, { recursive: true });
+
+  for (;;) {
+    try {
+      await fs.writeFile(path, JSON.stringify({ pid: process.pid, at: Date.now() }), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      try {
+        const holder = JSON.parse(await fs.readFile(path, 'utf-8')) as { pid: number; at: number };
+        if (!isProcessAlive(holder.pid) || Date.now() - holder.at > LOCK_STALE_MS) {
+          console.warn(`[GitCache] Breaking stale lock on ${key} (pid ${holder.pid})`);
+          await fs.rm(path, { force: true });
+          continue;
+        }
+      } catch {
+        // Lock file mid-write or already gone: retry
+      }
+
+      if (Date.now() - started > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for git cache lock on ${key}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(path, { force: true });
+  }
+}
+
+// ============================================================================
+// BARE REPOS
+// ============================================================================
+
+/**
+ * Clone the bare repo if missing, otherwise fetch. Caller holds the lock.
+ */
+async function syncBareRepo(key: string, cloneUrl: string): Promise<void> {
+  const repoDir = barePath(key);
+  const { url, config } = splitCredentials(cloneUrl);
+
+  if (!(await exists(join(repoDir, 'HEAD')))) {
+    console.log(`[GitCache] Creating bare cache for ${key}`);
+    await fs.rm(repoDir, { recursive: true, force: true });
+    await simpleGit({ config }).clone(url, repoDir, ['--bare']);
+    // Bare clones don't track remote branches; worktrees need origin/*
+    await simpleGit(repoDir).addConfig('remote.origin.fetch', '+refs/heads/*:refs/remotes/origin/*');
+  }
+
+  const git = simpleGit({ baseDir: repoDir, config });
+  // Also scrubs tokens that older versions of the cache stored in origin
+  await git.remote(['set-url', 'origin', url]);
+  await git.fetch(['origin', '--prune']);
+  await git.remote(['set-head', 'origin', '--auto']);
+
+  // Mark as recently used for LRU eviction
+  const now = new Date();
+  await fs.utimes(repoDir, now, now);
+}
+
+/**
+ * Remove worktrees left by crashed jobs and unregister missing ones.
+ * Caller holds the lock.
+ */
+async function pruneWorktrees(key: string): Promise<void> {
+  const dir = join(WORKTREES_DIR, key);
+  const entries = await fs.readdir(dir).catch(() => [] as string[]);
+
+  for (const entry of entries) {
+    const path = join(dir, entry);
+    const stat = await fs.stat(path).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > WORKTREE_MAX_AGE_MS) {
+      console.warn(`[GitCache] Removing abandoned worktree ${path}`);
+      await fs.rm(path, { recursive: true, force: true });
+    }
+  }
+
+  if (await exists(barePath(key))) {
+    await simpleGit(barePath(key)).raw(['worktree', 'prune']);
+  }
+}
+
+// ============================================================================
+// WORKTREES
+// ============================================================================
+
+/**
+ * Check out a fresh worktree of a repository's default branch (detached,
+ * ready for createBranch / checkoutBranch). Release it with releaseWorktree.
+ * @param cloneUrl Repository URL (use getAuthenticatedCloneUrl for private repos)
+ * @returns Path to the worktree
+ */
+export async function acquireWorktree(cloneUrl: string): Promise<string> {
+  const key = repoCacheKey(cloneUrl);
+  const worktreePath = join(WORKTREES_DIR, key, randomUUID().slice(0, 12));
+
+  await withRepoLock(key, async () => {
+    await pruneWorktrees(key);
+    await syncBareRepo(key, cloneUrl);
+
+    await fs.mkdir(join(WORKTREES_DIR, key), { recursive: true });
+    await simpleGit(barePath(key)).raw(['worktree', 'add', '--detach', worktreePath, 'origin/HEAD']);
+  });
+
+  const { config } = splitCredentials(cloneUrl);
+  if (config.length > 0) worktreeCredentials.set(worktreePath, config);
+
+  console.log(`[GitCache] Worktree ready: ${worktreePath}`);
+  return worktreePath;
+}
+
+/**
+ * Remove a worktree and the local branch it created
+ * @param worktreePath Path returned by acquireWorktree
+ */
+export async function releaseWorktree(worktreePath: string): Promise<void> {
+  if (!worktreePath.startsWith(`${WORKTREES_DIR}/`)) {
+    throw new Error(`Not a cached worktree: ${worktreePath}`);
+  }
+  const key = worktreePath.slice(WORKTREES_DIR.length + 1).split('/')[0];
+  worktreeCredentials.delete(worktreePath);
+
+  try {
+    const branch = (await simpleGit(worktreePath).revparse(['--abbrev-ref', 'HEAD'])).trim();
+
+    await withRepoLock(key, async () => {
+      const git = simpleGit(barePath(key));
+      await git.raw(['worktree', 'remove', '--force', worktreePath]);
+      // Branches live in the shared repo; the pushed copy is on origin
+      if (branch && branch !== 'HEAD') {
+        await git.raw(['branch', '-D', branch]).catch(() => undefined);
+      }
+    });
+
+    console.log(`[GitCache] Released ${worktreePath}`);
+  } catch (error) {
+    console.error(`[GitCache] Release failed, removing ${worktreePath}:`, error);
+    await fs.rm(worktreePath, { recursive: true, force: true });
+  }
+
+  // Space was just freed; trimming the cache is best-effort
+  try {
+    await evictRepos();
+  } catch (error) {
+    console.error('[GitCache] Eviction failed:', error);
+  }
+}
+
+/**
+ * `-c` config that authenticates remote commands (fetch, push) run in a
+ * worktree, from the clone URL it was acquired with. Empty for other paths.
+ */
+export function worktreeGitConfig(worktreePath: string): string[] {
+  return worktreeCredentials.get(worktreePath) ?? [];
+}
+
+/**
+ * Run a callback against a fresh worktree, releasing it afterwards
+ */
+export async function withWorktree<T>(cloneUrl: string, fn: (repoPath: string) => Promise<T>): Promise<T> {
+  const repoPath = await acquireWorktree(cloneUrl);
+  try {
+    return await fn(repoPath);
+  } finally {
+    await releaseWorktree(repoPath);
+  }
+}
+
+// ============================================================================
+// EVICTION
+// ============================================================================
+
+async function directorySize(path: string): Promise<number> {
+  const stat = await fs.lstat(path).catch(() => null);
+  if (!stat) return 0;
+  if (!stat.isDirectory()) return stat.size;
+
+  const entries = await fs.readdir(path).catch(() => [] as string[]);
+  let total = 0;
+  for (const entry of entries) {
+    total += await directorySize(join(path, entry));
+  }
+  return total;
+}
+
+/**
+ * Remove least-recently-used bare repos until the cache fits its quota.
+ * Repos with active worktrees are skipped.
+ */
+export async function evictRepos(maxBytes: number = MAX_CACHE_BYTES): Promise<string[]> {
+  const entries = (await fs.readdir(REPOS_DIR).catch(() => [] as string[])).filter(e => e.endsWith('.git'));
+
+  const repos = await Promise.all(entries.map(async entry => {
+    const key = entry.slice(0, -'.git'.length);
+    const [stat, size, worktreeSize] = await Promise.all([
+      fs.stat(barePath(key)),
+      directorySize(barePath(key)),
+      directorySize(join(WORKTREES_DIR, key)),
+    ]);
+    return { key, lastUsed: stat.mtimeMs, size: size + worktreeSize };
+  }));
+
+  let total = repos.reduce((sum, r) => sum + r.size, 0);
+  if (total <= maxBytes) return [];
+
+  const evicted: string[] = [];
+  for (const repo of repos.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= maxBytes) break;
+
+    const removed = await withRepoLock(repo.key, async () => {
+      await pruneWorktrees(repo.key);
+      const active = await fs.readdir(join(WORKTREES_DIR, repo.key)).catch(() => [] as string[]);
+      if (active.length > 0) return false;
+
+      await fs.rm(barePath(repo.key), { recursive: true, force: true });
+      await fs.rm(join(WORKTREES_DIR, repo.key), { recursive: true, force: true });
+      return true;
+    });
+
+    if (removed) {
+      console.log(`[GitCache] Evicted ${repo.key} (${Math.round(repo.size / 1024 / 1024)}MB)`);
+      total -= repo.size;
+      evicted.push(repo.key);
+    }
+  }
+
+  if (total > maxBytes) {
+    console.warn(`[GitCache] Cache still ${Math.round(total / 1024 / 1024)}MB after eviction; remaining repos are in use`);
+  }
+  return evicted;
+}
@@ -2,6 +2,16 @@
 import simpleGit, { SimpleGit } from 'simple-git';
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import { applyPatchSet, type FileChange, type PatchReport } from './patch';
+import { worktreeGitConfig } from './git-cache';
+
+/**
+ * simple-git for commands that reach the remote, authenticated with the
+ * credentials of a cached worktree (they aren't stored in its config)
+ */
+function remoteGit(repoPath: string): SimpleGit {
+  return simpleGit({ baseDir: repoPath, config: worktreeGitConfig(repoPath) });
+}
 
 /**
  * Clone a repository to a temporary directory
@@ -26,6 +36,7 @@ export async function cloneRepo(url: string, workDir?: string): Promise<string>
 
 /**
  * Create a new branch from current HEAD
+ * Resets the branch if it exists (a cached repo can keep one from a crashed job)
  * @param repoPath Path to git repository
  * @param branchName Name of the branch to create
  */
@@ -33,11 +44,84 @@ export async function createBranch(repoPath: string, branchName: string): Promis
   console.log(`[Git] Creating branch ${branchName} in ${repoPath}`);
 
   const git: SimpleGit = simpleGit(repoPath);
-  await git.checkoutLocalBranch(branchName);
+  await git.checkout(['-B', branchName]);
 
   console.log(`[Git] Branch ${branchName} created and checked out`);
 }
 
+/**
+ * Check out an existing remote branch (e.g. to add commits to an open PR)
+ * @param repoPath Path to git repository
+ * @param branchName Name of the branch on origin
+ */
+export async function checkoutBranch(repoPath: string, branchName: string): Promise<void> {
+  console.log(`[Git] Checking out existing branch ${branchName} in ${repoPath}`);
+
+  const git: SimpleGit = remoteGit(repoPath);
+  await git.fetch('origin', branchName);
+  await git.checkout(['-B', branchName, `origin/${branchName}`]);
+
+  console.log(`[Git] Branch ${branchName} checked out`);
+}
+
+/**
+ * Diff of the current branch against its merge base with a base branch
+ * @param repoPath Path to git repository
+ * @param base Base branch on origin (defaults to 'main')
+ */
+export async function getBranchDiff(repoPath: string, base: string = 'main'): Promise<string> {
+  const git: SimpleGit = simpleGit(repoPath);
+  return git.diff([`origin/${base}...HEAD`]);
+}
+
+/**
+ * Files changed on the current branch since its merge base with a base branch
+ * @param repoPath Path to git repository
+ * @param base Base branch on origin (defaults to 'main')
+ */
+export async function getChangedFiles(repoPath: string, base: string = 'main'): Promise<string[]> {
+  const git: SimpleGit = simpleGit(repoPath);
+  const output = await git.diff(['--name-only', `origin/${base}...HEAD`]);
+  return output.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Rebase the current branch onto the latest base branch if the base has moved.
+ * A conflicting rebase is aborted, leaving the branch as it was.
+ * @param repoPath Path to git repository
+ * @param base Base branch on origin (defaults to 'main')
+ * @returns Whether the branch was rebased, and the conflicting files if it couldn't be
+ */
+export async function rebaseOntoBase(
+  repoPath: string,
+  base: string = 'main'
+): Promise<{ rebased: boolean; conflicts: string[] }> {
+  const git: SimpleGit = remoteGit(repoPath);
+  await git.fetch('origin', base);
+
+  // Already based on the latest base: nothing to do
+  const upToDate = await git.raw(['merge-base', '--is-ancestor', `origin/${base}`, 'HEAD'])
+    .then(() => true, () => false);
+  if (upToDate) return { rebased: false, conflicts: [] };
+
+  console.log(`[Git] Rebasing onto origin/${base} in ${repoPath}`);
+  await configureGitIdentity(repoPath);
+
+  try {
+    await git.rebase([`origin/${base}`]);
+  } catch (error) {
+    const status = await git.status();
+    await git.rebase(['--abort']).catch(() => undefined);
+    if (status.conflicted.length === 0) throw error;
+
+    console.warn(`[Git] Rebase conflicts: ${status.conflicted.join(', ')}`);
+    return { rebased: false, conflicts: status.conflicted };
+  }
+
+  console.log(`[Git] Rebased onto origin/${base}`);
+  return { rebased: true, conflicts: [] };
+}
+
 /**
  * Configure git user identity for commits
  * @param repoPath Path to git repository
@@ -55,12 +139,13 @@ async function configureGitIdentity(repoPath: string): Promise<void> {
  * @param repoPath Path to git repository
  * @param message Commit message
  * @param files Optional array of specific files to commit (defaults to all changes)
+ * @returns SHA of the new commit
  */
 export async function commitChanges(
   repoPath: string,
   message: string,
   files?: string[]
-): Promise<void> {
+): Promise<string> {
   console.log(`[Git] Committing changes in ${repoPath}`);
 
   const git: SimpleGit = simpleGit(repoPath);
@@ -77,8 +162,10 @@ export async function commitChanges(
 
   // Commit
   await git.commit(message);
+  const sha = (await git.revparse(['HEAD'])).trim();
 
-  console.log(`[Git] Commit created: ${message}`);
+  console.log(`[Git] Commit created: ${sha.slice(0, 7)} ${message}`);
+  return sha;
 }
 
 /**
@@ -86,44 +173,78 @@ export async function commitChanges(
  * @param repoPath Path to git repository
  * @param branchName Name of the branch to push
  * @param remote Remote name (defaults to 'origin')
+ * @param options.force Overwrite the remote branch (after a rebase), unless it moved since we fetched it
  */
 export async function pushBranch(
   repoPath: string,
   branchName: string,
-  remote: string = 'origin'
+  remote: string = 'origin',
+  options: { force?: boolean } = {}
 ): Promise<void> {
-  console.log(`[Git] Pushing branch ${branchName} to ${remote}`);
+  console.log(`[Git] Pushing branch ${branchName} to ${remote}${options.force ? ' (force)' : ''}`);
 
-  const git: SimpleGit = simpleGit(repoPath);
-  await git.push(remote, branchName, ['--set-upstream']);
+  const git: SimpleGit = remoteGit(repoPath);
+  await git.push(remote, branchName, ['--set-upstream', ...(options.force ? ['--force-with-lease'] : [])]);
 
   console.log(`[Git] Branch ${branchName} pushed to ${remote}`);
 }
 
 /**
- * Apply file changes to repository
+ * Delete a branch from the remote (e.g. after a cancelled execution)
+ * @param repoPath Path to git repository
+ * @param branchName Name of the branch to delete
+ * @param remote Remote name (defaults to 'origin')
+ * @returns false if the remote had no such branch
+ */
+export async function deleteRemoteBranch(
+  repoPath: string,
+  branchName: string,
+  remote: string = 'origin'
+): Promise<boolean> {
+  const git: SimpleGit = remoteGit(repoPath);
+  const existing = await git.listRemote(['--heads', remote, branchName]);
+  if (!existing.trim()) return false;
+
+  await git.push(remote, branchName, ['--delete']);
+  console.log(`[Git] Deleted ${branchName} from ${remote}`);
+  return true;
+}
+
+/**
+ * Apply file changes (full files, unified diffs, search/replace edits,
+ * deletes and renames) to repository
  * @param repoPath Path to git repository
- * @param changes Array of file changes {path, content}
+ * @param changes Array of file changes
+ * @returns Which changes applied and which were rejected, with reasons
  */
 export async function applyChanges(
   repoPath: string,
-  changes: Array<{ path: string; content: string }>
-): Promise<void> {
+  changes: FileChange[]
+): Promise<PatchReport> {
   console.log(`[Git] Applying ${changes.length} file changes`);
 
-  for (const change of changes) {
-    const filePath = join(repoPath, change.path);
-
-    // Ensure parent directory exists
-    const dir = join(filePath, '..');
-    await fs.mkdir(dir, { recursive: true });
+  const report = await applyPatchSet(repoPath, changes);
 
-    // Write file
-    await fs.writeFile(filePath, change.content, 'utf-8');
-    console.log(`[Git] Updated ${change.path}`);
+  for (const change of report.applied) {
+    const detail = change.from ? ` (from ${change.from})` : change.fuzzed > 0 ? ` (${change.fuzzed} hunks fuzzed)` : '';
+    console.log(`[Git] ${change.operation} ${change.path}${detail}`);
   }
+  for (const change of report.rejected) {
+    console.warn(`[Git] Rejected ${change.operation} ${change.path}: ${change.reason}`);
+  }
+
+  console.log(`[Git] Applied ${report.applied.length} changes, rejected ${report.rejected.length}`);
+  return report;
+}
 
-  console.log(`[Git] Applied ${changes.length} changes`);
+/**
+ * Check whether the working tree differs from HEAD
+ * @param repoPath Path to git repository
+ */
+export async function hasUncommittedChanges(repoPath: string): Promise<boolean> {
+  const git: SimpleGit = simpleGit(repoPath);
+  const status = await git.status();
+  return !status.isClean();
 }
 
 /**
@@ -121,7 +121,9 @@ export function useAgentChat(options: UseAgentChatOptions = {}): UseAgentChatRet
       });
       
       if (!res.ok) {
-        throw new Error(`Failed to send message: ${res.status}`);
+        // e.g. a role or plan quota refusal, which explains itself
+        const failure = await res.json().catch(() => null);
+        throw new Error(failure?.error || `Failed to send message: ${res.status}`);
       }
       
       const data = await res.json();
@@ -0,0 +1,200 @@
+/**
+ * Workspace Integrations
+ *
+ * Resolves each workspace's Slack, GitHub and Linear credentials so workers
+ * and routes act for the right tenant: Slack events are routed by team_id,
+ * GitHub calls use the workspace's App installation, and Linear calls use its
+ * own API key. Secrets are stored encrypted (lib/crypto.ts).
+ *
+ * The legacy workspace (WORKSPACE_ID, from before multi-tenancy) falls back to
+ * the env credentials (SLACK_BOT_TOKEN, LINEAR_API_KEY, first GitHub App
+ * installation) until it has its own. Other workspaces never do.
+ */
+
+import { prisma } from '@/lib/db';
+import { decryptSecret, encryptSecret } from '@/lib/crypto';
+
+export const LEGACY_WORKSPACE_ID = process.env.WORKSPACE_ID || '00000000-0000-0000-0000-000000000002';
+
+const DEFAULT_SLACK_CHANNEL = '#cofounder-updates';
+
+// Credentials change rarely; workers look them up on every job
+const CACHE_TTL_MS = 60 * 1000;
+
+export interface SlackIntegration {
+  teamId: string | null;
+  botToken: string;
+  channel: string;
+}
+
+export interface LinearIntegration {
+  orgId: string | null;
+  apiKey: string;
+  teamId: string | null; // Default team for new issues
+}
+
+export interface WorkspaceIntegrations {
+  workspaceId: string;
+  githubInstallationId: string | null;
+  slack: SlackIntegration | null;
+  linear: LinearIntegration | null;
+  usesEnvFallback: boolean;
+}
+
+const cache = new Map<string, { value: WorkspaceIntegrations; expiresAt: number }>();
+
+/**
+ * Integrations for a workspace (the legacy workspace if none is given)
+ */
+export async function getWorkspaceIntegrations(workspaceId?: string | null): Promise<WorkspaceIntegrations> {
+  const id = workspaceId || LEGACY_WORKSPACE_ID;
+  const cached = cache.get(id);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const workspace = await prisma.workspace.findUnique({
+    where: { id },
+    select: {
+      githubInstallationId: true,
+      slackTeamId: true,
+      slackBotToken: true,
+      slackChannelId: true,
+      linearOrgId: true,
+      linearApiKey: true,
+      linearTeamId: true,
+    },
+  });
+  const isLegacy = id === LEGACY_WORKSPACE_ID;
+
+  let slack: SlackIntegration | null = null;
+  if (workspace?.slackBotToken) {
+    slack = {
+      teamId: workspace.slackTeamId,
+      botToken: decryptSecret(workspace.slackBotToken),
+      channel: workspace.slackChannelId || DEFAULT_SLACK_CHANNEL,
+    };
+  } else if (isLegacy && process.env.SLACK_BOT_TOKEN) {
+    slack = {
+      teamId: workspace?.slackTeamId || null,
+      botToken: process.env.SLACK_BOT_TOKEN,
+      channel: process.env.SLACK_CHANNEL || DEFAULT_SLACK_CHANNEL,
+    };
+  }
+
+  let linear: LinearIntegration | null = null;
+  if (workspace?.linearApiKey) {
+    linear = {
+      orgId: workspace.linearOrgId,
+      apiKey: decryptSecret(workspace.linearApiKey),
+      teamId: workspace.linearTeamId,
+    };
+  } else if (isLegacy && process.env.LINEAR_API_KEY) {
+    linear = {
+      orgId: workspace?.linearOrgId || null,
+      apiKey: process.env.LINEAR_API_KEY,
+      teamId: workspace?.linearTeamId || process.env.LINEAR_TEAM_ID || null,
+    };
+  }
+
+  const value: WorkspaceIntegrations = {
+    workspaceId: id,
+    githubInstallationId: workspace?.githubInstallationId || null,
+    slack,
+    linear,
+    usesEnvFallback: isLegacy,
+  };
+  cache.set(id, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  return value;
+}
+
+/**
+ * GitHub App installation for a workspace's repos.
+ * Undefined means "the App's first installation" (legacy workspace only).
+ */
+export async function getGithubInstallationId(workspaceId?: string | null): Promise<string | undefined> {
+  const integrations = await getWorkspaceIntegrations(workspaceId);
+  if (integrations.githubInstallationId) return integrations.githubInstallationId;
+  if (integrations.usesEnvFallback) return undefined;
+  throw new Error(`GitHub App is not installed for workspace ${integrations.workspaceId}`);
+}
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/**
+ * Workspace that owns a Slack team. Events from a team no workspace has
+ * claimed go to the legacy workspace while it still uses the env token.
+ */
+export async function findWorkspaceForSlackTeam(teamId?: string | null): Promise<string | null> {
+  if (teamId) {
+    const workspace = await prisma.workspace.findUnique({ where: { slackTeamId: teamId }, select: { id: true } });
+    if (workspace) return workspace.id;
+  }
+
+  const legacy = await getWorkspaceIntegrations(LEGACY_WORKSPACE_ID);
+  return legacy.slack && !legacy.slack.teamId ? LEGACY_WORKSPACE_ID : null;
+}
+
+/**
+ * Workspace that owns a Linear organization (same legacy fallback as Slack)
+ */
+export async function findWorkspaceForLinearOrg(orgId?: string | null): Promise<string | null> {
+  if (orgId) {
+    const workspace = await prisma.workspace.findUnique({ where: { linearOrgId: orgId }, select: { id: true } });
+    if (workspace) return workspace.id;
+  }
+
+  const legacy = await getWorkspaceIntegrations(LEGACY_WORKSPACE_ID);
+  return legacy.linear && !legacy.linear.orgId ? LEGACY_WORKSPACE_ID : null;
+}
+
+/**
+ * Workspaces with Slack connected (for scheduled messages)
+ */
+export async function listSlackWorkspaces(): Promise<string[]> {
+  const workspaces = await prisma.workspace.findMany({
+    where: { slackBotToken: { not: null } },
+    select: { id: true },
+  });
+  const ids = workspaces.map(w => w.id);
+
+  if (!ids.includes(LEGACY_WORKSPACE_ID) && (await getWorkspaceIntegrations(LEGACY_WORKSPACE_ID)).slack) {
+    ids.push(LEGACY_WORKSPACE_ID);
+  }
+  return ids;
+}
+
+// ============================================================================
+// UPDATES
+// ============================================================================
+
+export interface IntegrationUpdate {
+  githubInstallationId?: string | null;
+  slack?: { teamId: string; botToken: string; channelId?: string | null } | null;
+  linear?: { orgId: string; apiKey: string; teamId?: string | null } | null;
+}
+
+/**
+ * Connect or disconnect integrations; null disconnects, undefined leaves as is.
+ * Callers verify credentials first (team and org IDs come from the provider).
+ */
+export async function updateWorkspaceIntegrations(workspaceId: string, update: IntegrationUpdate): Promise<void> {
+  const data: Record<string, string | null> = {};
+
+  if (update.githubInstallationId !== undefined) {
+    data.githubInstallationId = update.githubInstallationId;
+  }
+  if (update.slack !== undefined) {
+    data.slackTeamId = update.slack?.teamId ?? null;
+    data.slackBotToken = update.slack ? encryptSecret(update.slack.botToken) : null;
+    data.slackChannelId = update.slack?.channelId ?? null;
+  }
+  if (update.linear !== undefined) {
+    data.linearOrgId = update.linear?.orgId ?? null;
+    data.linearApiKey = update.linear ? encryptSecret(update.linear.apiKey) : null;
+    data.linearTeamId = update.linear?.teamId ?? null;
+  }
+
+  await prisma.workspace.update({ where: { id: workspaceId }, data });
+  cache.delete(workspaceId);
+}
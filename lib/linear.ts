@@ -1,9 +1,13 @@
 /**
  * Linear Integration Library
  *
- * Handles Linear API interactions for task creation and management
+ * Handles Linear API interactions for task creation and management.
+ * Every call takes an optional workspaceId and uses that workspace's API key
+ * (see lib/integrations.ts).
  */
 
+import { getWorkspaceIntegrations } from '@/lib/integrations';
+
 interface LinearTeam {
   id: string;
   name: string;
@@ -29,34 +33,44 @@ interface CreateTaskOptions {
   labelIds?: string[]; // Linear label IDs for filtering
   projectId?: string; // Linear project ID
   stateId?: string; // Linear workflow state ID for kanban status
+  workspaceId?: string;
 }
 
+const LINEAR_API_URL = 'https://api.linear.app/graphql';
+
 /**
- * Get Linear client using OAuth token from environment
+ * Get Linear client using the workspace's API key
  */
-function getLinearClient() {
-  const apiKey = process.env.LINEAR_API_KEY;
+async function getLinearClient(workspaceId?: string) {
+  const { linear } = await getWorkspaceIntegrations(workspaceId);
 
-  if (!apiKey) {
-    throw new Error('LINEAR_API_KEY not configured');
+  if (!linear) {
+    throw new Error(`Linear not configured for workspace ${workspaceId || 'default'}`);
   }
 
   return {
-    apiKey,
-    baseUrl: 'https://api.linear.app/graphql',
+    apiKey: linear.apiKey,
+    baseUrl: LINEAR_API_URL,
   };
 }
 
 /**
  * Execute GraphQL query against Linear API
  */
-async function executeQuery<T>(query: string, variables?: Record<string, any>): Promise<T> {
-  const client = getLinearClient();
+async function executeQuery<T>(
+  query: string,
+  variables?: Record<string, any>,
+  workspaceId?: string
+): Promise<T> {
+  const client = await getLinearClient(workspaceId);
+  return requestLinear<T>(client.apiKey, query, variables);
+}
 
-  const response = await fetch(client.baseUrl, {
+async function requestLinear<T>(apiKey: string, query: string, variables?: Record<string, any>): Promise<T> {
+  const response = await fetch(LINEAR_API_URL, {
     method: 'POST',
     headers: {
-      'Authorization': client.apiKey,
+      'Authorization': apiKey,
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({ query, variables }),
@@ -74,7 +88,7 @@ async function executeQuery<T>(query: string, variables?: Record<string, any>):
 /**
  * Fetch all teams in the workspace
  */
-export async function getLinearTeams(): Promise<LinearTeam[]> {
+export async function getLinearTeams(workspaceId?: string): Promise<LinearTeam[]> {
   const query = `
     query {
       teams {
@@ -87,7 +101,7 @@ export async function getLinearTeams(): Promise<LinearTeam[]> {
     }
   `;
 
-  const data = await executeQuery<{ teams: { nodes: LinearTeam[] } }>(query);
+  const data = await executeQuery<{ teams: { nodes: LinearTeam[] } }>(query, undefined, workspaceId);
   return data.teams.nodes;
 }
 
@@ -138,7 +152,7 @@ export async function createLinearTask(options: CreateTaskOptions): Promise<Line
       success: boolean;
       issue: LinearTask;
     };
-  }>(query, variables);
+  }>(query, variables, options.workspaceId);
 
   if (!data.issueCreate.success) {
     throw new Error('Failed to create Linear task');
@@ -152,7 +166,8 @@ export async function createLinearTask(options: CreateTaskOptions): Promise<Line
  */
 export async function updateLinearTaskStatus(
   taskId: string,
-  stateId: string
+  stateId: string,
+  workspaceId?: string
 ): Promise<boolean> {
   const query = `
     mutation UpdateIssue($issueId: String!, $stateId: String!) {
@@ -171,7 +186,7 @@ export async function updateLinearTaskStatus(
     issueUpdate: {
       success: boolean;
     };
-  }>(query, { issueId: taskId, stateId });
+  }>(query, { issueId: taskId, stateId }, workspaceId);
 
   return data.issueUpdate.success;
 }
@@ -181,7 +196,8 @@ export async function updateLinearTaskStatus(
  */
 export async function addLinearComment(
   taskId: string,
-  body: string
+  body: string,
+  workspaceId?: string
 ): Promise<boolean> {
   const query = `
     mutation CreateComment($issueId: String!, $body: String!) {
@@ -200,7 +216,7 @@ export async function addLinearComment(
     commentCreate: {
       success: boolean;
     };
-  }>(query, { issueId: taskId, body });
+  }>(query, { issueId: taskId, body }, workspaceId);
 
   return data.commentCreate.success;
 }
@@ -208,7 +224,7 @@ export async function addLinearComment(
 /**
  * Get workflow states for a team
  */
-export async function getTeamWorkflowStates(teamId: string) {
+export async function getTeamWorkflowStates(teamId: string, workspaceId?: string) {
   const query = `
     query GetTeamStates($teamId: String!) {
       team(id: $teamId) {
@@ -233,16 +249,72 @@ export async function getTeamWorkflowStates(teamId: string) {
         }>;
       };
     };
-  }>(query, { teamId });
+  }>(query, { teamId }, workspaceId);
 
   return data.team.states.nodes;
 }
 
+/**
+ * Pick the workflow state matching a story status. Open PRs go to a
+ * review state when the team has one.
+ */
+export function findWorkflowStateForStoryStatus<T extends { id: string; name: string; type: string }>(
+  states: T[],
+  storyStatus: string
+): T | undefined {
+  const byName = states.find((s) => {
+    const stateName = s.name.toLowerCase();
+    const stateType = s.type.toLowerCase();
+
+    switch (storyStatus) {
+      case 'in_progress':
+        return stateType === 'started' || stateName.includes('progress');
+      case 'pr_open':
+        return stateName.includes('review');
+      case 'completed':
+      case 'merged':
+      case 'no_op':
+        return stateType === 'completed' || stateName.includes('done');
+      case 'failed':
+      case 'pr_closed':
+        return stateType === 'canceled' || stateName.includes('failed');
+      default:
+        return stateType === 'unstarted' || stateName.includes('todo');
+    }
+  });
+  if (byName) return byName;
+
+  return states.find((s) => {
+    if (storyStatus === 'in_progress' || storyStatus === 'pr_open') return s.type === 'started';
+    if (storyStatus === 'completed' || storyStatus === 'merged' || storyStatus === 'no_op') return s.type === 'completed';
+    if (storyStatus === 'failed' || storyStatus === 'pr_closed') return s.type === 'canceled';
+    return s.type === 'unstarted';
+  });
+}
+
+/**
+ * Move a story's Linear task to the state for its status
+ * @param teamId Team owning the task (defaults to the workspace's default team)
+ */
+export async function syncStoryStatusToLinear(
+  linearTaskId: string,
+  storyStatus: string,
+  teamId?: string,
+  workspaceId?: string
+): Promise<string | null> {
+  const states = await getTeamWorkflowStates(teamId || await getDefaultTeamId(workspaceId), workspaceId);
+  const targetState = findWorkflowStateForStoryStatus(states, storyStatus);
+  if (!targetState) return null;
+
+  await updateLinearTaskStatus(linearTaskId, targetState.id, workspaceId);
+  return targetState.name;
+}
+
 /**
  * Get the Backlog state ID for a team (for new tasks)
  */
-export async function getBacklogStateId(teamId: string): Promise<string | undefined> {
-  const states = await getTeamWorkflowStates(teamId);
+export async function getBacklogStateId(teamId: string, workspaceId?: string): Promise<string | undefined> {
+  const states = await getTeamWorkflowStates(teamId, workspaceId);
   const backlogState = states.find((s) => s.type === 'backlog' || s.name.toLowerCase() === 'backlog');
   return backlogState?.id;
 }
@@ -291,7 +363,8 @@ export function mapLinearToPriorityLevel(linearPriority: number): 'P0' | 'P1' |
  */
 export async function updateLinearTaskPriority(
   taskId: string,
-  priority: number
+  priority: number,
+  workspaceId?: string
 ): Promise<boolean> {
   const query = `
     mutation UpdateIssuePriority($issueId: String!, $priority: Int!) {
@@ -315,7 +388,7 @@ export async function updateLinearTaskPriority(
       success: boolean;
       issue: { id: string; priority: number };
     };
-  }>(query, { issueId: taskId, priority });
+  }>(query, { issueId: taskId, priority }, workspaceId);
 
   return data.issueUpdate.success;
 }
@@ -323,7 +396,7 @@ export async function updateLinearTaskPriority(
 /**
  * Get Linear issue details by ID
  */
-export async function getLinearIssue(issueId: string): Promise<LinearTask & { priority: number }> {
+export async function getLinearIssue(issueId: string, workspaceId?: string): Promise<LinearTask & { priority: number }> {
   const query = `
     query GetIssue($issueId: String!) {
       issue(id: $issueId) {
@@ -343,29 +416,44 @@ export async function getLinearIssue(issueId: string): Promise<LinearTask & { pr
 
   const data = await executeQuery<{
     issue: LinearTask & { priority: number };
-  }>(query, { issueId });
+  }>(query, { issueId }, workspaceId);
 
   return data.issue;
 }
 
 /**
- * Get the default team ID (Virtual cofounder team)
+ * Get the workspace's default team ID: the configured team, else the
+ * "Virtual cofounder" team, else the org's only team
  */
-export async function getDefaultTeamId(): Promise<string> {
-  const teams = await getLinearTeams();
-  const defaultTeam = teams.find((t) => t.name === 'Virtual cofounder');
+export async function getDefaultTeamId(workspaceId?: string): Promise<string> {
+  const { linear } = await getWorkspaceIntegrations(workspaceId);
+  if (linear?.teamId) return linear.teamId;
+
+  const teams = await getLinearTeams(workspaceId);
+  const defaultTeam = teams.find((t) => t.name === 'Virtual cofounder') || (teams.length === 1 ? teams[0] : undefined);
 
   if (!defaultTeam) {
-    throw new Error('Virtual cofounder team not found in Linear workspace');
+    throw new Error('No default Linear team: set one for the workspace or create a "Virtual cofounder" team');
   }
 
   return defaultTeam.id;
 }
 
+/**
+ * Check an API key and return the Linear organization it belongs to
+ */
+export async function verifyLinearApiKey(apiKey: string): Promise<{ orgId: string; name: string }> {
+  const data = await requestLinear<{ organization: { id: string; name: string } }>(
+    apiKey,
+    `query { organization { id name } }`
+  );
+  return { orgId: data.organization.id, name: data.organization.name };
+}
+
 /**
  * Get all labels for a team
  */
-export async function getTeamLabels(teamId: string): Promise<Array<{ id: string; name: string }>> {
+export async function getTeamLabels(teamId: string, workspaceId?: string): Promise<Array<{ id: string; name: string }>> {
   const query = `
     query GetTeamLabels($teamId: String!) {
       team(id: $teamId) {
@@ -385,7 +473,7 @@ export async function getTeamLabels(teamId: string): Promise<Array<{ id: string;
         nodes: Array<{ id: string; name: string }>;
       };
     };
-  }>(query, { teamId });
+  }>(query, { teamId }, workspaceId);
 
   return data.team.labels.nodes;
 }
@@ -393,7 +481,7 @@ export async function getTeamLabels(teamId: string): Promise<Array<{ id: string;
 /**
  * Create a label for a team
  */
-export async function createLabel(teamId: string, name: string): Promise<{ id: string; name: string }> {
+export async function createLabel(teamId: string, name: string, workspaceId?: string): Promise<{ id: string; name: string }> {
   const query = `
     mutation CreateLabel($teamId: String!, $name: String!) {
       issueLabelCreate(
@@ -416,7 +504,7 @@ export async function createLabel(teamId: string, name: string): Promise<{ id: s
       success: boolean;
       issueLabel: { id: string; name: string };
     };
-  }>(query, { teamId, name });
+  }>(query, { teamId, name }, workspaceId);
 
   if (!data.issueLabelCreate.success) {
     throw new Error(`Failed to create label: ${name}`);
@@ -428,22 +516,22 @@ export async function createLabel(teamId: string, name: string): Promise<{ id: s
 /**
  * Get or create a label by name
  */
-export async function getOrCreateLabel(teamId: string, name: string): Promise<string> {
-  const existingLabels = await getTeamLabels(teamId);
+export async function getOrCreateLabel(teamId: string, name: string, workspaceId?: string): Promise<string> {
+  const existingLabels = await getTeamLabels(teamId, workspaceId);
   const existing = existingLabels.find((l) => l.name.toLowerCase() === name.toLowerCase());
 
   if (existing) {
     return existing.id;
   }
 
-  const newLabel = await createLabel(teamId, name);
+  const newLabel = await createLabel(teamId, name, workspaceId);
   return newLabel.id;
 }
 
 /**
  * Get all projects for a team
  */
-export async function getTeamProjects(teamId: string): Promise<Array<{ id: string; name: string }>> {
+export async function getTeamProjects(teamId: string, workspaceId?: string): Promise<Array<{ id: string; name: string }>> {
   const query = `
     query GetTeamProjects($teamId: String!) {
       team(id: $teamId) {
@@ -463,7 +551,7 @@ export async function getTeamProjects(teamId: string): Promise<Array<{ id: strin
         nodes: Array<{ id: string; name: string }>;
       };
     };
-  }>(query, { teamId });
+  }>(query, { teamId }, workspaceId);
 
   return data.team.projects.nodes;
 }
@@ -472,7 +560,7 @@ export async function getTeamProjects(teamId: string): Promise<Array<{ id: strin
  * Create a project for a team
  * Note: Linear API now requires teamIds (array) instead of teamId (singular)
  */
-export async function createProject(teamId: string, name: string): Promise<{ id: string; name: string }> {
+export async function createProject(teamId: string, name: string, workspaceId?: string): Promise<{ id: string; name: string }> {
   const query = `
     mutation CreateProject($teamIds: [String!]!, $name: String!) {
       projectCreate(
@@ -495,7 +583,7 @@ export async function createProject(teamId: string, name: string): Promise<{ id:
       success: boolean;
       project: { id: string; name: string };
     };
-  }>(query, { teamIds: [teamId], name });
+  }>(query, { teamIds: [teamId], name }, workspaceId);
 
   if (!data.projectCreate.success) {
     throw new Error(`Failed to create project: ${name}`);
@@ -507,14 +595,14 @@ export async function createProject(teamId: string, name: string): Promise<{ id:
 /**
  * Get or create a Linear project by name
  */
-export async function getOrCreateProject(teamId: string, name: string): Promise<string> {
-  const existingProjects = await getTeamProjects(teamId);
+export async function getOrCreateProject(teamId: string, name: string, workspaceId?: string): Promise<string> {
+  const existingProjects = await getTeamProjects(teamId, workspaceId);
   const existing = existingProjects.find((p) => p.name.toLowerCase() === name.toLowerCase());
 
   if (existing) {
     return existing.id;
   }
 
-  const newProject = await createProject(teamId, name);
+  const newProject = await createProject(teamId, name, workspaceId);
   return newProject.id;
 }
@@ -21,6 +21,19 @@ import {
   type AgentDefinition 
 } from '@/lib/agents/index';
 import { runAgentWithSDK, spawnSubagent } from '@/lib/agents/sdk-runner';
+import { hasActionableChanges, type ScanDelta } from '@/lib/scans/delta';
+import { checkBudget, downgradeModel } from '@/lib/budgets';
+import {
+  calculateCost,
+  costFields,
+  countTokens,
+  mergeUsage,
+  usageFromMessage,
+  usageFromSDKResult,
+  type CostBreakdown,
+  type ModelTokenUsage,
+} from '@/lib/pricing';
+import { breachKey, describeBreach, type BudgetBreach, type BudgetMetric } from '@/lib/scanners/performance';
 import {
   query,
   type Options as SDKOptions,
@@ -66,7 +79,7 @@ const TOOL_MAP: Record<string, string> = {
  * - Code: codegen, test, review, api
  * - Content: seo, design, copy, docs
  */
-function convertToSDKAgents(): Record<string, SDKAgentDefinition> {
+function convertToSDKAgents(downgrade: boolean = false): Record<string, SDKAgentDefinition> {
   const sdkAgents: Record<string, SDKAgentDefinition> = {};
   
   // All agents except head-of-product can be spawned as subagents
@@ -78,10 +91,11 @@ function convertToSDKAgents(): Record<string, SDKAgentDefinition> {
         .map(t => TOOL_MAP[t])
         .filter(Boolean) as string[];
       
+      const model = MODEL_MAP[agent.model] || 'sonnet';
       sdkAgents[role] = {
         description: `${agent.name}: ${agent.description || agent.role}`,
         prompt: agent.prompt,
-        model: MODEL_MAP[agent.model] || 'sonnet',
+        model: downgrade ? downgradeModel(model) as typeof model : model,
         tools: sdkTools.length > 0 ? sdkTools : ['Read', 'Grep'],
       };
     }
@@ -107,10 +121,14 @@ export interface ScanContext {
   scans: {
     domain?: any;
     seo?: any;
+    seo_crawl?: any;
     analytics?: any;
     security?: any;
     performance?: any;
+    accessibility?: any;
   };
+  // Per scan type changes since the previous scan; when present, only these reach the HoP prompt
+  deltas?: Record<string, ScanDelta>;
   prioritySignals?: PrioritySignal[];
 }
 
@@ -137,6 +155,7 @@ export interface AgentFinding {
 
 export interface Story {
   projectId: string;
+  agent: string; // Agent whose finding produced this story
   title: string;
   rationale: string;
   priority: 'high' | 'medium' | 'low';
@@ -154,6 +173,7 @@ export interface OrchestratorResult {
   agentsSpawned: string[];
   totalTokens: number;
   estimatedCost: number;
+  costBreakdown: CostBreakdown;
 }
 
 // ============================================================================
@@ -386,9 +406,9 @@ PROJECTS TO ANALYZE:
 - Status: ${ctx.project.status}
 - Repository: ${ctx.project.repoUrl || 'Not connected'}
 
-SCAN DATA:
-${JSON.stringify(ctx.scans, null, 2)}
-
+${ctx.deltas ? buildDeltaSection(ctx.deltas) : `SCAN DATA:
+${JSON.stringify(ctx.scans, null, 2)}`}
+${ctx.scans.security?.secrets && (!ctx.deltas?.secrets || hasActionableChanges(ctx.deltas.secrets)) ? `\n${buildSecretsGuidance(ctx.scans.security.secrets)}\n` : ''}
 ${ctx.prioritySignals && ctx.prioritySignals.length > 0 ? `
 USER PRIORITY SIGNALS:
 ${ctx.prioritySignals.map(s => `- ${s.priorityLevel}: "${s.rawContent}" (via ${s.source})`).join('\n')}
@@ -408,6 +428,28 @@ Now analyze each project. For each one:
   return prompt;
 }
 
+/**
+ * Describe scan changes since the previous scan of each type.
+ * Unchanged issues were already turned into stories on an earlier run,
+ * so they are only counted, never listed.
+ */
+function buildDeltaSection(deltas: Record<string, ScanDelta>): string {
+  const formatIssues = (issues: ScanDelta['new']) =>
+    issues.map(i => `  - [${i.severity}] ${i.title}`).join('\n');
+
+  let section = `SCAN CHANGES SINCE LAST SCAN (only create findings for NEW and REGRESSED issues):\n`;
+
+  for (const [scanType, delta] of Object.entries(deltas)) {
+    section += `\n${scanType.toUpperCase()}:\n`;
+    if (delta.new.length > 0) section += `- NEW:\n${formatIssues(delta.new)}\n`;
+    if (delta.regressed.length > 0) section += `- REGRESSED (was fixed, came back):\n${formatIssues(delta.regressed)}\n`;
+    if (delta.resolved.length > 0) section += `- RESOLVED: ${delta.resolved.map(i => i.title).join('; ')}\n`;
+    section += `- Unchanged: ${delta.unchanged.length} already-reported issue(s)\n`;
+  }
+
+  return section;
+}
+
 /**
  * Run orchestrator using Agent SDK with AUTONOMOUS subagent spawning
  * 
@@ -415,14 +457,13 @@ Now analyze each project. For each one:
  */
 async function runOrchestratorSDK(
   scanContexts: ScanContext[],
-  options: { workspaceId?: string; orchestratorRunId: string }
+  options: { workspaceId?: string; orchestratorRunId: string; downgrade?: boolean }
 ): Promise<OrchestratorResult> {
   const runId = options.orchestratorRunId;
   const allFindings: AgentFinding[] = [];
   const conversation: string[] = [];
   const agentsSpawned: string[] = [];
-  let totalTokens = 0;
-  let estimatedCost = 0;
+  let usage: ModelTokenUsage = {};
 
   conversation.push(`[${new Date().toISOString()}] Orchestrator started (SDK autonomous mode) - analyzing ${scanContexts.length} projects`);
 
@@ -430,7 +471,7 @@ async function runOrchestratorSDK(
   const hopPrompt = buildHoPPrompt(scanContexts);
   
   // Get all spawnable subagents
-  const subagents = convertToSDKAgents();
+  const subagents = convertToSDKAgents(options.downgrade);
   
   console.log('[Orchestrator] Starting Head of Product agent with Task tool');
   console.log('[Orchestrator] Available subagents:', Object.keys(subagents).join(', '));
@@ -441,6 +482,9 @@ async function runOrchestratorSDK(
       // HoP can use Task to spawn subagents, plus basic analysis tools
       allowedTools: ['Task', 'Read', 'Grep', 'Glob'],
       tools: ['Task', 'Read', 'Grep', 'Glob'],
+
+      // Cheaper model when spend is near a budget limit
+      model: options.downgrade ? downgradeModel(agentRegistry['head-of-product'].model) : undefined,
       
       // Define all specialist agents that HoP can spawn
       agents: subagents,
@@ -652,23 +696,17 @@ async function runOrchestratorSDK(
 
         case 'result':
           // Final result with usage stats
-          const resultMsg = message as { 
+          const resultMsg = message as Parameters<typeof usageFromSDKResult>[0] & {
             type: 'result'; 
             subtype?: string;
-            usage?: { inputTokens?: number; outputTokens?: number };
-            total_cost_usd?: number;
             result?: string;
           };
-          if (resultMsg.usage) {
-            totalTokens += (resultMsg.usage.inputTokens || 0) + (resultMsg.usage.outputTokens || 0);
-          }
-          if (resultMsg.total_cost_usd) {
-            estimatedCost += resultMsg.total_cost_usd;
-          }
+          usage = mergeUsage(usage, usageFromSDKResult(resultMsg, sdkOptions.model || agentRegistry['head-of-product'].model));
           if (resultMsg.subtype === 'success' && resultMsg.result) {
             finalOutput = String(resultMsg.result);
           }
-          console.log(`[Orchestrator] Result: subtype=${resultMsg.subtype}, tokens=${totalTokens}, cost=$${estimatedCost.toFixed(4)}`);
+          const resultCost = calculateCost(usage);
+          console.log(`[Orchestrator] Result: subtype=${resultMsg.subtype}, tokens=${countTokens(resultCost)}, cost=$${resultCost.totalCost.toFixed(4)}`);
           break;
         
         // SDK sends user/system messages with tool results - CRITICAL FOR SUBAGENT OUTPUTS
@@ -807,11 +845,16 @@ async function runOrchestratorSDK(
     
     // Fallback: run agents manually if SDK fails
     conversation.push(`[Fallback] Running agents manually...`);
-    const fallbackResult = await runAgentsManually(scanContexts, runId);
+    const fallbackResult = await runAgentsManually(scanContexts, runId, options.downgrade);
     allFindings.push(...fallbackResult.findings);
     agentsSpawned.push(...fallbackResult.agentsSpawned);
-    totalTokens += fallbackResult.totalTokens;
-    estimatedCost += fallbackResult.estimatedCost;
+    usage = mergeUsage(usage, fallbackResult.usage);
+  }
+
+  const budgetFindings = buildBudgetFindings(scanContexts);
+  if (budgetFindings.length > 0) {
+    allFindings.push(...budgetFindings);
+    conversation.push(`Performance budget breaches: ${budgetFindings.length}`);
   }
 
   // Apply priority scoring to all findings
@@ -822,8 +865,9 @@ async function runOrchestratorSDK(
   const stories = createStoriesFromFindings(scoredFindings);
   conversation.push(`Created ${stories.length} stories for user review`);
 
-  conversation.push(`\nTotal tokens used: ${totalTokens}`);
-  conversation.push(`Estimated cost: $${estimatedCost.toFixed(4)}`);
+  const costBreakdown = calculateCost(usage);
+  conversation.push(`\nTotal tokens used: ${countTokens(costBreakdown)}`);
+  conversation.push(`Estimated cost: $${costBreakdown.totalCost.toFixed(4)}`);
   conversation.push(`[${new Date().toISOString()}] Orchestrator completed`);
 
   return {
@@ -832,8 +876,9 @@ async function runOrchestratorSDK(
     stories,
     conversation,
     agentsSpawned: Array.from(new Set(agentsSpawned)),
-    totalTokens,
-    estimatedCost,
+    totalTokens: countTokens(costBreakdown),
+    estimatedCost: costBreakdown.totalCost,
+    costBreakdown,
   };
 }
 
@@ -920,17 +965,16 @@ function parseFindingsFromAgentOutput(output: string, agentName: string): AgentF
  */
 async function runAgentsManually(
   scanContexts: ScanContext[],
-  runId: string
+  runId: string,
+  downgrade: boolean = false
 ): Promise<{
   findings: AgentFinding[];
   agentsSpawned: string[];
-  totalTokens: number;
-  estimatedCost: number;
+  usage: ModelTokenUsage;
 }> {
   const findings: AgentFinding[] = [];
   const agentsSpawned: string[] = [];
-  let totalTokens = 0;
-  let estimatedCost = 0;
+  let usage: ModelTokenUsage = {};
 
   for (const scanContext of scanContexts) {
     const relevantAgentRoles = getRelevantAgents(scanContext);
@@ -939,14 +983,15 @@ async function runAgentsManually(
       try {
         const agentContext = buildAgentContext(role, scanContext);
         
+        const agentModel = agentRegistry[role]?.model;
         const result = await runAgentWithSDK(role, agentContext, {
           projectId: scanContext.project.id,
           orchestratorRunId: runId,
+          model: downgrade && agentModel ? downgradeModel(agentModel) : undefined,
         });
 
         agentsSpawned.push(role);
-        totalTokens += result.session.tokensUsed;
-        estimatedCost += estimateCostFromTokens(result.session.tokensUsed);
+        usage = mergeUsage(usage, result.session.cost.models);
 
         if (result.findings && result.findings.length > 0) {
           const enhancedFindings = result.findings.map(f => ({
@@ -962,7 +1007,7 @@ async function runAgentsManually(
     }
   }
 
-  return { findings, agentsSpawned, totalTokens, estimatedCost };
+  return { findings, agentsSpawned, usage };
 }
 
 /**
@@ -985,9 +1030,15 @@ REPOSITORY: ${project.repoUrl || 'Not connected'}
   switch (role) {
     case 'security':
       context += `SECURITY SCAN RESULTS:\n${JSON.stringify(scans.security || {}, null, 2)}\n\n`;
+      if (scans.security?.secrets) {
+        context += `${buildSecretsGuidance(scans.security.secrets)}\n\n`;
+      }
       break;
     case 'seo':
       context += `SEO SCAN RESULTS:\n${JSON.stringify(scans.seo || {}, null, 2)}\n\n`;
+      if (scans.seo_crawl?.data?.pages) {
+        context += `${buildCrawlGuidance(scans.seo_crawl.data)}\n\n`;
+      }
       break;
     case 'domain':
       context += `DOMAIN SCAN RESULTS:\n${JSON.stringify(scans.domain || {}, null, 2)}\n\n`;
@@ -997,6 +1048,14 @@ REPOSITORY: ${project.repoUrl || 'Not connected'}
       break;
     case 'performance':
       context += `PERFORMANCE SCAN RESULTS:\n${JSON.stringify(scans.performance || {}, null, 2)}\n\n`;
+      if (scans.performance?.data?.breaches?.length) {
+        context += `Budget breaches are already filed as findings - report their likely causes and any other issues, not the breaches themselves.\n\n`;
+      }
+      break;
+    case 'accessibility':
+      context += scans.accessibility?.data?.violations
+        ? `${buildAccessibilityGuidance(scans.accessibility.data)}\n\n`
+        : `No accessibility scan available - check the site manually against WCAG 2.2 AA.\n\n`;
       break;
     default:
       context += `ALL SCAN RESULTS:\n${JSON.stringify(scans, null, 2)}\n\n`;
@@ -1030,6 +1089,161 @@ If no issues found, return: {"findings": []}`;
   return context;
 }
 
+/**
+ * Describe secrets findings split by whether they are still in the code.
+ * A secret that only lives in git history was already deleted from HEAD,
+ * so the fix is rotating the key - "remove this line" would be a no-op.
+ */
+function buildSecretsGuidance(secrets: {
+  findings?: Array<{ pattern: string; filePath?: string; lineNumber: number; fingerprint?: string }>;
+  historyFindings?: Array<{
+    pattern: string;
+    filePath: string;
+    fingerprint: string;
+    commitSha: string;
+    author: string;
+    committedAt: string;
+    presentAtHead: boolean;
+  }>;
+}): string {
+  const history = secrets.historyFindings || [];
+  // Same secret value, even if it moved files since it was first committed
+  const firstSeenAt = (fingerprint?: string) =>
+    fingerprint ? history.find(h => h.presentAtHead && h.fingerprint === fingerprint) : undefined;
+
+  const lines: string[] = [];
+
+  const inCode = secrets.findings || [];
+  if (inCode.length > 0) {
+    lines.push('SECRETS STILL IN CODE (remove from code AND rotate the key):');
+    for (const f of inCode) {
+      const origin = firstSeenAt(f.fingerprint);
+      lines.push(`- ${f.pattern} at ${f.filePath || 'unknown'}:${f.lineNumber}` +
+        (origin ? ` (first committed ${origin.commitSha.slice(0, 7)} by ${origin.author} on ${origin.committedAt})` : ''));
+    }
+  }
+
+  const historyOnly = history.filter(h => !h.presentAtHead);
+  if (historyOnly.length > 0) {
+    lines.push('SECRETS ONLY IN GIT HISTORY (already removed from code - create a "Rotate <key>" story, NOT a "remove this line" story):');
+    for (const h of historyOnly) {
+      lines.push(`- ${h.pattern} in ${h.filePath}, committed ${h.commitSha.slice(0, 7)} by ${h.author} on ${h.committedAt}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Summarize crawl problems per page so SEO stories can name the exact URL
+ */
+function buildCrawlGuidance(data: {
+  complete: boolean;
+  pages: Array<{
+    path: string;
+    redirectChain?: string[];
+    canonical?: string;
+    brokenLinks: Array<{ url: string; status: number }>;
+  }>;
+  blocked: Array<{ path: string; by: string; inSitemap: boolean }>;
+  orphans: string[];
+  duplicateTitles: Array<{ value: string; pages: string[] }>;
+  duplicateDescriptions: Array<{ value: string; pages: string[] }>;
+}): string {
+  const lines: string[] = [`SITE CRAWL (${data.pages.length} pages${data.complete ? '' : ', stopped at the crawl limit'}):`];
+
+  for (const page of data.pages.filter(p => p.brokenLinks.length > 0)) {
+    lines.push(`- ${page.path}: ${page.brokenLinks.length} broken link(s): ` +
+      page.brokenLinks.map(l => `${l.url} (${l.status || 'unreachable'})`).join(', '));
+  }
+  for (const page of data.pages.filter(p => (p.redirectChain?.length ?? 0) > 1)) {
+    lines.push(`- ${page.path}: redirect chain ${page.redirectChain!.join(' -> ')}`);
+  }
+  for (const page of data.blocked.filter(p => p.inSitemap)) {
+    lines.push(`- ${page.path}: in sitemap but blocked by ${page.by}`);
+  }
+  if (data.orphans.length > 0) {
+    lines.push(`- Orphan pages (in sitemap, not linked): ${data.orphans.join(', ')}`);
+  }
+  for (const group of data.duplicateTitles) {
+    lines.push(`- Duplicate title "${group.value}" on ${group.pages.join(', ')}`);
+  }
+  for (const group of data.duplicateDescriptions) {
+    lines.push(`- Duplicate meta description on ${group.pages.join(', ')}`);
+  }
+
+  if (lines.length === 1) lines.push('- No crawl problems found');
+  lines.push('Create one story per page (e.g. "Fix 7 broken links on /pricing"), not one per link.');
+
+  return lines.join('\n');
+}
+
+/**
+ * Summarize axe-core violations grouped by impact, one line per WCAG rule
+ */
+function buildAccessibilityGuidance(data: {
+  viewports: string[];
+  violations: Array<{
+    ruleId: string;
+    impact: string;
+    help: string;
+    wcag: string[];
+    viewports: string[];
+    nodeCount: number;
+    targets: string[];
+  }>;
+}): string {
+  if (data.violations.length === 0) {
+    return `ACCESSIBILITY SCAN: no WCAG A/AA violations found at ${data.viewports.join(', ')} sizes.`;
+  }
+
+  const lines: string[] = [`ACCESSIBILITY VIOLATIONS (axe-core, checked at ${data.viewports.join(', ')} sizes):`];
+  for (const impact of ['critical', 'serious', 'moderate', 'minor']) {
+    const violations = data.violations.filter(v => v.impact === impact);
+    if (violations.length === 0) continue;
+
+    lines.push(`${impact.toUpperCase()}:`);
+    for (const v of violations) {
+      const onlyAt = v.viewports.length < data.viewports.length ? ` [only at ${v.viewports.join(', ')}]` : '';
+      lines.push(`- ${v.ruleId}${v.wcag.length ? ` (WCAG ${v.wcag.join(', ')})` : ''}: ${v.help} - ${v.nodeCount} element(s)${onlyAt}, e.g. ${v.targets.slice(0, 3).join(' | ')}`);
+    }
+  }
+  lines.push('Create one story per rule, not per element.');
+
+  return lines.join('\n');
+}
+
+const BUDGET_ACTIONS: Record<BudgetMetric, string> = {
+  lcp: 'Speed up the largest element: preload and compress the hero image, remove render-blocking CSS/JS, and reduce server response time',
+  cls: 'Reserve space for images, embeds and late-loading content (explicit width/height) and avoid inserting content above existing content',
+  jsBytes: 'Ship less JavaScript: code-split the route, lazy-load non-critical components, and drop unused dependencies',
+};
+
+/**
+ * Performance budget breaches become findings directly rather than through an
+ * agent. With a scan delta, only new or regressed breaches are reported.
+ */
+function buildBudgetFindings(scanContexts: ScanContext[]): AgentFinding[] {
+  return scanContexts.flatMap(ctx => {
+    const breaches: BudgetBreach[] = ctx.scans.performance?.data?.breaches || [];
+    const delta = ctx.deltas?.performance;
+    const actionable = delta ? new Set([...delta.new, ...delta.regressed].map(issue => issue.key)) : null;
+
+    return breaches
+      .filter(breach => !actionable || actionable.has(breachKey(breach)))
+      .map((breach): AgentFinding => ({
+        agent: 'performance',
+        projectId: ctx.project.id,
+        issue: describeBreach(breach),
+        action: `${BUDGET_ACTIONS[breach.metric]} on ${breach.page}.`,
+        severity: breach.value >= breach.budget * 1.5 ? 'high' : 'medium',
+        effort: 'medium',
+        impact: 'high',
+        confidence: 0.95,
+      }));
+  });
+}
+
 /**
  * Score and rank findings by priority
  */
@@ -1109,6 +1323,7 @@ function createStoriesFromFindings(findings: AgentFinding[]): Story[] {
 
       stories.push({
         projectId,
+        agent: finding.agent,
         title: finding.issue,
         rationale: `${finding.agent.toUpperCase()}: ${finding.action}\n\n` +
           `Severity: ${finding.severity} | Effort: ${finding.effort} | Impact: ${finding.impact}\n` +
@@ -1125,29 +1340,20 @@ function createStoriesFromFindings(findings: AgentFinding[]): Story[] {
   return stories;
 }
 
-/**
- * Estimate cost from token count
- */
-function estimateCostFromTokens(tokens: number): number {
-  // Rough estimate: $0.003/1K input, $0.015/1K output (sonnet average)
-  // Assume 70% input, 30% output
-  const inputTokens = tokens * 0.7;
-  const outputTokens = tokens * 0.3;
-  return (inputTokens / 1000 * 0.003) + (outputTokens / 1000 * 0.015);
-}
-
 // ============================================================================
 // LEGACY ORCHESTRATOR (Fallback when SDK disabled)
 // ============================================================================
 
 async function runOrchestratorLegacy(
-  scanContexts: ScanContext[]
+  scanContexts: ScanContext[],
+  downgrade: boolean = false
 ): Promise<OrchestratorResult> {
   // Use new agent registry (consolidated)
   const runId = `orch_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   const allFindings: AgentFinding[] = [];
   const conversation: string[] = [];
   const agentsSpawned: string[] = [];
+  let usage: ModelTokenUsage = {};
 
   conversation.push(`[${new Date().toISOString()}] Orchestrator started (legacy mode)`);
 
@@ -1162,8 +1368,9 @@ async function runOrchestratorLegacy(
       agentsSpawned.push(role);
 
       try {
+        const model = downgrade ? downgradeModel(agent.model) : agent.model;
         const response = await anthropic.messages.create({
-          model: agent.model,
+          model,
           max_tokens: 2048,
           system: agent.prompt, // New registry uses 'prompt' not 'instructions'
           messages: [{
@@ -1171,6 +1378,7 @@ async function runOrchestratorLegacy(
             content: buildAgentContext(role, scanContext),
           }],
         });
+        usage = mergeUsage(usage, { [model]: usageFromMessage(response.usage) });
 
         const textContent = response.content.find(c => c.type === 'text');
         if (textContent && textContent.type === 'text') {
@@ -1194,19 +1402,23 @@ async function runOrchestratorLegacy(
     }
   }
 
+  allFindings.push(...buildBudgetFindings(scanContexts));
+
   const scoredFindings = scoreAndRankFindings(allFindings, scanContexts);
   const stories = createStoriesFromFindings(scoredFindings);
 
   conversation.push(`[${new Date().toISOString()}] Orchestrator completed (legacy mode)`);
 
+  const costBreakdown = calculateCost(usage);
   return {
     runId,
     findings: scoredFindings,
     stories,
     conversation,
     agentsSpawned,
-    totalTokens: 0,
-    estimatedCost: 0,
+    totalTokens: countTokens(costBreakdown),
+    estimatedCost: costBreakdown.totalCost,
+    costBreakdown,
   };
 }
 
@@ -1216,12 +1428,25 @@ async function runOrchestratorLegacy(
 
 /**
  * Main orchestrator entry point
- * Chooses SDK or legacy based on feature flag
+ * Chooses SDK or legacy based on feature flag. With a workspace, the run is
+ * checked against its budgets first: refused over a limit, cheaper models near one.
  */
 export async function runOrchestrator(
   scanContexts: ScanContext[],
   options?: { workspaceId?: string }
 ): Promise<OrchestratorResult> {
+  const workspaceId = options?.workspaceId;
+  const projectId = scanContexts.length === 1 ? scanContexts[0].project.id : undefined;
+
+  let downgrade = false;
+  if (workspaceId) {
+    const budget = await checkBudget({ workspaceId, projectId });
+    if (!budget.allowed) {
+      throw new Error(`Budget exceeded: ${budget.reason}`);
+    }
+    downgrade = budget.downgrade;
+  }
+
   // Generate a unique run ID
   const generatedRunId = `orch_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   
@@ -1229,6 +1454,8 @@ export async function runOrchestrator(
   const runRecord = await prisma.orchestratorRun.create({
     data: {
       runId: generatedRunId,
+      workspaceId,
+      projectId,
       status: 'running',
       conversation: [],
     },
@@ -1239,11 +1466,12 @@ export async function runOrchestrator(
 
     if (featureFlags.AGENT_SDK_ENABLED) {
       result = await runOrchestratorSDK(scanContexts, {
-        workspaceId: options?.workspaceId,
+        workspaceId,
         orchestratorRunId: runRecord.id,
+        downgrade,
       });
     } else {
-      result = await runOrchestratorLegacy(scanContexts);
+      result = await runOrchestratorLegacy(scanContexts, downgrade);
     }
 
     // Update run record with results
@@ -1255,7 +1483,7 @@ export async function runOrchestrator(
         storiesCount: result.stories.length,
         conversation: result.conversation,
         totalTokens: result.totalTokens,
-        estimatedCost: result.estimatedCost,
+        ...costFields(result.costBreakdown),
         agentsSpawned: result.agentsSpawned,
         completedAt: new Date(),
       },
@@ -1311,7 +1539,9 @@ export async function triggerPriorityRerun(
     else if (scan.securityIssues) scanResults[scanType] = scan.securityIssues;
     else if (scan.analyticsData) scanResults[scanType] = scan.analyticsData;
     else if (scan.vercelData) scanResults[scanType] = scan.vercelData;
-    else if (scan.playwrightMetrics) scanResults[scanType] = scan.playwrightMetrics;
+    else if (scan.playwrightMetrics) scanResults[scanType] = { data: scan.playwrightMetrics };
+    else if (scan.crawlData) scanResults[scanType] = { data: scan.crawlData };
+    else if (scan.accessibilityData) scanResults[scanType] = { data: scan.accessibilityData };
   }
 
   const scanContext: ScanContext = {
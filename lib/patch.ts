@@ -0,0 +1,556 @@
+/**
+ * Patch Application
+ *
+ * Applies agent edits as unified diffs or search/replace blocks instead of
+ * whole-file overwrites. Hunks are located near their stated line with a
+ * small amount of context fuzz; a change whose hunks don't all apply is
+ * rejected as a unit and reported, never half-written.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// Context lines that may be dropped from each end of a hunk when matching
+const MAX_FUZZ = 2;
+
+// Full-file writes to existing files this large must keep most of the file
+const TRUNCATION_MIN_LINES = 200;
+const TRUNCATION_MIN_RATIO = 0.5;
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export type FileChange =
+  | { operation: 'create' | 'modify'; path: string; content: string }
+  | { operation: 'patch'; path: string; diff: string }
+  | { operation: 'replace'; path: string; edits: SearchReplaceEdit[] }
+  | { operation: 'delete'; path: string }
+  | { operation: 'rename'; path: string; from: string; diff?: string };
+
+export interface Hunk {
+  header: string;
+  oldStart: number;
+  lines: string[]; // Prefixed with ' ', '-' or '+'
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null for new files
+  newPath: string | null; // null for deletions
+  hunks: Hunk[];
+}
+
+export interface HunkRejection {
+  hunk: string;
+  reason: string;
+  expected: string;
+}
+
+export interface AppliedChange {
+  path: string;
+  operation: FileChange['operation'];
+  from?: string;
+  fuzzed: number; // Hunks that needed an offset or fuzz
+  alreadyApplied: number; // Hunks whose result was already present
+}
+
+export interface RejectedChange {
+  path: string;
+  operation: FileChange['operation'];
+  reason: string;
+  hunks: HunkRejection[];
+}
+
+export interface PatchReport {
+  applied: AppliedChange[];
+  rejected: RejectedChange[];
+}
+
+// ============================================================================
+// UNIFIED DIFF PARSING
+// ============================================================================
+
+function diffPath(raw: string): string | null {
+  const value = raw.split('\t')[0].trim();
+  if (value === '/dev/null') return null;
+  return value.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff (plain or `git diff` style) into per-file patches.
+ * Hunk line counts are ignored because model-written diffs often get them
+ * wrong; a hunk runs until the next hunk or file header.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  let file: FilePatch | null = null;
+  let hunk: Hunk | null = null;
+  let blankLines = 0;
+
+  const startFile = (oldPath: string | null, newPath: string | null): FilePatch => {
+    const patch: FilePatch = { oldPath, newPath, hunks: [] };
+    patches.push(patch);
+    return patch;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const git = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (git) {
+      file = startFile(git[1], git[2]);
+      hunk = null;
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = diffPath(line.slice(4));
+      const newPath = diffPath(lines[i + 1].slice(4));
+      // `diff --git` already opened this file; otherwise this header starts one
+      if (file && file.hunks.length === 0) {
+        file.oldPath = oldPath;
+        file.newPath = newPath;
+      } else {
+        file = startFile(oldPath, newPath);
+      }
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    if (file && !hunk) {
+      if (line.startsWith('rename from ')) file.oldPath = line.slice(12).trim();
+      else if (line.startsWith('rename to ')) file.newPath = line.slice(10).trim();
+      else if (line.startsWith('new file mode')) file.oldPath = null;
+      else if (line.startsWith('deleted file mode')) file.newPath = null;
+    }
+
+    const header = line.match(/^@@ -?(\d+)?(?:,\d+)? ?\+?(?:\d+)?(?:,\d+)? ?@@/);
+    if (header) {
+      // Bare hunks with no file header belong to the caller's file
+      if (!file) file = startFile(null, null);
+      hunk = { header: line, oldStart: header[1] ? parseInt(header[1], 10) : -1, lines: [] };
+      file.hunks.push(hunk);
+      blankLines = 0;
+      continue;
+    }
+
+    if (!hunk || line.startsWith('\\')) continue; // "\ No newline at end of file"
+
+    // A blank line is a context line whose single space was stripped, unless
+    // nothing else in the hunk follows it
+    if (line === '') {
+      blankLines++;
+      continue;
+    }
+    if (line[0] === ' ' || line[0] === '-' || line[0] === '+') {
+      for (; blankLines > 0; blankLines--) hunk.lines.push(' ');
+      hunk.lines.push(line);
+    }
+  }
+
+  return patches;
+}
+
+// ============================================================================
+// HUNK APPLICATION
+// ============================================================================
+
+function sameLines(lines: string[], at: number, expected: string[], loose: boolean): boolean {
+  if (at < 0 || at + expected.length > lines.length) return false;
+  for (let i = 0; i < expected.length; i++) {
+    const a = lines[at + i];
+    const b = expected[i];
+    if (loose ? a.trimEnd() !== b.trimEnd() : a !== b) return false;
+  }
+  return true;
+}
+
+/**
+ * Find `expected` in `lines`, trying positions nearest `near` first
+ */
+function findNearest(lines: string[], expected: string[], near: number, loose: boolean): number {
+  const start = Math.min(Math.max(near, 0), lines.length);
+  for (let distance = 0; distance <= lines.length; distance++) {
+    if (sameLines(lines, start - distance, expected, loose)) return start - distance;
+    if (distance > 0 && sameLines(lines, start + distance, expected, loose)) return start + distance;
+  }
+  return -1;
+}
+
+function leadingContext(lines: string[]): number {
+  let n = 0;
+  while (n < lines.length && lines[n][0] === ' ') n++;
+  return n;
+}
+
+function trailingContext(lines: string[]): number {
+  let n = 0;
+  while (n < lines.length && lines[lines.length - 1 - n][0] === ' ') n++;
+  return n;
+}
+
+/**
+ * Apply hunks to file content.
+ * Each hunk is tried exactly, then ignoring trailing whitespace, then with
+ * up to MAX_FUZZ context lines dropped from either end.
+ */
+export function applyHunks(
+  content: string,
+  hunks: Hunk[]
+): { content: string; fuzzed: number; alreadyApplied: number; rejected: HunkRejection[] } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const endsWithEol = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.split(/\r?\n/);
+  if (endsWithEol && lines.length > 0) lines.pop();
+
+  const rejected: HunkRejection[] = [];
+  let offset = 0;
+  let fuzzed = 0;
+  let alreadyApplied = 0;
+
+  for (const hunk of hunks) {
+    const oldLines = hunk.lines.filter(l => l[0] !== '+').map(l => l.slice(1));
+    const newLines = hunk.lines.filter(l => l[0] !== '-').map(l => l.slice(1));
+
+    // Pure insertion at a known line (e.g. @@ -0,0 +1,3 @@ into an empty file)
+    if (oldLines.length === 0) {
+      if (hunk.oldStart < 0 && lines.length > 0) {
+        rejected.push({ hunk: hunk.header, reason: 'hunk has no context or line number', expected: '' });
+        continue;
+      }
+      const at = Math.min(Math.max(hunk.oldStart, 0) + offset, lines.length);
+      lines.splice(at, 0, ...newLines);
+      offset += newLines.length;
+      continue;
+    }
+
+    const expectedAt = hunk.oldStart > 0 ? hunk.oldStart - 1 + offset : 0;
+    const lead = leadingContext(hunk.lines);
+    const trail = trailingContext(hunk.lines);
+    let match: { at: number; fuzz: number; loose: boolean } | null = null;
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ && !match; fuzz++) {
+      const dropLead = Math.min(fuzz, lead);
+      const dropTrail = Math.min(fuzz, trail);
+      if (fuzz > 0 && dropLead === 0 && dropTrail === 0) break;
+
+      const candidate = oldLines.slice(dropLead, oldLines.length - dropTrail);
+      if (candidate.length === 0) break;
+
+      for (const loose of [false, true]) {
+        const at = findNearest(lines, candidate, expectedAt + dropLead, loose);
+        if (at >= 0) {
+          match = { at: at - dropLead, fuzz, loose };
+          const replacement = newLines.slice(dropLead, newLines.length - dropTrail);
+          lines.splice(at, candidate.length, ...replacement);
+          offset += replacement.length - candidate.length;
+          if (fuzz > 0 || loose || at - dropLead !== expectedAt) fuzzed++;
+          break;
+        }
+      }
+    }
+
+    if (match) continue;
+
+    // Result already present (agent also edited the file directly)
+    if (newLines.length > 0 && findNearest(lines, newLines, expectedAt, true) >= 0) {
+      alreadyApplied++;
+      continue;
+    }
+
+    rejected.push({
+      hunk: hunk.header,
+      reason: 'context not found',
+      expected: oldLines.slice(0, 8).join('\n'),
+    });
+  }
+
+  const joined = lines.join(eol);
+  return {
+    content: endsWithEol && lines.length > 0 ? joined + eol : joined,
+    fuzzed,
+    alreadyApplied,
+    rejected,
+  };
+}
+
+/**
+ * Apply search/replace edits. Each search block must match exactly one place
+ * (ignoring trailing whitespace on each line if there is no exact match).
+ */
+export function applySearchReplace(
+  content: string,
+  edits: SearchReplaceEdit[]
+): { content: string; alreadyApplied: number; rejected: HunkRejection[] } {
+  const rejected: HunkRejection[] = [];
+  let alreadyApplied = 0;
+
+  edits.forEach((edit, index) => {
+    const label = `edit ${index + 1}`;
+    if (!edit.search) {
+      rejected.push({ hunk: label, reason: 'empty search block', expected: '' });
+      return;
+    }
+
+    const count = content.split(edit.search).length - 1;
+    if (count === 1) {
+      content = content.replace(edit.search, () => edit.replace);
+      return;
+    }
+    if (count > 1) {
+      rejected.push({ hunk: label, reason: `search block matches ${count} places`, expected: edit.search });
+      return;
+    }
+
+    // Retry line by line ignoring trailing whitespace
+    const lines = content.split('\n');
+    const search = edit.search.replace(/\n$/, '').split('\n');
+    const at = findNearest(lines, search, 0, true);
+    if (at >= 0 && findNearest(lines.slice(at + 1), search, 0, true) < 0) {
+      lines.splice(at, search.length, ...edit.replace.replace(/\n$/, '').split('\n'));
+      content = lines.join('\n');
+      return;
+    }
+
+    if (edit.replace && content.includes(edit.replace)) {
+      alreadyApplied++;
+      return;
+    }
+
+    rejected.push({ hunk: label, reason: 'search block not found', expected: edit.search });
+  });
+
+  return { content, alreadyApplied, rejected };
+}
+
+// ============================================================================
+// CHANGE SETS
+// ============================================================================
+
+function isOutsideRepo(relative: string): boolean {
+  return relative.startsWith('..') || path.isAbsolute(relative) ||
+    relative === '.git' || relative.startsWith('.git/');
+}
+
+/**
+ * Resolve a repo-relative path, refusing anything outside the repo or in .git,
+ * including through symlinks committed in the repo
+ */
+async function resolveRepoPath(repoPath: string, file: string): Promise<string | null> {
+  const normalized = path.posix.normalize(file.replace(/\\/g, '/')).replace(/^\.\//, '');
+  if (!normalized || isOutsideRepo(normalized)) return null;
+  const target = path.join(repoPath, normalized);
+
+  // Where the deepest existing part of the path really points
+  const root = await fs.realpath(repoPath);
+  for (let existing = target; ; existing = path.dirname(existing)) {
+    try {
+      const real = await fs.realpath(existing);
+      return isOutsideRepo(path.relative(root, real).split(path.sep).join('/')) ? null : target;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') return null;
+      // A dangling symlink would still be followed when writing
+      if (await fs.lstat(existing).then(stat => stat.isSymbolicLink(), () => false)) return null;
+    }
+    if (path.dirname(existing) === existing) return null;
+  }
+}
+
+function looksTruncated(previous: string, next: string): boolean {
+  const before = previous.split('\n').length;
+  const after = next.split('\n').length;
+  return before >= TRUNCATION_MIN_LINES && after < before * TRUNCATION_MIN_RATIO;
+}
+
+/**
+ * Expand multi-file diffs into one change per file
+ */
+export function changesFromDiff(diff: string): FileChange[] {
+  const changes: FileChange[] = [];
+  for (const patch of parseUnifiedDiff(diff)) {
+    const text = patch.hunks.map(h => [h.header, ...h.lines].join('\n')).join('\n');
+    if (patch.oldPath && !patch.newPath) {
+      changes.push({ operation: 'delete', path: patch.oldPath });
+    } else if (patch.oldPath && patch.newPath && patch.oldPath !== patch.newPath) {
+      changes.push({ operation: 'rename', from: patch.oldPath, path: patch.newPath, diff: text || undefined });
+    } else if (patch.newPath || patch.oldPath) {
+      changes.push({ operation: 'patch', path: (patch.newPath || patch.oldPath)!, diff: text });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Apply a set of changes to a repository.
+ * Changes are applied in order against an in-memory view, so a later change
+ * to the same file sees the earlier one; nothing is written until every
+ * change has been evaluated.
+ */
+export async function applyPatchSet(repoPath: string, changes: FileChange[]): Promise<PatchReport> {
+  const staged = new Map<string, string | null>(); // null = deleted
+  const report: PatchReport = { applied: [], rejected: [] };
+
+  const read = async (file: string): Promise<string | null> => {
+    if (staged.has(file)) return staged.get(file)!;
+    try {
+      return await fs.readFile(file, 'utf-8');
+    } catch {
+      return null;
+    }
+  };
+
+  for (const change of changes) {
+    const reject = (reason: string, hunks: HunkRejection[] = []) =>
+      report.rejected.push({ path: change.path, operation: change.operation, reason, hunks });
+
+    const target = await resolveRepoPath(repoPath, change.path);
+    if (!target) {
+      reject('path is outside the repository');
+      continue;
+    }
+    const current = await read(target);
+    const applied: AppliedChange = { path: change.path, operation: change.operation, fuzzed: 0, alreadyApplied: 0 };
+
+    switch (change.operation) {
+      case 'create':
+      case 'modify': {
+        if (change.operation === 'create' && current !== null && current !== change.content) {
+          reject('file already exists');
+          continue;
+        }
+        if (current !== null && looksTruncated(current, change.content)) {
+          reject('full-file content is much shorter than the existing file; send a patch instead');
+          continue;
+        }
+        staged.set(target, change.content);
+        break;
+      }
+
+      case 'patch': {
+        const hunks = parseUnifiedDiff(change.diff).flatMap(p => p.hunks);
+        if (hunks.length === 0) {
+          reject('diff contains no hunks');
+          continue;
+        }
+        const isNewFile = hunks.every(h => h.lines.every(l => l[0] === '+'));
+        if (current === null && !isNewFile) {
+          reject('file not found');
+          continue;
+        }
+        const result = applyHunks(current ?? '', hunks);
+        if (result.rejected.length > 0) {
+          reject(`${result.rejected.length} of ${hunks.length} hunks did not apply`, result.rejected);
+          continue;
+        }
+        applied.fuzzed = result.fuzzed;
+        applied.alreadyApplied = result.alreadyApplied;
+        staged.set(target, result.content);
+        break;
+      }
+
+      case 'replace': {
+        if (current === null) {
+          reject('file not found');
+          continue;
+        }
+        const result = applySearchReplace(current, change.edits || []);
+        if (result.rejected.length > 0) {
+          reject(`${result.rejected.length} of ${change.edits.length} edits did not apply`, result.rejected);
+          continue;
+        }
+        applied.alreadyApplied = result.alreadyApplied;
+        staged.set(target, result.content);
+        break;
+      }
+
+      case 'delete': {
+        if (current === null) {
+          applied.alreadyApplied = 1;
+          break;
+        }
+        staged.set(target, null);
+        break;
+      }
+
+      case 'rename': {
+        const source = await resolveRepoPath(repoPath, change.from);
+        if (!source) {
+          reject('rename source is outside the repository');
+          continue;
+        }
+        const original = await read(source);
+        if (original === null) {
+          if (current !== null) {
+            applied.alreadyApplied = 1;
+            break;
+          }
+          reject(`rename source ${change.from} not found`);
+          continue;
+        }
+        if (current !== null) {
+          reject('rename target already exists');
+          continue;
+        }
+        let content = original;
+        if (change.diff) {
+          const hunks = parseUnifiedDiff(change.diff).flatMap(p => p.hunks);
+          const result = applyHunks(original, hunks);
+          if (result.rejected.length > 0) {
+            reject(`${result.rejected.length} of ${hunks.length} hunks did not apply`, result.rejected);
+            continue;
+          }
+          applied.fuzzed = result.fuzzed;
+          content = result.content;
+        }
+        applied.from = change.from;
+        staged.set(source, null);
+        staged.set(target, content);
+        break;
+      }
+
+      default:
+        reject(`unknown operation ${(change as { operation: string }).operation}`);
+        continue;
+    }
+
+    report.applied.push(applied);
+  }
+
+  for (const [file, content] of Array.from(staged.entries())) {
+    if (content === null) {
+      await fs.rm(file, { force: true });
+    } else {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, content, 'utf-8');
+    }
+  }
+
+  return report;
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Markdown report of rejected changes, for the agent and Linear
+ */
+export function formatRejectionReport(report: PatchReport): string {
+  if (report.rejected.length === 0) return '';
+
+  const sections = report.rejected.map(change => {
+    const lines = [`### \`${change.path}\` (${change.operation}): ${change.reason}`];
+    for (const hunk of change.hunks) {
+      lines.push(`- \`${hunk.hunk}\`: ${hunk.reason}`);
+      if (hunk.expected) {
+        lines.push('  Expected to find:', '  ```', ...hunk.expected.split('\n').map(l => `  ${l}`), '  ```');
+      }
+    }
+    return lines.join('\n');
+  });
+
+  return `${report.rejected.length} change(s) rejected, ${report.applied.length} applied:\n\n${sections.join('\n\n')}`;
+}
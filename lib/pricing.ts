@@ -0,0 +1,273 @@
+/**
+ * Model Pricing
+ *
+ * One price table for every place that records agent spend. Costs are
+ * computed from the token counts the Agent SDK (or Messages API) reports,
+ * split into input, output, cache-creation and cache-read tokens, per model.
+ * The per-model usage is persisted alongside the cost so historical costs
+ * can be recomputed when the table changes (see recomputeCosts).
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+// Bump when MODEL_PRICES changes so stored breakdowns show which table priced them
+export const PRICE_TABLE_VERSION = '2025-11';
+
+// USD per million tokens
+interface ModelPrice {
+  input: number;
+  output: number;
+  cacheCreation: number;
+  cacheRead: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5-20251101': { input: 5, output: 25, cacheCreation: 6.25, cacheRead: 0.5 },
+  'claude-sonnet-4-5-20250929': { input: 3, output: 15, cacheCreation: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5-20251001': { input: 1, output: 5, cacheCreation: 1.25, cacheRead: 0.1 },
+};
+
+// Priced when a model can't be matched to the table
+const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+
+// Model families, for SDK aliases ('sonnet') and dated ids we don't list yet
+const MODEL_FAMILIES: Record<string, string> = {
+  opus: 'claude-opus-4-5-20251101',
+  sonnet: 'claude-sonnet-4-5-20250929',
+  haiku: 'claude-haiku-4-5-20251001',
+};
+
+// Share of input tokens assumed when only a total is known (forecasts)
+const FORECAST_INPUT_SHARE = 0.8;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+// Usage keyed by model id (a run can mix models through subagents)
+export type ModelTokenUsage = Record<string, TokenUsage>;
+
+export interface CostBreakdown extends TokenUsage {
+  priceVersion: string;
+  models: Record<string, TokenUsage & { cost: number }>;
+  inputCost: number;
+  outputCost: number;
+  cacheCreationCost: number;
+  cacheReadCost: number;
+  totalCost: number;
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0 };
+}
+
+/**
+ * Tokens counted against token limits: everything except cache reads,
+ * which are billed at a fraction of the input price
+ */
+export function countTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens;
+}
+
+/**
+ * Usage from a Messages API `usage` block (also the SDK result's aggregate `usage`)
+ */
+export function usageFromMessage(usage: {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+} | undefined): TokenUsage {
+  return {
+    inputTokens: usage?.input_tokens || 0,
+    outputTokens: usage?.output_tokens || 0,
+    cacheCreationTokens: usage?.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage?.cache_read_input_tokens || 0,
+  };
+}
+
+/**
+ * Per-model usage from an SDK `result` message. Prefers `modelUsage`, which
+ * splits usage by model; falls back to the aggregate `usage` priced as
+ * `fallbackModel`.
+ */
+export function usageFromSDKResult(
+  result: {
+    usage?: Parameters<typeof usageFromMessage>[0];
+    modelUsage?: Record<string, {
+      inputTokens?: number;
+      outputTokens?: number;
+      cacheCreationInputTokens?: number;
+      cacheReadInputTokens?: number;
+    }>;
+  },
+  fallbackModel: string = DEFAULT_MODEL
+): ModelTokenUsage {
+  if (result.modelUsage && Object.keys(result.modelUsage).length > 0) {
+    const byModel: ModelTokenUsage = {};
+    for (const [model, usage] of Object.entries(result.modelUsage)) {
+      byModel[model] = {
+        inputTokens: usage.inputTokens || 0,
+        outputTokens: usage.outputTokens || 0,
+        cacheCreationTokens: usage.cacheCreationInputTokens || 0,
+        cacheReadTokens: usage.cacheReadInputTokens || 0,
+      };
+    }
+    return byModel;
+  }
+
+  return result.usage ? { [fallbackModel]: usageFromMessage(result.usage) } : {};
+}
+
+/**
+ * Sum per-model usage
+ */
+export function mergeUsage(...usages: ModelTokenUsage[]): ModelTokenUsage {
+  const merged: ModelTokenUsage = {};
+  for (const usage of usages) {
+    for (const [model, tokens] of Object.entries(usage)) {
+      const total = merged[model] || emptyUsage();
+      merged[model] = {
+        inputTokens: total.inputTokens + tokens.inputTokens,
+        outputTokens: total.outputTokens + tokens.outputTokens,
+        cacheCreationTokens: total.cacheCreationTokens + tokens.cacheCreationTokens,
+        cacheReadTokens: total.cacheReadTokens + tokens.cacheReadTokens,
+      };
+    }
+  }
+  return merged;
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * The price table entry for a model id or SDK alias
+ */
+export function resolvePricedModel(model: string | undefined): string {
+  if (!model) return DEFAULT_MODEL;
+  if (MODEL_PRICES[model]) return model;
+
+  const family = Object.keys(MODEL_FAMILIES).find(f => model.toLowerCase().includes(f));
+  return family ? MODEL_FAMILIES[family] : DEFAULT_MODEL;
+}
+
+/**
+ * Cost of per-model usage at current prices
+ */
+export function calculateCost(usage: ModelTokenUsage): CostBreakdown {
+  const breakdown: CostBreakdown = {
+    priceVersion: PRICE_TABLE_VERSION,
+    models: {},
+    ...emptyUsage(),
+    inputCost: 0,
+    outputCost: 0,
+    cacheCreationCost: 0,
+    cacheReadCost: 0,
+    totalCost: 0,
+  };
+
+  for (const [model, tokens] of Object.entries(usage)) {
+    const price = MODEL_PRICES[resolvePricedModel(model)];
+    const inputCost = tokens.inputTokens * price.input / 1_000_000;
+    const outputCost = tokens.outputTokens * price.output / 1_000_000;
+    const cacheCreationCost = tokens.cacheCreationTokens * price.cacheCreation / 1_000_000;
+    const cacheReadCost = tokens.cacheReadTokens * price.cacheRead / 1_000_000;
+    const cost = inputCost + outputCost + cacheCreationCost + cacheReadCost;
+
+    breakdown.models[model] = { ...tokens, cost };
+    breakdown.inputTokens += tokens.inputTokens;
+    breakdown.outputTokens += tokens.outputTokens;
+    breakdown.cacheCreationTokens += tokens.cacheCreationTokens;
+    breakdown.cacheReadTokens += tokens.cacheReadTokens;
+    breakdown.inputCost += inputCost;
+    breakdown.outputCost += outputCost;
+    breakdown.cacheCreationCost += cacheCreationCost;
+    breakdown.cacheReadCost += cacheReadCost;
+    breakdown.totalCost += cost;
+  }
+
+  return breakdown;
+}
+
+/**
+ * Forecast cost for a token estimate with no split (e.g. execution plans)
+ */
+export function forecastCost(model: string | undefined, tokens: number): number {
+  const inputTokens = Math.round(tokens * FORECAST_INPUT_SHARE);
+  return calculateCost({
+    [resolvePricedModel(model)]: { ...emptyUsage(), inputTokens, outputTokens: tokens - inputTokens },
+  }).totalCost;
+}
+
+/**
+ * Token and cost columns for an AgentSession / OrchestratorRun update
+ */
+export function costFields(breakdown: CostBreakdown) {
+  return {
+    inputTokens: breakdown.inputTokens,
+    outputTokens: breakdown.outputTokens,
+    cacheCreationTokens: breakdown.cacheCreationTokens,
+    cacheReadTokens: breakdown.cacheReadTokens,
+    estimatedCost: breakdown.totalCost,
+    costBreakdown: JSON.parse(JSON.stringify(breakdown)),
+  };
+}
+
+// ============================================================================
+// RECOMPUTE
+// ============================================================================
+
+/**
+ * Re-price stored sessions and runs with the current table. Only rows with a
+ * persisted per-model breakdown can be re-priced; returns how many were.
+ */
+export async function recomputeCosts(options: { since?: Date } = {}): Promise<{ sessions: number; runs: number }> {
+  const where = {
+    costBreakdown: { not: Prisma.AnyNull },
+    ...(options.since ? { startedAt: { gte: options.since } } : {}),
+  };
+
+  const [sessions, runs] = await Promise.all([
+    prisma.agentSession.findMany({ where, select: { id: true, costBreakdown: true } }),
+    prisma.orchestratorRun.findMany({ where, select: { id: true, costBreakdown: true } }),
+  ]);
+
+  const reprice = (stored: unknown): CostBreakdown | null => {
+    const models = (stored as Partial<CostBreakdown> | null)?.models;
+    if (!models) return null;
+    const usage: ModelTokenUsage = {};
+    for (const [model, { inputTokens, outputTokens, cacheCreationTokens, cacheReadTokens }] of Object.entries(models)) {
+      usage[model] = { inputTokens, outputTokens, cacheCreationTokens, cacheReadTokens };
+    }
+    return calculateCost(usage);
+  };
+
+  let sessionCount = 0;
+  for (const session of sessions) {
+    const breakdown = reprice(session.costBreakdown);
+    if (!breakdown) continue;
+    await prisma.agentSession.update({ where: { id: session.id }, data: costFields(breakdown) });
+    sessionCount++;
+  }
+
+  let runCount = 0;
+  for (const run of runs) {
+    const breakdown = reprice(run.costBreakdown);
+    if (!breakdown) continue;
+    await prisma.orchestratorRun.update({ where: { id: run.id }, data: costFields(breakdown) });
+    runCount++;
+  }
+
+  console.log(`[Pricing] Recomputed ${sessionCount} sessions and ${runCount} runs at price table ${PRICE_TABLE_VERSION}`);
+  return { sessions: sessionCount, runs: runCount };
+}
@@ -167,7 +167,7 @@ export async function getStackRankedStoriesByProject(
   const stories = await prisma.story.findMany({
     where: {
       projectId,
-      status: { notIn: ['completed', 'rejected', 'cancelled'] },
+      status: { notIn: ['completed', 'rejected', 'cancelled', 'no_op', 'pr_open', 'merged', 'pr_closed'] },
     },
     include: {
       project: {
@@ -306,7 +306,7 @@ export async function refreshProjectPriorities(
   const stories = await prisma.story.findMany({
     where: {
       projectId,
-      status: { notIn: ['completed', 'rejected', 'cancelled'] },
+      status: { notIn: ['completed', 'rejected', 'cancelled', 'no_op', 'pr_open', 'merged', 'pr_closed'] },
     },
     select: { id: true },
   });
@@ -2,12 +2,15 @@
  * Execution Queue Helper
  * 
  * Shared utilities for enqueuing stories for execution.
- * Used by Linear webhooks, Slack approvals, and Dashboard approvals.
+ * Used by Linear webhooks, Slack approvals, Dashboard approvals,
+ * GitHub review follow-ups, execution plans and stale-branch rebases,
+ * and for cancelling queued or running executions.
  */
 
 import { Queue } from 'bullmq';
 import Redis from 'ioredis';
 import { prisma } from '@/lib/db';
+import { addLinearComment, syncStoryStatusToLinear } from '@/lib/linear';
 
 // Redis connection configuration
 function getRedisConnection(): Redis {
@@ -66,8 +69,8 @@ export async function enqueueStoryForExecution(
       return null;
     }
 
-    // Don't re-enqueue if already in progress or completed
-    if (story.status === 'in_progress' || story.status === 'completed') {
+    // Don't re-enqueue if already in progress, completed or has a PR
+    if (['in_progress', 'completed', 'pr_open', 'merged'].includes(story.status)) {
       console.log(`[ExecutionQueue] Story ${storyId} already ${story.status}, skipping`);
       return null;
     }
@@ -82,7 +85,7 @@ export async function enqueueStoryForExecution(
     // Check if job already exists (idempotency)
     const existingJobs = await executionQueue.getJobs(['waiting', 'active', 'delayed']);
     const alreadyQueued = existingJobs.some(
-      (job) => job.data.storyId === storyId
+      (job) => job.name === 'execute-story' && job.data.storyId === storyId
     );
 
     if (alreadyQueued) {
@@ -137,19 +140,198 @@ export async function enqueueStoryForExecution(
 }
 
 /**
- * Get queue status for monitoring
+ * Enqueue a follow-up job that addresses a PR review on the story's branch
+ *
+ * @param storyId - Story whose PR was reviewed
+ * @param review - Review to address (GitHub review ID and PR number)
+ * @returns The job ID if successful
+ */
+export async function enqueueReviewFollowUp(
+  storyId: string,
+  review: { reviewId: number; prNumber: number; reviewer?: string }
+): Promise<string | null> {
+  const connection = getRedisConnection();
+
+  try {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { id: true, status: true, priorityLevel: true },
+    });
+
+    if (!story || story.status !== 'pr_open') {
+      console.log(`[ExecutionQueue] Story ${storyId} has no open PR, skipping review follow-up`);
+      return null;
+    }
+
+    const executionQueue = new Queue('execution-queue', { connection });
+    const priority = story.priorityLevel || 'P2';
+
+    // One job per review; redelivered webhooks reuse the same job ID
+    const job = await executionQueue.add(
+      'address-review',
+      {
+        storyId,
+        priority,
+        source: 'github',
+        review,
+        enqueuedAt: new Date().toISOString(),
+      },
+      {
+        priority: getPriorityNumber(priority),
+        attempts: 1,
+        jobId: `review-${storyId}-${review.reviewId}`,
+      }
+    );
+
+    console.log(`[ExecutionQueue] Enqueued review ${review.reviewId} follow-up for story ${storyId}`);
+
+    await executionQueue.close();
+    return job.id || null;
+
+  } catch (error) {
+    console.error('[ExecutionQueue] Error enqueuing review follow-up:', error);
+    return null;
+  } finally {
+    await connection.quit();
+  }
+}
+
+/**
+ * Enqueue a read-only planning run for a story awaiting approval.
+ * The plan is stored as an AgentOutput; the story's status doesn't change.
+ *
+ * @param storyId - Story to plan
+ * @param source - What asked for the plan (orchestrator, dashboard)
+ * @returns The job ID if successful
+ */
+export async function enqueueStoryPlan(
+  storyId: string,
+  source?: 'orchestrator' | 'dashboard'
+): Promise<string | null> {
+  const connection = getRedisConnection();
+
+  try {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { id: true, status: true, priorityLevel: true },
+    });
+
+    if (!story || story.status !== 'pending') {
+      console.log(`[ExecutionQueue] Story ${storyId} is not pending, skipping plan`);
+      return null;
+    }
+
+    const executionQueue = new Queue('execution-queue', { connection });
+    const priority = story.priorityLevel || 'P2';
+
+    const job = await executionQueue.add(
+      'plan-story',
+      {
+        storyId,
+        priority,
+        mode: 'plan',
+        source: source || 'unknown',
+        enqueuedAt: new Date().toISOString(),
+      },
+      {
+        // Plans are cheap and unblock a human, so they run ahead of executions
+        priority: Math.max(getPriorityNumber(priority) - 1, 1),
+        attempts: 1,
+        jobId: `plan-${storyId}-${Date.now()}`,
+      }
+    );
+
+    console.log(`[ExecutionQueue] Enqueued plan for story ${storyId} from ${source}`);
+
+    await executionQueue.close();
+    return job.id || null;
+
+  } catch (error) {
+    console.error('[ExecutionQueue] Error enqueuing plan:', error);
+    return null;
+  } finally {
+    await connection.quit();
+  }
+}
+
+/**
+ * Enqueue a rebase of a story's open PR branch after an overlapping story
+ * merged, so the PR is re-verified against the new main
+ *
+ * @param storyId - Story whose PR branch went stale
+ * @param mergedStoryId - Story whose merge made it stale
+ * @returns The job ID if successful
+ */
+export async function enqueueBranchRebase(
+  storyId: string,
+  mergedStoryId: string
+): Promise<string | null> {
+  const connection = getRedisConnection();
+
+  try {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { id: true, status: true, priorityLevel: true },
+    });
+
+    if (!story || story.status !== 'pr_open') {
+      console.log(`[ExecutionQueue] Story ${storyId} has no open PR, skipping rebase`);
+      return null;
+    }
+
+    const executionQueue = new Queue('execution-queue', { connection });
+    const priority = story.priorityLevel || 'P2';
+
+    // One rebase per merge; redelivered webhooks reuse the same job ID
+    const job = await executionQueue.add(
+      'rebase-branch',
+      {
+        storyId,
+        priority,
+        mode: 'rebase',
+        source: 'github',
+        enqueuedAt: new Date().toISOString(),
+      },
+      {
+        priority: getPriorityNumber(priority),
+        attempts: 1,
+        jobId: `rebase-${storyId}-${mergedStoryId}`,
+      }
+    );
+
+    console.log(`[ExecutionQueue] Enqueued rebase for story ${storyId} after ${mergedStoryId} merged`);
+
+    await executionQueue.close();
+    return job.id || null;
+
+  } catch (error) {
+    console.error('[ExecutionQueue] Error enqueuing rebase:', error);
+    return null;
+  } finally {
+    await connection.quit();
+  }
+}
+
+/**
+ * Get queue status for monitoring. Jobs held back by the scheduler are
+ * `blocked`, with the reason they're waiting.
  */
 export async function getQueueStatus(): Promise<{
   waiting: number;
   active: number;
+  delayed: number;
   completed: number;
   failed: number;
   jobs: Array<{
     id: string;
+    name: string;
     storyId: string;
     priority: string;
     status: string;
     enqueuedAt: string;
+    waitingReason?: string;
+    blockedBy?: string[];
+    waitingSince?: string;
   }>;
 }> {
   const connection = getRedisConnection();
@@ -157,23 +339,35 @@ export async function getQueueStatus(): Promise<{
   try {
     const executionQueue = new Queue('execution-queue', { connection });
 
-    const [waiting, active, completed, failed] = await Promise.all([
+    const [waiting, active, delayed, completed, failed] = await Promise.all([
       executionQueue.getWaitingCount(),
       executionQueue.getActiveCount(),
+      executionQueue.getDelayedCount(),
       executionQueue.getCompletedCount(),
       executionQueue.getFailedCount(),
     ]);
 
-    // Get details of waiting jobs
-    const waitingJobs = await executionQueue.getJobs(['waiting', 'active']);
-    const jobs = waitingJobs.map((job) => {
-      const isActive = typeof job.isActive === 'function' ? job.isActive() : false;
+    // Get details of pending jobs
+    const pendingJobs = await Promise.all(
+      (await executionQueue.getJobs(['waiting', 'active', 'delayed'])).map(async (job) => ({
+        job,
+        state: await job.getState(),
+      }))
+    );
+    const jobs = pendingJobs.map(({ job, state }) => {
+      // Delayed jobs with a wait reason were held back by the scheduler;
+      // others are retrying after a failure
+      const waitingFor = state === 'delayed' ? job.data.waiting : undefined;
       return {
         id: job.id || '',
+        name: job.name,
         storyId: job.data.storyId,
         priority: job.data.priority || 'P2',
-        status: isActive ? 'active' : 'waiting',
+        status: waitingFor ? 'blocked' : state === 'active' ? 'active' : state === 'delayed' ? 'retrying' : 'waiting',
         enqueuedAt: job.data.enqueuedAt || String(job.timestamp || ''),
+        waitingReason: waitingFor?.message,
+        blockedBy: waitingFor?.blockedBy,
+        waitingSince: waitingFor?.since,
       };
     });
 
@@ -182,6 +376,7 @@ export async function getQueueStatus(): Promise<{
     return {
       waiting,
       active,
+      delayed,
       completed,
       failed,
       jobs: jobs.sort((a, b) => getPriorityNumber(a.priority) - getPriorityNumber(b.priority)),
@@ -193,7 +388,8 @@ export async function getQueueStatus(): Promise<{
 }
 
 /**
- * Remove a story from the queue (for rejections)
+ * Remove a story's waiting execute-story job (for rejections and cancels).
+ * Its other jobs (plan-story, address-review, rebase-branch) stay queued.
  */
 export async function removeFromQueue(storyId: string): Promise<boolean> {
   const connection = getRedisConnection();
@@ -202,7 +398,7 @@ export async function removeFromQueue(storyId: string): Promise<boolean> {
     const executionQueue = new Queue('execution-queue', { connection });
 
     const jobs = await executionQueue.getJobs(['waiting', 'delayed']);
-    const jobToRemove = jobs.find((job) => job.data.storyId === storyId);
+    const jobToRemove = jobs.find((job) => job.name === 'execute-story' && job.data.storyId === storyId);
 
     if (jobToRemove) {
       await jobToRemove.remove();
@@ -218,3 +414,124 @@ export async function removeFromQueue(storyId: string): Promise<boolean> {
     await connection.quit();
   }
 }
+
+// ============================================================================
+// CANCELLATION
+// ============================================================================
+
+// Running workers subscribe here; the key covers jobs that start after the publish
+export const CANCEL_CHANNEL = 'execution:cancel';
+const CANCEL_TTL_SECONDS = 60 * 60;
+
+export type CancelSource = 'dashboard' | 'slack' | 'chat';
+
+export interface CancelRequest {
+  storyId: string;
+  source: CancelSource;
+  requestedBy?: string;
+  requestedAt: string;
+}
+
+export function cancelKey(storyId: string): string {
+  return `execution:cancel:${storyId}`;
+}
+
+/**
+ * Pending cancel request for a story, if any
+ */
+export async function getCancelRequest(redis: Redis, storyId: string): Promise<CancelRequest | null> {
+  const value = await redis.get(cancelKey(storyId));
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as CancelRequest;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearCancelRequest(redis: Redis, storyId: string): Promise<void> {
+  await redis.del(cancelKey(storyId));
+}
+
+/**
+ * Cancel a story's execution. A queued job is removed and the story goes
+ * straight back to pending; a running job is signalled, and the worker
+ * aborts the agent and rolls the story back itself.
+ *
+ * @param storyId - Story to cancel
+ * @param source - Where the cancel came from
+ * @param requestedBy - Who asked (Slack user, email)
+ */
+export async function requestCancellation(
+  storyId: string,
+  source: CancelSource,
+  requestedBy?: string
+): Promise<{ outcome: 'dequeued' | 'signalled' | 'not_running' | 'not_found'; status?: string }> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { id: true, status: true, workspaceId: true, linearTaskId: true, project: { select: { linearTeamId: true } } },
+  });
+
+  if (!story) return { outcome: 'not_found' };
+  if (story.status !== 'approved' && story.status !== 'in_progress') {
+    return { outcome: 'not_running', status: story.status };
+  }
+
+  // Not started yet: nothing to roll back. Without a waiting execute job it
+  // may already be running, so fall through and signal the worker instead.
+  if (story.status === 'approved' && await removeFromQueue(storyId)) {
+    await prisma.story.update({
+      where: { id: storyId },
+      data: { status: 'pending', userApproved: false, userNotes: `Cancelled via ${source}` },
+    });
+
+    if (story.linearTaskId) {
+      try {
+        await syncStoryStatusToLinear(story.linearTaskId, 'pending', story.project.linearTeamId || undefined, story.workspaceId);
+        await addLinearComment(story.linearTaskId,
+          `**⏹️ Execution Cancelled** via ${source}${requestedBy ? ` by ${requestedBy}` : ''} before it started.`,
+          story.workspaceId
+        );
+      } catch (error) {
+        console.error('[ExecutionQueue] Linear update for cancel failed:', error);
+      }
+    }
+
+    console.log(`[ExecutionQueue] Cancelled queued story ${storyId} via ${source}`);
+    return { outcome: 'dequeued', status: 'pending' };
+  }
+
+  const connection = getRedisConnection();
+
+  try {
+    const request: CancelRequest = { storyId, source, requestedBy, requestedAt: new Date().toISOString() };
+    await connection.set(cancelKey(storyId), JSON.stringify(request), 'EX', CANCEL_TTL_SECONDS);
+    await connection.publish(CANCEL_CHANNEL, JSON.stringify(request));
+
+    console.log(`[ExecutionQueue] Signalled cancel for running story ${storyId} via ${source}`);
+    return { outcome: 'signalled', status: story.status };
+
+  } finally {
+    await connection.quit();
+  }
+}
+
+/**
+ * Find the story a Slack or chat cancel command refers to: an ID or ID
+ * prefix (the branch suffix), otherwise the workspace's newest running or
+ * queued story
+ */
+export async function findStoryToCancel(workspaceId: string, ref?: string): Promise<{ id: string; title: string } | null> {
+  const id = ref?.match(/[0-9a-f]{8}(?:-[0-9a-f]{4}){0,3}(?:-[0-9a-f]{12})?/i)?.[0].toLowerCase();
+
+  return prisma.story.findFirst({
+    where: {
+      workspaceId,
+      status: { in: ['approved', 'in_progress'] },
+      ...(id ? { id: { startsWith: id } } : {}),
+    },
+    // Prefer a running execution over a queued one
+    orderBy: [{ status: 'desc' }, { createdAt: 'desc' }],
+    select: { id: true, title: true },
+  });
+}
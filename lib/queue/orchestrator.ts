@@ -0,0 +1,179 @@
+/**
+ * Orchestrator Queue Helper
+ *
+ * Builds the scan contexts the Head of Product orchestrator analyzes and
+ * queues them as one orchestrator run. Used by /api/orchestrator/run (every
+ * active project) and the schedule worker (one project on its own schedule).
+ * Callers reserve scan quota for the contexts they queue.
+ */
+
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/db';
+import type { ScanContext } from '@/lib/orchestrator';
+import { hasActionableChanges, type ScanDelta } from '@/lib/scans/delta';
+
+// Scans older than this aren't analyzed
+const SCAN_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Stagger job starts to avoid overwhelming the worker
+const JOB_STAGGER_MS = 2000;
+
+let queue: Queue | null = null;
+
+function getQueue(): Queue {
+  if (!queue) {
+    const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: null,
+      enableReadyCheck: false,
+      tls: process.env.REDIS_URL?.startsWith('rediss://') ? {} : undefined,
+    });
+    queue = new Queue('orchestrator', { connection });
+  }
+  return queue;
+}
+
+/**
+ * Scan contexts for a workspace's active projects that have recent scans
+ * with new findings (oldest projects first)
+ *
+ * @param options.projectIds - Only these projects
+ * @param options.take - At most this many projects (the plan's project limit)
+ */
+export async function buildScanContexts(
+  workspaceId: string,
+  options: { projectIds?: string[]; take?: number } = {}
+): Promise<ScanContext[]> {
+  const cutoffTime = new Date(Date.now() - SCAN_WINDOW_MS);
+
+  const projects = await prisma.project.findMany({
+    where: {
+      workspaceId,
+      status: {
+        contains: 'ACTIVE', // Only active projects
+      },
+      ...(options.projectIds && { id: { in: options.projectIds } }),
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+    take: options.take,
+    include: {
+      scans: {
+        where: {
+          scannedAt: {
+            gte: cutoffTime,
+          },
+        },
+        orderBy: {
+          scannedAt: 'desc',
+        },
+      },
+    },
+  });
+
+  return projects
+    .filter(project => project.scans.length > 0) // Only projects with scans
+    .map(project => {
+      // Group scans by type (take most recent of each type)
+      const scansByType = project.scans.reduce((acc, scan) => {
+        if (!acc[scan.scanType] || scan.scannedAt > acc[scan.scanType].scannedAt) {
+          acc[scan.scanType] = scan;
+        }
+        return acc;
+      }, {} as Record<string, typeof project.scans[0]>);
+
+      // Changes since the previous scan of each type (recorded by the scan worker)
+      const deltas: Record<string, ScanDelta> = {};
+      for (const [scanType, scan] of Object.entries(scansByType)) {
+        if (scan.delta) deltas[scanType] = scan.delta as unknown as ScanDelta;
+      }
+
+      return {
+        project: {
+          id: project.id,
+          name: project.name,
+          domain: project.domain,
+          status: project.status,
+        },
+        scans: {
+          domain: scansByType.domain ? {
+            status: scansByType.domain.status,
+            data: scansByType.domain.domainData,
+          } : undefined,
+          seo: scansByType.seo ? {
+            status: scansByType.seo.status,
+            detail: scansByType.seo.seoDetail,
+          } : undefined,
+          seo_crawl: scansByType.seo_crawl ? {
+            status: scansByType.seo_crawl.status,
+            data: scansByType.seo_crawl.crawlData,
+          } : undefined,
+          analytics: scansByType.analytics ? {
+            status: scansByType.analytics.status,
+            data: scansByType.analytics.analyticsData,
+          } : undefined,
+          security: scansByType.secrets || scansByType.npm_audit ? {
+            secrets: scansByType.secrets?.securityIssues,
+            npmAudit: scansByType.npm_audit?.securityIssues,
+          } : undefined,
+          performance: scansByType.performance ? {
+            status: scansByType.performance.status,
+            data: scansByType.performance.playwrightMetrics,
+          } : undefined,
+          accessibility: scansByType.accessibility ? {
+            status: scansByType.accessibility.status,
+            data: scansByType.accessibility.accessibilityData,
+          } : undefined,
+        },
+        deltas: Object.keys(deltas).length > 0 ? deltas : undefined,
+      };
+    })
+    // Skip projects whose scans only re-observed issues that already have stories
+    .filter(ctx => !ctx.deltas || Object.values(ctx.deltas).some(hasActionableChanges));
+}
+
+/**
+ * Create an orchestrator run and queue one analyze-project job per context
+ *
+ * @returns The run ID
+ */
+export async function queueOrchestratorRun(workspaceId: string, scanContexts: ScanContext[]): Promise<string> {
+  const runId = randomUUID();
+  await prisma.orchestratorRun.create({
+    data: {
+      runId,
+      workspaceId,
+      status: 'in_progress',
+      findingsCount: 0,
+      storiesCount: 0,
+      conversation: [],
+    },
+  });
+
+  await Promise.all(
+    scanContexts.map((scanContext, index) =>
+      getQueue().add(
+        'analyze-project',
+        {
+          projectId: scanContext.project.id,
+          scanContext,
+          runId,
+          workspaceId,
+        },
+        {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          delay: index * JOB_STAGGER_MS,
+        }
+      )
+    )
+  );
+
+  console.log(`[OrchestratorQueue] Queued ${scanContexts.length} projects for analysis (run: ${runId})`);
+  return runId;
+}
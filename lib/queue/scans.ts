@@ -0,0 +1,61 @@
+/**
+ * Scan Queue Helper
+ *
+ * Enqueues single scan jobs for the scan worker. Used by scheduled and
+ * push-triggered scans (lib/schedules.ts); callers reserve scan quota first.
+ */
+
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { prisma } from '@/lib/db';
+
+let queue: Queue | null = null;
+
+function getQueue(): Queue {
+  if (!queue) {
+    const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: null,
+      enableReadyCheck: false,
+      tls: process.env.REDIS_URL?.startsWith('rediss://') ? {} : undefined,
+    });
+    queue = new Queue('scans', { connection });
+  }
+  return queue;
+}
+
+/**
+ * Queue a scan of a project and mark it as scanned
+ *
+ * @returns The job ID
+ */
+export async function enqueueScan(
+  project: { id: string; name: string; domain: string | null; repo: string | null; workspaceId: string },
+  scanType: string
+): Promise<string> {
+  const job = await getQueue().add(
+    `scan-${scanType}`,
+    {
+      projectId: project.id,
+      projectName: project.name,
+      domain: project.domain,
+      repo: project.repo,
+      scanType,
+      workspaceId: project.workspaceId,
+    },
+    {
+      jobId: `${project.id}-${scanType}-${Date.now()}`,
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 2000,
+      },
+    }
+  );
+
+  await prisma.project.update({
+    where: { id: project.id },
+    data: { lastScannedAt: new Date() },
+  });
+
+  return job.id!;
+}
@@ -0,0 +1,253 @@
+/**
+ * Execution Scheduler
+ *
+ * Decides whether an execution job may start now or has to wait. Jobs that
+ * write to a project's repo hold a slot (keyed by job ID) while they run:
+ * - One job per story: a story's execution, review follow-up and rebase jobs
+ *   share its branch, so they run one after another
+ * - Per-project concurrency: at most `Project.executionConcurrency` slots
+ *   per project (default 1)
+ * - File overlap: a story whose predicted paths overlap a running story's
+ *   waits for it, so the two don't produce conflicting branches
+ *
+ * Paths are predicted from the story's execution plan, the files its branch
+ * already touched, or paths mentioned in its title and rationale. Stories
+ * with no predicted paths only count against the project limit.
+ *
+ * Slots live in Redis so every worker process sees the same picture.
+ */
+
+import type Redis from 'ioredis';
+import { prisma } from '@/lib/db';
+import { getLatestPlan } from '@/lib/stories/execution-plan';
+
+const RUNNING_KEY = 'execution:running';
+const LOCK_KEY = 'execution:scheduler-lock';
+
+// Slots older than this belong to a worker that died mid-job
+const SLOT_TTL_MS = 2 * 60 * 60 * 1000;
+const LOCK_TTL_MS = 5000;
+const LOCK_RETRY_MS = 100;
+
+// How long a blocked job waits before it's re-evaluated
+export const SCHEDULER_RETRY_MS = 30 * 1000;
+
+export interface ScheduledStory {
+  storyId: string;
+  projectId: string;
+  title: string;
+  paths: string[];
+}
+
+export interface RunningSlot extends ScheduledStory {
+  jobId: string;
+  startedAt: number;
+}
+
+export interface WaitReason {
+  kind: 'same_story' | 'project_limit' | 'file_overlap';
+  message: string;
+  blockedBy: string[]; // Story IDs
+  since: string;
+}
+
+// ============================================================================
+// PATH PREDICTION
+// ============================================================================
+
+// Paths like `app/pricing/page.tsx` or lib/seo.ts mentioned in prose
+const PATH_PATTERN = /(?:^|[\s`'"(])((?:[\w.@-]+\/)*[\w.@-]+\.[a-z]{1,5})(?=$|[\s`'"),:;])/gi;
+
+/**
+ * File paths mentioned in free text (story titles and rationales)
+ */
+export function extractPaths(text: string): string[] {
+  const paths = new Set<string>();
+  for (const match of Array.from(text.matchAll(PATH_PATTERN))) {
+    const path = match[1].replace(/^\.\//, '');
+    // Skip domains and versions ("example.com", "v1.2")
+    if (!path.includes('/') && !/\.(tsx?|jsx?|mjs|cjs|json|css|scss|md|mdx|html|ya?ml|prisma|sql|py|go|rs)$/i.test(path)) continue;
+    paths.add(path);
+  }
+  return Array.from(paths);
+}
+
+/**
+ * Paths two stories both touch. A directory in one list overlaps any file
+ * beneath it in the other.
+ */
+export function pathsOverlap(a: string[], b: string[]): string[] {
+  const overlaps = new Set<string>();
+  for (const x of a) {
+    for (const y of b) {
+      if (x === y || y.startsWith(`${x.replace(/\/$/, '')}/`)) overlaps.add(y);
+      else if (x.startsWith(`${y.replace(/\/$/, '')}/`)) overlaps.add(x);
+    }
+  }
+  return Array.from(overlaps);
+}
+
+/**
+ * Predict the files a story will touch
+ */
+export async function predictStoryPaths(story: {
+  id: string;
+  title: string;
+  rationale: string;
+  touchedPaths: string[];
+}): Promise<string[]> {
+  const plan = await getLatestPlan(story.id);
+  if (plan && plan.plan.files.length > 0) {
+    return plan.plan.files.map(f => f.path);
+  }
+  if (story.touchedPaths.length > 0) return story.touchedPaths;
+  return extractPaths(`${story.title}\n${story.rationale}`);
+}
+
+/**
+ * Build the scheduling view of a story
+ */
+export async function describeStory(storyId: string): Promise<ScheduledStory | null> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { id: true, projectId: true, title: true, rationale: true, touchedPaths: true },
+  });
+  if (!story) return null;
+
+  return {
+    storyId: story.id,
+    projectId: story.projectId,
+    title: story.title,
+    paths: await predictStoryPaths(story),
+  };
+}
+
+// ============================================================================
+// DECISION
+// ============================================================================
+
+/**
+ * Why a job can't start alongside the running slots, or null if it can
+ *
+ * @param jobId - The candidate's job; a slot it already holds (e.g. from
+ *   before a worker restart) doesn't block it
+ */
+export function evaluateSchedule(
+  candidate: ScheduledStory,
+  running: RunningSlot[],
+  projectLimit: number,
+  jobId?: string
+): WaitReason | null {
+  const others = running.filter(slot => slot.jobId !== jobId);
+  const since = new Date().toISOString();
+
+  // Another job on the same story checks out the same branch
+  const sameStory = others.filter(slot => slot.storyId === candidate.storyId);
+  if (sameStory.length > 0) {
+    return {
+      kind: 'same_story',
+      message: `Waiting for another job on "${candidate.title}" to finish`,
+      blockedBy: [candidate.storyId],
+      since,
+    };
+  }
+
+  const sameProject = others.filter(slot => slot.projectId === candidate.projectId);
+
+  for (const slot of sameProject) {
+    const overlap = pathsOverlap(candidate.paths, slot.paths);
+    if (overlap.length > 0) {
+      const shown = overlap.slice(0, 3).join(', ') + (overlap.length > 3 ? ` and ${overlap.length - 3} more` : '');
+      return {
+        kind: 'file_overlap',
+        message: `Waiting for "${slot.title}", which also touches ${shown}`,
+        blockedBy: [slot.storyId],
+        since,
+      };
+    }
+  }
+
+  if (sameProject.length >= projectLimit) {
+    return {
+      kind: 'project_limit',
+      message: `Project already has ${sameProject.length} of ${projectLimit} stories executing`,
+      blockedBy: sameProject.map(slot => slot.storyId),
+      since,
+    };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// SLOTS
+// ============================================================================
+
+async function withSchedulerLock<T>(redis: Redis, fn: () => Promise<T>): Promise<T> {
+  const token = `${process.pid}-${Math.random().toString(36).slice(2)}`;
+  while ((await redis.set(LOCK_KEY, token, 'PX', LOCK_TTL_MS, 'NX')) !== 'OK') {
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    // Only release our own lock (it may have expired and been taken)
+    if ((await redis.get(LOCK_KEY)) === token) {
+      await redis.del(LOCK_KEY);
+    }
+  }
+}
+
+/**
+ * Running slots, dropping any left behind by dead workers
+ */
+export async function getRunningSlots(redis: Redis): Promise<RunningSlot[]> {
+  const entries = await redis.hgetall(RUNNING_KEY);
+  const slots: RunningSlot[] = [];
+  const stale: string[] = [];
+
+  for (const [jobId, value] of Object.entries(entries)) {
+    try {
+      const slot = JSON.parse(value) as RunningSlot;
+      if (Date.now() - slot.startedAt > SLOT_TTL_MS) stale.push(jobId);
+      else slots.push(slot);
+    } catch {
+      stale.push(jobId);
+    }
+  }
+
+  if (stale.length > 0) await redis.hdel(RUNNING_KEY, ...stale);
+  return slots;
+}
+
+/**
+ * Take a slot for a story's job, or return why it has to wait
+ */
+export async function claimExecutionSlot(
+  redis: Redis,
+  candidate: ScheduledStory,
+  jobId: string
+): Promise<WaitReason | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: candidate.projectId },
+    select: { executionConcurrency: true },
+  });
+  const projectLimit = Math.max(project?.executionConcurrency ?? 1, 1);
+
+  return withSchedulerLock(redis, async () => {
+    const reason = evaluateSchedule(candidate, await getRunningSlots(redis), projectLimit, jobId);
+    if (reason) return reason;
+
+    const slot: RunningSlot = { ...candidate, jobId, startedAt: Date.now() };
+    await redis.hset(RUNNING_KEY, jobId, JSON.stringify(slot));
+    return null;
+  });
+}
+
+/**
+ * Free a job's slot once it finishes (successfully or not)
+ */
+export async function releaseExecutionSlot(redis: Redis, jobId: string): Promise<void> {
+  await redis.hdel(RUNNING_KEY, jobId);
+}
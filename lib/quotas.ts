@@ -0,0 +1,214 @@
+/**
+ * Plan Quotas
+ *
+ * Enforces each workspace's plan limits (Workspace.maxProjects and
+ * maxScansPerDay). Projects are counted under a lock on the workspace row;
+ * scans are metered with a per-day counter (QuotaUsage) that callers reserve
+ * from before enqueueing work and release from if enqueueing fails, so the
+ * limit holds across concurrent triggers. Every scan job, chat "analyze"
+ * command and project analyzed by an orchestrator run uses one scan.
+ * Counters reset at midnight UTC. Over a limit, API routes answer with
+ * a structured 429 (quotaExceededResponse).
+ */
+
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { periodKey, periodStart } from '@/lib/budgets';
+
+export type QuotaName = 'projects' | 'scans';
+
+export interface PlanLimits {
+  plan: string;
+  maxProjects: number;
+  maxScansPerDay: number;
+}
+
+export interface QuotaUsageSummary {
+  plan: string;
+  projects: { used: number; limit: number };
+  scans: { used: number; limit: number; resetsAt: string };
+}
+
+export class QuotaExceededError extends Error {
+  constructor(
+    public readonly quota: QuotaName,
+    public readonly plan: string,
+    public readonly limit: number,
+    public readonly used: number,
+    public readonly resetsAt: Date | null
+  ) {
+    super(
+      quota === 'projects'
+        ? `Project limit of ${limit} reached on the ${plan} plan. Remove a project or upgrade to add more.`
+        : `Daily scan limit of ${limit} reached on the ${plan} plan (${used} used). It resets at midnight UTC.`
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Start of the next scan window (midnight UTC)
+ */
+export function nextReset(now: Date = new Date()): Date {
+  const start = periodStart('daily', now);
+  return new Date(start.getTime() + 24 * 60 * 60 * 1000);
+}
+
+/**
+ * How many of the requested scans fit in what's left today.
+ * Partial requests (cron sweeps) take what fits; others are all or nothing.
+ */
+export function scansToGrant(requested: number, used: number, limit: number, partial: boolean): number {
+  const granted = Math.min(requested, Math.max(limit - used, 0));
+  if (partial) return granted;
+  return granted === requested ? granted : 0;
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+export async function getPlanLimits(workspaceId: string): Promise<PlanLimits> {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { plan: true, maxProjects: true, maxScansPerDay: true },
+  });
+  if (!workspace) {
+    throw new Error(`Workspace ${workspaceId} not found`);
+  }
+  return workspace;
+}
+
+async function getScansUsedToday(workspaceId: string): Promise<number> {
+  const usage = await prisma.quotaUsage.findUnique({
+    where: { workspaceId_quota_day: { workspaceId, quota: 'scans', day: periodKey('daily') } },
+    select: { used: true },
+  });
+  return usage?.used ?? 0;
+}
+
+/**
+ * Current usage against every plan limit (for Settings)
+ */
+export async function getQuotaUsage(workspaceId: string): Promise<QuotaUsageSummary> {
+  const [limits, projects, scansUsed] = await Promise.all([
+    getPlanLimits(workspaceId),
+    prisma.project.count({ where: { workspaceId } }),
+    getScansUsedToday(workspaceId),
+  ]);
+
+  return {
+    plan: limits.plan,
+    projects: { used: projects, limit: limits.maxProjects },
+    scans: { used: scansUsed, limit: limits.maxScansPerDay, resetsAt: nextReset().toISOString() },
+  };
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+/**
+ * Create a project with `create` if the workspace is under its project limit,
+ * otherwise throw QuotaExceededError. The workspace row stays locked from the
+ * count to the insert, so concurrent requests can't both take the last slot.
+ */
+export async function createProjectWithinQuota<T>(
+  workspaceId: string,
+  create: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return prisma.$transaction(async tx => {
+    await tx.$queryRaw`SELECT id FROM workspaces WHERE id = ${workspaceId} FOR UPDATE`;
+
+    const [limits, used] = await Promise.all([
+      tx.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { plan: true, maxProjects: true },
+      }),
+      tx.project.count({ where: { workspaceId } }),
+    ]);
+    if (!limits) {
+      throw new Error(`Workspace ${workspaceId} not found`);
+    }
+    if (used >= limits.maxProjects) {
+      throw new QuotaExceededError('projects', limits.plan, limits.maxProjects, used, null);
+    }
+
+    return create(tx);
+  });
+}
+
+/**
+ * Reserve scans from today's allowance and return how many were granted.
+ * With `partial`, grants whatever is left (at least one); otherwise all of
+ * them. Throws QuotaExceededError when nothing can be granted.
+ */
+export async function reserveScans(
+  workspaceId: string,
+  requested: number,
+  options: { partial?: boolean } = {}
+): Promise<number> {
+  if (requested <= 0) return 0;
+
+  const limits = await getPlanLimits(workspaceId);
+  const key = { workspaceId, quota: 'scans', day: periodKey('daily') };
+
+  const usage = await prisma.quotaUsage.upsert({
+    where: { workspaceId_quota_day: key },
+    create: key,
+    update: {},
+  });
+
+  const granted = scansToGrant(requested, usage.used, limits.maxScansPerDay, !!options.partial);
+  if (granted === 0) {
+    throw new QuotaExceededError('scans', limits.plan, limits.maxScansPerDay, usage.used, nextReset());
+  }
+
+  // Conditional increment, so concurrent reservations can't overshoot the limit
+  const { count } = await prisma.quotaUsage.updateMany({
+    where: { ...key, used: { lte: limits.maxScansPerDay - granted } },
+    data: { used: { increment: granted } },
+  });
+  if (count === 0) {
+    throw new QuotaExceededError('scans', limits.plan, limits.maxScansPerDay, await getScansUsedToday(workspaceId), nextReset());
+  }
+
+  return granted;
+}
+
+/**
+ * Give back scans reserved by reserveScans whose work was never queued
+ * (e.g. enqueueing failed), so a Redis outage doesn't use up the day.
+ */
+export async function releaseScans(workspaceId: string, count: number): Promise<void> {
+  if (count <= 0) return;
+
+  await prisma.quotaUsage.updateMany({
+    where: { workspaceId, quota: 'scans', day: periodKey('daily'), used: { gte: count } },
+    data: { used: { decrement: count } },
+  });
+}
+
+/**
+ * Structured 429 for API routes
+ */
+export function quotaExceededResponse(error: QuotaExceededError): NextResponse {
+  const headers: Record<string, string> = {};
+  if (error.resetsAt) {
+    headers['Retry-After'] = String(Math.max(Math.ceil((error.resetsAt.getTime() - Date.now()) / 1000), 0));
+  }
+
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: 'quota_exceeded',
+      quota: error.quota,
+      plan: error.plan,
+      limit: error.limit,
+      used: error.used,
+      resetsAt: error.resetsAt?.toISOString() ?? null,
+    },
+    { status: 429, headers }
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * Accessibility Scanner
+ *
+ * Loads the site through Browserless at several viewport sizes and runs
+ * axe-core against each. Violations are grouped by rule (with the WCAG
+ * success criteria it maps to) and by impact, so the accessibility agent
+ * works from real violations instead of guessing.
+ */
+
+import type { Page } from 'playwright';
+import type { Result as AxeResult, ImpactValue } from 'axe-core';
+import { withBrowserlessPage } from '../browserless';
+import type { ScannerDefinition, ScanIssue, IssueSeverity } from './types';
+
+export const VIEWPORTS = [
+  { name: 'mobile', width: 375, height: 812 },
+  { name: 'tablet', width: 768, height: 1024 },
+  { name: 'desktop', width: 1440, height: 900 },
+] as const;
+
+export type ViewportName = typeof VIEWPORTS[number]['name'];
+export type AxeImpact = Exclude<ImpactValue, null>;
+
+// WCAG 2.x A/AA rules; best-practice rules are noisy and not compliance issues
+const AXE_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'wcag22aa'];
+
+// Selectors kept per rule, enough to locate the problem without bloating the row
+const MAX_TARGETS_PER_RULE = 5;
+
+export interface AccessibilityViolation {
+  ruleId: string;
+  impact: AxeImpact;
+  help: string;
+  description: string;
+  helpUrl: string;
+  wcag: string[]; // Success criteria, e.g. ['1.4.3']
+  viewports: ViewportName[];
+  nodeCount: number; // Max affected elements across viewports
+  targets: string[];
+}
+
+export interface AccessibilityScanResult {
+  status: 'ok' | 'error' | 'timeout';
+  url: string;
+  accessibilityData?: {
+    viewports: ViewportName[];
+    violations: AccessibilityViolation[]; // Sorted by impact, then node count
+    byImpact: Record<AxeImpact, number>; // Rule count per impact
+    totalNodes: number;
+  };
+  error?: string;
+}
+
+const IMPACT_ORDER: AxeImpact[] = ['critical', 'serious', 'moderate', 'minor'];
+
+/**
+ * Turn axe tags like 'wcag143' into success criteria like '1.4.3'
+ */
+export function wcagCriteria(tags: string[]): string[] {
+  return tags
+    .map(tag => /^wcag(\d)(\d)(\d+)$/.exec(tag))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(([, principle, guideline, criterion]) => `${principle}.${guideline}.${criterion}`);
+}
+
+/**
+ * Merge per-viewport axe violations into one entry per rule
+ */
+export function groupViolations(
+  results: Array<{ viewport: ViewportName; violations: AxeResult[] }>
+): NonNullable<AccessibilityScanResult['accessibilityData']> {
+  const byRule = new Map<string, AccessibilityViolation>();
+
+  for (const { viewport, violations } of results) {
+    for (const violation of violations) {
+      const impact = violation.impact ?? 'minor';
+      const targets = violation.nodes.map(node => node.target.join(' '));
+      const existing = byRule.get(violation.id);
+
+      if (!existing) {
+        byRule.set(violation.id, {
+          ruleId: violation.id,
+          impact,
+          help: violation.help,
+          description: violation.description,
+          helpUrl: violation.helpUrl,
+          wcag: wcagCriteria(violation.tags),
+          viewports: [viewport],
+          nodeCount: violation.nodes.length,
+          targets: targets.slice(0, MAX_TARGETS_PER_RULE),
+        });
+        continue;
+      }
+
+      existing.viewports.push(viewport);
+      existing.nodeCount = Math.max(existing.nodeCount, violation.nodes.length);
+      if (IMPACT_ORDER.indexOf(impact) < IMPACT_ORDER.indexOf(existing.impact)) {
+        existing.impact = impact;
+      }
+      for (const target of targets) {
+        if (existing.targets.length >= MAX_TARGETS_PER_RULE) break;
+        if (!existing.targets.includes(target)) existing.targets.push(target);
+      }
+    }
+  }
+
+  const violations = Array.from(byRule.values()).sort((a, b) =>
+    IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || b.nodeCount - a.nodeCount
+  );
+
+  const byImpact = Object.fromEntries(IMPACT_ORDER.map(impact => [impact, 0])) as Record<AxeImpact, number>;
+  for (const violation of violations) byImpact[violation.impact]++;
+
+  return {
+    viewports: results.map(r => r.viewport),
+    violations,
+    byImpact,
+    totalNodes: violations.reduce((sum, v) => sum + v.nodeCount, 0),
+  };
+}
+
+async function runAxe(page: Page, axeSource: string): Promise<AxeResult[]> {
+  await page.addScriptTag({ content: axeSource });
+  return page.evaluate(async (tags) => {
+    const results = await (window as any).axe.run(document, {
+      runOnly: { type: 'tag', values: tags },
+      resultTypes: ['violations'],
+    });
+    return results.violations;
+  }, AXE_TAGS);
+}
+
+/**
+ * Run axe-core against a URL at each viewport size
+ */
+export async function scanAccessibility(
+  url: string,
+  timeoutMs: number = 30000
+): Promise<AccessibilityScanResult> {
+  if (!url) {
+    return {
+      status: 'error',
+      url: '',
+      error: 'URL is required'
+    };
+  }
+
+  const targetUrl = url.startsWith('http') ? url : `https://${url}`;
+  const startTime = Date.now();
+
+  try {
+    // Loaded lazily: the axe bundle is ~1MB and only needed inside the browser
+    const { source: axeSource } = await import('axe-core');
+
+    const results = await withBrowserlessPage(
+      async (page: Page) => {
+        page.setDefaultTimeout(timeoutMs);
+        page.setDefaultNavigationTimeout(timeoutMs);
+
+        const perViewport: Array<{ viewport: ViewportName; violations: AxeResult[] }> = [];
+        for (const viewport of VIEWPORTS) {
+          await page.setViewportSize({ width: viewport.width, height: viewport.height });
+          await page.goto(targetUrl, { waitUntil: 'networkidle' });
+          perViewport.push({ viewport: viewport.name, violations: await runAxe(page, axeSource) });
+        }
+        return perViewport;
+      },
+      { timeout: timeoutMs + 5000 }
+    );
+
+    return {
+      status: 'ok',
+      url: targetUrl,
+      accessibilityData: groupViolations(results),
+    };
+  } catch (error) {
+    const isTimeout = Date.now() - startTime >= timeoutMs;
+
+    return {
+      status: isTimeout ? 'timeout' : 'error',
+      url: targetUrl,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const IMPACT_SEVERITY: Record<AxeImpact, IssueSeverity> = {
+  critical: 'critical',
+  serious: 'high',
+  moderate: 'medium',
+  minor: 'low',
+};
+
+export const accessibilityScanner: ScannerDefinition<
+  AccessibilityScanResult,
+  AccessibilityScanResult['accessibilityData']
+> = {
+  type: 'accessibility',
+  description: 'Run axe-core WCAG checks on a site at mobile, tablet and desktop sizes',
+  inputs: ['domain'],
+  timeoutMs: 3 * 60 * 1000,
+  column: 'accessibilityData',
+  scheduled: false,
+
+  run: (target) => scanAccessibility(target.domain!),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: result.accessibilityData || {},
+    summary: result.accessibilityData
+      ? `${result.accessibilityData.violations.length} rules violated (${result.accessibilityData.byImpact.critical} critical)`
+      : result.error || result.status,
+  }),
+
+  normalize: (data) =>
+    (data?.violations || []).map((v): ScanIssue => ({
+      key: `accessibility:${v.ruleId}`,
+      title: `${v.help} (${v.nodeCount} element${v.nodeCount === 1 ? '' : 's'}${v.wcag.length ? `, WCAG ${v.wcag.join(', ')}` : ''})`,
+      severity: IMPACT_SEVERITY[v.impact],
+    })),
+};
@@ -5,6 +5,8 @@
  * Ported from: /Users/miguel/Reboot/dashboard-archive/scripts/scan_projects.js (detectPosthog function)
  */
 
+import type { ScannerDefinition } from './types';
+
 export interface AnalyticsScanResult {
   status: 'ok' | 'error';
   analyticsData: {
@@ -106,3 +108,36 @@ export async function scanAnalytics(domain: string): Promise<AnalyticsScanResult
     };
   }
 }
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const analyticsScanner: ScannerDefinition<AnalyticsScanResult, AnalyticsScanResult['analyticsData']> = {
+  type: 'analytics',
+  description: 'Detect analytics providers (PostHog, GA, Plausible, Fathom, GTM) on a site',
+  inputs: ['domain'],
+  timeoutMs: 15000,
+  column: 'analyticsData',
+  scheduled: true,
+  defaultSchedule: '5 9,18 * * *', // Twice daily
+
+  run: (target) => scanAnalytics(target.domain!),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: result.analyticsData || {},
+    summary: `${result.detected.length} detected`,
+  }),
+
+  normalize(data) {
+    if (data && !Object.values(data).some(Boolean)) {
+      return [{ key: 'analytics:none_detected', title: 'No analytics provider detected', severity: 'high' }];
+    }
+    return [];
+  },
+
+  checklist: {
+    analytics_installed: (data) => Object.values(data || {}).some(Boolean),
+  },
+};
@@ -3,8 +3,16 @@
  *
  * Checks HTTP/HTTPS reachability, SSL, DNS, redirects, and response time
  * Ported from: /Users/miguel/Reboot/dashboard-archive/scripts/scan_projects.js
+ *
+ * Once the site is reachable it also resolves DNS records, inspects the TLS
+ * certificate directly, grades security headers and, for projects sending
+ * email through Resend, checks SPF, DKIM and DMARC.
  */
 
+import { promises as dns } from 'dns';
+import tls from 'tls';
+import type { ScannerDefinition, ScanIssue } from './types';
+
 const TIMEOUT_MS = 8000;
 const USER_AGENT = 'VirtualCofounderScanner/1.0';
 
@@ -18,9 +26,59 @@ export interface DomainScanResult {
     protocol: 'https' | 'http';
     redirectCount: number;
     sslValid: boolean;
+    dns?: DnsRecords;
+    certificate?: CertificateInfo | null; // null when no TLS handshake was possible
+    headers?: SecurityHeaders;
+    email?: EmailAuth; // Only for projects using Resend
   };
 }
 
+export interface DnsRecords {
+  a: string[];
+  aaaa: string[];
+  cname: string[];
+  mx: Array<{ exchange: string; priority: number }>;
+  txt: string[];
+}
+
+export interface CertificateInfo {
+  issuer: string;
+  subject: string;
+  sans: string[];
+  validFrom: string;
+  validTo: string;
+  daysToExpiry: number;
+  coversDomain: boolean;
+  authorized: boolean; // Chain verifies against the system CA store
+  authorizationError?: string;
+}
+
+export interface SecurityHeaders {
+  hsts: { maxAge: number; includeSubDomains: boolean; preload: boolean } | null;
+  csp: { frameAncestors: boolean; unsafeInline: boolean } | null;
+  xFrameOptions: string | null;
+}
+
+export interface EmailAuth {
+  spf: Array<{ host: string; record: string }>;
+  spfIncludesResend: boolean;
+  dkim: Array<{ selector: string; found: boolean }>;
+  dmarc: { record: string; policy: string | null } | null;
+}
+
+export interface DomainScanOptions {
+  checkEmail?: boolean;
+  dkimSelectors?: string[];
+}
+
+// Resend signs with the 'resend' DKIM selector and sends from a 'send.' subdomain
+const RESEND_DKIM_SELECTORS = ['resend'];
+const RESEND_SPF_INCLUDE = 'amazonses.com';
+
+// Certificates expiring this soon raise a P0 priority signal
+export const CERT_EXPIRY_CRITICAL_DAYS = 14;
+const CERT_EXPIRY_WARNING_DAYS = 30;
+
 function buildUrl(domain: string, preferHttps = true): string {
   if (!domain) return '';
   if (domain.startsWith('http://') || domain.startsWith('https://')) return domain;
@@ -44,7 +102,11 @@ async function fetchWithTimeout(url: string): Promise<Response> {
   }
 }
 
-export async function scanDomain(domain: string): Promise<DomainScanResult> {
+/**
+ * Fetch the domain, preferring HTTPS, and keep the response headers of the
+ * successful attempt for header analysis
+ */
+async function checkReachability(domain: string): Promise<DomainScanResult & { headers?: Headers }> {
   if (!domain) {
     return {
       status: 'error',
@@ -87,6 +149,7 @@ export async function scanDomain(domain: string): Promise<DomainScanResult> {
             statusCode: fallbackResponse.status,
             finalUrl: fallbackResponse.url || fallbackUrl,
             responseTimeMs: fallbackTime,
+            headers: fallbackResponse.headers,
             domainData: {
               protocol: 'http',
               redirectCount: 0, // TODO: track redirect count
@@ -113,6 +176,7 @@ export async function scanDomain(domain: string): Promise<DomainScanResult> {
       statusCode: status,
       finalUrl: response.url || primaryUrl,
       responseTimeMs,
+      headers: response.headers,
       domainData: {
         protocol: 'https',
         redirectCount: 0, // TODO: track redirect count
@@ -142,6 +206,7 @@ export async function scanDomain(domain: string): Promise<DomainScanResult> {
           statusCode: fallbackResponse.status,
           finalUrl: fallbackResponse.url || fallbackUrl,
           responseTimeMs: fallbackTime,
+          headers: fallbackResponse.headers,
           domainData: {
             protocol: 'http',
             redirectCount: 0,
@@ -161,3 +226,294 @@ export async function scanDomain(domain: string): Promise<DomainScanResult> {
     };
   }
 }
+
+// ============================================================================
+// DEEP CHECKS
+// ============================================================================
+
+function hostnameOf(domain: string): string {
+  return new URL(buildUrl(domain)).hostname;
+}
+
+/**
+ * A/AAAA/CNAME/MX/TXT records; a missing record type is an empty list
+ */
+export async function resolveDnsRecords(hostname: string): Promise<DnsRecords> {
+  const orEmpty = <T>(promise: Promise<T[]>) => promise.catch(() => [] as T[]);
+
+  const [a, aaaa, cname, mx, txt] = await Promise.all([
+    orEmpty(dns.resolve4(hostname)),
+    orEmpty(dns.resolve6(hostname)),
+    orEmpty(dns.resolveCname(hostname)),
+    orEmpty(dns.resolveMx(hostname)),
+    orEmpty(dns.resolveTxt(hostname)),
+  ]);
+
+  return {
+    a,
+    aaaa,
+    cname,
+    mx: mx.sort((x, y) => x.priority - y.priority),
+    txt: txt.map(chunks => chunks.join('')),
+  };
+}
+
+/**
+ * Whether a certificate's SANs cover a hostname (wildcards match one label)
+ */
+export function certificateCovers(sans: string[], hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return sans.some(san => {
+    const name = san.toLowerCase();
+    if (name === host) return true;
+    if (!name.startsWith('*.')) return false;
+    const suffix = name.slice(1); // '.example.com'
+    return host.endsWith(suffix) && !host.slice(0, -suffix.length).includes('.');
+  });
+}
+
+/**
+ * Read the certificate from a TLS handshake. Verification is recorded rather
+ * than enforced, so expired or mismatched certificates can still be described.
+ */
+export function inspectCertificate(hostname: string): Promise<CertificateInfo | null> {
+  return new Promise(resolve => {
+    const socket = tls.connect(
+      { host: hostname, port: 443, servername: hostname, rejectUnauthorized: false, timeout: TIMEOUT_MS },
+      () => {
+        const cert = socket.getPeerCertificate();
+        const authorizationError = socket.authorizationError ? String(socket.authorizationError) : undefined;
+        const authorized = socket.authorized;
+        socket.end();
+
+        if (!cert || !cert.valid_to) {
+          resolve(null);
+          return;
+        }
+
+        const sans = (cert.subjectaltname || '')
+          .split(',')
+          .map(entry => entry.trim())
+          .filter(entry => entry.startsWith('DNS:'))
+          .map(entry => entry.slice(4));
+        const validTo = new Date(cert.valid_to);
+
+        resolve({
+          issuer: cert.issuer?.O || cert.issuer?.CN || 'unknown',
+          subject: cert.subject?.CN || '',
+          sans,
+          validFrom: new Date(cert.valid_from).toISOString(),
+          validTo: validTo.toISOString(),
+          daysToExpiry: Math.floor((validTo.getTime() - Date.now()) / (24 * 60 * 60 * 1000)),
+          coversDomain: certificateCovers(sans, hostname),
+          authorized,
+          authorizationError,
+        });
+      }
+    );
+
+    socket.on('timeout', () => {
+      socket.destroy();
+      resolve(null);
+    });
+    socket.on('error', () => resolve(null));
+  });
+}
+
+/**
+ * HSTS, CSP and X-Frame-Options from a response
+ */
+export function analyzeSecurityHeaders(headers: Headers): SecurityHeaders {
+  const hsts = headers.get('strict-transport-security');
+  const csp = headers.get('content-security-policy');
+
+  return {
+    hsts: hsts ? {
+      maxAge: Number(/max-age=(\d+)/i.exec(hsts)?.[1] ?? 0),
+      includeSubDomains: /includesubdomains/i.test(hsts),
+      preload: /preload/i.test(hsts),
+    } : null,
+    csp: csp ? {
+      frameAncestors: /frame-ancestors/i.test(csp),
+      unsafeInline: /'unsafe-inline'/i.test(csp),
+    } : null,
+    xFrameOptions: headers.get('x-frame-options'),
+  };
+}
+
+async function resolveTxt(hostname: string): Promise<string[]> {
+  try {
+    return (await dns.resolveTxt(hostname)).map(chunks => chunks.join(''));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * SPF (root and Resend's send. subdomain), DKIM selectors and DMARC policy
+ */
+export async function checkEmailAuth(
+  emailDomain: string,
+  dkimSelectors: string[] = RESEND_DKIM_SELECTORS
+): Promise<EmailAuth> {
+  const spfHosts = [emailDomain, `send.${emailDomain}`];
+
+  const [spfTxt, dkimTxt, dmarcTxt] = await Promise.all([
+    Promise.all(spfHosts.map(resolveTxt)),
+    Promise.all(dkimSelectors.map(selector => resolveTxt(`${selector}._domainkey.${emailDomain}`))),
+    resolveTxt(`_dmarc.${emailDomain}`),
+  ]);
+
+  const spf = spfHosts.flatMap((host, i) =>
+    spfTxt[i].filter(record => /^v=spf1\b/i.test(record)).map(record => ({ host, record }))
+  );
+  const dmarcRecord = dmarcTxt.find(record => /^v=DMARC1\b/i.test(record));
+
+  return {
+    spf,
+    spfIncludesResend: spf.some(({ record }) => record.includes(RESEND_SPF_INCLUDE)),
+    dkim: dkimSelectors.map((selector, i) => ({
+      selector,
+      found: dkimTxt[i].some(record => /\bp=[A-Za-z0-9+/]/.test(record)),
+    })),
+    dmarc: dmarcRecord ? { record: dmarcRecord, policy: /\bp=(\w+)/i.exec(dmarcRecord)?.[1]?.toLowerCase() ?? null } : null,
+  };
+}
+
+/**
+ * Reachability plus DNS, certificate, security header and (optionally) email checks
+ */
+export async function scanDomain(domain: string, options: DomainScanOptions = {}): Promise<DomainScanResult> {
+  const { headers, ...result } = await checkReachability(domain);
+  if (result.status !== 'ok' || !result.domainData) {
+    return result;
+  }
+
+  const hostname = hostnameOf(domain);
+  // Mail is sent from the apex, not www
+  const emailDomain = hostname.replace(/^www\./, '');
+
+  const [dnsRecords, certificate, email] = await Promise.all([
+    resolveDnsRecords(hostname),
+    inspectCertificate(hostname),
+    options.checkEmail ? checkEmailAuth(emailDomain, options.dkimSelectors) : Promise.resolve(undefined),
+  ]);
+
+  return {
+    ...result,
+    domainData: {
+      ...result.domainData,
+      // An inspected certificate is authoritative; otherwise fall back to the protocol we ended up on
+      sslValid: certificate
+        ? certificate.authorized && certificate.coversDomain && certificate.daysToExpiry >= 0
+        : result.domainData.sslValid,
+      dns: dnsRecords,
+      certificate,
+      headers: headers ? analyzeSecurityHeaders(headers) : undefined,
+      ...(email ? { email } : {}),
+    },
+  };
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const domainScanner: ScannerDefinition<DomainScanResult, DomainScanResult['domainData']> = {
+  type: 'domain',
+  description: 'Scan a domain for SSL, DNS, and availability issues',
+  inputs: ['domain'],
+  timeoutMs: 30000,
+  column: 'domainData',
+  scheduled: true,
+  defaultSchedule: '5 9 * * *', // Daily (SSL expiry, DNS)
+  tool: { name: 'ScanDomain', description: 'Scan a domain for SSL, DNS, and availability issues' },
+
+  run: (target) => scanDomain(target.domain!, { checkEmail: target.hasResend }),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: result.domainData || {},
+    summary: result.domainData?.certificate
+      ? `${result.status}, certificate expires in ${result.domainData.certificate.daysToExpiry} days`
+      : result.status,
+  }),
+
+  normalize(data, status) {
+    if (status !== 'ok') {
+      return [{ key: 'domain:unreachable', title: `Site is ${status}`, severity: 'critical' }];
+    }
+    if (!data) return [];
+
+    const issues: ScanIssue[] = [];
+    const cert = data.certificate;
+
+    if (data.protocol === 'http') {
+      issues.push({ key: 'domain:no_https', title: 'Site is not served over HTTPS', severity: 'high' });
+    } else if (data.sslValid === false) {
+      const reason = !cert ? '' :
+        cert.daysToExpiry < 0 ? ` (expired ${cert.validTo.slice(0, 10)})` :
+        !cert.coversDomain ? ` (issued for ${cert.sans.join(', ') || cert.subject})` :
+        cert.authorizationError ? ` (${cert.authorizationError})` : '';
+      issues.push({ key: 'domain:ssl_invalid', title: `SSL certificate is not valid${reason}`, severity: 'critical' });
+    }
+
+    if (cert && cert.daysToExpiry >= 0 && cert.daysToExpiry <= CERT_EXPIRY_WARNING_DAYS) {
+      issues.push({
+        key: 'domain:cert_expiring',
+        title: `SSL certificate expires in ${cert.daysToExpiry} days (${cert.validTo.slice(0, 10)}, ${cert.issuer})`,
+        severity: cert.daysToExpiry <= CERT_EXPIRY_CRITICAL_DAYS ? 'critical' : 'high',
+      });
+    }
+
+    if (data.headers && data.protocol === 'https') {
+      const { hsts, csp, xFrameOptions } = data.headers;
+      if (!hsts) {
+        issues.push({ key: 'domain:headers:hsts', title: 'Missing Strict-Transport-Security header', severity: 'medium' });
+      }
+      if (!csp) {
+        issues.push({ key: 'domain:headers:csp', title: 'Missing Content-Security-Policy header', severity: 'low' });
+      }
+      if (!xFrameOptions && !csp?.frameAncestors) {
+        issues.push({ key: 'domain:headers:frame_options', title: 'No clickjacking protection (X-Frame-Options or CSP frame-ancestors)', severity: 'low' });
+      }
+    }
+
+    if (data.email) {
+      const { spf, spfIncludesResend, dkim, dmarc } = data.email;
+      if (!spfIncludesResend) {
+        issues.push({
+          key: 'domain:email:spf',
+          title: spf.length === 0 ? 'No SPF record for email sending' : `SPF record does not authorize Resend (${RESEND_SPF_INCLUDE})`,
+          severity: 'high',
+        });
+      }
+      for (const { selector } of dkim.filter(d => !d.found)) {
+        issues.push({ key: `domain:email:dkim:${selector}`, title: `DKIM record missing for selector "${selector}"`, severity: 'high' });
+      }
+      if (!dmarc) {
+        issues.push({ key: 'domain:email:dmarc', title: 'No DMARC record', severity: 'medium' });
+      } else if (dmarc.policy === 'none') {
+        issues.push({ key: 'domain:email:dmarc_policy', title: 'DMARC policy is "none" (monitoring only)', severity: 'low' });
+      }
+    }
+
+    return issues;
+  },
+
+  checklist: {
+    ssl_valid: (data) => data?.sslValid === true,
+  },
+
+  signals(data) {
+    const cert = data?.certificate;
+    if (!cert || cert.daysToExpiry > CERT_EXPIRY_CRITICAL_DAYS) return [];
+    const name = cert.subject || cert.sans[0] || 'the site';
+    return [{
+      message: cert.daysToExpiry < 0
+        ? `SSL certificate for ${name} expired on ${cert.validTo.slice(0, 10)} (${cert.issuer})`
+        : `SSL certificate for ${name} expires on ${cert.validTo.slice(0, 10)} (${cert.issuer}) - renew it`,
+      severity: 'critical',
+    }];
+  },
+};
@@ -0,0 +1,275 @@
+/**
+ * Integrations Detection Scanner
+ *
+ * Detects error monitoring (Sentry), payments (Stripe) and auth providers
+ * (Clerk, Supabase Auth, NextAuth) so the launch checklist reflects what is
+ * actually installed rather than assumptions.
+ *
+ * Evidence comes from two places:
+ * - the live HTML (CDN scripts, SDK globals, auth endpoints)
+ * - the repo: package.json dependencies and import/require statements
+ */
+
+import simpleGit from 'simple-git';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { ScannerDefinition, ScanIssue } from './types';
+
+export type IntegrationId = 'sentry' | 'stripe' | 'clerk' | 'supabase_auth' | 'next_auth';
+export type EvidenceSource = 'html' | 'package' | 'import';
+
+export interface IntegrationDetection {
+  detected: boolean;
+  sources: EvidenceSource[];
+}
+
+export interface IntegrationsScanResult {
+  status: 'ok' | 'error';
+  integrationsData: {
+    integrations: Record<IntegrationId, IntegrationDetection>;
+    dependencies: string[]; // Package names from package.json, for custom checklist items
+    htmlScanned: boolean;
+    repoScanned: boolean;
+  };
+  detected: IntegrationId[];
+  error?: string;
+}
+
+interface IntegrationRule {
+  html: string[];
+  packages: RegExp[];
+  imports: RegExp[];
+}
+
+const INTEGRATION_RULES: Record<IntegrationId, IntegrationRule> = {
+  sentry: {
+    html: ['browser.sentry-cdn.com', 'ingest.sentry.io', '__sentry__', 'sentry-trace'],
+    packages: [/^@sentry\//],
+    imports: [/['"]@sentry\/[\w-]+['"]/],
+  },
+  stripe: {
+    html: ['js.stripe.com', 'checkout.stripe.com', 'buy.stripe.com'],
+    packages: [/^stripe$/, /^@stripe\//],
+    imports: [/['"](?:stripe|@stripe\/[\w-]+)['"]/],
+  },
+  clerk: {
+    html: ['clerk.accounts.dev', 'clerk.browser.js', '__clerk_', 'data-clerk'],
+    packages: [/^@clerk\//],
+    imports: [/['"]@clerk\/[\w-]+['"]/],
+  },
+  supabase_auth: {
+    // supabase-js alone is just a DB client; require auth-specific usage
+    html: ['/auth/v1/'],
+    packages: [/^@supabase\/auth-helpers-/, /^@supabase\/ssr$/, /^@supabase\/auth-ui-/],
+    imports: [/['"]@supabase\/(?:auth-helpers-[\w-]+|ssr|auth-ui-[\w-]+)['"]/, /\.auth\.(?:getUser|getSession|signIn\w*|signUp|onAuthStateChange)\(/],
+  },
+  next_auth: {
+    html: ['/api/auth/session', '/api/auth/csrf', 'next-auth'],
+    packages: [/^next-auth$/, /^@auth\//],
+    imports: [/['"](?:next-auth(?:\/[\w-]+)?|@auth\/[\w-]+)['"]/],
+  },
+};
+
+const INTEGRATION_IDS = Object.keys(INTEGRATION_RULES) as IntegrationId[];
+
+// Only look at source files, and skip anything huge (bundles, generated code)
+const SOURCE_FILE_PATTERN = /\.(?:[cm]?[jt]sx?)$/;
+const MAX_FILE_BYTES = 512 * 1024;
+
+function emptyIntegrations(): Record<IntegrationId, IntegrationDetection> {
+  return Object.fromEntries(
+    INTEGRATION_IDS.map(id => [id, { detected: false, sources: [] }])
+  ) as unknown as Record<IntegrationId, IntegrationDetection>;
+}
+
+function addEvidence(
+  integrations: Record<IntegrationId, IntegrationDetection>,
+  id: IntegrationId,
+  source: EvidenceSource
+): void {
+  const detection = integrations[id];
+  detection.detected = true;
+  if (!detection.sources.includes(source)) detection.sources.push(source);
+}
+
+/**
+ * Detect integrations from page HTML
+ */
+export function detectFromHtml(html: string): IntegrationId[] {
+  const lower = html.toLowerCase();
+  return INTEGRATION_IDS.filter(id => INTEGRATION_RULES[id].html.some(marker => lower.includes(marker)));
+}
+
+/**
+ * Detect integrations from package.json dependency names
+ */
+export function detectFromPackages(dependencies: string[]): IntegrationId[] {
+  return INTEGRATION_IDS.filter(id =>
+    INTEGRATION_RULES[id].packages.some(pattern => dependencies.some(dep => pattern.test(dep)))
+  );
+}
+
+/**
+ * Detect integrations from import/require statements in a source file
+ */
+export function detectFromSource(content: string): IntegrationId[] {
+  return INTEGRATION_IDS.filter(id => INTEGRATION_RULES[id].imports.some(pattern => pattern.test(content)));
+}
+
+async function readDependencies(repoPath: string, packageFiles: string[]): Promise<string[]> {
+  const dependencies = new Set<string>();
+
+  // Monorepos declare integrations in workspace packages, not the root
+  for (const file of packageFiles) {
+    try {
+      const pkg = JSON.parse(await fs.readFile(join(repoPath, file), 'utf-8'));
+      for (const field of ['dependencies', 'devDependencies', 'peerDependencies']) {
+        Object.keys(pkg[field] || {}).forEach(dep => dependencies.add(dep));
+      }
+    } catch {
+      continue; // Malformed package.json
+    }
+  }
+
+  return Array.from(dependencies).sort();
+}
+
+/**
+ * Scan a cloned repository's package.json files and source imports
+ */
+export async function scanRepoIntegrations(repoPath: string): Promise<{
+  integrations: Record<IntegrationId, IntegrationDetection>;
+  dependencies: string[];
+}> {
+  const integrations = emptyIntegrations();
+  const trackedFiles = (await simpleGit(repoPath).raw(['ls-files', '-z']))
+    .split('\0')
+    .filter(Boolean);
+
+  const packageFiles = trackedFiles.filter(f => f === 'package.json' || f.endsWith('/package.json'));
+  const dependencies = await readDependencies(repoPath, packageFiles);
+  for (const id of detectFromPackages(dependencies)) addEvidence(integrations, id, 'package');
+
+  for (const filePath of trackedFiles) {
+    if (!SOURCE_FILE_PATTERN.test(filePath) || filePath.includes('node_modules/')) continue;
+
+    try {
+      const absolutePath = join(repoPath, filePath);
+      const stat = await fs.stat(absolutePath);
+      if (!stat.isFile() || stat.size > MAX_FILE_BYTES) continue;
+      const content = await fs.readFile(absolutePath, 'utf-8');
+      for (const id of detectFromSource(content)) addEvidence(integrations, id, 'import');
+    } catch {
+      continue; // Deleted in working tree or unreadable
+    }
+  }
+
+  return { integrations, dependencies };
+}
+
+/**
+ * Detect integrations from the live site and (optionally) a local checkout
+ */
+export async function scanIntegrations(
+  domain: string | null,
+  repoPath?: string
+): Promise<IntegrationsScanResult> {
+  const integrations = emptyIntegrations();
+  let dependencies: string[] = [];
+  let htmlScanned = false;
+  let repoScanned = false;
+  const errors: string[] = [];
+
+  if (domain) {
+    try {
+      const url = domain.startsWith('http') ? domain : `https://${domain}`;
+      const response = await fetch(url, {
+        method: 'GET',
+        redirect: 'follow',
+        headers: { 'User-Agent': 'VirtualCofounderScanner/1.0' },
+        signal: AbortSignal.timeout(8000)
+      });
+
+      if (response.ok) {
+        for (const id of detectFromHtml(await response.text())) addEvidence(integrations, id, 'html');
+        htmlScanned = true;
+      } else {
+        errors.push(`HTML fetch returned ${response.status}`);
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'HTML fetch failed');
+    }
+  }
+
+  if (repoPath) {
+    try {
+      const repo = await scanRepoIntegrations(repoPath);
+      dependencies = repo.dependencies;
+      for (const id of INTEGRATION_IDS) {
+        for (const source of repo.integrations[id].sources) addEvidence(integrations, id, source);
+      }
+      repoScanned = true;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Repository scan failed');
+    }
+  }
+
+  const detected = INTEGRATION_IDS.filter(id => integrations[id].detected);
+
+  return {
+    // Partial evidence is still useful; only fail when nothing could be checked
+    status: htmlScanned || repoScanned ? 'ok' : 'error',
+    integrationsData: { integrations, dependencies, htmlScanned, repoScanned },
+    detected,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+  };
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const AUTH_PROVIDERS: IntegrationId[] = ['clerk', 'supabase_auth', 'next_auth'];
+
+export const integrationsScanner: ScannerDefinition<IntegrationsScanResult, IntegrationsScanResult['integrationsData']> = {
+  type: 'integrations',
+  description: 'Detect Sentry, Stripe and auth providers from the live site and repository',
+  inputs: ['domain'],
+  optionalInputs: ['repo'],
+  timeoutMs: 2 * 60 * 1000,
+  column: 'integrationsData',
+  scheduled: false,
+
+  async run(target) {
+    const result = await scanIntegrations(target.domain, target.repoPath);
+    if (result.status === 'error') {
+      throw new Error(result.error || 'Integrations scan failed');
+    }
+    return result;
+  },
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: result.integrationsData,
+    summary: `${result.detected.join(', ') || 'none'} detected`,
+  }),
+
+  normalize(data) {
+    if (!data?.integrations) return [];
+    const detected = (id: IntegrationId) => data.integrations[id]?.detected ?? false;
+    const issues: ScanIssue[] = [];
+    if (!detected('sentry')) {
+      issues.push({ key: 'integrations:no_error_monitoring', title: 'No error monitoring (Sentry) detected', severity: 'medium' });
+    }
+    if (!AUTH_PROVIDERS.some(detected)) {
+      issues.push({ key: 'integrations:no_auth', title: 'No auth provider detected', severity: 'low' });
+    }
+    return issues;
+  },
+
+  checklist: {
+    auth_working: (data) => AUTH_PROVIDERS.some(id => data?.integrations?.[id]?.detected),
+    error_monitoring: (data) => !!data?.integrations?.sentry?.detected,
+    payments_configured: (data) => !!data?.integrations?.stripe?.detected,
+  },
+};
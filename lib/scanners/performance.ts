@@ -2,11 +2,17 @@
  * Core Web Vitals Performance Scanner
  *
  * Uses Playwright + Browserless to measure Core Web Vitals (LCP, FID, CLS)
- * Captures performance metrics from actual browser navigation
+ * Captures performance metrics from actual browser navigation.
+ *
+ * The registered scanner measures several key pages (configured per project
+ * or taken from the sitemap) on emulated mobile and desktop, takes a few
+ * samples of each, and checks the p75 against per-project budgets.
  */
 
-import { Page } from 'playwright';
+import { Page, BrowserContextOptions, devices } from 'playwright';
 import { withBrowserlessPage } from '../browserless';
+import { fetchSitemapUrls } from './sitemap';
+import type { ScannerDefinition, ScanIssue } from './types';
 
 export interface WebVitalsMetrics {
   lcp?: number; // Largest Contentful Paint (milliseconds)
@@ -94,6 +100,50 @@ function injectWebVitalsScript(): string {
   `;
 }
 
+/**
+ * Navigate and read Web Vitals plus script transfer size for one load.
+ * Requires injectWebVitalsScript() to have been added as an init script.
+ */
+async function measurePageLoad(
+  page: Page,
+  url: string,
+  settleMs: number
+): Promise<{ metrics: WebVitalsMetrics; jsBytes: number }> {
+  try {
+    await page.goto(url, { waitUntil: 'networkidle' });
+  } catch (error) {
+    // Even if navigation has issues, try to get metrics from what loaded
+    if (page.url().includes('blank')) {
+      throw error;
+    }
+  }
+
+  // Wait for Web Vitals to stabilize
+  await page.waitForTimeout(settleMs);
+
+  const metrics = await page.evaluate(() => {
+    return (window as any).__webVitals;
+  });
+
+  const jsBytes = await page.evaluate(() => {
+    return (performance.getEntriesByType('resource') as PerformanceResourceTiming[])
+      .filter(entry => entry.initiatorType === 'script' || /\.m?js(\?|$)/.test(entry.name))
+      .reduce((sum, entry) => sum + (entry.transferSize || entry.encodedBodySize || 0), 0);
+  });
+
+  return {
+    metrics: {
+      lcp: metrics?.lcp ?? undefined,
+      fid: metrics?.fid ?? undefined,
+      cls: metrics?.cls ?? undefined,
+      fcp: metrics?.fcp ?? undefined,
+      ttfb: metrics?.ttfb ?? undefined,
+      dcl: metrics?.dcl ?? undefined,
+    },
+    jsBytes,
+  };
+}
+
 /**
  * Scan a URL for Core Web Vitals using Playwright + Browserless
  */
@@ -124,50 +174,13 @@ export async function scanPerformance(
         // Inject Web Vitals script before navigation
         await page.addInitScript(injectWebVitalsScript());
 
-        // Navigate to the URL
-        try {
-          await page.goto(targetUrl, { waitUntil: 'networkidle' });
-        } catch (error) {
-          // Even if navigation has issues, try to get metrics from what loaded
-          if (!page.url().includes('blank')) {
-            // Page did load something, continue
-          } else {
-            throw error;
-          }
-        }
-
-        // Wait for Web Vitals to stabilize
-        await page.waitForTimeout(2000);
-
-        // Extract Web Vitals metrics
-        const metrics = await page.evaluate(() => {
-          return (window as any).__webVitals;
-        });
-
-        // Get additional performance metrics
-        const perfMetrics = await page.evaluate(() => {
-          const nav = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
-          return {
-            domContentLoaded: nav?.domContentLoadedEventEnd - nav?.domContentLoadedEventStart,
-            loadComplete: nav?.loadEventEnd - nav?.loadEventStart,
-            totalDuration: nav?.loadEventEnd - nav?.startTime
-          };
-        });
-
-        const loadTimeMs = Date.now() - startTime;
+        const { metrics } = await measurePageLoad(page, targetUrl, 2000);
 
         return {
           status: 'ok' as const,
           url: page.url(),
-          metrics: {
-            lcp: metrics?.lcp,
-            fid: metrics?.fid,
-            cls: metrics?.cls,
-            fcp: metrics?.fcp,
-            ttfb: metrics?.ttfb,
-            dcl: metrics?.dcl
-          },
-          loadTimeMs
+          metrics,
+          loadTimeMs: Date.now() - startTime
         };
       },
       { timeout: timeoutMs + 5000 } // Give Browserless extra time
@@ -186,3 +199,340 @@ export async function scanPerformance(
     };
   }
 }
+
+// ============================================================================
+// MULTI-PAGE BUDGETS
+// ============================================================================
+
+export type DeviceName = 'mobile' | 'desktop';
+export type BudgetMetric = 'lcp' | 'cls' | 'jsBytes';
+
+export interface PerformanceBudgets {
+  lcpMs: number;
+  cls: number;
+  jsBytes: number; // Total script transfer size
+}
+
+/**
+ * Per-project options, stored at ProjectAgentConfig.agentSettings.performance
+ */
+export interface PerformanceSettings {
+  pages?: string[]; // Paths or absolute URLs; the sitemap is used when empty
+  maxPages?: number;
+  samples?: number; // Loads per page per device
+  budgets?: Partial<PerformanceBudgets>;
+}
+
+export const DEFAULT_BUDGETS: PerformanceBudgets = {
+  lcpMs: 2500,
+  cls: 0.1,
+  jsBytes: 400 * 1024,
+};
+
+const DEFAULT_MAX_PAGES = 5;
+const DEFAULT_SAMPLES = 3;
+const PAGE_TIMEOUT_MS = 30000;
+const SAMPLE_SETTLE_MS = 1000;
+
+// Lighthouse's mobile preset throttles the CPU 4x; desktop runs unthrottled
+const DEVICES: Record<DeviceName, { contextOptions: BrowserContextOptions; cpuThrottling: number }> = {
+  mobile: { contextOptions: devices['Pixel 5'], cpuThrottling: 4 },
+  desktop: { contextOptions: devices['Desktop Chrome'], cpuThrottling: 1 },
+};
+
+export interface MetricSummary {
+  median: number | null;
+  p75: number | null;
+}
+
+export interface DevicePerformance {
+  samples: number; // Successful loads
+  lcp: MetricSummary;
+  cls: MetricSummary;
+  fcp: MetricSummary;
+  ttfb: MetricSummary;
+  jsBytes: MetricSummary;
+  errors?: string[];
+}
+
+export interface PagePerformance {
+  url: string;
+  path: string;
+  devices: Partial<Record<DeviceName, DevicePerformance>>;
+}
+
+export interface BudgetBreach {
+  metric: BudgetMetric;
+  page: string; // Path of the offending page
+  device: DeviceName;
+  value: number; // p75 across samples
+  budget: number;
+}
+
+/**
+ * Stored in Scan.playwrightMetrics. Top-level vitals are the worst mobile p75
+ * across pages, so single-value consumers keep working.
+ */
+export interface PerformanceData extends WebVitalsMetrics {
+  pageSource: 'settings' | 'sitemap' | 'homepage';
+  pages: PagePerformance[];
+  budgets: PerformanceBudgets;
+  breaches: BudgetBreach[];
+}
+
+export interface PerformanceBudgetScanResult {
+  status: 'ok' | 'error';
+  url: string;
+  performanceData?: PerformanceData;
+  error?: string;
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function summarize(values: Array<number | undefined>, digits = 0): MetricSummary {
+  const present = values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+  const round = (v: number | null) => v === null ? null : Number(v.toFixed(digits));
+  return { median: round(percentile(present, 50)), p75: round(percentile(present, 75)) };
+}
+
+export function resolveBudgets(settings?: PerformanceSettings): PerformanceBudgets {
+  return { ...DEFAULT_BUDGETS, ...settings?.budgets };
+}
+
+/**
+ * Compare each page's p75 against the budgets
+ */
+export function evaluateBudgets(pages: PagePerformance[], budgets: PerformanceBudgets): BudgetBreach[] {
+  const breaches: BudgetBreach[] = [];
+  const checks: Array<{ metric: BudgetMetric; budget: number }> = [
+    { metric: 'lcp', budget: budgets.lcpMs },
+    { metric: 'cls', budget: budgets.cls },
+    { metric: 'jsBytes', budget: budgets.jsBytes },
+  ];
+
+  for (const page of pages) {
+    for (const [device, result] of Object.entries(page.devices) as Array<[DeviceName, DevicePerformance]>) {
+      for (const { metric, budget } of checks) {
+        const value = result[metric].p75;
+        if (value !== null && value > budget) {
+          breaches.push({ metric, page: page.path, device, value, budget });
+        }
+      }
+    }
+  }
+
+  return breaches;
+}
+
+/**
+ * Key pages to measure: the project's configured list, else the sitemap, else the homepage
+ */
+export async function resolvePages(
+  origin: string,
+  settings?: PerformanceSettings
+): Promise<{ urls: string[]; source: PerformanceData['pageSource'] }> {
+  const maxPages = settings?.maxPages ?? DEFAULT_MAX_PAGES;
+  const limit = (urls: string[]) => Array.from(new Set(urls)).slice(0, maxPages);
+
+  if (settings?.pages?.length) {
+    return { urls: limit(settings.pages.map(page => new URL(page, origin).toString())), source: 'settings' };
+  }
+
+  const sitemapUrls = await fetchSitemapUrls(origin);
+  if (sitemapUrls.length > 0) {
+    return { urls: limit([`${origin}/`, ...sitemapUrls]), source: 'sitemap' };
+  }
+
+  return { urls: [`${origin}/`], source: 'homepage' };
+}
+
+async function measureDevice(
+  urls: string[],
+  device: DeviceName,
+  samples: number
+): Promise<Map<string, DevicePerformance>> {
+  const { contextOptions, cpuThrottling } = DEVICES[device];
+
+  return withBrowserlessPage(
+    async (page: Page) => {
+      page.setDefaultTimeout(PAGE_TIMEOUT_MS);
+      page.setDefaultNavigationTimeout(PAGE_TIMEOUT_MS);
+      await page.addInitScript(injectWebVitalsScript());
+
+      // Every sample is a cold load; throttling is best-effort
+      try {
+        const cdp = await page.context().newCDPSession(page);
+        await cdp.send('Network.setCacheDisabled', { cacheDisabled: true });
+        if (cpuThrottling > 1) {
+          await cdp.send('Emulation.setCPUThrottlingRate', { rate: cpuThrottling });
+        }
+      } catch (error) {
+        console.warn(`[Performance] CDP setup failed for ${device}:`, error);
+      }
+
+      const results = new Map<string, DevicePerformance>();
+      for (const url of urls) {
+        const loads: Array<{ metrics: WebVitalsMetrics; jsBytes: number }> = [];
+        const errors: string[] = [];
+
+        for (let i = 0; i < samples; i++) {
+          try {
+            loads.push(await measurePageLoad(page, url, SAMPLE_SETTLE_MS));
+          } catch (error) {
+            errors.push(error instanceof Error ? error.message : 'Unknown error');
+          }
+        }
+
+        results.set(url, {
+          samples: loads.length,
+          lcp: summarize(loads.map(l => l.metrics.lcp)),
+          cls: summarize(loads.map(l => l.metrics.cls), 3),
+          fcp: summarize(loads.map(l => l.metrics.fcp)),
+          ttfb: summarize(loads.map(l => l.metrics.ttfb)),
+          jsBytes: summarize(loads.map(l => l.jsBytes)),
+          ...(errors.length > 0 ? { errors } : {}),
+        });
+      }
+      return results;
+    },
+    { timeout: PAGE_TIMEOUT_MS + 5000, contextOptions }
+  );
+}
+
+/**
+ * Measure key pages on mobile and desktop and check them against budgets
+ */
+export async function scanPerformanceBudgets(
+  domain: string,
+  settings?: PerformanceSettings
+): Promise<PerformanceBudgetScanResult> {
+  if (!domain) {
+    return { status: 'error', url: '', error: 'URL is required' };
+  }
+
+  const origin = new URL(domain.startsWith('http') ? domain : `https://${domain}`).origin;
+
+  try {
+    const { urls, source } = await resolvePages(origin, settings);
+    const samples = Math.max(1, settings?.samples ?? DEFAULT_SAMPLES);
+
+    const pages: PagePerformance[] = urls.map(url => ({ url, path: new URL(url).pathname, devices: {} }));
+    for (const device of Object.keys(DEVICES) as DeviceName[]) {
+      const results = await measureDevice(urls, device, samples);
+      for (const page of pages) {
+        const result = results.get(page.url);
+        if (result) page.devices[device] = result;
+      }
+    }
+
+    const measured = pages.flatMap(page => Object.values(page.devices)).filter(d => d.samples > 0);
+    if (measured.length === 0) {
+      return { status: 'error', url: origin, error: 'No page loaded successfully' };
+    }
+
+    const budgets = resolveBudgets(settings);
+    const mobile = pages.map(page => page.devices.mobile).filter((d): d is DevicePerformance => !!d && d.samples > 0);
+    const worst = (metric: 'lcp' | 'cls' | 'fcp' | 'ttfb') => {
+      const values = mobile.map(d => d[metric].p75).filter((v): v is number => v !== null);
+      return values.length > 0 ? Math.max(...values) : undefined;
+    };
+
+    return {
+      status: 'ok',
+      url: origin,
+      performanceData: {
+        lcp: worst('lcp'),
+        cls: worst('cls'),
+        fcp: worst('fcp'),
+        ttfb: worst('ttfb'),
+        pageSource: source,
+        pages,
+        budgets,
+        breaches: evaluateBudgets(pages, budgets),
+      },
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      url: origin,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const BUDGET_LABELS: Record<BudgetMetric, string> = {
+  lcp: 'LCP',
+  cls: 'CLS',
+  jsBytes: 'JS size',
+};
+
+/**
+ * Human-readable value for a budget metric
+ */
+export function formatBudgetValue(metric: BudgetMetric, value: number): string {
+  if (metric === 'lcp') return `${Math.round(value)}ms`;
+  if (metric === 'cls') return value.toFixed(3);
+  return `${Math.round(value / 1024)}KB`;
+}
+
+/**
+ * One-line description of a breach, e.g. "LCP p75 on /pricing (mobile) is 3400ms, over the 2500ms budget"
+ */
+export function describeBreach(breach: BudgetBreach): string {
+  return `${BUDGET_LABELS[breach.metric]} p75 on ${breach.page} (${breach.device}) is ` +
+    `${formatBudgetValue(breach.metric, breach.value)}, over the ${formatBudgetValue(breach.metric, breach.budget)} budget`;
+}
+
+/**
+ * Stable issue key for a breach, shared by scan deltas and orchestrator findings
+ */
+export function breachKey(breach: BudgetBreach): string {
+  return `performance:budget:${breach.metric}:${breach.device}:${breach.page}`;
+}
+
+export const performanceScanner: ScannerDefinition<PerformanceBudgetScanResult, PerformanceData> = {
+  type: 'performance',
+  description: 'Measure Core Web Vitals on key pages (mobile and desktop) against performance budgets',
+  inputs: ['domain'],
+  timeoutMs: 8 * 60 * 1000,
+  column: 'playwrightMetrics',
+  scheduled: false,
+  defaultSchedule: '0 6 * * 1', // Weekly, Monday morning
+  tool: { name: 'ScanPerformance', description: 'Scan a URL for performance metrics (Core Web Vitals)' },
+
+  run: (target) => scanPerformanceBudgets(target.domain!, target.agentSettings?.performance),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: result.performanceData || {},
+    summary: result.performanceData
+      ? `${result.performanceData.pages.length} pages, ${result.performanceData.breaches.length} budget breaches`
+      : result.error || result.status,
+  }),
+
+  normalize: (data) =>
+    (data?.breaches || []).map((breach): ScanIssue => ({
+      key: breachKey(breach),
+      title: describeBreach(breach),
+      severity: breach.value >= breach.budget * 1.5 ? 'high' : 'medium',
+    })),
+
+  checklist: {
+    // Rows from before budgets existed have no breaches list and don't count as passing
+    performance_passing: (data) => Array.isArray(data?.breaches) && data.breaches.length === 0,
+  },
+};
@@ -0,0 +1,161 @@
+/**
+ * Scanner Registry
+ *
+ * Single list of every scanner. To add one, export a ScannerDefinition from
+ * its scanner file and add it to SCANNERS below - the scan worker,
+ * /api/scans/trigger, project scan routes, agent scan tools, scan deltas and
+ * the launch checklist all pick it up from here.
+ */
+
+import type { Scan } from '@prisma/client';
+import { withWorktree } from '../git-cache';
+import { getAuthenticatedCloneUrl } from '../github';
+import { getGithubInstallationId } from '../integrations';
+import { domainScanner } from './domain';
+import { seoScanner } from './seo';
+import { seoCrawlScanner } from './seo-crawl';
+import { analyticsScanner } from './analytics';
+import { vercelScanner } from './vercel';
+import { performanceScanner } from './performance';
+import { screenshotScanner } from './screenshot';
+import { npmAuditScanner } from './security-npm';
+import { secretsScanner } from './security-secrets';
+import { integrationsScanner } from './integrations';
+import { accessibilityScanner } from './accessibility';
+import type { ScannerDefinition, ScannerInput, ScanTarget, ScanIssue, ScanColumn } from './types';
+
+export type { ScannerDefinition, ScannerInput, ScanTarget, ScanIssue, ScanColumn } from './types';
+
+type AnyScanner = ScannerDefinition<any, any>;
+
+const SCANNERS: AnyScanner[] = [
+  domainScanner,
+  seoScanner,
+  seoCrawlScanner,
+  analyticsScanner,
+  vercelScanner,
+  performanceScanner,
+  screenshotScanner,
+  npmAuditScanner,
+  secretsScanner,
+  integrationsScanner,
+  accessibilityScanner,
+];
+
+export const scannerRegistry: Record<string, AnyScanner> = Object.fromEntries(
+  SCANNERS.map(scanner => [scanner.type, scanner])
+);
+
+/**
+ * Look up a scanner by scan type
+ */
+export function getScanner(type: string): AnyScanner | undefined {
+  return scannerRegistry[type];
+}
+
+/**
+ * All registered scanners, in registration order
+ */
+export function listScanners(filter?: { scheduled?: boolean }): AnyScanner[] {
+  return SCANNERS.filter(scanner => filter?.scheduled === undefined || scanner.scheduled === filter.scheduled);
+}
+
+/**
+ * Whether a project has every input a scanner requires
+ */
+export function canRunScanner(
+  scanner: AnyScanner,
+  project: { name?: string | null; domain?: string | null; repo?: string | null }
+): boolean {
+  const available: Record<ScannerInput, boolean> = {
+    domain: !!project.domain,
+    repo: !!project.repo,
+    project: !!project.name,
+  };
+  return scanner.inputs.every(input => available[input]);
+}
+
+/**
+ * True when the scanner needs (or can use) a repository checkout
+ */
+export function usesRepo(scanner: AnyScanner): boolean {
+  return scanner.inputs.includes('repo') || !!scanner.optionalInputs?.includes('repo');
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/**
+ * Run a scanner against a target, failing if it exceeds its declared timeout
+ */
+export async function runScanner<TResult>(
+  scanner: ScannerDefinition<TResult>,
+  target: ScanTarget
+): Promise<TResult> {
+  if (scanner.inputs.includes('domain') && !target.domain) {
+    throw new Error(`${scanner.type} scan requires a domain`);
+  }
+  if (scanner.inputs.includes('repo') && !target.repoPath) {
+    throw new Error(`${scanner.type} scan requires a repository`);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${scanner.type} scan timed out after ${scanner.timeoutMs}ms`)),
+      scanner.timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([scanner.run(target), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Check out a project's GitHub repo (from the worktree cache) for the
+ * duration of a callback, using its workspace's GitHub App installation
+ */
+export async function withRepoCheckout<T>(repo: string, workspaceId: string, fn: (repoPath: string) => Promise<T>): Promise<T> {
+  const cloneUrl = await getAuthenticatedCloneUrl(repo, await getGithubInstallationId(workspaceId));
+  return withWorktree(cloneUrl, fn);
+}
+
+// ============================================================================
+// STORED RESULTS
+// ============================================================================
+
+type StoredScan = Pick<Scan, 'scanType' | 'status' | ScanColumn>;
+
+/**
+ * Normalize a stored scan into common findings
+ */
+export function normalizeScan(scan: StoredScan): ScanIssue[] {
+  const scanner = getScanner(scan.scanType);
+  if (!scanner) return [];
+  return scanner.normalize(scan[scanner.column] ?? null, scan.status);
+}
+
+/**
+ * Checklist answers from the latest ok scan of each type, keyed by checklist item.
+ * An item answered by several scanners (e.g. security_passing from npm_audit and
+ * secrets) gets one answer per scanner.
+ */
+export function collectChecklistContributions(latestScans: StoredScan[]): Record<string, boolean[]> {
+  const contributions: Record<string, boolean[]> = {};
+
+  for (const scan of latestScans) {
+    const scanner = getScanner(scan.scanType);
+    if (!scanner?.checklist || scan.status === 'error') continue;
+
+    const stored = scan[scanner.column];
+    for (const [item, check] of Object.entries(scanner.checklist)) {
+      (contributions[item] ||= []).push(stored ? check(stored) : false);
+    }
+  }
+
+  return contributions;
+}
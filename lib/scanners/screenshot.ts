@@ -8,6 +8,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { withBrowserlessPage } from '../browserless';
+import type { ScannerDefinition } from './types';
 
 export interface ScreenshotScanResult {
   status: 'ok' | 'error' | 'timeout';
@@ -179,3 +180,30 @@ export async function captureMultipleScreenshots(
 
   return results;
 }
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const screenshotScanner: ScannerDefinition<ScreenshotScanResult> = {
+  type: 'screenshot',
+  description: 'Capture a screenshot of the project homepage',
+  inputs: ['domain'],
+  timeoutMs: 60000,
+  column: 'playwrightMetrics',
+  scheduled: false,
+
+  run: (target) => captureScreenshot(target.domain!),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: {
+      screenshotUrl: result.screenshotUrl,
+      screenshotPath: result.screenshotPath,
+      dimensions: result.dimensions,
+    },
+    summary: result.screenshotUrl || result.status,
+  }),
+
+  normalize: () => [],
+};
@@ -10,6 +10,8 @@ import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { createHash } from 'crypto';
+import type { ScannerDefinition, IssueSeverity } from './types';
 
 const execAsync = promisify(exec);
 
@@ -169,3 +171,53 @@ export async function scanNpmAudit(repoPath: string): Promise<NpmAuditResult> {
 export async function scanNpmAuditCurrent(): Promise<NpmAuditResult> {
   return scanNpmAudit(process.cwd());
 }
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+// Short content hash for issue keys
+const issueHash = (value: string) => createHash('sha256').update(value).digest('hex').slice(0, 12);
+
+type StoredAudit = Pick<NpmAuditResult, 'vulnerabilities' | 'metadata'>;
+
+const AUDIT_SEVERITY: Record<NpmVulnerability['severity'], IssueSeverity> = {
+  critical: 'critical',
+  high: 'high',
+  moderate: 'medium',
+  low: 'low',
+};
+
+export const npmAuditScanner: ScannerDefinition<NpmAuditResult, StoredAudit> = {
+  type: 'npm_audit',
+  description: 'Run npm audit on a repository to find vulnerable packages',
+  inputs: ['repo'],
+  timeoutMs: 2 * 60 * 1000,
+  column: 'securityIssues',
+  scheduled: false,
+  defaultSchedule: 'on_push',
+  tool: { name: 'ScanSecurity', description: 'Scan a repository for security issues (npm audit, secrets)' },
+
+  run: (target) => scanNpmAudit(target.repoPath!),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: {
+      vulnerabilities: result.vulnerabilities || [],
+      metadata: result.metadata || {},
+    },
+    summary: `${result.vulnerabilities?.length || 0} vulnerabilities`,
+  }),
+
+  normalize: (data) =>
+    (data?.vulnerabilities || []).map(v => ({
+      key: `npm_audit:${v.package}:${issueHash(v.via.join('|'))}`,
+      title: `${v.package}: ${v.via.join(', ')}`,
+      severity: AUDIT_SEVERITY[v.severity] ?? 'medium',
+    })),
+
+  checklist: {
+    security_passing: (data) =>
+      !(data?.vulnerabilities || []).some(v => v.severity === 'critical' || v.severity === 'high'),
+  },
+};
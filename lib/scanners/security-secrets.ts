@@ -2,60 +2,266 @@
  * Secrets Detection Scanner
  *
  * Scans code for exposed secrets (API keys, tokens, passwords)
- * Uses regex patterns to detect common secret patterns
+ * Uses regex patterns, provider-specific key formats and Shannon entropy
+ * to detect common secret patterns.
+ *
+ * Repository mode clones the repo, walks every tracked file (so .gitignore'd
+ * files are skipped), ignores binaries, and honours a `.secrets-allowlist`
+ * file in the target repo for known false positives.
+ *
+ * History mode walks `git log -p` and attributes each secret to the commit
+ * that first introduced it, so keys removed from HEAD still get rotated.
  */
 
+import simpleGit from 'simple-git';
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { createInterface } from 'readline';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { acquireWorktree, releaseWorktree } from '../git-cache';
+import type { ScannerDefinition, ScanIssue } from './types';
+
 export interface SecretFinding {
-  type: 'api_key' | 'secret' | 'token' | 'password';
+  type: 'api_key' | 'secret' | 'token' | 'password' | 'high_entropy';
   pattern: string;
   lineNumber: number;
   lineContent: string;
-  severity: 'critical';
+  severity: 'critical' | 'high';
+  filePath?: string;
+  provider?: 'aws' | 'stripe' | 'github' | 'supabase';
+  entropy?: number;
+  fingerprint?: string; // sha256 prefix of the secret value - never the value itself
+}
+
+export interface HistorySecretFinding extends SecretFinding {
+  filePath: string;
+  fingerprint: string;
+  commitSha: string;
+  author: string;
+  committedAt: string;
+  presentAtHead: boolean;
 }
 
 export interface SecretsScanResult {
   status: 'ok' | 'error' | 'secrets_found';
   findings: SecretFinding[];
   totalFindings: number;
+  historyFindings?: HistorySecretFinding[];
+  commitsScanned?: number;
+  filesScanned?: number;
+  allowlisted?: number;
   error?: string;
 }
 
-const SECRET_PATTERNS = [
+interface LineMatch {
+  finding: SecretFinding;
+  value: string;
+}
+
+interface SecretPatternGroup {
+  name: SecretFinding['type'];
+  label: string;
+  provider?: SecretFinding['provider'];
+  patterns: RegExp[];
+}
+
+const SECRET_PATTERNS: SecretPatternGroup[] = [
   {
     name: 'api_key',
+    label: 'API_KEY',
     patterns: [
-      /[A-Z_]*API[_-]?KEY\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*APIKEY\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*API_SECRET\s*=\s*["']([^"']+)["']/gi,
+      /[A-Z_]*API[_-]?KEY\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*APIKEY\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*API_SECRET\s*=\s*["']([^"']+)["']/i,
     ]
   },
   {
     name: 'secret',
+    label: 'SECRET',
     patterns: [
-      /[A-Z_]*SECRET\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*PRIVATE_KEY\s*=\s*["']([^"']+)["']/gi,
+      /[A-Z_]*SECRET\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*PRIVATE_KEY\s*=\s*["']([^"']+)["']/i,
     ]
   },
   {
     name: 'token',
+    label: 'TOKEN',
     patterns: [
-      /[A-Z_]*TOKEN\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*AUTH_TOKEN\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*BEARER_TOKEN\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*ACCESS_TOKEN\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*REFRESH_TOKEN\s*=\s*["']([^"']+)["']/gi,
+      /[A-Z_]*TOKEN\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*AUTH_TOKEN\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*BEARER_TOKEN\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*ACCESS_TOKEN\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*REFRESH_TOKEN\s*=\s*["']([^"']+)["']/i,
     ]
   },
   {
     name: 'password',
+    label: 'PASSWORD',
     patterns: [
-      /[A-Z_]*PASSWORD\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*PASSWD\s*=\s*["']([^"']+)["']/gi,
-      /[A-Z_]*PWD\s*=\s*["']([^"']+)["']/gi,
+      /[A-Z_]*PASSWORD\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*PASSWD\s*=\s*["']([^"']+)["']/i,
+      /[A-Z_]*PWD\s*=\s*["']([^"']+)["']/i,
     ]
   }
 ];
 
+// Provider-specific key formats - these match regardless of variable name
+const PROVIDER_PATTERNS: SecretPatternGroup[] = [
+  {
+    name: 'api_key',
+    label: 'AWS_ACCESS_KEY_ID',
+    provider: 'aws',
+    patterns: [/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/],
+  },
+  {
+    name: 'secret',
+    label: 'AWS_SECRET_ACCESS_KEY',
+    provider: 'aws',
+    patterns: [/aws_?secret_?access_?key["']?\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}\b/i],
+  },
+  {
+    name: 'api_key',
+    label: 'STRIPE_LIVE_KEY',
+    provider: 'stripe',
+    patterns: [/\b(?:sk|rk)_live_[0-9a-zA-Z]{24,}\b/],
+  },
+  {
+    name: 'secret',
+    label: 'STRIPE_WEBHOOK_SECRET',
+    provider: 'stripe',
+    patterns: [/\bwhsec_[0-9a-zA-Z]{32,}\b/],
+  },
+  {
+    name: 'token',
+    label: 'GITHUB_PAT',
+    provider: 'github',
+    patterns: [/\bgh[pousr]_[A-Za-z0-9]{36}\b/, /\bgithub_pat_[A-Za-z0-9_]{82}\b/],
+  },
+  {
+    name: 'secret',
+    label: 'SUPABASE_SERVICE_KEY',
+    provider: 'supabase',
+    patterns: [/\bsb_secret_[A-Za-z0-9_-]{20,}\b/],
+  },
+];
+
+// JWTs are only secret when they carry the Supabase service_role claim;
+// anon keys are meant to be public
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g;
+
+// Quoted string literals long enough to be a credential
+const QUOTED_STRING_PATTERN = /["'`]([A-Za-z0-9+/=_\-]{20,})["'`]/g;
+const ENTROPY_THRESHOLD = 4.5;
+
+const ALLOWLIST_FILE = '.secrets-allowlist';
+const MAX_FILE_BYTES = 1024 * 1024; // Skip generated/minified blobs over 1MB
+const BINARY_SNIFF_BYTES = 8000;
+
+// Lockfiles are full of integrity hashes that look like high-entropy secrets
+const SKIPPED_FILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb'];
+
+/**
+ * Shannon entropy (bits per character) of a string
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of Array.from(counts.values())) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isSupabaseServiceRoleJwt(token: string): boolean {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf-8'));
+    return payload?.role === 'service_role';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Scan a single line, returning findings (without file attribution) paired
+ * with the matched secret value so callers can fingerprint it
+ */
+function scanLine(line: string, lineNumber: number): LineMatch[] {
+  const matches: LineMatch[] = [];
+  const lineContent = line.substring(0, 100); // Limit to 100 chars for safety
+
+  for (const group of [...SECRET_PATTERNS, ...PROVIDER_PATTERNS]) {
+    for (const pattern of group.patterns) {
+      const match = line.match(pattern);
+      if (!match) continue;
+
+      matches.push({
+        finding: {
+          type: group.name,
+          pattern: group.label,
+          lineNumber,
+          lineContent,
+          severity: 'critical',
+          ...(group.provider && { provider: group.provider }),
+        },
+        value: match[1] ?? match[0],
+      });
+      break;
+    }
+  }
+
+  for (const match of Array.from(line.matchAll(JWT_PATTERN))) {
+    if (isSupabaseServiceRoleJwt(match[0])) {
+      matches.push({
+        finding: {
+          type: 'secret',
+          pattern: 'SUPABASE_SERVICE_KEY',
+          lineNumber,
+          lineContent,
+          severity: 'critical',
+          provider: 'supabase',
+        },
+        value: match[0],
+      });
+      break;
+    }
+  }
+
+  // Entropy is the noisiest signal, so only use it when nothing else matched
+  if (matches.length === 0) {
+    for (const match of Array.from(line.matchAll(QUOTED_STRING_PATTERN))) {
+      const entropy = shannonEntropy(match[1]);
+      if (entropy >= ENTROPY_THRESHOLD) {
+        matches.push({
+          finding: {
+            type: 'high_entropy',
+            pattern: 'HIGH_ENTROPY_STRING',
+            lineNumber,
+            lineContent,
+            severity: 'high',
+            entropy: Math.round(entropy * 100) / 100,
+          },
+          value: match[1],
+        });
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
+
+function fingerprintSecret(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
 export async function scanSecrets(fileContent: string, fileName: string = 'unknown'): Promise<SecretsScanResult> {
   if (!fileContent) {
     return {
@@ -70,63 +276,8 @@ export async function scanSecrets(fileContent: string, fileName: string = 'unkno
     const lines = fileContent.split('\n');
 
     for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
-      const line = lines[lineNumber];
-      const lineContent = line.substring(0, 100); // Limit to 100 chars for safety
-
-      // Check API keys
-      for (const pattern of SECRET_PATTERNS[0].patterns) {
-        if (pattern.test(line)) {
-          findings.push({
-            type: 'api_key',
-            pattern: 'API_KEY',
-            lineNumber: lineNumber + 1,
-            lineContent,
-            severity: 'critical'
-          });
-          pattern.lastIndex = 0; // Reset regex
-        }
-      }
-
-      // Check secrets
-      for (const pattern of SECRET_PATTERNS[1].patterns) {
-        if (pattern.test(line)) {
-          findings.push({
-            type: 'secret',
-            pattern: 'SECRET',
-            lineNumber: lineNumber + 1,
-            lineContent,
-            severity: 'critical'
-          });
-          pattern.lastIndex = 0;
-        }
-      }
-
-      // Check tokens
-      for (const pattern of SECRET_PATTERNS[2].patterns) {
-        if (pattern.test(line)) {
-          findings.push({
-            type: 'token',
-            pattern: 'TOKEN',
-            lineNumber: lineNumber + 1,
-            lineContent,
-            severity: 'critical'
-          });
-          pattern.lastIndex = 0;
-        }
-      }
-
-      // Check passwords
-      for (const pattern of SECRET_PATTERNS[3].patterns) {
-        if (pattern.test(line)) {
-          findings.push({
-            type: 'password',
-            pattern: 'PASSWORD',
-            lineNumber: lineNumber + 1,
-            lineContent,
-            severity: 'critical'
-          });
-          pattern.lastIndex = 0;
-        }
+      for (const { finding } of scanLine(lines[lineNumber], lineNumber + 1)) {
+        findings.push(fileName === 'unknown' ? finding : { ...finding, filePath: fileName });
       }
     }
 
@@ -152,3 +303,418 @@ export async function scanSecrets(fileContent: string, fileName: string = 'unkno
     };
   }
 }
+
+// ============================================================================
+// ALLOWLIST
+// ============================================================================
+
+/**
+ * Parsed `.secrets-allowlist` from the target repo.
+ *
+ * One entry per line, `#` starts a comment:
+ * - `path/or/glob/**`      ignore every finding in matching files
+ * - `path/to/file.ts:42`   ignore findings on a single line
+ * - `regex:<pattern>`      ignore findings whose line matches the pattern
+ */
+export interface SecretsAllowlist {
+  paths: RegExp[];
+  lines: Set<string>;
+  regexes: RegExp[];
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\/?/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '.*');
+  // Bare directory names match everything beneath them
+  return new RegExp(`^${escaped}(?:/.*)?$`);
+}
+
+export function parseAllowlist(content: string): SecretsAllowlist {
+  const allowlist: SecretsAllowlist = { paths: [], lines: new Set(), regexes: [] };
+
+  for (const rawLine of content.split('\n')) {
+    const entry = rawLine.replace(/#.*$/, '').trim();
+    if (!entry) continue;
+
+    if (entry.startsWith('regex:')) {
+      try {
+        allowlist.regexes.push(new RegExp(entry.slice('regex:'.length)));
+      } catch {
+        console.warn(`[Secrets] Ignoring invalid allowlist regex: ${entry}`);
+      }
+    } else if (/:\d+$/.test(entry)) {
+      allowlist.lines.add(entry.replace(/^\.\//, ''));
+    } else {
+      allowlist.paths.push(globToRegExp(entry.replace(/^\.\//, '').replace(/\/$/, '')));
+    }
+  }
+
+  return allowlist;
+}
+
+function isAllowlisted(allowlist: SecretsAllowlist, filePath: string, line: string, lineNumber: number): boolean {
+  return (
+    allowlist.paths.some(pattern => pattern.test(filePath)) ||
+    allowlist.lines.has(`${filePath}:${lineNumber}`) ||
+    allowlist.regexes.some(pattern => pattern.test(line))
+  );
+}
+
+// ============================================================================
+// REPOSITORY MODE
+// ============================================================================
+
+function isBinary(buffer: Buffer): boolean {
+  const sniffLength = Math.min(buffer.length, BINARY_SNIFF_BYTES);
+  for (let i = 0; i < sniffLength; i++) {
+    if (buffer[i] === 0) return true;
+  }
+  return false;
+}
+
+async function loadAllowlist(repoPath: string): Promise<SecretsAllowlist> {
+  try {
+    return parseAllowlist(await fs.readFile(join(repoPath, ALLOWLIST_FILE), 'utf-8'));
+  } catch {
+    return { paths: [], lines: new Set(), regexes: [] }; // No allowlist in this repo
+  }
+}
+
+function isSkippedFile(filePath: string): boolean {
+  return filePath === ALLOWLIST_FILE || SKIPPED_FILES.includes(filePath.split('/').pop() || '');
+}
+
+/**
+ * Walk the tracked files of a checkout, returning fingerprinted matches with
+ * their values. `fingerprints` also covers allowlisted matches, so history
+ * mode knows those secrets are still at HEAD.
+ */
+async function walkWorkingTree(repoPath: string): Promise<{
+  matches: LineMatch[];
+  fingerprints: Set<string>;
+  filesScanned: number;
+  allowlisted: number;
+}> {
+  // `git ls-files` only lists tracked files, which already excludes .gitignore'd paths
+  const git = simpleGit(repoPath);
+  const trackedFiles = (await git.raw(['ls-files', '-z']))
+    .split('\0')
+    .filter(Boolean);
+
+  const allowlist = await loadAllowlist(repoPath);
+  const matches: LineMatch[] = [];
+  const fingerprints = new Set<string>();
+  let filesScanned = 0;
+  let allowlisted = 0;
+
+  for (const filePath of trackedFiles) {
+    if (isSkippedFile(filePath)) continue;
+
+    const absolutePath = join(repoPath, filePath);
+    let buffer: Buffer;
+    try {
+      const stat = await fs.stat(absolutePath);
+      if (!stat.isFile() || stat.size > MAX_FILE_BYTES) continue;
+      buffer = await fs.readFile(absolutePath);
+    } catch {
+      continue; // Deleted in working tree or unreadable
+    }
+
+    if (isBinary(buffer)) continue;
+    filesScanned++;
+
+    const lines = buffer.toString('utf-8').split('\n');
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+      const lineMatches = scanLine(lines[lineIndex], lineIndex + 1);
+      if (lineMatches.length === 0) continue;
+      lineMatches.forEach(m => fingerprints.add(fingerprintSecret(m.value)));
+
+      if (isAllowlisted(allowlist, filePath, lines[lineIndex], lineIndex + 1)) {
+        allowlisted += lineMatches.length;
+        continue;
+      }
+
+      matches.push(...lineMatches.map(m => ({
+        ...m,
+        finding: { ...m.finding, filePath, fingerprint: fingerprintSecret(m.value) },
+      })));
+    }
+  }
+
+  return { matches, fingerprints, filesScanned, allowlisted };
+}
+
+/**
+ * Scan every tracked file in a local git checkout
+ * @param repoPath - Path to the cloned repository
+ */
+export async function scanSecretsInRepo(repoPath: string): Promise<SecretsScanResult> {
+  if (!repoPath) {
+    return {
+      status: 'error',
+      findings: [],
+      totalFindings: 0,
+      error: 'Repository path is required'
+    };
+  }
+
+  try {
+    const { matches, filesScanned, allowlisted } = await walkWorkingTree(repoPath);
+    const findings = matches.map(m => m.finding);
+
+    return {
+      status: findings.length > 0 ? 'secrets_found' : 'ok',
+      findings,
+      totalFindings: findings.length,
+      filesScanned,
+      allowlisted,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      findings: [],
+      totalFindings: 0,
+      error: error instanceof Error ? error.message : 'Unknown error during repository secrets scan'
+    };
+  }
+}
+
+// ============================================================================
+// HISTORY MODE
+// ============================================================================
+
+const COMMIT_MARKER = '\u0001commit\u0001';
+
+/**
+ * Walk `git log -p` oldest-first and record where each secret first appeared
+ * @param repoPath - Path to a full (non-shallow) clone
+ */
+export async function scanSecretsHistory(repoPath: string): Promise<SecretsScanResult> {
+  if (!repoPath) {
+    return {
+      status: 'error',
+      findings: [],
+      totalFindings: 0,
+      error: 'Repository path is required'
+    };
+  }
+
+  try {
+    const allowlist = await loadAllowlist(repoPath);
+
+    // Secrets still at HEAD (allowlisted or not) are matched by fingerprint,
+    // wherever they moved to
+    const { fingerprints: headFingerprints } = await walkWorkingTree(repoPath);
+
+    const firstSeen = new Map<string, HistorySecretFinding>();
+    let commitsScanned = 0;
+    let allowlisted = 0;
+
+    let commit = { sha: '', author: '', date: '' };
+    let filePath: string | null = null;
+    let lineNumber = 0;
+
+    // Stream the log - full patches of a large repo don't fit in a buffer
+    const gitLog = spawn('git', [
+      'log', '-p', '--reverse', '--no-color', '--unified=0', '--no-renames',
+      `--format=${COMMIT_MARKER}%H%x09%an <%ae>%x09%aI`,
+    ], { cwd: repoPath });
+    const exitCode = new Promise<number | null>(resolve => gitLog.on('close', resolve));
+    const stderr: string[] = [];
+    gitLog.stderr.on('data', chunk => stderr.push(String(chunk)));
+
+    for await (const line of createInterface({ input: gitLog.stdout, crlfDelay: Infinity })) {
+      if (line.startsWith(COMMIT_MARKER)) {
+        const [sha, author, date] = line.slice(COMMIT_MARKER.length).split('\t');
+        commit = { sha, author, date };
+        filePath = null;
+        commitsScanned++;
+        continue;
+      }
+
+      if (line.startsWith('+++ ')) {
+        // `+++ /dev/null` is a deletion - nothing added to scan
+        filePath = line.startsWith('+++ b/') ? line.slice('+++ b/'.length) : null;
+        if (filePath && isSkippedFile(filePath)) filePath = null;
+        continue;
+      }
+
+      const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      if (hunk) {
+        lineNumber = parseInt(hunk[1], 10);
+        continue;
+      }
+
+      if (!filePath || !line.startsWith('+')) continue;
+
+      const added = line.slice(1);
+      const addedAt = lineNumber++;
+      const lineMatches = scanLine(added, addedAt);
+      if (lineMatches.length === 0) continue;
+
+      if (isAllowlisted(allowlist, filePath, added, addedAt)) {
+        allowlisted += lineMatches.length;
+        continue;
+      }
+
+      for (const { finding, value } of lineMatches) {
+        const fingerprint = fingerprintSecret(value);
+        if (firstSeen.has(fingerprint)) continue;
+
+        firstSeen.set(fingerprint, {
+          ...finding,
+          filePath,
+          fingerprint,
+          commitSha: commit.sha,
+          author: commit.author,
+          committedAt: commit.date,
+          presentAtHead: headFingerprints.has(fingerprint),
+        });
+      }
+    }
+
+    if ((await exitCode) !== 0) {
+      throw new Error(`git log failed: ${stderr.join('').trim()}`);
+    }
+
+    const historyFindings = Array.from(firstSeen.values());
+
+    return {
+      status: historyFindings.length > 0 ? 'secrets_found' : 'ok',
+      findings: [],
+      totalFindings: historyFindings.length,
+      historyFindings,
+      commitsScanned,
+      allowlisted,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      findings: [],
+      totalFindings: 0,
+      error: error instanceof Error ? error.message : 'Unknown error during git history secrets scan'
+    };
+  }
+}
+
+/**
+ * Scan a local checkout's working tree and its full git history.
+ * Secrets still at HEAD are counted once, with their current location.
+ */
+export async function scanSecretsWithHistory(repoPath: string): Promise<SecretsScanResult> {
+  const result = await scanSecretsInRepo(repoPath);
+  if (result.status === 'error') return result;
+
+  const history = await scanSecretsHistory(repoPath);
+  if (history.status === 'error') {
+    return { ...result, error: history.error };
+  }
+
+  const historyFindings = history.historyFindings || [];
+  const totalFindings = result.totalFindings + historyFindings.filter(f => !f.presentAtHead).length;
+
+  return {
+    ...result,
+    status: totalFindings > 0 ? 'secrets_found' : 'ok',
+    totalFindings,
+    historyFindings,
+    commitsScanned: history.commitsScanned,
+  };
+}
+
+/**
+ * Check out a repository and scan every tracked file for secrets
+ * @param cloneUrl - Clone URL (use getAuthenticatedCloneUrl for private repos)
+ * @param options.includeHistory - Also walk git history for secrets removed from HEAD
+ */
+export async function scanRepositorySecrets(
+  cloneUrl: string,
+  options: { includeHistory?: boolean } = {}
+): Promise<SecretsScanResult> {
+  let repoPath: string | null = null;
+
+  try {
+    repoPath = await acquireWorktree(cloneUrl);
+    return options.includeHistory
+      ? await scanSecretsWithHistory(repoPath)
+      : await scanSecretsInRepo(repoPath);
+  } catch (error) {
+    return {
+      status: 'error',
+      findings: [],
+      totalFindings: 0,
+      error: error instanceof Error ? error.message : 'Unknown error during repository secrets scan'
+    };
+  } finally {
+    if (repoPath) await releaseWorktree(repoPath);
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+// Short content hash for issue keys
+const issueHash = (value: string) => createHash('sha256').update(value).digest('hex').slice(0, 12);
+
+type StoredSecrets = Pick<SecretsScanResult, 'findings' | 'historyFindings' | 'commitsScanned' | 'filesScanned' | 'allowlisted'>;
+
+export const secretsScanner: ScannerDefinition<SecretsScanResult, StoredSecrets> = {
+  type: 'secrets',
+  description: 'Scan a repository and its git history for exposed secrets',
+  inputs: ['repo'],
+  timeoutMs: 5 * 60 * 1000,
+  column: 'securityIssues',
+  scheduled: false,
+  tool: { name: 'ScanSecurity', description: 'Scan a repository for security issues (npm audit, secrets)' },
+
+  async run(target) {
+    const result = await scanSecretsWithHistory(target.repoPath!);
+    if (result.status === 'error') {
+      throw new Error(result.error || 'Secrets scan failed');
+    }
+    return result;
+  },
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: {
+      findings: result.findings || [],
+      historyFindings: result.historyFindings || [],
+      commitsScanned: result.commitsScanned || 0,
+      filesScanned: result.filesScanned || 0,
+      allowlisted: result.allowlisted || 0,
+    },
+    summary: `${result.findings?.length || 0} findings in ${result.filesScanned || 0} files, ${result.historyFindings?.length || 0} in history`,
+  }),
+
+  normalize(data) {
+    const issues: ScanIssue[] = [];
+    // Keyed on content rather than line number so unrelated edits don't churn
+    for (const f of data?.findings || []) {
+      issues.push({
+        key: `secrets:${f.pattern}:${f.filePath || 'unknown'}:${issueHash(f.lineContent.trim())}`,
+        title: `${f.pattern} exposed in ${f.filePath || 'unknown file'}`,
+        severity: f.severity,
+      });
+    }
+    for (const h of (data?.historyFindings || []).filter(h => !h.presentAtHead)) {
+      issues.push({
+        key: `secrets:history:${h.fingerprint}`,
+        title: `${h.pattern} leaked in git history (${h.filePath})`,
+        severity: 'critical',
+      });
+    }
+    return issues;
+  },
+
+  checklist: {
+    security_passing: (data) =>
+      (data?.findings || []).length === 0 &&
+      (data?.historyFindings || []).every(h => h.presentAtHead),
+  },
+};
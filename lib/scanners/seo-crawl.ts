@@ -0,0 +1,531 @@
+/**
+ * SEO Crawl Scanner
+ *
+ * Crawler mode for the SEO scanner: follows internal links from the homepage
+ * up to a depth and page limit and checks every link it finds. Results are
+ * stored per page so stories can name the exact URL to fix.
+ *
+ * Reports broken links (4xx/5xx), redirect chains, sitemap pages nothing links
+ * to, duplicate titles and descriptions, missing canonicals, and pages blocked
+ * by robots.txt or noindex.
+ */
+
+import { extractSeoTags } from './seo';
+import { fetchSitemapUrls } from './sitemap';
+import type { ScannerDefinition, ScanIssue } from './types';
+
+const USER_AGENT = 'VirtualCofounderScanner/1.0';
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 5;
+const CONCURRENCY = 4;
+const MAX_LINK_CHECKS = 150; // HEAD checks for links the crawl itself didn't fetch
+
+const DEFAULT_MAX_DEPTH = 3;
+const DEFAULT_MAX_PAGES = 50;
+
+/**
+ * Per-project options, stored at ProjectAgentConfig.agentSettings.seo.crawl
+ */
+export interface CrawlSettings {
+  maxDepth?: number;
+  maxPages?: number;
+  checkExternal?: boolean; // Also check links to other hosts (default true)
+}
+
+export interface BrokenLink {
+  url: string;
+  status: number; // 0 when unreachable or stuck in a redirect loop
+  external: boolean;
+}
+
+export interface CrawledPage {
+  url: string;
+  path: string;
+  depth: number;
+  status: number; // After following redirects
+  redirectChain?: string[]; // URLs that redirected, in order, when the page didn't load directly
+  title?: string;
+  metaDescription?: string;
+  canonical?: string;
+  noindex?: boolean;
+  inSitemap: boolean;
+  brokenLinks: BrokenLink[];
+}
+
+export interface BlockedPage {
+  path: string;
+  by: 'robots.txt' | 'noindex';
+  inSitemap: boolean;
+}
+
+export interface DuplicateGroup {
+  value: string;
+  pages: string[];
+}
+
+export interface SeoCrawlData {
+  origin: string;
+  maxDepth: number;
+  maxPages: number;
+  complete: boolean; // False when the depth or page limit cut the crawl short
+  pages: CrawledPage[];
+  blocked: BlockedPage[];
+  orphans: string[]; // Sitemap paths no crawled page links to (only when complete)
+  duplicateTitles: DuplicateGroup[];
+  duplicateDescriptions: DuplicateGroup[];
+}
+
+export interface SeoCrawlResult {
+  status: 'ok' | 'error';
+  crawlData?: SeoCrawlData;
+  error?: string;
+}
+
+// ============================================================================
+// ROBOTS.TXT
+// ============================================================================
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/**
+ * Rules from the robots.txt groups that apply to all crawlers (User-agent: *)
+ */
+export function parseRobotsTxt(txt: string): RobotsRule[] {
+  const rules: RobotsRule[] = [];
+  let groupAgents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of txt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+    if (!match) continue;
+
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'user-agent') {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        groupAgents = [];
+        inRules = false;
+      }
+      groupAgents.push(value.toLowerCase());
+    } else if (field === 'allow' || field === 'disallow') {
+      inRules = true;
+      if (groupAgents.includes('*') && value) {
+        rules.push({ allow: field === 'allow', path: value });
+      }
+    }
+  }
+
+  return rules;
+}
+
+function robotsPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Longest matching rule wins; Allow wins a tie
+ */
+export function isBlockedByRobots(rules: RobotsRule[], pathWithQuery: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!robotsPattern(rule.path).test(pathWithQuery)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best ? !best.allow : false;
+}
+
+// ============================================================================
+// CRAWL
+// ============================================================================
+
+interface FetchResult {
+  status: number;
+  finalUrl: string;
+  chain: string[];
+  html?: string;
+  noindexHeader: boolean;
+}
+
+/**
+ * Fetch a URL following redirects by hand so the chain is visible
+ */
+async function fetchFollowingRedirects(url: string, method: 'GET' | 'HEAD'): Promise<FetchResult> {
+  const chain: string[] = [];
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    let response: Response;
+    try {
+      response = await fetch(current, {
+        method,
+        redirect: 'manual',
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+    } catch {
+      return { status: 0, finalUrl: current, chain, noindexHeader: false };
+    }
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      chain.push(current);
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    const isHtml = (response.headers.get('content-type') || '').includes('text/html');
+    const html = method === 'GET' && isHtml && response.ok ? await response.text() : undefined;
+    if (html === undefined) await response.body?.cancel();
+
+    return {
+      status: response.status,
+      finalUrl: current,
+      chain,
+      html,
+      noindexHeader: /noindex/i.test(response.headers.get('x-robots-tag') || ''),
+    };
+  }
+
+  // Redirect loop or an excessively long chain
+  return { status: 0, finalUrl: current, chain, noindexHeader: false };
+}
+
+async function checkLink(url: string): Promise<number> {
+  const head = await fetchFollowingRedirects(url, 'HEAD');
+  // Some servers reject HEAD outright
+  if (head.status === 405 || head.status === 501) {
+    return (await fetchFollowingRedirects(url, 'GET')).status;
+  }
+  return head.status;
+}
+
+/**
+ * Comparison key for a URL: no fragment, no trailing slash (except the root)
+ */
+export function pageKey(url: string): string {
+  const parsed = new URL(url);
+  const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : parsed.pathname;
+  return `${parsed.origin}${path}${parsed.search}`;
+}
+
+function displayPath(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+/**
+ * Absolute http(s) link targets from anchor tags, without fragments
+ */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const links = new Set<string>();
+  for (const match of Array.from(html.matchAll(/<a\s[^>]*href=["']([^"']+)["']/gi))) {
+    const href = match[1].trim();
+    if (!href || href.startsWith('#') || /^(?:mailto|tel|javascript|data):/i.test(href)) continue;
+    try {
+      const url = new URL(href.replace(/&amp;/g, '&'), baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+      url.hash = '';
+      links.add(url.toString());
+    } catch {
+      continue; // Malformed href
+    }
+  }
+  return Array.from(links);
+}
+
+function hasNoindexMeta(html: string): boolean {
+  return /<meta[^>]*name=["']robots["'][^>]*content=["'][^"']*noindex/i.test(html);
+}
+
+/**
+ * Pages (by path) sharing the same non-empty value
+ */
+export function findDuplicates(pages: CrawledPage[], field: 'title' | 'metaDescription'): DuplicateGroup[] {
+  const groups = new Map<string, DuplicateGroup>();
+  for (const page of pages) {
+    const value = page[field]?.trim();
+    if (!value) continue;
+    const key = value.toLowerCase().replace(/\s+/g, ' ');
+    const group = groups.get(key) || { value, pages: [] };
+    group.pages.push(page.path);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).filter(group => group.pages.length > 1);
+}
+
+async function inBatches<T>(items: T[], fn: (item: T) => Promise<void>): Promise<void> {
+  for (let i = 0; i < items.length; i += CONCURRENCY) {
+    await Promise.all(items.slice(i, i + CONCURRENCY).map(fn));
+  }
+}
+
+/**
+ * Crawl a site breadth-first from the homepage
+ */
+export async function crawlSite(domain: string, settings: CrawlSettings = {}): Promise<SeoCrawlResult> {
+  if (!domain) {
+    return { status: 'error', error: 'Domain is required' };
+  }
+
+  const origin = new URL(domain.startsWith('http') ? domain : `https://${domain}`).origin;
+  const host = new URL(origin).host;
+  const maxDepth = settings.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxPages = settings.maxPages ?? DEFAULT_MAX_PAGES;
+  const checkExternal = settings.checkExternal ?? true;
+
+  try {
+    const robotsResponse = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    }).catch(() => null);
+    const robotsRules = robotsResponse?.ok ? parseRobotsTxt(await robotsResponse.text()) : [];
+    const sitemapKeys = new Set((await fetchSitemapUrls(origin)).map(pageKey));
+
+    const pages = new Map<string, CrawledPage>(); // By pageKey of the requested URL
+    const pageLinks = new Map<string, string[]>();
+    const seen = new Set<string>();
+    const linkedKeys = new Set<string>();
+    const blocked = new Map<string, BlockedPage>();
+    let complete = true;
+
+    const isInternal = (url: string) => new URL(url).host === host;
+
+    const crawlPage = async (url: string, depth: number) => {
+      const result = await fetchFollowingRedirects(url, 'GET');
+      const key = pageKey(url);
+      const finalKey = pageKey(result.finalUrl);
+      // A redirect to a page crawled elsewhere only needs its chain recorded
+      const alreadyCrawled = finalKey !== key && seen.has(finalKey);
+      seen.add(finalKey);
+
+      const page: CrawledPage = {
+        url,
+        path: displayPath(url),
+        depth,
+        status: result.status,
+        inSitemap: sitemapKeys.has(key),
+        brokenLinks: [],
+      };
+      if (result.chain.length > 0) page.redirectChain = result.chain;
+
+      if (result.html && !alreadyCrawled && isInternal(result.finalUrl)) {
+        const tags = extractSeoTags(result.html);
+        page.title = tags.title || undefined;
+        page.metaDescription = tags.metaDescription || undefined;
+        page.canonical = tags.canonical || undefined;
+        if (result.noindexHeader || hasNoindexMeta(result.html)) {
+          page.noindex = true;
+          blocked.set(page.path, { path: page.path, by: 'noindex', inSitemap: page.inSitemap });
+        }
+        pageLinks.set(key, extractLinks(result.html, result.finalUrl));
+      }
+
+      pages.set(key, page);
+    };
+
+    // Breadth-first, one depth level at a time
+    let frontier = [`${origin}/`];
+    for (let depth = 0; depth <= maxDepth && frontier.length > 0; depth++) {
+      const batch: string[] = [];
+      for (const url of frontier) {
+        const key = pageKey(url);
+        if (seen.has(key)) continue;
+        if (isBlockedByRobots(robotsRules, displayPath(url))) {
+          const path = displayPath(url);
+          blocked.set(path, { path, by: 'robots.txt', inSitemap: sitemapKeys.has(key) });
+          continue;
+        }
+        if (seen.size >= maxPages) {
+          complete = false;
+          break;
+        }
+        seen.add(key);
+        batch.push(url);
+      }
+
+      await inBatches(batch, url => crawlPage(url, depth));
+
+      const next = new Set<string>();
+      for (const url of batch) {
+        for (const link of pageLinks.get(pageKey(url)) || []) {
+          if (!isInternal(link)) continue;
+          linkedKeys.add(pageKey(link));
+          if (!seen.has(pageKey(link))) next.add(link);
+        }
+      }
+      if (depth === maxDepth && next.size > 0) complete = false;
+      frontier = Array.from(next);
+    }
+
+    // Sitemap pages robots.txt blocks are worth flagging even if nothing links to them
+    for (const key of Array.from(sitemapKeys)) {
+      const path = displayPath(key);
+      if (!blocked.has(path) && isBlockedByRobots(robotsRules, path)) {
+        blocked.set(path, { path, by: 'robots.txt', inSitemap: true });
+      }
+    }
+
+    // Check every link found on crawled pages
+    const linkStatus = new Map<string, Promise<number>>();
+    let checks = 0;
+    const statusOf = (link: string): Promise<number> | null => {
+      const key = pageKey(link);
+      const crawled = pages.get(key);
+      if (crawled) return Promise.resolve(crawled.status);
+      if (isInternal(link) && isBlockedByRobots(robotsRules, displayPath(link))) return null;
+      if (!isInternal(link) && !checkExternal) return null;
+      if (!linkStatus.has(key)) {
+        if (checks >= MAX_LINK_CHECKS) return null;
+        checks++;
+        linkStatus.set(key, checkLink(link));
+      }
+      return linkStatus.get(key)!;
+    };
+
+    await inBatches(Array.from(pageLinks.entries()), async ([key, links]) => {
+      const page = pages.get(key)!;
+      for (const link of links) {
+        const status = await statusOf(link);
+        if (status === null || (status > 0 && status < 400)) continue;
+        page.brokenLinks.push({ url: link, status, external: !isInternal(link) });
+      }
+    });
+
+    const crawled = Array.from(pages.values());
+    const indexable = crawled.filter(page => page.status >= 200 && page.status < 300 && !page.redirectChain && !page.noindex);
+
+    return {
+      status: 'ok',
+      crawlData: {
+        origin,
+        maxDepth,
+        maxPages,
+        complete,
+        pages: crawled,
+        blocked: Array.from(blocked.values()),
+        // Blocked sitemap pages are already reported as blocked
+        orphans: complete
+          ? Array.from(sitemapKeys)
+            .filter(key => !linkedKeys.has(key) && key !== pageKey(`${origin}/`) && !blocked.has(displayPath(key)))
+            .map(displayPath)
+          : [],
+        duplicateTitles: findDuplicates(indexable, 'title'),
+        duplicateDescriptions: findDuplicates(indexable, 'metaDescription'),
+      },
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const MAX_LISTED_PATHS = 5;
+
+function listPaths(paths: string[]): string {
+  const shown = paths.slice(0, MAX_LISTED_PATHS).join(', ');
+  return paths.length > MAX_LISTED_PATHS ? `${shown} and ${paths.length - MAX_LISTED_PATHS} more` : shown;
+}
+
+export const seoCrawlScanner: ScannerDefinition<SeoCrawlResult, SeoCrawlData> = {
+  type: 'seo_crawl',
+  description: 'Crawl a site for broken links, redirect chains, orphan pages, duplicate metadata and robots blocks',
+  inputs: ['domain'],
+  timeoutMs: 5 * 60 * 1000,
+  column: 'crawlData',
+  scheduled: false,
+
+  run: (target) => crawlSite(target.domain!, target.agentSettings?.seo?.crawl),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: result.crawlData || {},
+    summary: result.crawlData
+      ? `${result.crawlData.pages.length} pages crawled, ${result.crawlData.pages.reduce((sum, p) => sum + p.brokenLinks.length, 0)} broken links`
+      : result.error || result.status,
+  }),
+
+  normalize(data) {
+    if (!data?.pages) return [];
+    const issues: ScanIssue[] = [];
+
+    for (const page of data.pages) {
+      if (page.brokenLinks.length > 0) {
+        const count = page.brokenLinks.length;
+        issues.push({
+          key: `seo_crawl:broken_links:${page.path}`,
+          title: `Fix ${count} broken link${count === 1 ? '' : 's'} on ${page.path}`,
+          severity: page.brokenLinks.some(link => !link.external) ? 'high' : 'medium',
+        });
+      }
+      if (page.redirectChain && page.redirectChain.length > 1) {
+        issues.push({
+          key: `seo_crawl:redirect_chain:${page.path}`,
+          title: `${page.path} goes through ${page.redirectChain.length} redirects`,
+          severity: 'medium',
+        });
+      }
+    }
+
+    for (const page of data.blocked) {
+      if (!page.inSitemap) continue; // Blocking pages outside the sitemap is usually intentional
+      issues.push({
+        key: `seo_crawl:blocked:${page.path}`,
+        title: `${page.path} is in the sitemap but blocked by ${page.by}`,
+        severity: 'high',
+      });
+    }
+
+    for (const path of data.orphans) {
+      issues.push({ key: `seo_crawl:orphan:${path}`, title: `${path} is in the sitemap but no page links to it`, severity: 'low' });
+    }
+
+    for (const group of data.duplicateTitles) {
+      issues.push({
+        key: `seo_crawl:duplicate_title:${group.value.toLowerCase()}`,
+        title: `${group.pages.length} pages share the title "${group.value}" (${listPaths(group.pages)})`,
+        severity: 'medium',
+      });
+    }
+
+    for (const group of data.duplicateDescriptions) {
+      issues.push({
+        key: `seo_crawl:duplicate_description:${group.value.toLowerCase()}`,
+        title: `${group.pages.length} pages share the same meta description (${listPaths(group.pages)})`,
+        severity: 'low',
+      });
+    }
+
+    const missingCanonical = data.pages
+      .filter(page => page.status >= 200 && page.status < 300 && !page.redirectChain && !page.noindex && !page.canonical)
+      .map(page => page.path);
+    if (missingCanonical.length > 0) {
+      issues.push({
+        key: 'seo_crawl:missing_canonical',
+        title: `${missingCanonical.length} page${missingCanonical.length === 1 ? '' : 's'} missing a canonical tag (${listPaths(missingCanonical)})`,
+        severity: 'low',
+      });
+    }
+
+    return issues;
+  },
+};
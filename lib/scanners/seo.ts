@@ -5,6 +5,8 @@
  * Ported from: /Users/miguel/Reboot/dashboard-archive/scripts/scan_projects.js (analyzeSeo function)
  */
 
+import type { ScannerDefinition, ScanIssue, IssueSeverity } from './types';
+
 export interface SeoScanResult {
   status: 'ok' | 'error';
   seoDetail: {
@@ -28,6 +30,21 @@ function extractFirstMatch(html: string, regex: RegExp): string {
   return match ? match[1].trim() : '';
 }
 
+/**
+ * Extract title, description, OG tags, canonical and H1 from page HTML
+ */
+export function extractSeoTags(html: string) {
+  return {
+    title: extractFirstMatch(html, /<title[^>]*>([^<]+)<\/title>/i),
+    metaDescription: extractFirstMatch(html, /<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i),
+    ogTitle: extractFirstMatch(html, /<meta[^>]*property=["']og:title["'][^>]*content=["']([^"']+)["']/i),
+    ogDescription: extractFirstMatch(html, /<meta[^>]*property=["']og:description["'][^>]*content=["']([^"']+)["']/i),
+    ogImage: extractFirstMatch(html, /<meta[^>]*property=["']og:image["'][^>]*content=["']([^"']+)["']/i),
+    canonical: extractFirstMatch(html, /<link[^>]*rel=["']canonical["'][^>]*href=["']([^"']+)["']/i),
+    h1: extractFirstMatch(html, /<h1[^>]*>([^<]+)<\/h1>/i),
+  };
+}
+
 export async function scanSEO(domain: string): Promise<SeoScanResult> {
   if (!domain) {
     return {
@@ -62,13 +79,7 @@ export async function scanSEO(domain: string): Promise<SeoScanResult> {
     const html = await response.text();
 
     // Extract SEO elements
-    const title = extractFirstMatch(html, /<title[^>]*>([^<]+)<\/title>/i);
-    const metaDescription = extractFirstMatch(html, /<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i);
-    const ogTitle = extractFirstMatch(html, /<meta[^>]*property=["']og:title["'][^>]*content=["']([^"']+)["']/i);
-    const ogDescription = extractFirstMatch(html, /<meta[^>]*property=["']og:description["'][^>]*content=["']([^"']+)["']/i);
-    const ogImage = extractFirstMatch(html, /<meta[^>]*property=["']og:image["'][^>]*content=["']([^"']+)["']/i);
-    const canonical = extractFirstMatch(html, /<link[^>]*rel=["']canonical["'][^>]*href=["']([^"']+)["']/i);
-    const h1 = extractFirstMatch(html, /<h1[^>]*>([^<]+)<\/h1>/i);
+    const { title, metaDescription, ogTitle, ogDescription, ogImage, canonical, h1 } = extractSeoTags(html);
 
     // Check for robots.txt and sitemap
     const robotsTxt = await checkRobotsTxt(domain);
@@ -154,3 +165,50 @@ async function checkSitemap(domain: string): Promise<boolean> {
     return false;
   }
 }
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const seoScanner: ScannerDefinition<SeoScanResult, SeoScanResult['seoDetail']> = {
+  type: 'seo',
+  description: 'Scan a URL for SEO issues (meta tags, headings, etc)',
+  inputs: ['domain'],
+  timeoutMs: 30000,
+  column: 'seoDetail',
+  scheduled: true,
+  defaultSchedule: '5 9 * * *',
+  tool: { name: 'ScanSEO', description: 'Scan a URL for SEO issues (meta tags, headings, etc)' },
+
+  // robots.txt and sitemap.xml are checked at the root, so drop any path
+  run: (target) => scanSEO(target.domain!.replace(/^https?:\/\//, '').split('/')[0]),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: result.seoDetail || {},
+    summary: result.seoScore,
+  }),
+
+  normalize(data) {
+    if (!data) return [];
+    const checks: Array<[string, string, IssueSeverity, unknown]> = [
+      ['title', 'Missing page title', 'high', data.title],
+      ['meta_description', 'Missing meta description', 'medium', data.metaDescription],
+      ['og_tags', 'Missing Open Graph tags', 'low', data.ogTitle || data.ogDescription || data.ogImage],
+      ['og_image', 'Missing Open Graph image', 'low', data.ogImage],
+      ['h1', 'Missing H1 heading', 'medium', data.h1],
+      ['canonical', 'Missing canonical URL', 'low', data.canonical],
+      ['robots_txt', 'Missing robots.txt', 'low', data.robotsTxt],
+      ['sitemap', 'Missing sitemap.xml', 'medium', data.sitemap],
+    ];
+    const issues: ScanIssue[] = [];
+    for (const [id, title, severity, value] of checks) {
+      if (!value) issues.push({ key: `seo:missing:${id}`, title, severity });
+    }
+    return issues;
+  },
+
+  checklist: {
+    seo_optimized: (data) => !!(data?.title && data?.metaDescription),
+  },
+};
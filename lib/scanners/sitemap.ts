@@ -0,0 +1,63 @@
+/**
+ * Sitemap Helpers
+ *
+ * Shared by scanners that need a site's page list (performance budgets,
+ * SEO crawl). Not a scanner itself.
+ */
+
+const USER_AGENT = 'VirtualCofounderScanner/1.0';
+
+// Child sitemaps followed from a sitemap index
+const MAX_CHILD_SITEMAPS = 5;
+
+function extractLocs(xml: string): string[] {
+  return Array.from(xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi), m => m[1].replace(/&amp;/g, '&'));
+}
+
+/**
+ * Extract same-host page URLs from a sitemap
+ */
+export function parseSitemapUrls(xml: string, origin: string): string[] {
+  const host = new URL(origin).host;
+
+  return extractLocs(xml).filter(loc => {
+    try {
+      const url = new URL(loc);
+      return url.host === host && !/\.(?:xml|pdf|jpe?g|png|gif|svg|webp|zip)$/i.test(url.pathname);
+    } catch {
+      return false;
+    }
+  });
+}
+
+async function fetchText(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(8000),
+    });
+    return response.ok ? await response.text() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Page URLs listed in /sitemap.xml, following a sitemap index one level down.
+ * Returns an empty list when there is no sitemap.
+ */
+export async function fetchSitemapUrls(origin: string): Promise<string[]> {
+  const xml = await fetchText(`${origin}/sitemap.xml`);
+  if (!xml) return [];
+
+  if (!/<sitemapindex/i.test(xml)) {
+    return parseSitemapUrls(xml, origin);
+  }
+
+  const urls: string[] = [];
+  for (const child of extractLocs(xml).slice(0, MAX_CHILD_SITEMAPS)) {
+    const childXml = await fetchText(child);
+    if (childXml) urls.push(...parseSitemapUrls(childXml, origin));
+  }
+  return Array.from(new Set(urls));
+}
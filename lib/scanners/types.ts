@@ -0,0 +1,101 @@
+/**
+ * Scanner Plugin Types
+ *
+ * Every scanner exports a ScannerDefinition next to its implementation and is
+ * listed once in ./registry.ts. The scan worker, /api/scans/trigger, the agent
+ * scan tools, scan deltas and the launch checklist all read from the registry,
+ * so adding a scanner doesn't mean touching each of them.
+ */
+
+export type IssueSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/**
+ * Common finding shape every scanner normalizes its stored result into
+ */
+export interface ScanIssue {
+  key: string; // Stable identity across scans, e.g. 'seo:missing:meta_description'
+  title: string;
+  severity: IssueSeverity;
+}
+
+/**
+ * What a scanner needs to run:
+ * - domain: the project's live domain
+ * - repo: a local checkout of the project's repository
+ * - project: the project name (e.g. to look up the Vercel project)
+ */
+export type ScannerInput = 'domain' | 'repo' | 'project';
+
+export interface ScanTarget {
+  projectName: string;
+  domain: string | null;
+  repoPath?: string; // Local checkout, provided when the scanner declares 'repo'
+  agentSettings?: Record<string, any>; // ProjectAgentConfig.agentSettings, for per-project scanner options
+  hasResend?: boolean; // Project sends email through Resend
+}
+
+/**
+ * JSON column on the Scan model a scanner's result is stored in
+ */
+export type ScanColumn =
+  | 'domainData'
+  | 'seoDetail'
+  | 'analyticsData'
+  | 'vercelData'
+  | 'playwrightMetrics'
+  | 'securityIssues'
+  | 'integrationsData'
+  | 'crawlData'
+  | 'accessibilityData';
+
+/**
+ * A condition urgent enough to raise a priority signal as soon as it's scanned
+ */
+export interface ScanSignal {
+  message: string; // Same text for the same condition across scans, so repeats are skipped
+  severity: IssueSeverity;
+}
+
+/**
+ * What gets written to the Scan row for a run
+ */
+export interface ScannerOutput {
+  status: string;
+  data: object; // Payload stored in the scanner's column
+  summary: string; // One-line result for worker logs
+}
+
+export interface ScannerDefinition<TResult = unknown, TStored = any> {
+  type: string; // Stored as Scan.scanType and used as the BullMQ job's scanType
+  description: string;
+  inputs: ScannerInput[]; // Required; the scan is skipped when one is unavailable
+  optionalInputs?: ScannerInput[]; // Used when available
+  timeoutMs: number;
+
+  // Result schema: which column the result lives in and the stored payload type
+  column: ScanColumn;
+  run(target: ScanTarget): Promise<TResult>;
+  toRecord(result: TResult): ScannerOutput;
+
+  // Normalization of a stored result into common findings (scan deltas, orchestrator)
+  normalize(stored: TStored | null, status: string): ScanIssue[];
+
+  // Launch checklist items this scanner can answer, from its latest ok scan
+  checklist?: Record<string, (stored: TStored) => boolean>;
+
+  // Urgent conditions raised through the priority classifier after each scan
+  signals?(stored: TStored): ScanSignal[];
+
+  // Included when /api/scans/trigger scans every project
+  scheduled: boolean;
+
+  // Default per-project cadence (lib/schedules.ts): a cron expression, or
+  // 'on_push' to scan on each push to the project's repo. Unset = on demand.
+  defaultSchedule?: string;
+
+  // Exposed to agents as a custom tool when set
+  tool?: {
+    name: string;
+    description: string;
+  };
+}
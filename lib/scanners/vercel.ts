@@ -4,6 +4,8 @@
  * Uses Vercel API to check deployment status, build duration, and URLs
  */
 
+import type { ScannerDefinition } from './types';
+
 const VERCEL_API_BASE = 'https://api.vercel.com';
 
 export interface VercelScanResult {
@@ -127,3 +129,35 @@ export async function scanVercelDeployment(
     };
   }
 }
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const vercelScanner: ScannerDefinition<VercelScanResult, VercelScanResult['latestDeployment']> = {
+  type: 'vercel',
+  description: 'Check the latest Vercel deployment for a project',
+  inputs: ['project'],
+  timeoutMs: 30000,
+  column: 'vercelData',
+  scheduled: false,
+
+  run: (target) => scanVercelDeployment(target.projectName),
+
+  toRecord: (result) => ({
+    status: result.status,
+    data: result.latestDeployment || {},
+    summary: result.latestDeployment?.state || result.status,
+  }),
+
+  normalize(data) {
+    if (data?.state === 'ERROR') {
+      return [{ key: 'vercel:deployment_failed', title: 'Latest Vercel deployment failed', severity: 'critical' }];
+    }
+    return [];
+  },
+
+  checklist: {
+    has_deployment: (data) => !!data?.id,
+  },
+};
@@ -0,0 +1,140 @@
+/**
+ * Scan Delta
+ *
+ * Compares each scan to the previous scan of the same type for the project
+ * and classifies every issue as new, resolved, regressed or unchanged.
+ * The orchestrator only sees new and regressed issues, so a missing meta
+ * description reported yesterday doesn't become a second story today.
+ */
+
+import type { Scan } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { normalizeScan } from '@/lib/scanners/registry';
+import type { ScanIssue } from '@/lib/scanners/types';
+
+export type { ScanIssue, IssueSeverity } from '@/lib/scanners/types';
+
+// How many earlier scans to look back through when detecting regressions
+const REGRESSION_LOOKBACK = 30;
+
+export type DeltaClassification = 'new' | 'resolved' | 'regressed' | 'unchanged';
+
+export interface ScanDelta {
+  scanType: string;
+  previousScanId: string | null;
+  new: ScanIssue[];
+  resolved: ScanIssue[];
+  regressed: ScanIssue[];
+  unchanged: ScanIssue[];
+}
+
+type ScanRecord = Pick<
+  Scan,
+  'scanType' | 'status' | 'seoDetail' | 'vercelData' | 'playwrightMetrics' | 'securityIssues' | 'domainData' | 'analyticsData' | 'integrationsData' | 'crawlData' | 'accessibilityData'
+>;
+
+// ============================================================================
+// ISSUE EXTRACTION
+// ============================================================================
+
+/**
+ * Normalize a stored scan into a list of issues with stable keys,
+ * using the scanner's own normalization from the registry
+ */
+export function extractScanIssues(scan: ScanRecord): ScanIssue[] {
+  return normalizeScan(scan);
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * Classify current issues against the previous scan.
+ * @param earlierKeys - Issue keys from scans before the previous one; an issue
+ *   missing from the previous scan but seen earlier has regressed
+ */
+export function diffScanIssues(
+  scanType: string,
+  current: ScanIssue[],
+  previous: ScanIssue[] | null,
+  earlierKeys: Set<string> = new Set(),
+  previousScanId: string | null = null
+): ScanDelta {
+  const delta: ScanDelta = { scanType, previousScanId, new: [], resolved: [], regressed: [], unchanged: [] };
+  const previousKeys = new Set((previous || []).map(i => i.key));
+  const currentKeys = new Set(current.map(i => i.key));
+
+  for (const issue of current) {
+    if (previousKeys.has(issue.key)) {
+      delta.unchanged.push(issue);
+    } else if (earlierKeys.has(issue.key)) {
+      delta.regressed.push(issue);
+    } else {
+      delta.new.push(issue);
+    }
+  }
+
+  for (const issue of previous || []) {
+    if (!currentKeys.has(issue.key)) {
+      delta.resolved.push(issue);
+    }
+  }
+
+  return delta;
+}
+
+/**
+ * True when a delta contains anything the orchestrator should act on
+ */
+export function hasActionableChanges(delta: ScanDelta): boolean {
+  return delta.new.length > 0 || delta.regressed.length > 0;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Compute and store the delta for the latest scan of a type.
+ * Error scans carry no results, so they are skipped on both sides of the diff
+ * rather than marking every issue resolved.
+ */
+export async function recordScanDelta(projectId: string, scanType: string): Promise<ScanDelta | null> {
+  const scans = await prisma.scan.findMany({
+    where: { projectId, scanType, status: { not: 'error' } },
+    orderBy: { scannedAt: 'desc' },
+    take: REGRESSION_LOOKBACK + 2,
+  });
+
+  const [latest, previous, ...earlier] = scans;
+  if (!latest) return null;
+
+  const currentIssues = extractScanIssues(latest);
+  const previousIssues = previous
+    ? ((previous.issues as ScanIssue[] | null) ?? extractScanIssues(previous))
+    : null;
+
+  const earlierKeys = new Set<string>();
+  for (const scan of earlier) {
+    const issues = (scan.issues as ScanIssue[] | null) ?? extractScanIssues(scan);
+    for (const issue of issues) earlierKeys.add(issue.key);
+  }
+
+  const delta = diffScanIssues(scanType, currentIssues, previousIssues, earlierKeys, previous?.id ?? null);
+
+  await prisma.scan.update({
+    where: { id: latest.id },
+    data: {
+      issues: currentIssues as object[],
+      delta: delta as object,
+    },
+  });
+
+  console.log(
+    `[ScanDelta] ${scanType} for ${projectId}: ${delta.new.length} new, ${delta.regressed.length} regressed, ` +
+    `${delta.resolved.length} resolved, ${delta.unchanged.length} unchanged`
+  );
+
+  return delta;
+}
@@ -0,0 +1,53 @@
+/**
+ * Scan Signals
+ *
+ * Raises priority signals for urgent conditions a scanner declares (e.g. an
+ * SSL certificate about to expire), so they reach the priority system as soon
+ * as they're scanned instead of waiting for the next orchestrator run.
+ */
+
+import { prisma } from '@/lib/db';
+import { getScanner } from '@/lib/scanners/registry';
+import { processPrioritySignal } from '@/lib/priority/classifier';
+
+/**
+ * Classify and store a signal for each urgent condition in a scan result.
+ * A condition with an identical signal still active is skipped.
+ */
+export async function raiseScanSignals(params: {
+  workspaceId: string;
+  projectId: string;
+  scanType: string;
+  stored: unknown;
+}): Promise<number> {
+  const { workspaceId, projectId, scanType, stored } = params;
+  const scanner = getScanner(scanType);
+  if (!scanner?.signals || !stored) return 0;
+
+  let raised = 0;
+  for (const signal of scanner.signals(stored)) {
+    const active = await prisma.prioritySignal.findFirst({
+      where: {
+        projectId,
+        source: 'scan',
+        rawText: signal.message,
+        OR: [{ expiresAt: { gte: new Date() } }, { expiresAt: null }],
+      },
+      select: { id: true },
+    });
+    if (active) continue;
+
+    const { classification } = await processPrioritySignal({
+      source: 'scan',
+      signalType: 'scan_finding',
+      rawContent: signal.message,
+      workspaceId,
+      projectId,
+      metadata: { severity: signal.severity, scanType },
+    });
+    console.log(`[ScanSignals] ${scanType} for ${projectId}: ${classification.priorityLevel} "${signal.message}"`);
+    raised++;
+  }
+
+  return raised;
+}
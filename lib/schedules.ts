@@ -0,0 +1,522 @@
+/**
+ * Project Schedules
+ *
+ * Per-project cadences for scans and orchestrator runs. Each project's
+ * ProjectAgentConfig holds a time zone, a cadence per scan type and one for
+ * the orchestrator; unset entries use the defaults (the scanner's
+ * defaultSchedule, DEFAULT_ORCHESTRATOR_SCHEDULE). A cadence is a 5-field
+ * cron expression, 'on_push' (repo scanners, queued by the GitHub push
+ * webhook) or 'off'.
+ *
+ * Cron cadences are registered as BullMQ job schedulers on the `schedules`
+ * queue, one per project and target (syncProjectSchedules runs when a
+ * project is created and after every schedule change, and the schedule
+ * worker resyncs every project periodically to pick up other edits); the
+ * schedule worker turns each firing into a scan or orchestrator job. Paused and inactive projects have no schedulers and skip push scans.
+ * Scheduled work uses the workspace's daily scan quota like any other scan.
+ */
+
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { parseExpression } from 'cron-parser';
+import { prisma } from '@/lib/db';
+import { parseRepoUrl } from '@/lib/github';
+import { canRunScanner, getScanner, listScanners, usesRepo } from '@/lib/scanners/registry';
+import { reserveScans, releaseScans, QuotaExceededError } from '@/lib/quotas';
+import { enqueueScan } from '@/lib/queue/scans';
+
+export const SCHEDULES_QUEUE = 'schedules';
+
+export const ON_PUSH = 'on_push';
+export const OFF = 'off';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+export const DEFAULT_ORCHESTRATOR_SCHEDULE = '30 9,18 * * *'; // After the default morning and evening scans
+
+// Schedule fields on ProjectAgentConfig
+export interface ScheduleSettings {
+  timezone: string;
+  paused: boolean;
+  scanSchedules: Record<string, string>; // Overrides only
+  orchestratorSchedule: string | null;
+}
+
+export interface ScheduleUpdate {
+  timezone?: string;
+  paused?: boolean;
+  scanSchedules?: Record<string, string | null>; // null resets a scan type to its default
+  orchestratorSchedule?: string | null;
+}
+
+export interface ProjectSchedule {
+  id: string; // BullMQ job scheduler ID
+  kind: 'scan' | 'orchestrator';
+  scanType: string | null;
+  cadence: string; // Cron expression or 'on_push'
+  isDefault: boolean;
+}
+
+// Data of the jobs the schedulers produce
+export interface ScheduleJob {
+  projectId: string;
+  workspaceId: string;
+  kind: 'scan' | 'orchestrator';
+  scanType: string | null;
+}
+
+export interface ProjectScheduleSummary {
+  projectId: string;
+  projectName: string;
+  timezone: string;
+  paused: boolean;
+  active: boolean; // Only active projects run on schedule
+  schedules: Array<ProjectSchedule & { nextRuns: string[] }>;
+}
+
+export interface UpcomingRun {
+  projectId: string;
+  projectName: string;
+  kind: 'scan' | 'orchestrator';
+  scanType: string | null;
+  runAt: string;
+}
+
+interface ScheduledProject {
+  id: string;
+  name: string;
+  domain: string | null;
+  repo: string | null;
+  status: string;
+  workspaceId: string;
+  agentConfig: {
+    timezone: string;
+    scanSchedules: unknown;
+    orchestratorSchedule: string | null;
+    schedulesPaused: boolean;
+  } | null;
+}
+
+const PROJECT_SELECT = {
+  id: true,
+  name: true,
+  domain: true,
+  repo: true,
+  status: true,
+  workspaceId: true,
+  agentConfig: {
+    select: { timezone: true, scanSchedules: true, orchestratorSchedule: true, schedulesPaused: true },
+  },
+} as const;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isCron(cadence: string): boolean {
+  return cadence !== ON_PUSH && cadence !== OFF;
+}
+
+/**
+ * Why a cadence is invalid, or null if it's fine
+ */
+export function validateCadence(cadence: unknown, options: { allowOnPush: boolean }): string | null {
+  if (typeof cadence !== 'string') return 'Cadence must be a string';
+  if (cadence === OFF) return null;
+  if (cadence === ON_PUSH) {
+    return options.allowOnPush ? null : `"${ON_PUSH}" is only available for scanners that use the repo`;
+  }
+
+  // No seconds field, so nothing runs more than once a minute
+  if (cadence.trim().split(/\s+/).length !== 5) {
+    return `"${cadence}" must be a 5-field cron expression (minute hour day month weekday)`;
+  }
+  try {
+    parseExpression(cadence);
+    return null;
+  } catch {
+    return `Invalid cron expression "${cadence}"`;
+  }
+}
+
+/**
+ * Why an update is invalid, or null if it's fine
+ */
+export function validateScheduleUpdate(update: ScheduleUpdate): string | null {
+  if (update.timezone !== undefined && (typeof update.timezone !== 'string' || !isValidTimezone(update.timezone))) {
+    return `Unknown time zone "${update.timezone}"`;
+  }
+  if (update.paused !== undefined && typeof update.paused !== 'boolean') {
+    return 'paused must be a boolean';
+  }
+
+  if (update.scanSchedules !== undefined) {
+    if (!update.scanSchedules || typeof update.scanSchedules !== 'object' || Array.isArray(update.scanSchedules)) {
+      return 'scanSchedules must be an object of scan type to cadence';
+    }
+    for (const [scanType, cadence] of Object.entries(update.scanSchedules)) {
+      const scanner = getScanner(scanType);
+      if (!scanner) return `Unknown scan type: ${scanType}`;
+      if (cadence === null) continue;
+      const error = validateCadence(cadence, { allowOnPush: usesRepo(scanner) });
+      if (error) return `${scanType}: ${error}`;
+    }
+  }
+
+  if (update.orchestratorSchedule !== undefined && update.orchestratorSchedule !== null) {
+    const error = validateCadence(update.orchestratorSchedule, { allowOnPush: false });
+    if (error) return `orchestrator: ${error}`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+export function schedulerId(projectId: string, scanType: string | null): string {
+  return scanType ? `${projectId}:scan:${scanType}` : `${projectId}:orchestrator`;
+}
+
+export function getScheduleSettings(config: ScheduledProject['agentConfig']): ScheduleSettings {
+  return {
+    timezone: config?.timezone || DEFAULT_TIMEZONE,
+    paused: config?.schedulesPaused ?? false,
+    scanSchedules: (config?.scanSchedules as Record<string, string> | null) ?? {},
+    orchestratorSchedule: config?.orchestratorSchedule ?? null,
+  };
+}
+
+/**
+ * A project's effective schedules: overrides applied over the defaults,
+ * leaving out 'off' and scanners the project lacks inputs for
+ */
+export function resolveSchedules(
+  project: { id: string; name?: string | null; domain?: string | null; repo?: string | null },
+  settings: ScheduleSettings
+): ProjectSchedule[] {
+  const schedules: ProjectSchedule[] = [];
+
+  for (const scanner of listScanners()) {
+    const override = settings.scanSchedules[scanner.type];
+    const cadence = override ?? scanner.defaultSchedule;
+    if (!cadence || cadence === OFF || !canRunScanner(scanner, project)) continue;
+    if (cadence === ON_PUSH && !usesRepo(scanner)) continue;
+
+    schedules.push({
+      id: schedulerId(project.id, scanner.type),
+      kind: 'scan',
+      scanType: scanner.type,
+      cadence,
+      isDefault: override === undefined,
+    });
+  }
+
+  const orchestratorCadence = settings.orchestratorSchedule ?? DEFAULT_ORCHESTRATOR_SCHEDULE;
+  if (orchestratorCadence !== OFF) {
+    schedules.push({
+      id: schedulerId(project.id, null),
+      kind: 'orchestrator',
+      scanType: null,
+      cadence: orchestratorCadence,
+      isDefault: settings.orchestratorSchedule === null,
+    });
+  }
+
+  return schedules;
+}
+
+/**
+ * The next `count` times a cron cadence fires (none for 'on_push')
+ */
+export function upcomingRuns(cadence: string, timezone: string, count: number, from: Date = new Date()): Date[] {
+  if (!isCron(cadence)) return [];
+
+  const interval = parseExpression(cadence, { tz: timezone, currentDate: from });
+  const runs: Date[] = [];
+  for (let i = 0; i < count; i++) {
+    runs.push(interval.next().toDate());
+  }
+  return runs;
+}
+
+/**
+ * Every project's upcoming runs merged into one timeline, soonest first
+ */
+export function mergeUpcomingRuns(summaries: ProjectScheduleSummary[], limit: number): UpcomingRun[] {
+  return summaries
+    .filter(summary => summary.active && !summary.paused)
+    .flatMap(summary =>
+      summary.schedules.flatMap(schedule =>
+        schedule.nextRuns.map(runAt => ({
+          projectId: summary.projectId,
+          projectName: summary.projectName,
+          kind: schedule.kind,
+          scanType: schedule.scanType,
+          runAt,
+        }))
+      )
+    )
+    .sort((a, b) => a.runAt.localeCompare(b.runAt))
+    .slice(0, limit);
+}
+
+function isActive(project: { status: string }): boolean {
+  return project.status.includes('ACTIVE');
+}
+
+function summarize(project: ScheduledProject, count: number, now: Date): ProjectScheduleSummary {
+  const settings = getScheduleSettings(project.agentConfig);
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    timezone: settings.timezone,
+    paused: settings.paused,
+    active: isActive(project),
+    schedules: resolveSchedules(project, settings).map(schedule => ({
+      ...schedule,
+      nextRuns: upcomingRuns(schedule.cadence, settings.timezone, count, now).map(run => run.toISOString()),
+    })),
+  };
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * One project's schedules with the next `count` runs of each
+ */
+export async function getProjectSchedules(projectId: string, count = 3): Promise<ProjectScheduleSummary | null> {
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: PROJECT_SELECT });
+  return project ? summarize(project, count, new Date()) : null;
+}
+
+/**
+ * Every project in a workspace with the next `count` runs of each schedule
+ */
+export async function listWorkspaceSchedules(workspaceId: string, count = 3): Promise<ProjectScheduleSummary[]> {
+  const projects = await prisma.project.findMany({
+    where: { workspaceId },
+    orderBy: { createdAt: 'asc' },
+    select: PROJECT_SELECT,
+  });
+  const now = new Date();
+  return projects.map(project => summarize(project, count, now));
+}
+
+/**
+ * Apply a validated update (see validateScheduleUpdate) and resync the
+ * project's schedulers
+ */
+export async function updateProjectSchedules(
+  project: { id: string; workspaceId: string },
+  update: ScheduleUpdate
+): Promise<void> {
+  const existing = await prisma.projectAgentConfig.findUnique({
+    where: { projectId: project.id },
+    select: { scanSchedules: true },
+  });
+
+  const data: {
+    timezone?: string;
+    schedulesPaused?: boolean;
+    scanSchedules?: Record<string, string>;
+    orchestratorSchedule?: string | null;
+  } = {};
+
+  if (update.timezone !== undefined) data.timezone = update.timezone;
+  if (update.paused !== undefined) data.schedulesPaused = update.paused;
+  if (update.orchestratorSchedule !== undefined) data.orchestratorSchedule = update.orchestratorSchedule;
+  if (update.scanSchedules !== undefined) {
+    const scanSchedules = { ...((existing?.scanSchedules as Record<string, string> | null) ?? {}) };
+    for (const [scanType, cadence] of Object.entries(update.scanSchedules)) {
+      if (cadence === null) delete scanSchedules[scanType];
+      else scanSchedules[scanType] = cadence;
+    }
+    data.scanSchedules = scanSchedules;
+  }
+
+  await prisma.projectAgentConfig.upsert({
+    where: { projectId: project.id },
+    create: {
+      workspaceId: project.workspaceId,
+      projectId: project.id,
+      stage: 'mvp',
+      ...data,
+    },
+    update: data,
+  });
+
+  await syncProjectSchedules(project.id);
+}
+
+// ============================================================================
+// BULLMQ SCHEDULERS
+// ============================================================================
+
+let queue: Queue<ScheduleJob> | null = null;
+
+function getQueue(): Queue<ScheduleJob> {
+  if (!queue) {
+    const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+      maxRetriesPerRequest: null,
+      enableReadyCheck: false,
+      tls: process.env.REDIS_URL?.startsWith('rediss://') ? {} : undefined,
+    });
+    queue = new Queue<ScheduleJob>(SCHEDULES_QUEUE, { connection });
+  }
+  return queue;
+}
+
+/**
+ * Bring one project's BullMQ schedulers in line with its settings, given the
+ * IDs of the schedulers currently registered
+ */
+async function applySchedules(project: ScheduledProject | null, projectId: string, registered: string[]): Promise<void> {
+  const queue = getQueue();
+  const settings = getScheduleSettings(project?.agentConfig ?? null);
+  const desired = project && isActive(project) && !settings.paused
+    ? resolveSchedules(project, settings).filter(schedule => isCron(schedule.cadence))
+    : [];
+
+  const desiredIds = new Set(desired.map(schedule => schedule.id));
+  for (const id of registered) {
+    if (id.startsWith(`${projectId}:`) && !desiredIds.has(id)) {
+      await queue.removeJobScheduler(id);
+    }
+  }
+
+  for (const schedule of desired) {
+    const data: ScheduleJob = {
+      projectId,
+      workspaceId: project!.workspaceId,
+      kind: schedule.kind,
+      scanType: schedule.scanType,
+    };
+    await queue.upsertJobScheduler(
+      schedule.id,
+      { pattern: schedule.cadence, tz: settings.timezone },
+      {
+        name: schedule.scanType ? `scan-${schedule.scanType}` : 'orchestrate',
+        data,
+        opts: { removeOnComplete: 100, removeOnFail: 500 },
+      }
+    );
+  }
+}
+
+async function listRegisteredIds(): Promise<string[]> {
+  const schedulers = await getQueue().getJobSchedulers();
+  return schedulers.map(scheduler => scheduler.key);
+}
+
+/**
+ * Register, update or remove a project's schedulers (removes all of them
+ * if the project was deleted, paused or is no longer active). Call after
+ * creating a project or changing its status, domain or repo.
+ */
+export async function syncProjectSchedules(projectId: string): Promise<void> {
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: PROJECT_SELECT });
+  await applySchedules(project, projectId, await listRegisteredIds());
+}
+
+/**
+ * Resync every project's schedulers and drop those of deleted projects
+ * (on schedule worker start and periodically after)
+ */
+export async function syncAllSchedules(): Promise<{ projects: number; schedulers: number }> {
+  const projects = await prisma.project.findMany({ select: PROJECT_SELECT });
+  const registered = await listRegisteredIds();
+
+  for (const project of projects) {
+    await applySchedules(project, project.id, registered);
+  }
+
+  const projectIds = new Set(projects.map(project => project.id));
+  for (const id of registered) {
+    if (!projectIds.has(id.split(':')[0])) {
+      await getQueue().removeJobScheduler(id);
+    }
+  }
+
+  return { projects: projects.length, schedulers: (await listRegisteredIds()).length };
+}
+
+// ============================================================================
+// PUSH-TRIGGERED SCANS
+// ============================================================================
+
+function sameRepo(projectRepo: string, fullName: string): boolean {
+  try {
+    const { owner, repo } = parseRepoUrl(projectRepo);
+    return `${owner}/${repo}`.toLowerCase() === fullName.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Queue the 'on_push' scans of every active, unpaused project using a repo
+ * (e.g. "owner/name"), within each workspace's scan quota
+ *
+ * @returns The queued scans
+ */
+export async function enqueuePushScans(repoFullName: string): Promise<Array<{ projectId: string; scanType: string; jobId: string }>> {
+  const repoName = repoFullName.split('/').pop() || repoFullName;
+  const projects = (await prisma.project.findMany({
+    where: {
+      status: { contains: 'ACTIVE' },
+      repo: { contains: repoName, mode: 'insensitive' },
+    },
+    select: PROJECT_SELECT,
+  })).filter(project => project.repo && sameRepo(project.repo, repoFullName));
+
+  const queued = [];
+  for (const project of projects) {
+    const settings = getScheduleSettings(project.agentConfig);
+    if (settings.paused) continue;
+
+    const scanTypes = resolveSchedules(project, settings)
+      .filter(schedule => schedule.cadence === ON_PUSH)
+      .map(schedule => schedule.scanType!);
+    if (scanTypes.length === 0) continue;
+
+    let granted: number;
+    try {
+      granted = await reserveScans(project.workspaceId, scanTypes.length, { partial: true });
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        console.log(`[Schedules] Skipping push scans for ${project.name}: ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+
+    let enqueued = 0;
+    try {
+      for (const scanType of scanTypes.slice(0, granted)) {
+        const jobId = await enqueueScan(project, scanType);
+        queued.push({ projectId: project.id, scanType, jobId });
+        enqueued++;
+      }
+    } catch (error) {
+      await releaseScans(project.workspaceId, granted - enqueued);
+      throw error;
+    }
+  }
+
+  if (queued.length > 0) {
+    console.log(`[Schedules] Queued ${queued.length} push scans for ${repoFullName}`);
+  }
+  return queued;
+}
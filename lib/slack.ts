@@ -1,20 +1,34 @@
 // Slack integration utilities for Virtual Cofounder
 import { WebClient } from '@slack/web-api';
+import type { ExecutionPlan } from '@/lib/stories/execution-plan';
+import { getWorkspaceIntegrations } from '@/lib/integrations';
 
-// Initialize Slack client
-const slackToken = process.env.SLACK_BOT_TOKEN;
-const slackChannel = process.env.SLACK_CHANNEL || '#cofounder-updates';
+// One client per bot token (each workspace installs the app in its own Slack)
+const slackClients = new Map<string, WebClient>();
 
-let slackClient: WebClient | null = null;
+/**
+ * Slack client and channel for a workspace, or null if it hasn't connected Slack
+ */
+export async function getWorkspaceSlack(
+  workspaceId?: string | null
+): Promise<{ client: WebClient; channel: string } | null> {
+  const { slack } = await getWorkspaceIntegrations(workspaceId);
+  if (!slack) return null;
+
+  let client = slackClients.get(slack.botToken);
+  if (!client) {
+    client = new WebClient(slack.botToken);
+    slackClients.set(slack.botToken, client);
+  }
+  return { client, channel: slack.channel };
+}
 
-export function getSlackClient(): WebClient {
-  if (!slackClient) {
-    if (!slackToken) {
-      throw new Error('SLACK_BOT_TOKEN not configured');
-    }
-    slackClient = new WebClient(slackToken);
+export async function getSlackClient(workspaceId?: string | null): Promise<WebClient> {
+  const slack = await getWorkspaceSlack(workspaceId);
+  if (!slack) {
+    throw new Error(`Slack not configured for workspace ${workspaceId || 'default'}`);
   }
-  return slackClient;
+  return slack.client;
 }
 
 // Types
@@ -27,6 +41,7 @@ export interface CompletionNotification {
   policy: 'auto_safe' | 'approval_required' | 'suggest_only';
   agentName?: string;
   linearUrl?: string; // Linear issue URL for direct linking
+  workspaceId?: string;
 }
 
 /**
@@ -36,12 +51,12 @@ export async function sendCompletionNotification(
   completion: CompletionNotification
 ): Promise<void> {
   // Skip if Slack not configured
-  if (!slackToken) {
-    console.log('[Slack] Skipping notification - SLACK_BOT_TOKEN not configured');
+  const slack = await getWorkspaceSlack(completion.workspaceId);
+  if (!slack) {
+    console.log('[Slack] Skipping notification - Slack not configured');
     return;
   }
-
-  const client = getSlackClient();
+  const { client, channel } = slack;
 
   // Priority emoji and color
   const priorityConfig = {
@@ -61,7 +76,7 @@ export async function sendCompletionNotification(
 
   try {
     await client.chat.postMessage({
-      channel: slackChannel,
+      channel,
       text: `${config.emoji} New completion: ${completion.title}`,
       blocks: [
         {
@@ -161,24 +176,24 @@ export async function sendCompletionNotification(
 /**
  * Send morning check-in message
  */
-export async function sendMorningCheckIn(): Promise<void> {
-  if (!slackToken) {
-    console.log('[Slack] Skipping check-in - SLACK_BOT_TOKEN not configured');
+export async function sendMorningCheckIn(workspaceId?: string): Promise<void> {
+  const slack = await getWorkspaceSlack(workspaceId);
+  if (!slack) {
+    console.log('[Slack] Skipping check-in - Slack not configured');
     return;
   }
-
-  const client = getSlackClient();
+  const { client, channel } = slack;
 
   try {
     await client.chat.postMessage({
-      channel: slackChannel,
+      channel,
       text: 'Good morning! What are your priorities today?',
       blocks: [
         {
           type: 'header',
           text: {
             type: 'plain_text',
-            text: '☀️ Good morning, Miguel!',
+            text: '☀️ Good morning!',
             emoji: true,
           },
         },
@@ -216,17 +231,18 @@ export async function sendEveningRecap(summary: {
   completionsApproved: number;
   completionsCompleted: number;
   topProjects: string[];
+  workspaceId?: string;
 }): Promise<void> {
-  if (!slackToken) {
-    console.log('[Slack] Skipping recap - SLACK_BOT_TOKEN not configured');
+  const slack = await getWorkspaceSlack(summary.workspaceId);
+  if (!slack) {
+    console.log('[Slack] Skipping recap - Slack not configured');
     return;
   }
-
-  const client = getSlackClient();
+  const { client, channel } = slack;
 
   try {
     await client.chat.postMessage({
-      channel: slackChannel,
+      channel,
       text: `End of day wrap-up: ${summary.completionsCompleted} completions shipped today`,
       blocks: [
         {
@@ -280,17 +296,18 @@ export async function sendSlackNotification(data: {
   title: string;
   rationale: string;
   prUrl: string;
+  workspaceId?: string;
 }): Promise<void> {
-  if (!slackToken) {
-    console.log('[Slack] Skipping PR notification - SLACK_BOT_TOKEN not configured');
+  const slack = await getWorkspaceSlack(data.workspaceId);
+  if (!slack) {
+    console.log('[Slack] Skipping PR notification - Slack not configured');
     return;
   }
-
-  const client = getSlackClient();
+  const { client, channel } = slack;
 
   try {
     await client.chat.postMessage({
-      channel: slackChannel,
+      channel,
       text: `✅ PR created: ${data.title}`,
       blocks: [
         {
@@ -344,19 +361,221 @@ export async function sendSlackNotification(data: {
 }
 
 /**
- * Send a simple text message to Slack
+ * Send a PR lifecycle update (changes requested, failing checks, merged, closed)
+ */
+export async function sendPullRequestUpdate(data: {
+  completionId: string;
+  projectName: string;
+  title: string;
+  prUrl: string;
+  headline: string; // e.g. "🎉 PR Merged"
+  detail?: string;
+  workspaceId?: string;
+}): Promise<void> {
+  const slack = await getWorkspaceSlack(data.workspaceId);
+  if (!slack) {
+    console.log('[Slack] Skipping PR update - Slack not configured');
+    return;
+  }
+  const { client, channel } = slack;
+
+  try {
+    await client.chat.postMessage({
+      channel,
+      text: `${data.headline}: ${data.title}`,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*${data.headline}*\n*${data.projectName}* · <${data.prUrl}|${data.title}>` +
+              (data.detail ? `\n\n${data.detail}` : ''),
+          },
+        },
+        {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: `Completion ID: ${data.completionId}`,
+            },
+          ],
+        },
+      ],
+    });
+
+    console.log(`[Slack] Sent PR update: ${data.completionId}`);
+  } catch (error) {
+    console.error('[Slack] Error sending PR update:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send a story's execution plan for review, with approve/snooze buttons
  */
-export async function sendMessage(text: string, channel?: string): Promise<void> {
-  if (!slackToken) {
-    console.log('[Slack] Skipping message - SLACK_BOT_TOKEN not configured');
+export async function sendExecutionPlan(data: {
+  completionId: string;
+  projectName: string;
+  title: string;
+  plan: ExecutionPlan;
+  linearUrl?: string;
+  workspaceId?: string;
+}): Promise<void> {
+  const slack = await getWorkspaceSlack(data.workspaceId);
+  if (!slack) {
+    console.log('[Slack] Skipping plan - Slack not configured');
     return;
   }
+  const { client, channel } = slack;
+  const { plan } = data;
 
-  const client = getSlackClient();
+  const files = plan.files.length > 0
+    ? plan.files.slice(0, 15).map(f => `• \`${f.path}\` (${f.action})`).join('\n') +
+      (plan.files.length > 15 ? `\n_...and ${plan.files.length - 15} more_` : '')
+    : '_No file changes expected_';
+  const risks = plan.risks.length > 0 ? plan.risks.map(r => `• ${r}`).join('\n') : '_None identified_';
 
   try {
     await client.chat.postMessage({
-      channel: channel || slackChannel,
+      channel,
+      text: `📋 Plan ready for review: ${data.title}`,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*📋 Plan ready for review*\n*${data.projectName}* · ${data.title}` +
+              (plan.summary ? `\n\n${plan.summary}` : ''),
+          },
+        },
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `*Approach*\n${plan.approach.slice(0, 2500)}` },
+        },
+        {
+          type: 'section',
+          fields: [
+            { type: 'mrkdwn', text: `*Files*\n${files}`.slice(0, 2000) },
+            { type: 'mrkdwn', text: `*Risks*\n${risks}`.slice(0, 2000) },
+          ],
+        },
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: { type: 'plain_text', text: 'Approve Plan & Execute', emoji: true },
+              style: 'primary',
+              value: `approve_${data.completionId}`,
+              action_id: 'approve_completion',
+            },
+            data.linearUrl
+              ? {
+                  type: 'button',
+                  text: { type: 'plain_text', text: '📊 View in Linear', emoji: true },
+                  url: data.linearUrl,
+                }
+              : {
+                  type: 'button',
+                  text: { type: 'plain_text', text: 'View Details', emoji: true },
+                  value: `view_${data.completionId}`,
+                  action_id: 'view_completion',
+                },
+            {
+              type: 'button',
+              text: { type: 'plain_text', text: 'Snooze', emoji: true },
+              value: `snooze_${data.completionId}`,
+              action_id: 'snooze_completion',
+            },
+          ],
+        },
+        {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: `Completion ID: ${data.completionId} | Est. ~${plan.estimatedTokens.toLocaleString()} tokens ($${plan.estimatedCost.toFixed(2)})`,
+            },
+          ],
+        },
+      ],
+    });
+
+    console.log(`[Slack] Sent execution plan: ${data.completionId}`);
+  } catch (error) {
+    console.error('[Slack] Error sending execution plan:', error);
+    throw error;
+  }
+}
+
+/**
+ * Alert that spend crossed a budget threshold (50/80/100%)
+ */
+export async function sendBudgetAlert(data: {
+  scope: 'workspace' | 'project';
+  name: string;
+  period: 'daily' | 'monthly';
+  threshold: number;
+  spent: number;
+  limit: number;
+  workspaceId?: string;
+}): Promise<void> {
+  const slack = await getWorkspaceSlack(data.workspaceId);
+  if (!slack) {
+    console.log('[Slack] Skipping budget alert - Slack not configured');
+    return;
+  }
+  const { client, channel } = slack;
+  const emoji = data.threshold >= 100 ? '🛑' : data.threshold >= 80 ? '⚠️' : '💸';
+  const label = data.scope === 'workspace' ? `Workspace *${data.name}*` : `Project *${data.name}*`;
+  const consequence = data.threshold >= 100
+    ? 'New agent sessions are paused until the budget resets or is raised.'
+    : data.threshold >= 80
+      ? 'Agents are switching to cheaper models until the budget resets.'
+      : '';
+
+  try {
+    await client.chat.postMessage({
+      channel,
+      text: `${emoji} ${data.threshold}% of ${data.period} budget used: ${data.name}`,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `${emoji} *${data.threshold}% of ${data.period} budget used*\n` +
+              `${label}: $${data.spent.toFixed(2)} of $${data.limit.toFixed(2)}` +
+              (consequence ? `\n\n${consequence}` : ''),
+          },
+        },
+      ],
+    });
+
+    console.log(`[Slack] Sent budget alert: ${data.scope} ${data.name} ${data.period} ${data.threshold}%`);
+  } catch (error) {
+    console.error('[Slack] Error sending budget alert:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send a simple text message to Slack
+ */
+export async function sendMessage(
+  text: string,
+  options: { workspaceId?: string; channel?: string } = {}
+): Promise<void> {
+  const slack = await getWorkspaceSlack(options.workspaceId);
+  if (!slack) {
+    console.log('[Slack] Skipping message - Slack not configured');
+    return;
+  }
+  const { client, channel } = slack;
+
+  try {
+    await client.chat.postMessage({
+      channel: options.channel || channel,
       text,
     });
 
@@ -370,15 +589,15 @@ export async function sendMessage(text: string, channel?: string): Promise<void>
 /**
  * Test Slack connection
  */
-export async function testSlackConnection(): Promise<boolean> {
-  if (!slackToken) {
-    console.log('[Slack] SLACK_BOT_TOKEN not configured');
+export async function testSlackConnection(workspaceId?: string): Promise<boolean> {
+  const slack = await getWorkspaceSlack(workspaceId);
+  if (!slack) {
+    console.log('[Slack] Slack not configured');
     return false;
   }
 
   try {
-    const client = getSlackClient();
-    const result = await client.auth.test();
+    const result = await slack.client.auth.test();
     console.log('[Slack] Connection successful:', result.user);
     return true;
   } catch (error) {
@@ -386,3 +605,14 @@ export async function testSlackConnection(): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Check a bot token and return the Slack team it belongs to
+ */
+export async function verifySlackToken(botToken: string): Promise<{ teamId: string; team: string }> {
+  const result = await new WebClient(botToken).auth.test();
+  if (!result.ok || !result.team_id) {
+    throw new Error(`Invalid Slack bot token: ${result.error || 'no team'}`);
+  }
+  return { teamId: result.team_id, team: result.team || result.team_id };
+}
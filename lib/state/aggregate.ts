@@ -6,43 +6,32 @@
  */
 
 import { prisma } from '@/lib/db';
-
-// Launch stages in order of progression
-export const LAUNCH_STAGES = ['idea', 'mvp', 'alpha', 'beta', 'launch', 'growth'] as const;
-export type LaunchStage = typeof LAUNCH_STAGES[number];
-
-// Score thresholds for each stage
-const STAGE_THRESHOLDS: Record<LaunchStage, number> = {
-  idea: 0,
-  mvp: 20,
-  alpha: 40,
-  beta: 60,
-  launch: 80,
-  growth: 95,
-};
-
-// Checklist items and their weight in the score
-const CHECKLIST_ITEMS = {
-  // Core (40 points)
-  repository_exists: { weight: 5, category: 'core' },
-  has_deployment: { weight: 10, category: 'core' },
-  domain_configured: { weight: 5, category: 'core' },
-  ssl_valid: { weight: 5, category: 'core' },
-  auth_working: { weight: 15, category: 'core' },
-
-  // Quality (30 points)
-  security_passing: { weight: 10, category: 'quality' },
-  performance_passing: { weight: 10, category: 'quality' },
-  seo_optimized: { weight: 5, category: 'quality' },
-  error_monitoring: { weight: 5, category: 'quality' },
-
-  // Growth (30 points)
-  analytics_installed: { weight: 10, category: 'growth' },
-  payments_configured: { weight: 15, category: 'growth' },
-  has_users: { weight: 5, category: 'growth' },
-} as const;
-
-type ChecklistKey = keyof typeof CHECKLIST_ITEMS;
+import type { IntegrationId, IntegrationsScanResult } from '@/lib/scanners/integrations';
+import { collectChecklistContributions } from '@/lib/scanners/registry';
+import {
+  resolveChecklistItems,
+  calculateLaunchScore,
+  deriveLaunchStage,
+  type ChecklistSettings,
+  type LaunchChecklist,
+  type LaunchStage,
+  type ResolvedChecklist,
+} from '@/lib/state/checklist';
+
+export {
+  LAUNCH_STAGES,
+  CHECKLIST_ITEMS,
+  resolveChecklistItems,
+  calculateLaunchScore,
+  deriveLaunchStage,
+} from '@/lib/state/checklist';
+export type {
+  LaunchStage,
+  ChecklistItemConfig,
+  ChecklistSettings,
+  ResolvedChecklist,
+  LaunchChecklist,
+} from '@/lib/state/checklist';
 
 export interface ScanScores {
   domain: number | null;
@@ -63,16 +52,13 @@ export interface WorkSummary {
   completion_rate: number;
 }
 
-export interface LaunchChecklist {
-  [key: string]: boolean;
-}
-
 export interface AggregatedState {
   launchStage: LaunchStage;
   launchScore: number;
   scanScores: ScanScores;
   workSummary: WorkSummary;
   launchChecklist: LaunchChecklist;
+  checklistItems: ResolvedChecklist;
 }
 
 /**
@@ -205,13 +191,16 @@ export async function aggregateWorkSummary(projectId: string): Promise<WorkSumma
         summary.pending = count;
         break;
       case 'in_progress':
-        summary.in_progress = count;
+      case 'pr_open':
+        summary.in_progress += count;
         break;
       case 'completed':
-        summary.completed = count;
+      case 'merged':
+        summary.completed += count;
         break;
       case 'rejected':
       case 'failed':
+      case 'pr_closed':
         summary.rejected += count;
         break;
     }
@@ -224,111 +213,101 @@ export async function aggregateWorkSummary(projectId: string): Promise<WorkSumma
   return summary;
 }
 
+/**
+ * Read a project's checklist settings from its agent config
+ */
+export async function getChecklistSettings(projectId: string): Promise<ChecklistSettings> {
+  const config = await prisma.projectAgentConfig.findUnique({
+    where: { projectId },
+    select: { agentSettings: true },
+  });
+  const settings = config?.agentSettings as { launchChecklist?: ChecklistSettings } | null;
+  return settings?.launchChecklist ?? {};
+}
+
 /**
  * Calculate launch checklist from project and scan data
  */
-export async function calculateLaunchChecklist(projectId: string): Promise<LaunchChecklist> {
+export async function calculateLaunchChecklist(
+  projectId: string,
+  settings: ChecklistSettings = {}
+): Promise<LaunchChecklist> {
+  const items = resolveChecklistItems(settings);
   const project = await prisma.project.findUnique({
     where: { id: projectId },
-    include: {
-      scans: {
-        orderBy: { scannedAt: 'desc' },
-        take: 20, // Recent scans
-      },
-    },
   });
 
   if (!project) {
     return Object.fromEntries(
-      Object.keys(CHECKLIST_ITEMS).map(key => [key, false])
+      Object.keys(items).map(key => [key, false])
     );
   }
 
-  const latestScan = (type: string) => 
-    project.scans.find((s: any) => s.scanType === type && s.status === 'ok');
+  // Latest non-error scan of each type
+  const latestScans = await prisma.scan.findMany({
+    where: { projectId, status: { not: 'error' } },
+    orderBy: { scannedAt: 'desc' },
+    distinct: ['scanType'],
+  });
+
+  // Scanners declare which checklist items they answer (see lib/scanners/registry.ts).
+  // Items answered by several scanners pass only if all of them pass.
+  const contributions = collectChecklistContributions(latestScans);
+  const fromScans = (item: string, fallback: boolean) =>
+    contributions[item]?.length ? contributions[item].every(Boolean) : fallback;
+
+  const integrationsData = latestScans.find(s => s.scanType === 'integrations')?.integrationsData as
+    IntegrationsScanResult['integrationsData'] | null | undefined;
+  const hasIntegration = (id: IntegrationId) => integrationsData?.integrations?.[id]?.detected ?? false;
 
   const checklist: LaunchChecklist = {
     repository_exists: !!project.repo,
-    has_deployment: !!project.vercelProjectId || !!latestScan('vercel'),
+    has_deployment: !!project.vercelProjectId || fromScans('has_deployment', false),
     domain_configured: !!project.domain,
-    ssl_valid: (() => {
-      const scan = latestScan('domain');
-      const data = scan?.domainData as { ssl?: { valid?: boolean } } | null;
-      return data?.ssl?.valid ?? false;
-    })(),
-    auth_working: true, // Assume true if project is active
-    security_passing: (() => {
-      const scan = latestScan('security');
-      const issues = scan?.securityIssues as Array<{ severity: string }> | null;
-      const criticalCount = issues?.filter(i => 
-        i.severity === 'critical' || i.severity === 'high'
-      ).length ?? 0;
-      return criticalCount === 0;
-    })(),
-    performance_passing: (() => {
-      const scan = latestScan('performance');
-      const data = scan?.playwrightMetrics as { lcp?: number } | null;
-      return (data?.lcp ?? 5000) < 4000;
-    })(),
-    seo_optimized: (() => {
-      const scan = latestScan('seo');
-      const data = scan?.seoDetail as { title?: string, metaDesc?: string } | null;
-      return !!(data?.title && data?.metaDesc);
-    })(),
-    error_monitoring: false, // Would need Sentry integration check
-    analytics_installed: project.hasPosthog || (() => {
-      const scan = latestScan('analytics');
-      const data = scan?.analyticsData as { hasPosthog?: boolean, hasGA?: boolean } | null;
-      return !!(data?.hasPosthog || data?.hasGA);
-    })(),
-    payments_configured: false, // Would need Stripe check
+    ssl_valid: fromScans('ssl_valid', false),
+    auth_working: fromScans('auth_working', false),
+    security_passing: fromScans('security_passing', true), // Nothing found until a scan says otherwise
+    performance_passing: fromScans('performance_passing', false),
+    seo_optimized: fromScans('seo_optimized', false),
+    error_monitoring: fromScans('error_monitoring', false),
+    analytics_installed: project.hasPosthog || fromScans('analytics_installed', false),
+    payments_configured: fromScans('payments_configured', false),
     has_users: project.status.includes('Live'), // Proxy: if live, likely has users
   };
 
-  return checklist;
-}
-
-/**
- * Calculate launch score from checklist
- */
-export function calculateLaunchScore(checklist: LaunchChecklist): number {
-  let score = 0;
-  
-  for (const [key, config] of Object.entries(CHECKLIST_ITEMS)) {
-    if (checklist[key]) {
-      score += config.weight;
-    }
+  // Any other item a scanner contributes can be used as a custom checklist item
+  for (const item of Object.keys(contributions)) {
+    if (!(item in checklist)) checklist[item] = fromScans(item, false);
   }
 
-  return Math.min(100, score);
-}
-
-/**
- * Derive launch stage from score
- */
-export function deriveLaunchStage(score: number): LaunchStage {
-  // Go from highest to lowest threshold
-  for (let i = LAUNCH_STAGES.length - 1; i >= 0; i--) {
-    const stage = LAUNCH_STAGES[i];
-    if (score >= STAGE_THRESHOLDS[stage]) {
-      return stage;
-    }
+  for (const custom of settings.custom ?? []) {
+    checklist[custom.id] =
+      custom.complete ??
+      ((custom.dependency ? integrationsData?.dependencies?.includes(custom.dependency) : false) ||
+        (custom.integration ? hasIntegration(custom.integration) : false));
   }
-  return 'idea';
+
+  // Only report items that apply to this project
+  return Object.fromEntries(
+    Object.keys(items).map(key => [key, checklist[key] ?? false])
+  );
 }
 
 /**
  * Full state aggregation for a project
  */
 export async function aggregateProjectState(projectId: string): Promise<AggregatedState> {
+  const settings = await getChecklistSettings(projectId);
+  const checklistItems = resolveChecklistItems(settings);
+
   const [scanScores, workSummary, launchChecklist] = await Promise.all([
     aggregateScanScores(projectId),
     aggregateWorkSummary(projectId),
-    calculateLaunchChecklist(projectId),
+    calculateLaunchChecklist(projectId, settings),
   ]);
 
-  const launchScore = calculateLaunchScore(launchChecklist);
-  const launchStage = deriveLaunchStage(launchScore);
+  const launchScore = calculateLaunchScore(launchChecklist, checklistItems);
+  const launchStage = deriveLaunchStage(launchChecklist, checklistItems);
 
   return {
     launchStage,
@@ -336,6 +315,7 @@ export async function aggregateProjectState(projectId: string): Promise<Aggregat
     scanScores,
     workSummary,
     launchChecklist,
+    checklistItems,
   };
 }
 
@@ -0,0 +1,137 @@
+/**
+ * Launch Checklist
+ *
+ * Checklist items, per-project customization and the launch score and stage
+ * they add up to. Pure functions, no database access; lib/state/aggregate.ts
+ * works out which items a project has completed.
+ */
+
+import type { IntegrationId } from '@/lib/scanners/integrations';
+
+// Launch stages in order of progression
+export const LAUNCH_STAGES = ['idea', 'mvp', 'alpha', 'beta', 'launch', 'growth'] as const;
+export type LaunchStage = typeof LAUNCH_STAGES[number];
+
+// Score thresholds for each stage
+const STAGE_THRESHOLDS: Record<LaunchStage, number> = {
+  idea: 0,
+  mvp: 20,
+  alpha: 40,
+  beta: 60,
+  launch: 80,
+  growth: 95,
+};
+
+export interface ChecklistItemConfig {
+  label: string;
+  weight: number;
+  category: string;
+}
+
+// Built-in checklist items and their weight in the score
+export const CHECKLIST_ITEMS: Record<string, ChecklistItemConfig> = {
+  // Core (40 points)
+  repository_exists: { label: 'Repository exists', weight: 5, category: 'core' },
+  has_deployment: { label: 'Deployment configured', weight: 10, category: 'core' },
+  domain_configured: { label: 'Domain configured', weight: 5, category: 'core' },
+  ssl_valid: { label: 'SSL certificate valid', weight: 5, category: 'core' },
+  auth_working: { label: 'Authentication working', weight: 15, category: 'core' },
+
+  // Quality (30 points)
+  security_passing: { label: 'Security scan passing', weight: 10, category: 'quality' },
+  performance_passing: { label: 'Performance passing', weight: 10, category: 'quality' },
+  seo_optimized: { label: 'SEO optimized', weight: 5, category: 'quality' },
+  error_monitoring: { label: 'Error monitoring', weight: 5, category: 'quality' },
+
+  // Growth (30 points)
+  analytics_installed: { label: 'Analytics installed', weight: 10, category: 'growth' },
+  payments_configured: { label: 'Payments configured', weight: 15, category: 'growth' },
+  has_users: { label: 'Has active users', weight: 5, category: 'growth' },
+};
+
+/**
+ * Per-project checklist customization, stored in
+ * ProjectAgentConfig.agentSettings.launchChecklist
+ */
+export interface ChecklistSettings {
+  weights?: Record<string, number>; // Override weight of any item, built-in or custom
+  exclude?: string[]; // Item IDs that don't apply (e.g. payments for a free tool)
+  custom?: Array<{
+    id: string;
+    label: string;
+    weight: number;
+    category?: string;
+    complete?: boolean; // Manually ticked
+    dependency?: string; // Complete when this package is in the repo's package.json
+    integration?: IntegrationId; // Complete when the integrations scan detects it
+  }>;
+}
+
+export type ResolvedChecklist = Record<string, ChecklistItemConfig>;
+
+export interface LaunchChecklist {
+  [key: string]: boolean;
+}
+
+/**
+ * Apply exclusions, custom items and weight overrides to the built-in checklist
+ */
+export function resolveChecklistItems(settings: ChecklistSettings = {}): ResolvedChecklist {
+  const items: ResolvedChecklist = { ...CHECKLIST_ITEMS };
+
+  for (const custom of settings.custom ?? []) {
+    items[custom.id] = { label: custom.label, weight: custom.weight, category: custom.category ?? 'custom' };
+  }
+
+  for (const [id, weight] of Object.entries(settings.weights ?? {})) {
+    if (items[id] && Number.isFinite(weight) && weight >= 0) {
+      items[id] = { ...items[id], weight };
+    }
+  }
+
+  for (const id of settings.exclude ?? []) {
+    delete items[id];
+  }
+
+  return items;
+}
+
+/**
+ * Calculate launch score from checklist.
+ * Normalized to 0-100 so custom weights don't need to add up to 100.
+ */
+export function calculateLaunchScore(
+  checklist: LaunchChecklist,
+  items: ResolvedChecklist = CHECKLIST_ITEMS
+): number {
+  let score = 0;
+  let total = 0;
+
+  for (const [key, config] of Object.entries(items)) {
+    total += config.weight;
+    if (checklist[key]) {
+      score += config.weight;
+    }
+  }
+
+  return total > 0 ? Math.min(100, Math.round((score / total) * 100)) : 0;
+}
+
+/**
+ * Derive launch stage from the checklist, weighted by the project's items
+ */
+export function deriveLaunchStage(
+  checklist: LaunchChecklist,
+  items: ResolvedChecklist = CHECKLIST_ITEMS
+): LaunchStage {
+  const score = calculateLaunchScore(checklist, items);
+
+  // Go from highest to lowest threshold
+  for (let i = LAUNCH_STAGES.length - 1; i >= 0; i--) {
+    const stage = LAUNCH_STAGES[i];
+    if (score >= STAGE_THRESHOLDS[stage]) {
+      return stage;
+    }
+  }
+  return 'idea';
+}
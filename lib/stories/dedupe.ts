@@ -0,0 +1,211 @@
+/**
+ * Story Deduplication
+ *
+ * Every orchestrator run re-discovers the same problems ("Add meta description
+ * to X"). Before a new story is inserted we look for a pending story on the
+ * same project from the same agent with the same fingerprint, or failing that
+ * a sufficiently similar title. Matches are merged: the finding is attached to
+ * the existing story, its priority gets bumped, and the run is recorded as a
+ * re-observation.
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/db';
+
+// Dice coefficient over word bigrams above which two titles are the same issue
+const SIMILARITY_THRESHOLD = 0.8;
+
+// Lowest priority score that counts as P0
+const P0_SCORE = 85;
+
+// Each re-observation nudges the story up, capped below P0 so repeat
+// sightings alone can't outrank users
+const REOBSERVATION_BOOST = 5;
+const MAX_REOBSERVED_SCORE = P0_SCORE - 1;
+
+// Filler words that vary between runs without changing the issue
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'to', 'of', 'for', 'on', 'in', 'is', 'are', 'and', 'or',
+  'add', 'missing', 'no', 'not', 'should', 'needs', 'need', 'page', 'site', 'website',
+]);
+
+export interface DuplicateMatch {
+  storyId: string;
+  title: string;
+  priorityScore: number;
+  similarity: number;
+  linearTaskId: string | null;
+}
+
+/**
+ * Lowercase, strip punctuation/numbers and filler words, so that
+ * "Add a meta description to /pricing" == "Missing meta description on pricing"
+ */
+export function normalizeIssueText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Stable identity for a finding: same project + agent + normalized issue text
+ */
+export function fingerprintFinding(finding: { projectId: string; agent: string; issue: string }): string {
+  const tokens = normalizeIssueText(finding.issue).split(' ').sort().join(' ');
+  return createHash('sha256')
+    .update(`${finding.projectId}|${finding.agent.toLowerCase()}|${tokens}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+function bigrams(text: string): string[] {
+  const words = normalizeIssueText(text).split(' ').filter(Boolean);
+  if (words.length < 2) return words;
+  return words.slice(1).map((word, i) => `${words[i]} ${word}`);
+}
+
+/**
+ * Dice coefficient over word bigrams (0.0-1.0) - cheap and embedding-free
+ */
+export function issueSimilarity(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const remaining = [...right];
+  let overlap = 0;
+  for (const gram of left) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      overlap++;
+      remaining.splice(index, 1);
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length);
+}
+
+/**
+ * Find a pending story that already covers this finding
+ */
+export async function findDuplicateStory(params: {
+  workspaceId: string;
+  projectId: string;
+  agent: string;
+  fingerprint: string;
+  title: string;
+}): Promise<DuplicateMatch | null> {
+  const pending = await prisma.story.findMany({
+    where: {
+      workspaceId: params.workspaceId,
+      projectId: params.projectId,
+      status: 'pending',
+    },
+    select: { id: true, title: true, fingerprint: true, sourceAgent: true, priorityScore: true, linearTaskId: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const toMatch = (story: typeof pending[number], similarity: number): DuplicateMatch => ({
+    storyId: story.id,
+    title: story.title,
+    priorityScore: story.priorityScore,
+    similarity,
+    linearTaskId: story.linearTaskId,
+  });
+
+  const exact = pending.find(story => story.fingerprint === params.fingerprint);
+  if (exact) return toMatch(exact, 1);
+
+  let best: DuplicateMatch | null = null;
+  for (const story of pending) {
+    // Stories from before dedupe have no source agent; let them match on title alone
+    if (story.sourceAgent && story.sourceAgent !== params.agent) continue;
+    const similarity = issueSimilarity(story.title, params.title);
+    if (similarity >= SIMILARITY_THRESHOLD && similarity > (best?.similarity ?? 0)) {
+      best = toMatch(story, similarity);
+    }
+  }
+
+  return best;
+}
+
+export function scoreToPriorityLevel(score: number): 'P0' | 'P1' | 'P2' | 'P3' {
+  if (score >= P0_SCORE) return 'P0';
+  if (score >= 65) return 'P1';
+  if (score >= 40) return 'P2';
+  return 'P3';
+}
+
+/**
+ * Priority score of a story after a re-observation. Never lowers a score a
+ * user or run set higher, and the boost alone never reaches P0.
+ */
+export function reobservedScore(storyScore: number, observedScore: number): number {
+  const boosted = Math.min(MAX_REOBSERVED_SCORE, Math.max(storyScore, observedScore) + REOBSERVATION_BOOST);
+  return Math.max(storyScore, observedScore, boosted);
+}
+
+/**
+ * Merge a re-observed finding into an existing story instead of inserting a duplicate
+ */
+export async function mergeIntoStory(
+  match: DuplicateMatch,
+  observation: {
+    workspaceId: string;
+    projectId: string;
+    runId: string;
+    agentFindingId?: string;
+    priorityScore: number;
+  }
+): Promise<{ priorityScore: number; observationCount: number }> {
+  const priorityScore = reobservedScore(match.priorityScore, observation.priorityScore);
+  const priorityLevel = scoreToPriorityLevel(priorityScore);
+
+  const [story] = await prisma.$transaction([
+    prisma.story.update({
+      where: { id: match.storyId },
+      data: {
+        priorityScore,
+        priorityLevel,
+        observationCount: { increment: 1 },
+        lastObservedAt: new Date(),
+      },
+      select: { priorityScore: true, observationCount: true },
+    }),
+    prisma.storyObservation.create({
+      data: {
+        storyId: match.storyId,
+        runId: observation.runId,
+        agentFindingId: observation.agentFindingId,
+        similarity: match.similarity,
+        priorityScore: observation.priorityScore,
+      },
+    }),
+    prisma.prioritySignal.create({
+      data: {
+        workspaceId: observation.workspaceId,
+        projectId: observation.projectId,
+        storyId: match.storyId,
+        source: 'orchestrator',
+        sourceId: observation.runId,
+        signalType: 'reobserved',
+        priority: priorityLevel,
+        rawText: match.title,
+        confidence: match.similarity,
+        expiresAt: new Date(Date.now() + 72 * 60 * 60 * 1000),
+      },
+    }),
+    ...(observation.agentFindingId
+      ? [prisma.agentFinding.update({
+          where: { id: observation.agentFindingId },
+          data: { storyId: match.storyId },
+        })]
+      : []),
+  ]);
+
+  return story;
+}
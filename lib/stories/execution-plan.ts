@@ -0,0 +1,163 @@
+/**
+ * Execution Plans
+ *
+ * Before an `approval_required` story is approved, the execution worker runs
+ * its agent read-only against a fresh checkout and records what it would do:
+ * the files it expects to touch, the approach, risks and an estimated token
+ * cost. The plan is stored as an AgentOutput on the planning session, shown
+ * on the story page and in Slack, and handed back to the agent when the
+ * approved story executes.
+ */
+
+import { prisma } from '@/lib/db';
+
+// AgentOutput.outputType for plans
+export const PLAN_OUTPUT_TYPE = 'execution_plan';
+
+export type PlannedFileAction = 'create' | 'modify' | 'delete';
+
+export interface ExecutionPlan {
+  summary: string;
+  approach: string;
+  files: Array<{ path: string; action: PlannedFileAction; reason: string }>;
+  risks: string[];
+  estimatedTokens: number;
+  estimatedCost: number;
+}
+
+export interface StoredExecutionPlan {
+  id: string;
+  status: string; // AgentOutput status: 'pending'|'approved'|'rejected'|'archived'
+  createdAt: Date;
+  plan: ExecutionPlan;
+}
+
+// Output format appended to the planning prompt
+export const PLAN_FORMAT_INSTRUCTIONS = `OUTPUT FORMAT:
+Respond with a JSON object (and nothing else after it):
+{
+  "summary": "One or two sentences on what will change",
+  "approach": "How you will implement it, step by step",
+  "files": [{ "path": "relative/path", "action": "create|modify|delete", "reason": "why" }],
+  "risks": ["What could break or needs a human decision"],
+  "estimatedTokens": 50000
+}`;
+
+const FILE_ACTIONS = new Set<PlannedFileAction>(['create', 'modify', 'delete']);
+
+// ============================================================================
+// PARSING & FORMATTING
+// ============================================================================
+
+/**
+ * Parse the planning agent's JSON output.
+ * Returns null when the output has no usable plan.
+ */
+export function parseExecutionPlan(output: string): Omit<ExecutionPlan, 'estimatedCost'> | null {
+  const jsonMatch = output.match(/\{[\s\S]*"approach"[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed.approach !== 'string' || !parsed.approach.trim()) return null;
+
+  const files = Array.isArray(parsed.files)
+    ? parsed.files
+        .filter((f: any) => typeof f?.path === 'string' && f.path.trim())
+        .map((f: any) => ({
+          path: f.path.trim(),
+          action: FILE_ACTIONS.has(f.action) ? f.action : 'modify',
+          reason: typeof f.reason === 'string' ? f.reason : '',
+        }))
+    : [];
+
+  const estimatedTokens = Number(parsed.estimatedTokens);
+
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+    approach: parsed.approach,
+    files,
+    risks: Array.isArray(parsed.risks) ? parsed.risks.filter((r: unknown) => typeof r === 'string') : [],
+    estimatedTokens: Number.isFinite(estimatedTokens) && estimatedTokens > 0 ? Math.round(estimatedTokens) : 0,
+  };
+}
+
+/**
+ * Markdown rendering for Linear comments and Slack
+ */
+export function formatPlanMarkdown(plan: ExecutionPlan): string {
+  const files = plan.files.length > 0
+    ? plan.files.map(f => `- \`${f.path}\` (${f.action})${f.reason ? ` - ${f.reason}` : ''}`).join('\n')
+    : '- No file changes expected';
+  const risks = plan.risks.length > 0 ? plan.risks.map(r => `- ${r}`).join('\n') : '- None identified';
+
+  return [
+    plan.summary,
+    `**Approach**\n${plan.approach}`,
+    `**Files**\n${files}`,
+    `**Risks**\n${risks}`,
+    `**Estimated cost:** ~${plan.estimatedTokens.toLocaleString()} tokens ($${plan.estimatedCost.toFixed(2)})`,
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Context given to the executing agent so it follows the approved plan
+ */
+export function formatPlanForPrompt(plan: ExecutionPlan): string {
+  return `\n\n## Approved Plan\n\n` +
+    `A human approved this story based on the plan below. Follow it. If the code ` +
+    `shows the plan is wrong, make the smallest deviation needed and explain why ` +
+    `in your explanation.\n\n` +
+    `Approach: ${plan.approach}\n\n` +
+    `Files:\n${plan.files.map(f => `- ${f.path} (${f.action}): ${f.reason}`).join('\n') || '- none listed'}\n`;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Latest plan for a story that hasn't been rejected or superseded
+ */
+export async function getLatestPlan(storyId: string): Promise<StoredExecutionPlan | null> {
+  const output = await prisma.agentOutput.findFirst({
+    where: {
+      outputType: PLAN_OUTPUT_TYPE,
+      status: { in: ['pending', 'approved'] },
+      agentSession: { storyId },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!output?.content) return null;
+
+  try {
+    return {
+      id: output.id,
+      status: output.status,
+      createdAt: output.createdAt,
+      plan: JSON.parse(output.content) as ExecutionPlan,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mark a story's open plans rejected (the story itself was rejected)
+ */
+export async function rejectPlans(storyId: string, notes?: string): Promise<void> {
+  await prisma.agentOutput.updateMany({
+    where: {
+      outputType: PLAN_OUTPUT_TYPE,
+      status: 'pending',
+      agentSession: { storyId },
+    },
+    data: { status: 'rejected', reviewNotes: notes },
+  });
+}
@@ -0,0 +1,299 @@
+/**
+ * PR Lifecycle
+ *
+ * Once the execution worker opens a PR the story moves to `pr_open`. GitHub
+ * webhook events then keep the story in step with the PR: review state,
+ * aggregated check results, and the final `merged` / `pr_closed` outcome,
+ * which is mirrored to Linear and announced in Slack. A merge also queues a
+ * rebase for other open PRs in the project that touch the same files.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { syncStoryStatusToLinear, addLinearComment } from '@/lib/linear';
+import { sendPullRequestUpdate } from '@/lib/slack';
+import { enqueueBranchRebase } from '@/lib/queue/execution';
+import { pathsOverlap } from '@/lib/queue/scheduler';
+
+// Story statuses owned by the PR lifecycle (GitHub is the source of truth)
+export const PR_STATUSES = ['pr_open', 'merged', 'pr_closed'];
+
+export type ChecksStatus = 'pending' | 'success' | 'failure';
+
+export type PullRequestEvent =
+  | { kind: 'opened' | 'review_requested' | 'merged' | 'closed'; prUrl: string; actor?: string }
+  | { kind: 'changes_requested' | 'approved'; prUrl: string; actor?: string; body?: string }
+  | { kind: 'checks'; prUrl: string; suite: string; checks: ChecksStatus }
+  | { kind: 'checks_reset'; prUrl: string };
+
+// check_suite conclusions that count as passing; anything else is a failure
+const PASSING_CONCLUSIONS = new Set(['success', 'neutral', 'skipped']);
+
+// ============================================================================
+// EVENT PARSING
+// ============================================================================
+
+/**
+ * Turn a GitHub webhook delivery into PR events.
+ * Returns an empty list for events and actions we don't track.
+ */
+export function parseGitHubEvent(eventName: string, payload: any): PullRequestEvent[] {
+  const actor: string | undefined = payload.sender?.login;
+
+  if (eventName === 'pull_request' && payload.pull_request) {
+    const prUrl: string = payload.pull_request.html_url;
+    switch (payload.action) {
+      case 'opened':
+      case 'reopened':
+      case 'ready_for_review':
+        return [{ kind: 'opened', prUrl, actor }];
+      case 'review_requested':
+        return [{ kind: 'review_requested', prUrl, actor }];
+      case 'synchronize':
+        // New commits: earlier check results no longer apply
+        return [{ kind: 'checks_reset', prUrl }];
+      case 'closed':
+        return [{ kind: payload.pull_request.merged ? 'merged' : 'closed', prUrl, actor }];
+      default:
+        return [];
+    }
+  }
+
+  if (eventName === 'pull_request_review' && payload.action === 'submitted' && payload.pull_request) {
+    const state = String(payload.review?.state || '').toLowerCase();
+    if (state !== 'changes_requested' && state !== 'approved') return [];
+    return [{ kind: state, prUrl: payload.pull_request.html_url, actor, body: payload.review?.body || undefined }];
+  }
+
+  if (eventName === 'check_suite' && payload.check_suite && payload.repository) {
+    const suite = payload.check_suite;
+    let checks: ChecksStatus;
+    if (payload.action === 'completed') {
+      if (suite.conclusion === 'stale') return [];
+      checks = PASSING_CONCLUSIONS.has(suite.conclusion) ? 'success' : 'failure';
+    } else if (payload.action === 'requested' || payload.action === 'rerequested') {
+      checks = 'pending';
+    } else {
+      return [];
+    }
+
+    const name: string = suite.app?.slug || suite.app?.name || String(suite.id);
+    return (suite.pull_requests || []).map((pr: { number: number }) => ({
+      kind: 'checks' as const,
+      prUrl: `${payload.repository.html_url}/pull/${pr.number}`,
+      suite: name,
+      checks,
+    }));
+  }
+
+  return [];
+}
+
+// Reviewers whose feedback the agent acts on. The review text becomes the
+// agent's instructions and it pushes to the PR branch, so on public repos
+// reviews from anyone else (CONTRIBUTOR, FIRST_TIMER, NONE, ...) are ignored.
+const TRUSTED_REVIEWER_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+/**
+ * A human review that asks for changes (or leaves comments) on our PR and
+ * should trigger a follow-up run. Reviews from bots, including our own
+ * replies, and from reviewers without write access to the repo are ignored.
+ */
+export function parseReviewFollowUp(
+  eventName: string,
+  payload: any
+): { prUrl: string; prNumber: number; reviewId: number; reviewer: string } | null {
+  if (eventName !== 'pull_request_review' || payload.action !== 'submitted') return null;
+
+  const review = payload.review;
+  const state = String(review?.state || '').toLowerCase();
+  if (!payload.pull_request || (state !== 'changes_requested' && state !== 'commented')) return null;
+  if (review.user?.type === 'Bot' || payload.sender?.type === 'Bot') return null;
+  if (!TRUSTED_REVIEWER_ASSOCIATIONS.includes(String(review.author_association || '').toUpperCase())) return null;
+
+  return {
+    prUrl: payload.pull_request.html_url,
+    prNumber: payload.pull_request.number,
+    reviewId: review.id,
+    reviewer: review.user?.login || 'reviewer',
+  };
+}
+
+/**
+ * Combine per-suite results: any failure fails, any pending is pending
+ */
+export function aggregateChecks(suites: Record<string, ChecksStatus>): ChecksStatus | null {
+  const results = Object.values(suites);
+  if (results.length === 0) return null;
+  if (results.includes('failure')) return 'failure';
+  if (results.includes('pending')) return 'pending';
+  return 'success';
+}
+
+// ============================================================================
+// STORY UPDATES
+// ============================================================================
+
+interface LifecycleEffects {
+  data: Prisma.StoryUpdateInput;
+  status?: string;
+  linearComment?: string;
+  slack?: { headline: string; detail?: string };
+}
+
+/**
+ * Work out what an event changes on a story, without side effects
+ */
+export function planPullRequestEvent(
+  story: { status: string; prChecks: unknown; prChecksStatus: string | null },
+  event: PullRequestEvent
+): LifecycleEffects {
+  // A merged or closed PR only changes again if it's reopened
+  const finished = story.status === 'merged' || story.status === 'pr_closed';
+
+  switch (event.kind) {
+    case 'opened':
+      if (story.status === 'pr_open') return { data: {} };
+      return { data: { status: 'pr_open' }, status: 'pr_open' };
+
+    case 'review_requested':
+      return { data: { prReviewState: 'review_requested' } };
+
+    case 'changes_requested':
+      return {
+        data: { prReviewState: 'changes_requested' },
+        linearComment: `**✏️ Changes Requested**${event.actor ? ` by ${event.actor}` : ''}\n\n${event.body || ''}`.trim(),
+        slack: finished ? undefined : {
+          headline: '✏️ Changes Requested',
+          detail: event.body ? event.body.slice(0, 300) : undefined,
+        },
+      };
+
+    case 'approved':
+      return {
+        data: { prReviewState: 'approved' },
+        linearComment: `**👍 PR Approved**${event.actor ? ` by ${event.actor}` : ''}`,
+      };
+
+    case 'checks_reset':
+      return { data: { prChecks: {}, prChecksStatus: 'pending' } };
+
+    case 'checks': {
+      const suites = { ...((story.prChecks as Record<string, ChecksStatus> | null) || {}), [event.suite]: event.checks };
+      const aggregate = aggregateChecks(suites);
+      const effects: LifecycleEffects = { data: { prChecks: suites, prChecksStatus: aggregate } };
+
+      if (aggregate !== story.prChecksStatus && aggregate === 'failure' && !finished) {
+        const failing = Object.entries(suites).filter(([, s]) => s === 'failure').map(([name]) => name);
+        effects.linearComment = `**🔴 Checks Failing**\n\nFailing: ${failing.join(', ')}`;
+        effects.slack = { headline: '🔴 Checks Failing', detail: `Failing: ${failing.join(', ')}` };
+      } else if (aggregate !== story.prChecksStatus && aggregate === 'success' && story.prChecksStatus === 'failure') {
+        effects.linearComment = '**🟢 Checks Passing**';
+      }
+      return effects;
+    }
+
+    case 'merged':
+      return {
+        data: { status: 'merged', prMergedAt: new Date() },
+        status: 'merged',
+        linearComment: `**🎉 PR Merged**${event.actor ? ` by ${event.actor}` : ''}`,
+        slack: { headline: '🎉 PR Merged' },
+      };
+
+    case 'closed':
+      return {
+        data: { status: 'pr_closed' },
+        status: 'pr_closed',
+        linearComment: `**🚫 PR Closed Without Merging**${event.actor ? ` by ${event.actor}` : ''}`,
+        slack: { headline: '🚫 PR Closed Without Merging' },
+      };
+  }
+}
+
+/**
+ * Queue rebases for other open PRs in the project whose changes overlap a
+ * just-merged story's, since their branches are now based on a stale main
+ */
+async function rebaseOverlappingBranches(merged: { id: string; projectId: string; touchedPaths: string[] }): Promise<void> {
+  if (merged.touchedPaths.length === 0) return;
+
+  const open = await prisma.story.findMany({
+    where: { projectId: merged.projectId, status: 'pr_open', id: { not: merged.id } },
+    select: { id: true, touchedPaths: true },
+  });
+
+  for (const story of open) {
+    if (pathsOverlap(merged.touchedPaths, story.touchedPaths).length > 0) {
+      await enqueueBranchRebase(story.id, merged.id);
+    }
+  }
+}
+
+/**
+ * Apply a PR event to its story and sync the transition to Linear and Slack.
+ * Returns null when no story owns the PR.
+ */
+export async function applyPullRequestEvent(
+  event: PullRequestEvent
+): Promise<{ storyId: string; status: string } | null> {
+  const story = await prisma.story.findFirst({
+    where: { prUrl: event.prUrl },
+    include: {
+      project: { select: { name: true } },
+      linearTasks: { select: { linearTeamId: true }, take: 1 },
+    },
+  });
+
+  if (!story) {
+    console.log(`[PRLifecycle] No story for ${event.prUrl}`);
+    return null;
+  }
+
+  const effects = planPullRequestEvent(story, event);
+  if (Object.keys(effects.data).length > 0) {
+    await prisma.story.update({ where: { id: story.id }, data: effects.data });
+  }
+
+  const status = effects.status || story.status;
+  console.log(`[PRLifecycle] ${event.kind} on ${event.prUrl} -> story ${story.id} (${status})`);
+
+  if (story.linearTaskId) {
+    try {
+      if (effects.status) {
+        await syncStoryStatusToLinear(story.linearTaskId, effects.status, story.linearTasks[0]?.linearTeamId, story.workspaceId);
+      }
+      if (effects.linearComment) {
+        await addLinearComment(story.linearTaskId, `${effects.linearComment}\n\n${event.prUrl}`, story.workspaceId);
+      }
+    } catch (error) {
+      console.error('[PRLifecycle] Linear sync failed:', error);
+    }
+  }
+
+  if (effects.slack) {
+    try {
+      await sendPullRequestUpdate({
+        completionId: story.id,
+        projectName: story.project.name,
+        title: story.title,
+        prUrl: event.prUrl,
+        workspaceId: story.workspaceId,
+        ...effects.slack,
+      });
+    } catch (error) {
+      console.error('[PRLifecycle] Slack notification failed:', error);
+    }
+  }
+
+  // Redelivered merge webhooks find the story already merged
+  if (event.kind === 'merged' && story.status !== 'merged') {
+    try {
+      await rebaseOverlappingBranches(story);
+    } catch (error) {
+      console.error('[PRLifecycle] Queueing stale-branch rebases failed:', error);
+    }
+  }
+
+  return { storyId: story.id, status };
+}
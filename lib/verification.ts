@@ -0,0 +1,299 @@
+/**
+ * Branch Verification
+ *
+ * Detects a repository's package manager and scripts, installs dependencies
+ * and runs typecheck, lint and tests against the agent's working tree before
+ * a PR is opened. Commands run with a scrubbed environment so repository
+ * scripts never see the worker's secrets.
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const execAsync = promisify(exec);
+
+// Per-step limits
+const INSTALL_TIMEOUT_MS = 5 * 60 * 1000;
+const STEP_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_BUFFER = 20 * 1024 * 1024;
+
+// Output kept per step (tail, where failures are reported)
+const MAX_STEP_OUTPUT = 12_000;
+
+// Environment passed through to repository commands
+const SANDBOX_ENV_KEYS = ['PATH', 'LANG', 'TZ', 'NODE_VERSION', 'npm_config_registry'];
+
+// `npm init` placeholder that always fails
+const PLACEHOLDER_TEST = /no test specified/;
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+export type VerificationStepName = 'install' | 'typecheck' | 'lint' | 'test';
+
+export interface ProjectCommands {
+  packageManager: PackageManager;
+  install: string;
+  typecheck: string | null;
+  lint: string | null;
+  test: string | null;
+}
+
+export interface VerificationStep {
+  name: VerificationStepName;
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  output: string;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  packageManager: PackageManager | null;
+  steps: VerificationStep[];
+  skipped: VerificationStepName[];
+  error?: string;
+  verifiedAt: string;
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Detect the package manager from the packageManager field or lockfile
+ */
+export function detectPackageManager(repoPath: string, pkg: { packageManager?: string } = {}): PackageManager {
+  const declared = pkg.packageManager?.split('@')[0];
+  if (declared === 'pnpm' || declared === 'yarn' || declared === 'bun' || declared === 'npm') {
+    return declared;
+  }
+
+  const has = (file: string) => fs.existsSync(path.join(repoPath, file));
+  if (has('pnpm-lock.yaml')) return 'pnpm';
+  if (has('yarn.lock')) return 'yarn';
+  if (has('bun.lockb') || has('bun.lock')) return 'bun';
+  return 'npm';
+}
+
+function runScript(pm: PackageManager, script: string): string {
+  return pm === 'npm' ? `npm run ${script}` : `${pm} run ${script}`;
+}
+
+function installCommand(pm: PackageManager, repoPath: string): string {
+  switch (pm) {
+    case 'pnpm':
+      return 'pnpm install --frozen-lockfile';
+    case 'yarn':
+      return fs.existsSync(path.join(repoPath, '.yarnrc.yml'))
+        ? 'yarn install --immutable'
+        : 'yarn install --frozen-lockfile';
+    case 'bun':
+      return 'bun install --frozen-lockfile';
+    default:
+      return fs.existsSync(path.join(repoPath, 'package-lock.json')) ? 'npm ci' : 'npm install';
+  }
+}
+
+/**
+ * Work out which commands to run for a repository.
+ * Returns null when the repository has no package.json.
+ */
+export function detectProjectCommands(repoPath: string): ProjectCommands | null {
+  const packageJsonPath = path.join(repoPath, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) return null;
+
+  let pkg: { packageManager?: string; scripts?: Record<string, string> };
+  try {
+    pkg = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  } catch {
+    throw new Error('package.json is not valid JSON');
+  }
+
+  const scripts = pkg.scripts || {};
+  const pm = detectPackageManager(repoPath, pkg);
+  const findScript = (names: string[]) => names.find(name => scripts[name]);
+
+  const typecheckScript = findScript(['typecheck', 'type-check', 'check-types', 'tsc']);
+  const lintScript = findScript(['lint']);
+  const testScript = scripts.test && !PLACEHOLDER_TEST.test(scripts.test) ? 'test' : undefined;
+
+  let typecheck: string | null = typecheckScript ? runScript(pm, typecheckScript) : null;
+  if (!typecheck && fs.existsSync(path.join(repoPath, 'tsconfig.json'))) {
+    typecheck = pm === 'npm' ? 'npx --no-install tsc --noEmit' : `${pm} exec tsc --noEmit`;
+  }
+
+  return {
+    packageManager: pm,
+    install: installCommand(pm, repoPath),
+    typecheck,
+    lint: lintScript ? runScript(pm, lintScript) : null,
+    test: testScript ? runScript(pm, testScript) : null,
+  };
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/**
+ * Minimal environment for repository commands: no API keys, database URLs
+ * or tokens from the worker, and a throwaway HOME
+ */
+function sandboxEnv(home: string): NodeJS.ProcessEnv {
+  const env: Record<string, string> = { HOME: home, CI: 'true', FORCE_COLOR: '0' };
+  for (const key of SANDBOX_ENV_KEYS) {
+    const value = process.env[key];
+    if (value) env[key] = value;
+  }
+  return env as NodeJS.ProcessEnv;
+}
+
+function tail(output: string): string {
+  return output.length > MAX_STEP_OUTPUT
+    ? `...(truncated)\n${output.slice(-MAX_STEP_OUTPUT)}`
+    : output;
+}
+
+/**
+ * Run one command in the repository and capture its combined output
+ */
+export async function runVerificationStep(
+  name: VerificationStepName,
+  command: string,
+  repoPath: string,
+  timeoutMs: number = STEP_TIMEOUT_MS
+): Promise<VerificationStep> {
+  const started = Date.now();
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-home-'));
+
+  console.log(`[Verify] ${name}: ${command}`);
+
+  try {
+    const { stdout, stderr } = await execAsync(command, {
+      cwd: repoPath,
+      env: sandboxEnv(home),
+      timeout: timeoutMs,
+      maxBuffer: MAX_BUFFER,
+    });
+    return {
+      name,
+      command,
+      passed: true,
+      exitCode: 0,
+      timedOut: false,
+      durationMs: Date.now() - started,
+      output: tail([stdout, stderr].filter(Boolean).join('\n')),
+    };
+  } catch (error: any) {
+    const timedOut = Boolean(error.killed && error.signal === 'SIGTERM');
+    const output = [error.stdout, error.stderr].filter(Boolean).join('\n') || error.message;
+    return {
+      name,
+      command,
+      passed: false,
+      exitCode: typeof error.code === 'number' ? error.code : null,
+      timedOut,
+      durationMs: Date.now() - started,
+      output: tail(timedOut ? `${output}\nTimed out after ${Math.round(timeoutMs / 1000)}s` : output),
+    };
+  } finally {
+    fs.rmSync(home, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Install dependencies and run typecheck, lint and tests.
+ * Stops after a failed install; the checks themselves all run so the agent
+ * sees every failure at once.
+ * @param options.install - Set false to reuse dependencies from an earlier run
+ */
+export async function verifyRepository(
+  repoPath: string,
+  options: { install?: boolean } = {}
+): Promise<VerificationResult> {
+  const verifiedAt = new Date().toISOString();
+
+  let commands: ProjectCommands | null;
+  try {
+    commands = detectProjectCommands(repoPath);
+  } catch (error) {
+    return {
+      passed: false,
+      packageManager: null,
+      steps: [],
+      skipped: [],
+      error: error instanceof Error ? error.message : String(error),
+      verifiedAt,
+    };
+  }
+
+  // Nothing to verify outside JavaScript projects
+  if (!commands) {
+    return { passed: true, packageManager: null, steps: [], skipped: ['install', 'typecheck', 'lint', 'test'], verifiedAt };
+  }
+
+  const steps: VerificationStep[] = [];
+  const skipped: VerificationStepName[] = [];
+
+  if (options.install !== false) {
+    const install = await runVerificationStep('install', commands.install, repoPath, INSTALL_TIMEOUT_MS);
+    steps.push(install);
+    if (!install.passed) {
+      return { passed: false, packageManager: commands.packageManager, steps, skipped, verifiedAt };
+    }
+  }
+
+  for (const name of ['typecheck', 'lint', 'test'] as const) {
+    const command = commands[name];
+    if (!command) {
+      skipped.push(name);
+      continue;
+    }
+    steps.push(await runVerificationStep(name, command, repoPath));
+  }
+
+  const passed = steps.every(step => step.passed);
+  console.log(
+    `[Verify] ${passed ? 'Passed' : 'Failed'}: ` +
+    steps.map(s => `${s.name} ${s.passed ? 'ok' : 'failed'}`).join(', ') +
+    (skipped.length > 0 ? ` (skipped ${skipped.join(', ')})` : '')
+  );
+
+  return { passed, packageManager: commands.packageManager, steps, skipped, verifiedAt };
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Failing steps with their output, for feeding back to the agent
+ */
+export function formatVerificationFailures(result: VerificationResult): string {
+  if (result.error) return `Verification could not run: ${result.error}`;
+
+  return result.steps
+    .filter(step => !step.passed)
+    .map(step => `### ${step.name} failed (\`${step.command}\`, exit ${step.exitCode ?? 'n/a'})\n\n${step.output.trim()}`)
+    .join('\n\n');
+}
+
+/**
+ * One line per step, for PR bodies and Linear comments
+ */
+export function summarizeVerification(result: VerificationResult): string {
+  if (result.error) return `- ❌ ${result.error}`;
+  if (!result.packageManager) return '- ⚠️ No package.json - nothing to verify';
+
+  const lines = result.steps.map(step =>
+    `- ${step.passed ? '✅' : '❌'} **${step.name}**: \`${step.command}\` (${(step.durationMs / 1000).toFixed(1)}s)`
+  );
+  for (const name of result.skipped) {
+    lines.push(`- ⚠️ **${name}**: no script found`);
+  }
+  return lines.join('\n');
+}
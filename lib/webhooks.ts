@@ -0,0 +1,124 @@
+/**
+ * Webhook Verification
+ *
+ * Shared HMAC-SHA256 verification for inbound webhooks that sign a timestamp
+ * along with the body: Slack (events and interactive payloads) and Resend
+ * (inbound email, signed Svix-style). Requests outside the timestamp window
+ * are rejected so a captured request can't be replayed later, and
+ * claimWebhookEvent() makes sure each delivery is processed once.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { prisma } from '@/lib/db';
+
+// Both Slack and Svix recommend five minutes
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookVerification = { ok: true } | { ok: false; reason: string };
+
+interface SignedPayload {
+  secret: string | Buffer;
+  timestamp: string | null; // Unix seconds, as sent by the provider
+  signedContent: string;
+  signatures: string[]; // Any one matching is enough (providers rotate secrets)
+  encoding: 'hex' | 'base64';
+}
+
+/**
+ * Check a timestamped HMAC-SHA256 signature in constant time
+ */
+export function verifySignedPayload(payload: SignedPayload, now: number = Date.now()): WebhookVerification {
+  const timestamp = Number(payload.timestamp);
+  if (!payload.timestamp || !Number.isFinite(timestamp)) {
+    return { ok: false, reason: 'Missing timestamp' };
+  }
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { ok: false, reason: 'Timestamp outside tolerance' };
+  }
+
+  const expected = createHmac('sha256', payload.secret).update(payload.signedContent).digest();
+  const matches = payload.signatures.some(signature => {
+    const actual = Buffer.from(signature, payload.encoding);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+
+  return matches ? { ok: true } : { ok: false, reason: 'Invalid signature' };
+}
+
+/**
+ * Verify a Slack request (X-Slack-Signature over "v0:<timestamp>:<body>")
+ */
+export function verifySlackRequest(headers: Headers, rawBody: string, now?: number): WebhookVerification {
+  const secret = process.env.SLACK_SIGNING_SECRET;
+  if (!secret) {
+    return { ok: false, reason: 'SLACK_SIGNING_SECRET not configured' };
+  }
+
+  const timestamp = headers.get('x-slack-request-timestamp');
+  const signature = headers.get('x-slack-signature') || '';
+
+  return verifySignedPayload({
+    secret,
+    timestamp,
+    signedContent: `v0:${timestamp}:${rawBody}`,
+    signatures: signature.startsWith('v0=') ? [signature.slice(3)] : [],
+    encoding: 'hex',
+  }, now);
+}
+
+/**
+ * Verify a Resend webhook (svix-signature over "<id>.<timestamp>.<body>",
+ * keyed by the base64 part of the whsec_ secret)
+ */
+export function verifyResendRequest(headers: Headers, rawBody: string, now?: number): WebhookVerification {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!secret) {
+    return { ok: false, reason: 'RESEND_WEBHOOK_SECRET not configured' };
+  }
+
+  const id = headers.get('svix-id');
+  if (!id) {
+    return { ok: false, reason: 'Missing svix-id' };
+  }
+  const timestamp = headers.get('svix-timestamp');
+
+  // Space-separated "v1,<base64>" entries
+  const signatures = (headers.get('svix-signature') || '')
+    .split(' ')
+    .filter(entry => entry.startsWith('v1,'))
+    .map(entry => entry.slice(3));
+
+  return verifySignedPayload({
+    secret: Buffer.from(secret.replace(/^whsec_/, ''), 'base64'),
+    timestamp,
+    signedContent: `${id}.${timestamp}.${rawBody}`,
+    signatures,
+    encoding: 'base64',
+  }, now);
+}
+
+// ============================================================================
+// IDEMPOTENCY
+// ============================================================================
+
+/**
+ * Record a delivery by the provider's event ID. Returns false if it was
+ * already claimed (a retry or replay), in which case the caller skips it.
+ */
+export async function claimWebhookEvent(source: string, eventId: string): Promise<boolean> {
+  try {
+    await prisma.webhookEvent.create({ data: { source, eventId } });
+    return true;
+  } catch (error) {
+    if ((error as any)?.code === 'P2002') return false;
+    throw error;
+  }
+}
+
+/**
+ * Forget a claimed delivery whose processing failed, so the provider's retry
+ * is processed instead of skipped
+ */
+export async function releaseWebhookEvent(source: string, eventId: string): Promise<void> {
+  await prisma.webhookEvent.deleteMany({ where: { source, eventId } });
+}
@@ -0,0 +1,36 @@
+/**
+ * Auth Middleware
+ *
+ * Turns away requests without a session cookie: pages redirect to /login,
+ * API routes get a 401. This is only a presence check (the edge runtime
+ * can't reach the database); routes validate the session and workspace
+ * membership themselves via authorize() in lib/auth/access.ts.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { CRON_PATHS, SESSION_COOKIE, isPublicPath } from '@/lib/auth/constants';
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (isPublicPath(pathname)) return NextResponse.next();
+  if (request.cookies.get(SESSION_COOKIE)?.value) return NextResponse.next();
+
+  // Cron calls authenticate with CRON_SECRET in the route
+  if (CRON_PATHS.includes(pathname) && request.headers.get('authorization')) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Skip Next internals and generated metadata files
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|icon|apple-icon|opengraph-image|twitter-image|robots.txt|sitemap.xml).*)'],
+};
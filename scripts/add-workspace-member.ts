@@ -0,0 +1,53 @@
+/**
+ * Add a user to a workspace (or change their role)
+ *
+ * Run with: npx tsx scripts/add-workspace-member.ts <email> [role] [workspaceId]
+ *
+ * Role defaults to member; workspace defaults to the original single-user
+ * workspace, so existing data stays reachable after sign-in was added.
+ * The user is created if they haven't signed in yet.
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const db = new PrismaClient();
+
+const SINGLE_USER_WORKSPACE_ID = '00000000-0000-0000-0000-000000000002';
+const ROLES = ['owner', 'admin', 'member', 'viewer'];
+
+async function main() {
+  const [emailArg, role = 'member', workspaceId = SINGLE_USER_WORKSPACE_ID] = process.argv.slice(2);
+  if (!emailArg || !ROLES.includes(role)) {
+    console.error(`Usage: npx tsx scripts/add-workspace-member.ts <email> [${ROLES.join('|')}] [workspaceId]`);
+    process.exit(1);
+  }
+  const email = emailArg.trim().toLowerCase();
+
+  const workspace = await db.workspace.findUnique({ where: { id: workspaceId } });
+  if (!workspace) {
+    console.error(`Workspace ${workspaceId} not found`);
+    process.exit(1);
+  }
+
+  const user = await db.user.upsert({
+    where: { email },
+    update: {},
+    create: { email, defaultWorkspaceId: workspaceId },
+  });
+
+  await db.workspaceMember.upsert({
+    where: { workspaceId_userId: { workspaceId, userId: user.id } },
+    update: { role },
+    create: { workspaceId, userId: user.id, role },
+  });
+
+  console.log(`✓ ${email} is now ${role} of "${workspace.name}" (${workspaceId})`);
+}
+
+main()
+  .then(() => db.$disconnect())
+  .catch((e) => {
+    console.error(e);
+    db.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,42 @@
+/**
+ * Recompute Agent Costs
+ *
+ * Re-prices stored AgentSession and OrchestratorRun rows with the current
+ * price table in lib/pricing.ts. Run after changing MODEL_PRICES.
+ * Rows recorded before per-model breakdowns were stored are left as-is.
+ *
+ * Run with: npx tsx scripts/recompute-costs.ts [--since=2025-11-01]
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+config({ path: resolve(__dirname, '../.env.local') });
+
+import { prisma } from '../lib/db';
+import { recomputeCosts, PRICE_TABLE_VERSION } from '../lib/pricing';
+
+async function main() {
+  const sinceArg = process.argv.find(arg => arg.startsWith('--since='));
+  const since = sinceArg ? new Date(sinceArg.slice('--since='.length)) : undefined;
+
+  if (since && isNaN(since.getTime())) {
+    console.error(`❌ Invalid --since date: ${sinceArg}`);
+    process.exit(1);
+  }
+
+  console.log(`🔄 Recomputing costs with price table ${PRICE_TABLE_VERSION}${since ? ` since ${since.toISOString()}` : ''}...\n`);
+
+  const { sessions, runs } = await recomputeCosts({ since });
+
+  console.log('\n📊 Recompute Summary:');
+  console.log(`  Agent sessions re-priced: ${sessions}`);
+  console.log(`  Orchestrator runs re-priced: ${runs}`);
+
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
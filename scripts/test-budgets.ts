@@ -0,0 +1,89 @@
+#!/usr/bin/env tsx
+/**
+ * Test budget evaluation
+ *
+ * Checks refusal, model downgrades and alert thresholds against
+ * fixed usage figures (no DB needed)
+ */
+
+import {
+  evaluateBudget,
+  newlyCrossedThresholds,
+  downgradeModel,
+  periodKey,
+  periodStart,
+  type BudgetUsage,
+} from '../lib/budgets';
+
+function usage(spent: number, limit: number, overrides: Partial<BudgetUsage> = {}): BudgetUsage {
+  return {
+    scope: 'workspace',
+    scopeId: 'ws',
+    name: 'Workspace',
+    period: 'daily',
+    limit,
+    spent,
+    percent: spent / limit * 100,
+    ...overrides,
+  };
+}
+
+async function testBudgets() {
+  console.log('Testing budgets...\n');
+
+  // Test 1: Under, near and over a limit
+  console.log('Test 1: Budget evaluation');
+  const under = evaluateBudget([usage(2, 10)]);
+  const near = evaluateBudget([usage(9, 10), usage(1, 100, { period: 'monthly' })]);
+  const over = evaluateBudget([usage(3, 100), usage(12, 10, { scope: 'project', name: 'Acme' })]);
+  console.log(over.reason);
+
+  if (
+    !under.allowed || under.downgrade ||
+    !near.allowed || !near.downgrade ||
+    over.allowed || !over.reason?.includes('Project "Acme" daily budget of $10.00')
+  ) {
+    console.error('✗ Test 1 failed: Unexpected evaluation');
+    process.exit(1);
+  }
+  console.log('✓ Test 1 passed\n');
+
+  // Test 2: Per-story token ceiling
+  console.log('Test 2: Story token ceiling');
+  const storyNear = evaluateBudget([], { used: 85_000, limit: 100_000 });
+  const storyOver = evaluateBudget([usage(1, 10)], { used: 120_000, limit: 100_000 });
+
+  if (!storyNear.allowed || !storyNear.downgrade || storyOver.allowed || !storyOver.reason?.includes('100,000')) {
+    console.error('✗ Test 2 failed: Unexpected story ceiling handling');
+    process.exit(1);
+  }
+  console.log('✓ Test 2 passed\n');
+
+  // Test 3: Alerts, downgrades and periods
+  console.log('Test 3: Alerts and periods');
+  const now = new Date('2026-03-14T18:30:00Z');
+
+  if (
+    newlyCrossedThresholds(85, [50]).join(',') !== '80' ||
+    newlyCrossedThresholds(120, []).join(',') !== '50,80,100' ||
+    newlyCrossedThresholds(30, []).length !== 0 ||
+    downgradeModel('claude-opus-4-5-20251101') !== 'claude-sonnet-4-5-20250929' ||
+    downgradeModel('sonnet') !== 'haiku' ||
+    downgradeModel('haiku') !== 'haiku' ||
+    periodKey('daily', now) !== '2026-03-14' ||
+    periodKey('monthly', now) !== '2026-03' ||
+    periodStart('monthly', now).toISOString() !== '2026-03-01T00:00:00.000Z'
+  ) {
+    console.error('✗ Test 3 failed: Unexpected thresholds or periods');
+    process.exit(1);
+  }
+  console.log('✓ Test 3 passed');
+
+  console.log('\n✓ Budgets test passed');
+  process.exit(0);
+}
+
+testBudgets().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
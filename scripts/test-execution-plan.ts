@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+/**
+ * Test execution plan parsing
+ *
+ * Parses planning agent output into a plan and renders it for reviewers
+ * and the executing agent (no DB or agent needed)
+ */
+
+import { parseExecutionPlan, formatPlanMarkdown, formatPlanForPrompt } from '../lib/stories/execution-plan';
+
+async function testExecutionPlan() {
+  console.log('Testing execution plans...\n');
+
+  // Test 1: Agent output with prose around the JSON
+  console.log('Test 1: Plan parsing');
+  const output = `I looked at the pricing page.
+
+{
+  "summary": "Add a meta description to /pricing",
+  "approach": "Export metadata from app/pricing/page.tsx",
+  "files": [
+    { "path": "app/pricing/page.tsx", "action": "modify", "reason": "add metadata export" },
+    { "path": "lib/seo.ts", "action": "rewrite" },
+    { "action": "create" }
+  ],
+  "risks": ["Overrides the layout title", 42],
+  "estimatedTokens": "30000"
+}`;
+  const parsed = parseExecutionPlan(output);
+  console.log(parsed?.files.map(f => `${f.path} (${f.action})`).join(', '));
+
+  if (
+    !parsed ||
+    parsed.files.length !== 2 ||
+    parsed.files[1].action !== 'modify' ||
+    parsed.risks.length !== 1 ||
+    parsed.estimatedTokens !== 30000
+  ) {
+    console.error('✗ Test 1 failed: Unexpected plan');
+    process.exit(1);
+  }
+
+  // Test 2: Output without an approach isn't a plan
+  console.log('\nTest 2: Invalid output');
+  if (parseExecutionPlan('No JSON here') || parseExecutionPlan('{"summary": "x", "approach": ""}')) {
+    console.error('✗ Test 2 failed: Accepted output without a plan');
+    process.exit(1);
+  }
+
+  // Test 3: Rendering for Linear and for the executing agent
+  console.log('\nTest 3: Formatting');
+  const plan = { ...parsed, estimatedCost: 0.9 };
+  const markdown = formatPlanMarkdown(plan);
+  const prompt = formatPlanForPrompt(plan);
+
+  if (
+    !markdown.includes('`app/pricing/page.tsx` (modify) - add metadata export') ||
+    !markdown.includes('$0.90') ||
+    !prompt.includes('## Approved Plan') ||
+    !prompt.includes('lib/seo.ts (modify)')
+  ) {
+    console.error('✗ Test 3 failed: Unexpected formatting');
+    process.exit(1);
+  }
+
+  console.log('\n✓ Execution plan test passed');
+  process.exit(0);
+}
+
+testExecutionPlan().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -32,7 +32,7 @@ async function testGitOps() {
     console.log('3️⃣ Testing applyChanges()...');
     const testFile = `test-${Date.now()}.txt`;
     await applyChanges(repoPath, [
-      { path: testFile, content: 'Test content from git-ops test' }
+      { operation: 'create', path: testFile, content: 'Test content from git-ops test' }
     ]);
 
     // Verify file was created
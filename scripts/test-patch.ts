@@ -0,0 +1,149 @@
+#!/usr/bin/env tsx
+/**
+ * Test patch application
+ *
+ * Applies unified diffs (with offset and fuzz), search/replace edits,
+ * deletes and renames to a throwaway repository, and checks that
+ * conflicting hunks and writes escaping the repo (including through
+ * symlinks) are rejected without touching any file
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyPatchSet, changesFromDiff, formatRejectionReport } from '../lib/patch';
+
+const ORIGINAL = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+async function testPatch() {
+  console.log('Testing patch application...\n');
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'patch-test-'));
+  const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'patch-outside-'));
+  const read = (file: string) => fs.readFileSync(path.join(repo, file), 'utf-8');
+
+  try {
+    fs.writeFileSync(path.join(repo, 'app.ts'), ORIGINAL);
+    fs.writeFileSync(path.join(repo, 'config.ts'), 'export const retries = 3;\nexport const timeout = 1000;\n');
+    fs.writeFileSync(path.join(repo, 'old.ts'), 'export const name = "old";\n');
+    fs.writeFileSync(path.join(repo, 'unused.ts'), 'export {};\n');
+
+    // Test 1: Hunks with a wrong line number and a drifted context line still apply
+    console.log('Test 1: Offset and fuzz');
+    const report = await applyPatchSet(repo, [
+      { operation: 'patch', path: 'app.ts', diff: '@@ -2,3 +2,3 @@\n line 5\n-line 6\n+line six\n line 7\n' },
+      { operation: 'patch', path: 'app.ts', diff: '@@ -20,5 +20,5 @@\n line 18 (edited)\n line 19\n-line 20\n+line twenty\n line 21\n line 22\n' },
+      { operation: 'replace', path: 'config.ts', edits: [{ search: 'retries = 3', replace: 'retries = 5' }] },
+    ]);
+    const app = read('app.ts');
+    console.log(JSON.stringify(report.applied));
+
+    if (
+      report.rejected.length !== 0 ||
+      !app.includes('line 5\nline six\nline 7') ||
+      !app.includes('line 19\nline twenty\nline 21') ||
+      !read('config.ts').includes('retries = 5') ||
+      report.applied[1].fuzzed !== 1
+    ) {
+      console.error('✗ Test 1 failed:', formatRejectionReport(report));
+      process.exit(1);
+    }
+
+    // Test 2: git-style diff with a rename and a delete
+    console.log('\nTest 2: Rename and delete');
+    const changes = changesFromDiff([
+      'diff --git a/old.ts b/new.ts',
+      'similarity index 80%',
+      'rename from old.ts',
+      'rename to new.ts',
+      '--- a/old.ts',
+      '+++ b/new.ts',
+      '@@ -1 +1 @@',
+      '-export const name = "old";',
+      '+export const name = "new";',
+      'diff --git a/unused.ts b/unused.ts',
+      'deleted file mode 100644',
+      '--- a/unused.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export {};',
+      '',
+    ].join('\n'));
+    const renameReport = await applyPatchSet(repo, changes);
+    console.log(JSON.stringify(changes.map(c => c.operation)));
+
+    if (
+      renameReport.rejected.length !== 0 ||
+      fs.existsSync(path.join(repo, 'old.ts')) ||
+      fs.existsSync(path.join(repo, 'unused.ts')) ||
+      read('new.ts') !== 'export const name = "new";\n'
+    ) {
+      console.error('✗ Test 2 failed:', formatRejectionReport(renameReport));
+      process.exit(1);
+    }
+
+    // Test 3: Conflicts are rejected and leave the file untouched
+    console.log('\nTest 3: Conflicts');
+    const before = read('app.ts');
+    const conflict = await applyPatchSet(repo, [
+      { operation: 'patch', path: 'app.ts', diff: '@@ -10,3 +10,3 @@\n line 10\n-line 11\n+line eleven\n line 12\n@@ -25,3 +25,3 @@\n something else\n-entirely\n+different\n more\n' },
+      { operation: 'replace', path: 'config.ts', edits: [{ search: 'export const', replace: 'const' }] },
+      { operation: 'create', path: 'app.ts', content: 'export {};\n' },
+      { operation: 'create', path: '../escape.ts', content: '' },
+    ]);
+    console.log(formatRejectionReport(conflict));
+
+    if (
+      conflict.applied.length !== 0 ||
+      conflict.rejected.length !== 4 ||
+      read('app.ts') !== before ||
+      !conflict.rejected[0].hunks.some(h => h.expected.includes('something else')) ||
+      !conflict.rejected[1].hunks[0].reason.includes('matches 2 places')
+    ) {
+      console.error('✗ Test 3 failed: Expected every change rejected');
+      process.exit(1);
+    }
+
+    // Test 4: Re-sending an applied patch is a no-op rather than a conflict
+    console.log('\nTest 4: Already applied');
+    const again = await applyPatchSet(repo, [
+      { operation: 'patch', path: 'app.ts', diff: '@@ -4,3 +4,3 @@\n line 5\n-line 6\n+line six\n line 7\n' },
+    ]);
+    if (again.rejected.length !== 0 || again.applied[0].alreadyApplied !== 1 || read('app.ts') !== before) {
+      console.error('✗ Test 4 failed:', formatRejectionReport(again));
+      process.exit(1);
+    }
+
+    // Test 5: Symlinks in the repo can't carry writes outside it
+    console.log('\nTest 5: Symlinks');
+    fs.symlinkSync(outside, path.join(repo, 'link'));
+    fs.symlinkSync(path.join(outside, 'missing.ts'), path.join(repo, 'dangling.ts'));
+    fs.mkdirSync(path.join(repo, 'src'));
+    fs.symlinkSync(path.join(repo, 'src'), path.join(repo, 'src-link'));
+    const escaped = await applyPatchSet(repo, [
+      { operation: 'create', path: 'link/escape.ts', content: 'export {};\n' },
+      { operation: 'create', path: 'dangling.ts', content: 'export {};\n' },
+      { operation: 'create', path: 'src-link/inside.ts', content: 'export {};\n' },
+    ]);
+    console.log(formatRejectionReport(escaped));
+
+    if (
+      escaped.rejected.map(r => r.path).join(',') !== 'link/escape.ts,dangling.ts' ||
+      escaped.applied.length !== 1 ||
+      fs.readdirSync(outside).length !== 0
+    ) {
+      console.error('✗ Test 5 failed: Expected writes through symlinks out of the repo rejected');
+      process.exit(1);
+    }
+  } finally {
+    fs.rmSync(repo, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  }
+
+  console.log('\n✓ Patch test passed');
+  process.exit(0);
+}
+
+testPatch().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
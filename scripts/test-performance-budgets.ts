@@ -0,0 +1,106 @@
+#!/usr/bin/env tsx
+/**
+ * Test performance budgets
+ *
+ * Verifies percentile math, sitemap page discovery, budget evaluation and
+ * the checklist/normalization of stored multi-page results (no browser needed)
+ */
+
+import {
+  percentile,
+  resolveBudgets,
+  evaluateBudgets,
+  performanceScanner,
+  type PagePerformance,
+  type DevicePerformance,
+  type PerformanceData,
+} from '../lib/scanners/performance';
+import { parseSitemapUrls } from '../lib/scanners/sitemap';
+
+function device(lcp: number, cls: number, jsBytes: number): DevicePerformance {
+  const summary = (v: number) => ({ median: v, p75: v });
+  return {
+    samples: 3,
+    lcp: summary(lcp),
+    cls: summary(cls),
+    fcp: summary(1000),
+    ttfb: summary(200),
+    jsBytes: summary(jsBytes),
+  };
+}
+
+async function testPerformanceBudgets() {
+  console.log('Testing performance budgets...\n');
+
+  // Test 1: Median and p75 interpolate between samples
+  console.log('Test 1: Percentiles');
+  const samples = [1000, 4000, 2000, 3000];
+  console.log(`median=${percentile(samples, 50)}, p75=${percentile(samples, 75)}`);
+
+  if (percentile(samples, 50) !== 2500 || percentile(samples, 75) !== 3250 || percentile([], 75) !== null) {
+    console.error('✗ Test 1 failed: Unexpected percentiles');
+    process.exit(1);
+  }
+
+  // Test 2: Sitemap keeps same-host pages only
+  console.log('\nTest 2: Sitemap parsing');
+  const urls = parseSitemapUrls(`
+    <urlset>
+      <url><loc>https://example.com/pricing</loc></url>
+      <url><loc> https://example.com/blog?page=1&amp;tag=a </loc></url>
+      <url><loc>https://cdn.example.net/about</loc></url>
+      <url><loc>https://example.com/brochure.pdf</loc></url>
+    </urlset>
+  `, 'https://example.com');
+  console.log(`Pages: ${urls.join(', ')}`);
+
+  if (urls.join() !== 'https://example.com/pricing,https://example.com/blog?page=1&tag=a') {
+    console.error('✗ Test 2 failed: Unexpected sitemap pages');
+    process.exit(1);
+  }
+
+  // Test 3: p75 over a project budget becomes a breach for that page and device
+  console.log('\nTest 3: Budget evaluation');
+  const budgets = resolveBudgets({ budgets: { lcpMs: 3000 } });
+  const pages: PagePerformance[] = [
+    { url: 'https://example.com/', path: '/', devices: { mobile: device(2800, 0.02, 200_000), desktop: device(1200, 0.01, 200_000) } },
+    { url: 'https://example.com/pricing', path: '/pricing', devices: { mobile: device(4600, 0.3, 200_000), desktop: device(1500, 0.01, 900_000) } },
+  ];
+  const breaches = evaluateBudgets(pages, budgets);
+  console.log(`Breaches: ${breaches.map(b => `${b.metric}@${b.page}/${b.device}`).join(', ')}`);
+
+  if (
+    budgets.lcpMs !== 3000 || budgets.cls !== 0.1 ||
+    breaches.length !== 3 ||
+    breaches.some(b => b.page !== '/pricing') ||
+    !breaches.some(b => b.metric === 'jsBytes' && b.device === 'desktop')
+  ) {
+    console.error('✗ Test 3 failed: Unexpected breaches');
+    process.exit(1);
+  }
+
+  // Test 4: Checklist and issues come from budgets
+  console.log('\nTest 4: Checklist and normalization');
+  const stored = { pageSource: 'sitemap', pages, budgets, breaches } as PerformanceData;
+  const passing = performanceScanner.checklist!.performance_passing;
+  const issues = performanceScanner.normalize(stored, 'ok');
+  console.log(`Issues: ${issues.map(i => `${i.key} [${i.severity}]`).join(', ')}`);
+
+  if (
+    passing(stored) ||
+    !passing({ ...stored, breaches: [] }) ||
+    passing({ lcp: 1200 } as PerformanceData) ||
+    !issues.some(i => i.key === 'performance:budget:lcp:mobile:/pricing' && i.severity === 'high')
+  ) {
+    console.error('✗ Test 4 failed: Unexpected checklist or issues');
+    process.exit(1);
+  }
+
+  console.log('\n✓ Performance budgets test passed');
+  process.exit(0);
+}
+
+testPerformanceBudgets().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,123 @@
+#!/usr/bin/env tsx
+/**
+ * Test PR lifecycle tracking
+ *
+ * Parses GitHub webhook payloads into PR events and checks the story
+ * transitions, check aggregation and notifications they produce (no DB needed)
+ */
+
+import { parseGitHubEvent, parseReviewFollowUp, planPullRequestEvent, aggregateChecks } from '../lib/stories/pr-lifecycle';
+
+const PR_URL = 'https://github.com/acme/shop/pull/42';
+const pr = { html_url: PR_URL, merged: false };
+const repository = { html_url: 'https://github.com/acme/shop' };
+
+async function testPrLifecycle() {
+  console.log('Testing PR lifecycle...\n');
+
+  // Test 1: Webhook payloads map to events
+  console.log('Test 1: Event parsing');
+  const parsed = [
+    ...parseGitHubEvent('pull_request', { action: 'closed', pull_request: { ...pr, merged: true }, sender: { login: 'dana' } }),
+    ...parseGitHubEvent('pull_request_review', { action: 'submitted', pull_request: pr, review: { state: 'CHANGES_REQUESTED', body: 'Rename this' } }),
+    ...parseGitHubEvent('pull_request_review', { action: 'submitted', pull_request: pr, review: { state: 'commented' } }),
+    ...parseGitHubEvent('check_suite', {
+      action: 'completed',
+      repository,
+      check_suite: { id: 1, conclusion: 'timed_out', app: { slug: 'github-actions' }, pull_requests: [{ number: 42 }] },
+    }),
+    ...parseGitHubEvent('issues', { action: 'opened' }),
+  ];
+  console.log(parsed.map(e => e.kind).join(', '));
+
+  if (
+    parsed.map(e => e.kind).join() !== 'merged,changes_requested,checks' ||
+    parsed[2].prUrl !== PR_URL ||
+    (parsed[2].kind === 'checks' && parsed[2].checks !== 'failure')
+  ) {
+    console.error('✗ Test 1 failed: Unexpected events');
+    process.exit(1);
+  }
+
+  // Test 2: Any failing suite fails the PR; a passing suite doesn't hide it
+  console.log('\nTest 2: Check aggregation');
+  const open = { status: 'pr_open', prChecks: { vercel: 'success' }, prChecksStatus: 'success' };
+  const failing = planPullRequestEvent(open, { kind: 'checks', prUrl: PR_URL, suite: 'github-actions', checks: 'failure' });
+  const stillFailing = planPullRequestEvent(
+    { ...open, prChecks: failing.data.prChecks, prChecksStatus: 'failure' },
+    { kind: 'checks', prUrl: PR_URL, suite: 'vercel', checks: 'success' }
+  );
+  console.log(`${failing.data.prChecksStatus} -> ${stillFailing.data.prChecksStatus}`);
+
+  if (
+    failing.data.prChecksStatus !== 'failure' ||
+    !failing.slack ||
+    stillFailing.data.prChecksStatus !== 'failure' ||
+    stillFailing.slack ||
+    aggregateChecks({}) !== null ||
+    aggregateChecks({ a: 'success', b: 'pending' }) !== 'pending'
+  ) {
+    console.error('✗ Test 2 failed: Unexpected check status');
+    process.exit(1);
+  }
+
+  // Test 3: Merge and close move the story and notify
+  console.log('\nTest 3: Transitions');
+  const merged = planPullRequestEvent(open, { kind: 'merged', prUrl: PR_URL });
+  const closed = planPullRequestEvent(open, { kind: 'closed', prUrl: PR_URL });
+  const reopened = planPullRequestEvent({ ...open, status: 'pr_closed' }, { kind: 'opened', prUrl: PR_URL });
+  const alreadyOpen = planPullRequestEvent(open, { kind: 'opened', prUrl: PR_URL });
+
+  if (
+    merged.status !== 'merged' || !merged.slack || !merged.data.prMergedAt ||
+    closed.status !== 'pr_closed' ||
+    reopened.status !== 'pr_open' ||
+    alreadyOpen.status !== undefined
+  ) {
+    console.error('✗ Test 3 failed: Unexpected transitions');
+    process.exit(1);
+  }
+
+  // Test 4: Human reviews queue a follow-up; approvals and bot replies don't
+  console.log('\nTest 4: Review follow-ups');
+  const review = (state: string, type = 'User', association = 'MEMBER') => ({
+    action: 'submitted',
+    pull_request: { ...pr, number: 42 },
+    review: { id: 7, state, user: { login: 'dana', type }, author_association: association },
+    sender: { login: 'dana', type },
+  });
+  const followUp = parseReviewFollowUp('pull_request_review', review('changes_requested'));
+
+  if (
+    followUp?.reviewId !== 7 || followUp.prNumber !== 42 || followUp.prUrl !== PR_URL ||
+    !parseReviewFollowUp('pull_request_review', review('commented')) ||
+    parseReviewFollowUp('pull_request_review', review('approved')) ||
+    parseReviewFollowUp('pull_request_review', review('commented', 'Bot'))
+  ) {
+    console.error('✗ Test 4 failed: Unexpected follow-up');
+    process.exit(1);
+  }
+
+  // Test 5: Reviews from outsiders never reach the agent (prompt injection on public repos)
+  console.log('\nTest 5: Untrusted reviewers');
+  const outsider = ['NONE', 'CONTRIBUTOR', 'FIRST_TIME_CONTRIBUTOR', 'FIRST_TIMER', '']
+    .filter(association => parseReviewFollowUp('pull_request_review', review('changes_requested', 'User', association)));
+  const unlabelled = { id: 7, state: 'changes_requested', user: { login: 'dana', type: 'User' } };
+  if (
+    outsider.length > 0 ||
+    parseReviewFollowUp('pull_request_review', { ...review('changes_requested'), review: unlabelled }) ||
+    !parseReviewFollowUp('pull_request_review', review('commented', 'User', 'COLLABORATOR')) ||
+    !parseReviewFollowUp('pull_request_review', review('changes_requested', 'User', 'OWNER'))
+  ) {
+    console.error(`✗ Test 5 failed: Unexpected follow-up for untrusted reviewers (${outsider.join(', ')})`);
+    process.exit(1);
+  }
+
+  console.log('\n✓ PR lifecycle test passed');
+  process.exit(0);
+}
+
+testPrLifecycle().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
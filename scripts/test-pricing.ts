@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+/**
+ * Test model pricing
+ *
+ * Prices SDK result usage per model, including cache tokens
+ * (no DB or agent needed)
+ */
+
+import {
+  calculateCost,
+  countTokens,
+  forecastCost,
+  mergeUsage,
+  resolvePricedModel,
+  usageFromSDKResult,
+} from '../lib/pricing';
+
+function near(a: number, b: number): boolean {
+  return Math.abs(a - b) < 1e-9;
+}
+
+async function testPricing() {
+  console.log('Testing pricing...\n');
+
+  // Test 1: SDK result with per-model usage (HoP on Sonnet, a Haiku subagent)
+  console.log('Test 1: Per-model SDK usage');
+  const usage = usageFromSDKResult({
+    usage: { input_tokens: 999, output_tokens: 999 },
+    modelUsage: {
+      'claude-sonnet-4-5-20250929': { inputTokens: 10_000, outputTokens: 2_000, cacheCreationInputTokens: 4_000, cacheReadInputTokens: 100_000 },
+      'claude-haiku-4-5-20251001': { inputTokens: 20_000, outputTokens: 1_000, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 },
+    },
+  });
+  const cost = calculateCost(usage);
+  // Sonnet: 0.03 + 0.03 + 0.015 + 0.03 = 0.105; Haiku: 0.02 + 0.005 = 0.025
+  console.log(`Total: $${cost.totalCost.toFixed(4)}, tokens: ${countTokens(cost)}`);
+
+  if (
+    !near(cost.models['claude-sonnet-4-5-20250929'].cost, 0.105) ||
+    !near(cost.totalCost, 0.13) ||
+    !near(cost.cacheReadCost, 0.03) ||
+    cost.cacheReadTokens !== 100_000 ||
+    countTokens(cost) !== 37_000
+  ) {
+    console.error('✗ Test 1 failed: Unexpected cost');
+    process.exit(1);
+  }
+  console.log('✓ Test 1 passed\n');
+
+  // Test 2: Aggregate usage fallback, aliases and merging
+  console.log('Test 2: Fallbacks');
+  const aggregate = usageFromSDKResult(
+    { usage: { input_tokens: 1_000_000, output_tokens: 0, cache_read_input_tokens: 1_000_000 } },
+    'opus'
+  );
+  const merged = mergeUsage(aggregate, aggregate);
+
+  if (
+    !near(calculateCost(aggregate).totalCost, 5.5) ||
+    merged.opus.inputTokens !== 2_000_000 ||
+    resolvePricedModel('claude-haiku-4-5') !== 'claude-haiku-4-5-20251001' ||
+    resolvePricedModel('unknown-model') !== 'claude-sonnet-4-5-20250929' ||
+    Object.keys(usageFromSDKResult({})).length !== 0
+  ) {
+    console.error('✗ Test 2 failed: Unexpected fallback handling');
+    process.exit(1);
+  }
+  console.log('✓ Test 2 passed\n');
+
+  // Test 3: Forecast for a plan estimate (80% input)
+  console.log('Test 3: Forecast');
+  const forecast = forecastCost('claude-opus-4-5-20251101', 100_000);
+
+  if (!near(forecast, 0.9)) {
+    console.error(`✗ Test 3 failed: Expected $0.90, got $${forecast}`);
+    process.exit(1);
+  }
+  console.log('✓ Test 3 passed');
+
+  console.log('\n✓ Pricing test passed');
+  process.exit(0);
+}
+
+testPricing().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
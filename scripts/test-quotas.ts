@@ -0,0 +1,61 @@
+#!/usr/bin/env tsx
+/**
+ * Test plan quotas
+ *
+ * Scan grants, the daily reset and the 429 body against fixed
+ * figures (no DB needed)
+ */
+
+import { scansToGrant, nextReset, quotaExceededResponse, QuotaExceededError } from '../lib/quotas';
+
+async function testQuotas() {
+  console.log('Testing plan quotas...\n');
+
+  // Test 1: Cron sweeps take what's left; single requests are all or nothing
+  console.log('Test 1: Scan grants');
+  const grants = [
+    scansToGrant(10, 45, 50, true),  // 5 left -> 5
+    scansToGrant(10, 50, 50, true),  // none left -> 0
+    scansToGrant(3, 45, 50, false),  // fits -> 3
+    scansToGrant(10, 45, 50, false), // doesn't fit -> 0
+    scansToGrant(1, 60, 50, false),  // limit lowered below usage -> 0
+  ];
+  if (grants.join(',') !== '5,0,3,0,0') {
+    console.error(`✗ Test 1 failed: Expected 5,0,3,0,0, got ${grants.join(',')}`);
+    process.exit(1);
+  }
+  console.log('✓ Test 1 passed\n');
+
+  // Test 2: Counters reset at the next midnight UTC
+  console.log('Test 2: Daily reset');
+  const reset = nextReset(new Date('2026-03-14T23:59:00Z')).toISOString();
+  if (reset !== '2026-03-15T00:00:00.000Z') {
+    console.error(`✗ Test 2 failed: Expected 2026-03-15T00:00:00.000Z, got ${reset}`);
+    process.exit(1);
+  }
+  console.log('✓ Test 2 passed\n');
+
+  // Test 3: Refusals are a 429 with the quota, figures and reset time
+  console.log('Test 3: Structured 429');
+  const resetsAt = new Date(Date.now() + 60 * 60 * 1000);
+  const response = quotaExceededResponse(new QuotaExceededError('scans', 'free', 50, 50, resetsAt));
+  const body = await response.json();
+  if (
+    response.status !== 429 ||
+    body.code !== 'quota_exceeded' || body.quota !== 'scans' || body.limit !== 50 ||
+    body.resetsAt !== resetsAt.toISOString() ||
+    Number(response.headers.get('Retry-After')) !== 3600
+  ) {
+    console.error('✗ Test 3 failed: Unexpected response', response.status, body);
+    process.exit(1);
+  }
+  console.log('✓ Test 3 passed');
+
+  console.log('\n✓ Quotas test passed');
+  process.exit(0);
+}
+
+testQuotas().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+/**
+ * Test scan delta classification
+ *
+ * Verifies issues are classified as new, resolved, regressed or unchanged
+ * between consecutive scans of the same type
+ */
+
+import { extractScanIssues, diffScanIssues, hasActionableChanges } from '../lib/scans/delta';
+
+function seoScan(seoDetail: Record<string, unknown>) {
+  return {
+    scanType: 'seo',
+    status: 'ok',
+    seoDetail,
+    vercelData: null,
+    playwrightMetrics: null,
+    securityIssues: null,
+    domainData: null,
+    analyticsData: null,
+    integrationsData: null,
+    crawlData: null,
+    accessibilityData: null,
+  } as Parameters<typeof extractScanIssues>[0];
+}
+
+async function testScanDelta() {
+  console.log('Testing scan delta...\n');
+
+  const complete = { title: 'Home', metaDescription: 'Desc', ogTitle: 'Home', ogImage: '/og.png', h1: 'Hi', canonical: '/', robotsTxt: true, sitemap: true };
+
+  // Test 1: First scan - everything is new
+  console.log('Test 1: First scan');
+  const day1 = extractScanIssues(seoScan({ ...complete, metaDescription: '' }));
+  const delta1 = diffScanIssues('seo', day1, null);
+  console.log(`New: ${delta1.new.map(i => i.key).join(', ')}`);
+
+  if (delta1.new.length !== 1 || delta1.new[0].key !== 'seo:missing:meta_description') {
+    console.error('✗ Test 1 failed: Expected missing meta description to be new');
+    process.exit(1);
+  }
+
+  // Test 2: Same issue next day - unchanged, nothing actionable
+  console.log('\nTest 2: Re-observed issue');
+  const day2 = extractScanIssues(seoScan({ ...complete, metaDescription: '' }));
+  const delta2 = diffScanIssues('seo', day2, day1);
+  console.log(`Unchanged: ${delta2.unchanged.length}, actionable: ${hasActionableChanges(delta2)}`);
+
+  if (delta2.unchanged.length !== 1 || hasActionableChanges(delta2)) {
+    console.error('✗ Test 2 failed: Expected the re-observed issue to be unchanged');
+    process.exit(1);
+  }
+
+  // Test 3: Fixed - resolved
+  console.log('\nTest 3: Fixed issue');
+  const day3 = extractScanIssues(seoScan(complete));
+  const delta3 = diffScanIssues('seo', day3, day2);
+  console.log(`Resolved: ${delta3.resolved.map(i => i.key).join(', ')}`);
+
+  if (delta3.resolved.length !== 1 || delta3.new.length !== 0) {
+    console.error('✗ Test 3 failed: Expected the issue to be resolved');
+    process.exit(1);
+  }
+
+  // Test 4: Came back - regressed
+  console.log('\nTest 4: Regression');
+  const day4 = extractScanIssues(seoScan({ ...complete, metaDescription: '' }));
+  const earlierKeys = new Set([...day1, ...day2].map(i => i.key));
+  const delta4 = diffScanIssues('seo', day4, day3, earlierKeys);
+  console.log(`Regressed: ${delta4.regressed.map(i => i.key).join(', ')}`);
+
+  if (delta4.regressed.length !== 1 || delta4.new.length !== 0 || !hasActionableChanges(delta4)) {
+    console.error('✗ Test 4 failed: Expected the issue to be regressed');
+    process.exit(1);
+  }
+
+  console.log('\n✓ Scan delta test passed');
+  process.exit(0);
+}
+
+testScanDelta().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+/**
+ * Test Accessibility Scanner
+ *
+ * Validates grouping of axe-core violations across viewports and the
+ * registry normalization. A live scan needs Browserless, so it is optional.
+ */
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+import type { Result as AxeResult } from 'axe-core';
+import { scanAccessibility, groupViolations, wcagCriteria, accessibilityScanner } from '../lib/scanners/accessibility';
+
+function violation(id: string, impact: AxeResult['impact'], targets: string[], tags: string[] = []): AxeResult {
+  return {
+    id,
+    impact,
+    tags,
+    description: `${id} description`,
+    help: `${id} help`,
+    helpUrl: `https://dequeuniversity.com/rules/axe/4.11/${id}`,
+    nodes: targets.map(target => ({ target: [target] })),
+  } as unknown as AxeResult;
+}
+
+async function main() {
+  console.log('Testing accessibility scanner...\n');
+
+  // Test 1: WCAG tags map to success criteria
+  console.log('Test 1: WCAG criteria from tags');
+  const criteria = wcagCriteria(['cat.color', 'wcag2aa', 'wcag143', 'wcag1410']);
+  if (criteria.join() !== '1.4.3,1.4.10') {
+    console.error(`❌ Unexpected criteria: ${criteria.join()}`);
+    process.exit(1);
+  }
+  console.log('✓ Criteria parsed');
+
+  // Test 2: Violations are merged per rule across viewports
+  console.log('\nTest 2: Grouping across viewports');
+  const grouped = groupViolations([
+    { viewport: 'mobile', violations: [
+      violation('color-contrast', 'serious', ['.nav a', '.footer p'], ['wcag2aa', 'wcag143']),
+      violation('target-size', 'serious', ['.menu-toggle'], ['wcag22aa', 'wcag258']),
+    ] },
+    { viewport: 'desktop', violations: [
+      violation('color-contrast', 'serious', ['.nav a', '.hero h2', '.footer p'], ['wcag2aa', 'wcag143']),
+      violation('image-alt', 'critical', ['img.logo'], ['wcag2a', 'wcag111']),
+    ] },
+  ]);
+
+  const contrast = grouped.violations.find(v => v.ruleId === 'color-contrast');
+  if (
+    grouped.violations.length !== 3 ||
+    grouped.violations[0].ruleId !== 'image-alt' ||
+    contrast?.viewports.join() !== 'mobile,desktop' ||
+    contrast.nodeCount !== 3 ||
+    contrast.targets.length !== 3 ||
+    grouped.byImpact.critical !== 1 ||
+    grouped.byImpact.serious !== 2
+  ) {
+    console.error('❌ Unexpected grouping:', JSON.stringify(grouped, null, 2));
+    process.exit(1);
+  }
+  console.log('✓ Violations grouped by rule and impact');
+
+  // Test 3: Registry normalization keys issues by rule
+  console.log('\nTest 3: Normalization');
+  const issues = accessibilityScanner.normalize(grouped, 'ok');
+  if (!issues.some(i => i.key === 'accessibility:image-alt' && i.severity === 'critical')) {
+    console.error('❌ Unexpected issues:', issues);
+    process.exit(1);
+  }
+  console.log(`✓ ${issues.length} issues normalized`);
+
+  // Test 4: Error handling with empty URL
+  console.log('\nTest 4: Empty URL');
+  const resultEmpty = await scanAccessibility('');
+  if (resultEmpty.status !== 'error' || !resultEmpty.error?.includes('required')) {
+    console.error('❌ Empty URL error handling failed');
+    process.exit(1);
+  }
+  console.log('✓ Empty URL rejected');
+
+  // Test 5: Live scan (requires Browserless)
+  if (process.env.BROWSERLESS_API_KEY) {
+    console.log('\nTest 5: Scanning example.com...');
+    const result = await scanAccessibility('example.com');
+    if (result.status === 'ok') {
+      console.log(`✓ ${result.accessibilityData?.violations.length} rules violated`);
+    } else {
+      console.log(`⚠️  Scan returned ${result.status}: ${result.error}`);
+    }
+  } else {
+    console.log('\nTest 5: Skipped (BROWSERLESS_API_KEY not set)');
+  }
+
+  console.log('\n✓ Accessibility scanner test passed');
+}
+
+main().catch((error) => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
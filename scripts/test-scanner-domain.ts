@@ -5,7 +5,13 @@
  * Tests the domain scanner against a known domain
  */
 
-import { scanDomain } from '../lib/scanners/domain';
+import {
+  scanDomain,
+  certificateCovers,
+  analyzeSecurityHeaders,
+  domainScanner,
+  type DomainScanResult,
+} from '../lib/scanners/domain';
 
 async function testDomainScanner() {
   console.log('Testing domain scanner...\n');
@@ -43,6 +49,69 @@ async function testDomainScanner() {
     process.exit(1);
   }
 
+  // Test 4: Deep checks were recorded for the reachable domain
+  console.log('\nTest 4: DNS and certificate');
+  const deep = result1.domainData;
+  console.log(`A records: ${deep?.dns?.a.length ?? 0}, issuer: ${deep?.certificate?.issuer}, expires in ${deep?.certificate?.daysToExpiry} days`);
+
+  if (!deep?.dns?.a.length || !deep.certificate?.coversDomain || !deep.headers) {
+    console.error('✗ Test 4 failed: Expected DNS records, a matching certificate and header analysis');
+    process.exit(1);
+  }
+
+  // Test 5: SAN matching and header analysis
+  console.log('\nTest 5: SAN coverage and security headers');
+  const headers = analyzeSecurityHeaders(new Headers({
+    'strict-transport-security': 'max-age=31536000; includeSubDomains',
+    'content-security-policy': "default-src 'self'; frame-ancestors 'none'",
+  }));
+
+  if (
+    !certificateCovers(['*.example.com'], 'www.example.com') ||
+    certificateCovers(['*.example.com'], 'a.b.example.com') ||
+    certificateCovers(['*.example.com'], 'example.com') ||
+    headers.hsts?.maxAge !== 31536000 || !headers.hsts.includeSubDomains ||
+    !headers.csp?.frameAncestors || headers.xFrameOptions !== null
+  ) {
+    console.error('✗ Test 5 failed: Unexpected SAN matching or header analysis');
+    process.exit(1);
+  }
+
+  // Test 6: Expiring certificate and missing email records become issues and a signal
+  console.log('\nTest 6: Issues and priority signals');
+  const stored: DomainScanResult['domainData'] = {
+    protocol: 'https',
+    redirectCount: 0,
+    sslValid: true,
+    certificate: {
+      issuer: "Let's Encrypt",
+      subject: 'example.com',
+      sans: ['example.com'],
+      validFrom: '2026-01-01T00:00:00.000Z',
+      validTo: '2026-01-10T00:00:00.000Z',
+      daysToExpiry: 5,
+      coversDomain: true,
+      authorized: true,
+    },
+    headers,
+    email: { spf: [], spfIncludesResend: false, dkim: [{ selector: 'resend', found: true }], dmarc: { record: 'v=DMARC1; p=none', policy: 'none' } },
+  };
+  const issues = domainScanner.normalize(stored, 'ok');
+  const signals = domainScanner.signals!(stored);
+  console.log(issues.map(i => `  [${i.severity}] ${i.title}`).join('\n'));
+
+  if (
+    !issues.some(i => i.key === 'domain:cert_expiring' && i.severity === 'critical') ||
+    !issues.some(i => i.key === 'domain:email:spf') ||
+    !issues.some(i => i.key === 'domain:email:dmarc_policy') ||
+    issues.some(i => i.key.startsWith('domain:headers:')) ||
+    signals.length !== 1 || signals[0].severity !== 'critical' ||
+    domainScanner.signals!({ ...stored, certificate: { ...stored!.certificate!, daysToExpiry: 60 } }).length !== 0
+  ) {
+    console.error('✗ Test 6 failed: Unexpected issues or signals');
+    process.exit(1);
+  }
+
   console.log('\n✓ Domain scanner test passed');
   process.exit(0);
 }
@@ -0,0 +1,95 @@
+#!/usr/bin/env tsx
+/**
+ * Test scanner registry
+ *
+ * Verifies registered scanners are well-formed, input gating works, and
+ * stored results normalize into issues and checklist answers
+ */
+
+import {
+  listScanners,
+  getScanner,
+  canRunScanner,
+  normalizeScan,
+  collectChecklistContributions,
+} from '../lib/scanners/registry';
+
+function storedScan(scanType: string, column: string, data: unknown, status = 'ok') {
+  return {
+    scanType,
+    status,
+    domainData: null,
+    seoDetail: null,
+    analyticsData: null,
+    vercelData: null,
+    playwrightMetrics: null,
+    securityIssues: null,
+    integrationsData: null,
+    crawlData: null,
+    accessibilityData: null,
+    [column]: data,
+  } as Parameters<typeof normalizeScan>[0];
+}
+
+async function testScannerRegistry() {
+  console.log('Testing scanner registry...\n');
+
+  // Test 1: Every scanner has a unique type and a sane timeout
+  console.log('Test 1: Registered scanners');
+  const scanners = listScanners();
+  const types = scanners.map(s => s.type);
+  console.log(`Scanners: ${types.join(', ')}`);
+
+  if (new Set(types).size !== types.length || scanners.some(s => s.timeoutMs <= 0 || s.inputs.length === 0)) {
+    console.error('✗ Test 1 failed: Duplicate types or missing timeout/inputs');
+    process.exit(1);
+  }
+
+  // Test 2: Repo scanners are skipped for projects without a repo
+  console.log('\nTest 2: Input gating');
+  const project = { name: 'demo', domain: 'example.com', repo: null };
+  const runnable = scanners.filter(s => canRunScanner(s, project)).map(s => s.type);
+  console.log(`Runnable without repo: ${runnable.join(', ')}`);
+
+  if (runnable.includes('secrets') || runnable.includes('npm_audit') || !runnable.includes('integrations')) {
+    console.error('✗ Test 2 failed: Expected repo-only scanners to be skipped');
+    process.exit(1);
+  }
+
+  // Test 3: Normalization comes from the scanner definition
+  console.log('\nTest 3: Normalization');
+  const issues = normalizeScan(storedScan('seo', 'seoDetail', { title: 'Home', h1: 'Hi' }));
+  console.log(`Issues: ${issues.map(i => i.key).join(', ')}`);
+
+  if (!issues.some(i => i.key === 'seo:missing:meta_description') || issues.some(i => i.key === 'seo:missing:title')) {
+    console.error('✗ Test 3 failed: Unexpected SEO issues');
+    process.exit(1);
+  }
+
+  // Test 4: Checklist contributions from several scanners are all collected
+  console.log('\nTest 4: Checklist contributions');
+  const contributions = collectChecklistContributions([
+    storedScan('npm_audit', 'securityIssues', { vulnerabilities: [] }),
+    storedScan('secrets', 'securityIssues', { findings: [{ pattern: 'AWS Access Key' }], historyFindings: [] }, 'secrets_found'),
+    storedScan('domain', 'domainData', { protocol: 'https', sslValid: true }),
+  ]);
+  console.log(`security_passing: ${contributions.security_passing}, ssl_valid: ${contributions.ssl_valid}`);
+
+  if (contributions.security_passing?.join() !== 'true,false' || contributions.ssl_valid?.join() !== 'true') {
+    console.error('✗ Test 4 failed: Unexpected checklist contributions');
+    process.exit(1);
+  }
+
+  if (getScanner('nonexistent')) {
+    console.error('✗ Test 4 failed: Unknown scan type should not resolve');
+    process.exit(1);
+  }
+
+  console.log('\n✓ Scanner registry test passed');
+  process.exit(0);
+}
+
+testScannerRegistry().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * Test SEO Crawl Scanner
+ *
+ * Crawls a small local site and checks broken links, redirect chains,
+ * orphans, duplicate metadata, missing canonicals and robots blocks
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { crawlSite, parseRobotsTxt, isBlockedByRobots, seoCrawlScanner } from '../lib/scanners/seo-crawl';
+
+function page(title: string, body: string, canonical = true): string {
+  return `<html><head><title>${title}</title>` +
+    `<meta name="description" content="${title} description">` +
+    (canonical ? `<link rel="canonical" href="/">` : '') +
+    `</head><body>${body}</body></html>`;
+}
+
+const SITE: Record<string, { status: number; body?: string; location?: string; type?: string }> = {
+  '/': { status: 200, body: page('Home', '<a href="/pricing">Pricing</a><a href="/about/">About</a><a href="/old">Old</a><a href="/private/x">Private</a>') },
+  '/pricing': { status: 200, body: page('Plans', '<a href="/missing">Gone</a><a href="/broken">Broken</a><a href="#top">Top</a><a href="mailto:a@b.c">Mail</a>') },
+  '/about': { status: 200, body: page('Plans', '<a href="/">Home</a>', false) },
+  '/old': { status: 301, location: '/older' },
+  '/older': { status: 302, location: '/about' },
+  '/broken': { status: 500, body: 'error', type: 'text/plain' },
+  '/orphan': { status: 200, body: page('Orphan', '') },
+  '/robots.txt': { status: 200, body: 'User-agent: *\nDisallow: /private\n', type: 'text/plain' },
+};
+
+async function main() {
+  console.log('Testing SEO crawl scanner...\n');
+
+  // Test 1: robots.txt rules (longest match wins)
+  console.log('Test 1: robots.txt parsing');
+  const rules = parseRobotsTxt('User-agent: googlebot\nDisallow: /\n\nUser-agent: *\nDisallow: /admin\nAllow: /admin/public\nDisallow: /*.json$\n');
+  if (
+    !isBlockedByRobots(rules, '/admin/users') ||
+    isBlockedByRobots(rules, '/admin/public/page') ||
+    !isBlockedByRobots(rules, '/data.json') ||
+    isBlockedByRobots(rules, '/pricing')
+  ) {
+    console.error('❌ Unexpected robots.txt matching:', rules);
+    process.exit(1);
+  }
+  console.log('✓ Rules matched');
+
+  const server = http.createServer((req, res) => {
+    const path = (req.url || '/').split('?')[0].replace(/(.)\/$/, '$1');
+    if (path === '/sitemap.xml') {
+      const { port } = server.address() as AddressInfo;
+      const base = `http://127.0.0.1:${port}`;
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      res.end(`<urlset>${['/', '/pricing', '/about', '/orphan', '/private/report'].map(p => `<url><loc>${base}${p}</loc></url>`).join('')}</urlset>`);
+      return;
+    }
+    const entry = SITE[path] || { status: 404, body: 'not found', type: 'text/plain' };
+    res.writeHead(entry.status, {
+      'Content-Type': entry.type || 'text/html',
+      ...(entry.location ? { Location: entry.location } : {}),
+    });
+    res.end(entry.body || '');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    // Test 2: Crawl the local site
+    console.log('\nTest 2: Crawling local site');
+    const result = await crawlSite(`http://127.0.0.1:${port}`, { checkExternal: false });
+    const data = result.crawlData;
+    if (result.status !== 'ok' || !data) {
+      console.error('❌ Crawl failed:', result.error);
+      process.exit(1);
+    }
+    console.log(`Crawled: ${data.pages.map(p => `${p.path} (${p.status})`).join(', ')}`);
+
+    const pricing = data.pages.find(p => p.path === '/pricing');
+    const old = data.pages.find(p => p.path === '/old');
+    const checks: Array<[string, boolean]> = [
+      ['broken links on /pricing', pricing?.brokenLinks.map(l => l.status).sort().join() === '404,500'],
+      ['redirect chain on /old', old?.redirectChain?.length === 2],
+      ['robots-blocked sitemap page', data.blocked.some(b => b.path === '/private/report' && b.inSitemap)],
+      ['orphan page', data.complete && data.orphans.join() === '/orphan'],
+      ['duplicate title', data.duplicateTitles.some(g => g.value === 'Plans' && g.pages.length === 2)],
+      ['private page not crawled', !data.pages.some(p => p.path.startsWith('/private'))],
+    ];
+    for (const [name, ok] of checks) {
+      if (!ok) {
+        console.error(`❌ Expected ${name}:`, JSON.stringify(data, null, 2));
+        process.exit(1);
+      }
+      console.log(`✓ ${name}`);
+    }
+
+    // Test 3: Issues are per page
+    console.log('\nTest 3: Normalization');
+    const issues = seoCrawlScanner.normalize(data, 'ok');
+    console.log(issues.map(i => `  [${i.severity}] ${i.title}`).join('\n'));
+    if (
+      !issues.some(i => i.key === 'seo_crawl:broken_links:/pricing' && i.title === 'Fix 2 broken links on /pricing') ||
+      !issues.some(i => i.key === 'seo_crawl:missing_canonical' && i.title.includes('/about'))
+    ) {
+      console.error('❌ Unexpected issues');
+      process.exit(1);
+    }
+
+    // Test 4: Page limit marks the crawl incomplete and skips orphan detection
+    console.log('\nTest 4: Page limit');
+    const limited = await crawlSite(`http://127.0.0.1:${port}`, { maxPages: 2, checkExternal: false });
+    if (limited.crawlData?.pages.length !== 2 || limited.crawlData.complete || limited.crawlData.orphans.length !== 0) {
+      console.error('❌ Page limit not respected');
+      process.exit(1);
+    }
+    console.log('✓ Crawl stopped at 2 pages');
+  } finally {
+    server.close();
+  }
+
+  console.log('\n✓ SEO crawl scanner test passed');
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
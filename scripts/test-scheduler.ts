@@ -0,0 +1,85 @@
+#!/usr/bin/env tsx
+/**
+ * Test execution scheduling
+ *
+ * Path prediction, overlap detection and per-project limits
+ * (no DB or Redis needed)
+ */
+
+import { evaluateSchedule, extractPaths, pathsOverlap, type RunningSlot } from '../lib/queue/scheduler';
+
+function slot(storyId: string, projectId: string, paths: string[]): RunningSlot {
+  return { storyId, projectId, title: `Story ${storyId}`, paths, jobId: `job-${storyId}`, startedAt: Date.now() };
+}
+
+async function testScheduler() {
+  console.log('Testing scheduler...\n');
+
+  // Test 1: Paths mentioned in a story's rationale
+  console.log('Test 1: Path extraction');
+  const paths = extractPaths('Add a meta description to `app/pricing/page.tsx` and lib/seo.ts (see example.com, v1.2)');
+  console.log(`Paths: ${paths.join(', ')}`);
+
+  if (paths.length !== 2 || !paths.includes('app/pricing/page.tsx') || !paths.includes('lib/seo.ts')) {
+    console.error('✗ Test 1 failed: Unexpected paths');
+    process.exit(1);
+  }
+  console.log('✓ Test 1 passed\n');
+
+  // Test 2: Files and directories overlap
+  console.log('Test 2: Overlap');
+  if (
+    pathsOverlap(['app/pricing/page.tsx'], ['app/pricing/page.tsx']).length !== 1 ||
+    pathsOverlap(['app/pricing'], ['app/pricing/page.tsx'])[0] !== 'app/pricing/page.tsx' ||
+    pathsOverlap(['app/pricing-old/page.tsx'], ['app/pricing']).length !== 0 ||
+    pathsOverlap(['lib/seo.ts'], []).length !== 0
+  ) {
+    console.error('✗ Test 2 failed: Unexpected overlap');
+    process.exit(1);
+  }
+  console.log('✓ Test 2 passed\n');
+
+  // Test 3: Overlapping stories are serialized, others share the project limit
+  console.log('Test 3: Scheduling decisions');
+  const running = [slot('a', 'p1', ['lib/seo.ts']), slot('b', 'p2', ['app/page.tsx'])];
+  const candidate = { storyId: 'c', projectId: 'p1', title: 'Story c', paths: ['lib/seo.ts', 'app/layout.tsx'] };
+
+  const overlap = evaluateSchedule(candidate, running, 3);
+  const limited = evaluateSchedule({ ...candidate, paths: ['app/layout.tsx'] }, running, 1);
+  const allowed = evaluateSchedule({ ...candidate, paths: ['app/layout.tsx'] }, running, 2);
+  const otherProject = evaluateSchedule({ ...candidate, projectId: 'p3' }, running, 1);
+  console.log(`Overlap: ${overlap?.message}`);
+  console.log(`Limit: ${limited?.message}`);
+
+  if (
+    overlap?.kind !== 'file_overlap' || overlap.blockedBy[0] !== 'a' ||
+    limited?.kind !== 'project_limit' ||
+    allowed !== null ||
+    otherProject !== null
+  ) {
+    console.error('✗ Test 3 failed: Unexpected decision');
+    process.exit(1);
+  }
+  console.log('✓ Test 3 passed\n');
+
+  // Test 4: A second job on a running story waits; the job's own slot doesn't block it
+  console.log('Test 4: Jobs on the same story');
+  const review = { storyId: 'a', projectId: 'p1', title: 'Story a', paths: ['lib/other.ts'] };
+  const sameStory = evaluateSchedule(review, running, 3, 'job-review-a');
+  const ownSlot = evaluateSchedule(review, running, 3, 'job-a');
+  console.log(`Same story: ${sameStory?.message}`);
+
+  if (sameStory?.kind !== 'same_story' || sameStory.blockedBy[0] !== 'a' || ownSlot !== null) {
+    console.error('✗ Test 4 failed: Unexpected decision');
+    process.exit(1);
+  }
+  console.log('✓ Test 4 passed');
+
+  console.log('\n✓ Scheduler test passed');
+  process.exit(0);
+}
+
+testScheduler().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+/**
+ * Test project schedules
+ *
+ * Cadence validation, default and override resolution and upcoming runs in
+ * a project's time zone (no DB or Redis needed)
+ */
+
+import { validateCadence, resolveSchedules, upcomingRuns, mergeUpcomingRuns, getScheduleSettings } from '../lib/schedules';
+
+async function testSchedules() {
+  console.log('Testing project schedules...\n');
+
+  // Test 1: 5-field crons, 'off' anywhere and 'on_push' only for repo scanners
+  console.log('Test 1: Cadence validation');
+  const results = [
+    validateCadence('0 9 * * 1-5', { allowOnPush: false }),
+    validateCadence('off', { allowOnPush: false }),
+    validateCadence('on_push', { allowOnPush: true }),
+    validateCadence('on_push', { allowOnPush: false }),
+    validateCadence('* * * * * *', { allowOnPush: false }), // Seconds field
+    validateCadence('61 9 * * *', { allowOnPush: false }),
+  ].map(error => (error ? 'invalid' : 'ok'));
+  if (results.join(',') !== 'ok,ok,ok,invalid,invalid,invalid') {
+    console.error(`✗ Test 1 failed: Expected ok,ok,ok,invalid,invalid,invalid, got ${results.join(',')}`);
+    process.exit(1);
+  }
+  console.log('✓ Test 1 passed\n');
+
+  // Test 2: Defaults per scanner, overrides on top, scanners without inputs left out
+  console.log('Test 2: Schedule resolution');
+  const project = { id: 'p1', name: 'Acme', domain: 'acme.com', repo: 'acme/web' };
+  const defaults = resolveSchedules(project, getScheduleSettings(null));
+  const cadence = (schedules: typeof defaults, scanType: string | null) =>
+    schedules.find(s => s.scanType === scanType)?.cadence;
+  if (cadence(defaults, 'npm_audit') !== 'on_push' || cadence(defaults, 'performance') !== '0 6 * * 1' || !cadence(defaults, null)) {
+    console.error('✗ Test 2 failed: Expected npm_audit on push, weekly performance and an orchestrator default');
+    process.exit(1);
+  }
+  const overridden = resolveSchedules(project, getScheduleSettings({
+    timezone: 'UTC',
+    scanSchedules: { performance: 'off', domain: '0 7 * * *' },
+    orchestratorSchedule: 'off',
+    schedulesPaused: false,
+  }));
+  if (cadence(overridden, 'performance') || cadence(overridden, null) || cadence(overridden, 'domain') !== '0 7 * * *') {
+    console.error('✗ Test 2 failed: Expected overrides to turn off performance and the orchestrator and move domain');
+    process.exit(1);
+  }
+  const noRepo = resolveSchedules({ ...project, repo: null }, getScheduleSettings(null));
+  if (cadence(noRepo, 'npm_audit')) {
+    console.error('✗ Test 2 failed: Expected no npm_audit schedule without a repo');
+    process.exit(1);
+  }
+  console.log('✓ Test 2 passed\n');
+
+  // Test 3: Runs are computed in the project's time zone
+  console.log('Test 3: Upcoming runs');
+  const from = new Date('2026-03-02T12:00:00Z'); // 7:00 in New York (EST)
+  const runs = upcomingRuns('0 9 * * *', 'America/New_York', 2, from).map(run => run.toISOString());
+  const expected = ['2026-03-02T14:00:00.000Z', '2026-03-03T14:00:00.000Z'];
+  if (runs.join(',') !== expected.join(',')) {
+    console.error(`✗ Test 3 failed: Expected ${expected.join(',')}, got ${runs.join(',')}`);
+    process.exit(1);
+  }
+  if (upcomingRuns('on_push', 'UTC', 3, from).length !== 0) {
+    console.error('✗ Test 3 failed: Expected no timed runs for on_push');
+    process.exit(1);
+  }
+  console.log('✓ Test 3 passed\n');
+
+  // Test 4: Merged timeline is soonest first and skips paused projects
+  console.log('Test 4: Merged timeline');
+  const summary = (projectId: string, paused: boolean, runAt: string[]) => ({
+    projectId,
+    projectName: projectId,
+    timezone: 'UTC',
+    paused,
+    active: true,
+    schedules: [{ id: `${projectId}:orchestrator`, kind: 'orchestrator' as const, scanType: null, cadence: '0 9 * * *', isDefault: true, nextRuns: runAt }],
+  });
+  const timeline = mergeUpcomingRuns([
+    summary('a', false, ['2026-03-03T09:00:00.000Z', '2026-03-05T09:00:00.000Z']),
+    summary('b', false, ['2026-03-04T09:00:00.000Z']),
+    summary('c', true, ['2026-03-02T09:00:00.000Z']),
+  ], 2).map(run => run.projectId);
+  if (timeline.join(',') !== 'a,b') {
+    console.error(`✗ Test 4 failed: Expected a,b, got ${timeline.join(',')}`);
+    process.exit(1);
+  }
+  console.log('✓ Test 4 passed\n');
+
+  console.log('\n✓ Schedules test passed');
+  process.exit(0);
+}
+
+testSchedules().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+/**
+ * Test story deduplication
+ *
+ * Verifies findings are fingerprinted consistently across runs, that
+ * near-identical titles are recognised as the same issue and that
+ * re-observations can't escalate a story to P0
+ */
+
+import { normalizeIssueText, fingerprintFinding, issueSimilarity, reobservedScore, scoreToPriorityLevel } from '../lib/stories/dedupe';
+
+async function testStoryDedupe() {
+  console.log('Testing story dedupe...\n');
+
+  // Test 1: Normalization drops filler words, punctuation and numbers
+  console.log('Test 1: Normalization');
+  const normalized = normalizeIssueText('Add a meta description to the /pricing page (2 pages)');
+  console.log(`Normalized: "${normalized}"`);
+
+  if (normalized !== 'meta description pricing pages') {
+    console.error('✗ Test 1 failed: Unexpected normalized text');
+    process.exit(1);
+  }
+
+  // Test 2: Same issue worded differently gets the same fingerprint
+  console.log('\nTest 2: Fingerprint stability');
+  const a = fingerprintFinding({ projectId: 'p1', agent: 'seo', issue: 'Add meta description on pricing' });
+  const b = fingerprintFinding({ projectId: 'p1', agent: 'SEO', issue: 'Missing meta description: pricing' });
+  console.log(`Fingerprints: ${a} / ${b}`);
+
+  if (a !== b) {
+    console.error('✗ Test 2 failed: Expected matching fingerprints');
+    process.exit(1);
+  }
+
+  // Test 3: Different project or agent never collides
+  console.log('\nTest 3: Fingerprint scoping');
+  const otherProject = fingerprintFinding({ projectId: 'p2', agent: 'seo', issue: 'Add meta description on pricing' });
+  const otherAgent = fingerprintFinding({ projectId: 'p1', agent: 'analytics', issue: 'Add meta description on pricing' });
+
+  if (otherProject === a || otherAgent === a) {
+    console.error('✗ Test 3 failed: Expected fingerprints scoped by project and agent');
+    process.exit(1);
+  }
+
+  // Test 4: Similar titles score above the threshold, unrelated titles don't
+  console.log('\nTest 4: Similarity');
+  const similar = issueSimilarity(
+    'Add meta description to the homepage for search results',
+    'Missing meta description on homepage for search results'
+  );
+  const unrelated = issueSimilarity(
+    'Add meta description to the homepage',
+    'Rotate leaked Stripe secret key'
+  );
+  console.log(`Similar: ${similar.toFixed(2)}, unrelated: ${unrelated.toFixed(2)}`);
+
+  if (similar < 0.8 || unrelated > 0.2) {
+    console.error('✗ Test 4 failed: Unexpected similarity scores');
+    process.exit(1);
+  }
+
+  // Test 5: Repeat sightings raise a P2 story but never to P0; real P0s stay P0
+  console.log('\nTest 5: Re-observation boost');
+  let score = 50;
+  for (let run = 0; run < 20; run++) {
+    score = reobservedScore(score, 50);
+  }
+  const p0Finding = reobservedScore(50, 95);
+  console.log(`After 20 runs: ${score} (${scoreToPriorityLevel(score)}), P0 finding: ${p0Finding}`);
+
+  if (score <= 50 || scoreToPriorityLevel(score) === 'P0' || scoreToPriorityLevel(p0Finding) !== 'P0') {
+    console.error('✗ Test 5 failed: Expected re-observations to stop below P0 without demoting a P0 finding');
+    process.exit(1);
+  }
+
+  console.log('\n✓ Story dedupe test passed');
+  process.exit(0);
+}
+
+testStoryDedupe().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+#!/usr/bin/env tsx
+/**
+ * Test webhook signature verification
+ *
+ * Slack and Resend signatures, tampering and replay window (no DB needed)
+ */
+
+import { createHmac } from 'crypto';
+
+process.env.SLACK_SIGNING_SECRET = 'slack-test-secret';
+process.env.RESEND_WEBHOOK_SECRET = `whsec_${Buffer.from('resend-test-secret').toString('base64')}`;
+
+import { verifySlackRequest, verifyResendRequest, SIGNATURE_TOLERANCE_SECONDS } from '../lib/webhooks';
+
+const NOW = 1_800_000_000_000;
+const TIMESTAMP = String(NOW / 1000);
+
+function slackHeaders(body: string, timestamp = TIMESTAMP): Headers {
+  const signature = createHmac('sha256', 'slack-test-secret').update(`v0:${timestamp}:${body}`).digest('hex');
+  return new Headers({ 'x-slack-request-timestamp': timestamp, 'x-slack-signature': `v0=${signature}` });
+}
+
+function resendHeaders(body: string, id = 'msg_123'): Headers {
+  const signature = createHmac('sha256', Buffer.from('resend-test-secret'))
+    .update(`${id}.${TIMESTAMP}.${body}`)
+    .digest('base64');
+  return new Headers({ 'svix-id': id, 'svix-timestamp': TIMESTAMP, 'svix-signature': `v1,bogus v1,${signature}` });
+}
+
+async function testWebhooks() {
+  console.log('Testing webhook verification...\n');
+  const body = JSON.stringify({ type: 'event_callback', event_id: 'Ev123' });
+
+  // Test 1: Correctly signed Slack requests pass; forged or altered ones don't
+  console.log('Test 1: Slack signatures');
+  const unsigned = verifySlackRequest(new Headers({ 'x-slack-request-timestamp': TIMESTAMP }), body, NOW);
+  const tampered = verifySlackRequest(slackHeaders(body), body.replace('Ev123', 'Ev124'), NOW);
+  if (!verifySlackRequest(slackHeaders(body), body, NOW).ok || unsigned.ok || tampered.ok) {
+    console.error('✗ Test 1 failed: Unexpected verification result', { unsigned, tampered });
+    process.exit(1);
+  }
+  console.log('✓ Test 1 passed\n');
+
+  // Test 2: A validly signed request is rejected once it falls outside the window
+  console.log('Test 2: Replay window');
+  const stale = String(NOW / 1000 - SIGNATURE_TOLERANCE_SECONDS - 1);
+  const replayed = verifySlackRequest(slackHeaders(body, stale), body, NOW);
+  if (replayed.ok || replayed.reason !== 'Timestamp outside tolerance') {
+    console.error('✗ Test 2 failed: Stale request accepted', replayed);
+    process.exit(1);
+  }
+  console.log('✓ Test 2 passed\n');
+
+  // Test 3: Resend signatures, with any one of several signatures matching
+  console.log('Test 3: Resend signatures');
+  const wrongId = resendHeaders(body);
+  wrongId.set('svix-id', 'msg_456');
+  if (!verifyResendRequest(resendHeaders(body), body, NOW).ok || verifyResendRequest(wrongId, body, NOW).ok) {
+    console.error('✗ Test 3 failed: Unexpected verification result');
+    process.exit(1);
+  }
+  console.log('✓ Test 3 passed');
+
+  console.log('\n✓ Webhook test passed');
+  process.exit(0);
+}
+
+testWebhooks().catch((error) => {
+  console.error('✗ Test failed:', error);
+  process.exit(1);
+});
@@ -23,8 +23,11 @@ import {
 } from '@anthropic-ai/claude-agent-sdk';
 import { agentRegistry } from '../lib/agents/index';
 import { buildChatContext, parseQuickCommand } from '../lib/agents/chat';
-import { createLinearTask } from '../lib/linear';
-import { enqueueStoryForExecution } from '../lib/queue/execution';
+import { createLinearTask, getDefaultTeamId } from '../lib/linear';
+import { getWorkspaceIntegrations } from '../lib/integrations';
+import { enqueueStoryForExecution, findStoryToCancel, requestCancellation } from '../lib/queue/execution';
+import { checkBudget } from '../lib/budgets';
+import { calculateCost, costFields, countTokens, usageFromSDKResult, type ModelTokenUsage } from '../lib/pricing';
 import { randomUUID } from 'crypto';
 
 // ============================================================================
@@ -576,6 +579,41 @@ async function handleApprovalCommand(job: Job<ChatJob>): Promise<void> {
   await publishToStream(messageId, { type: 'done' });
 }
 
+/**
+ * Handle cancel command (quick response)
+ */
+async function handleCancelCommand(
+  job: Job<ChatJob>,
+  command: ReturnType<typeof parseQuickCommand>
+): Promise<void> {
+  const { messageId, workspaceId } = job.data;
+
+  const story = await findStoryToCancel(workspaceId, command.data?.target);
+
+  let response: string;
+  if (!story) {
+    response = command.data?.target
+      ? `No queued or running execution matches "${command.data.target}".`
+      : 'Nothing is queued or running right now.';
+  } else {
+    const result = await requestCancellation(story.id, 'chat');
+    response = result.outcome === 'dequeued'
+      ? `⏹️ Removed "${story.title}" from the queue. It's back to pending.`
+      : result.outcome === 'signalled'
+        ? `⏹️ Cancelling "${story.title}". The agent will stop and the story will go back to pending.`
+        : `"${story.title}" isn't queued or running anymore.`;
+  }
+
+  await publishToStream(messageId, { type: 'delta', content: response });
+
+  await prisma.chatMessage.update({
+    where: { id: messageId },
+    data: { content: response, isProcessing: false },
+  });
+
+  await publishToStream(messageId, { type: 'done' });
+}
+
 // ============================================================================
 // MAIN PROCESSOR - Uses Agent SDK
 // ============================================================================
@@ -603,9 +641,27 @@ async function processChat(job: Job<ChatJob>): Promise<void> {
     await handleApprovalCommand(job);
     return;
   }
+
+  if (command.type === 'cancel') {
+    await handleCancelCommand(job, command);
+    return;
+  }
   
   // For general messages, use the Agent SDK
   try {
+    // Refuse over budget; near the limit answer with a cheaper model
+    const budget = await checkBudget({ workspaceId, projectId });
+    if (!budget.allowed) {
+      const response = `💸 Budget exceeded: ${budget.reason}\n\nRaise the limit in Settings to keep chatting with agents.`;
+      await publishToStream(messageId, { type: 'delta', content: response });
+      await prisma.chatMessage.update({
+        where: { id: messageId },
+        data: { content: response, isProcessing: false },
+      });
+      await publishToStream(messageId, { type: 'done' });
+      return;
+    }
+
     const history = await getConversationHistory(workspaceId, conversationId);
     const projectContext = await getProjectContext(workspaceId, projectId);
     const prompt = buildAgentPrompt(
@@ -626,6 +682,7 @@ async function processChat(job: Job<ChatJob>): Promise<void> {
       maxTurns: 5,
       persistSession: false,
       includePartialMessages: true,
+      model: budget.downgrade ? 'haiku' : undefined,
     };
 
     console.log(`[Chat Worker] SDK options configured, calling query()...`);
@@ -646,6 +703,7 @@ async function processChat(job: Job<ChatJob>): Promise<void> {
     let fullContent = '';
     let toolsUsed: string[] = [];
     let lastPublishedLength = 0;
+    let usage: ModelTokenUsage = {};
 
     console.log(`[Chat Worker] Starting SDK stream for message ${messageId}`);
 
@@ -787,13 +845,13 @@ async function processChat(job: Job<ChatJob>): Promise<void> {
                 // Create Linear issue
                 let linearUrl: string | null = null;
                 try {
-                  const linearTeamId = process.env.LINEAR_TEAM_ID;
-                  if (linearTeamId) {
+                  if ((await getWorkspaceIntegrations(workspaceId)).linear) {
                     const linearTask = await createLinearTask({
-                      teamId: linearTeamId,
+                      teamId: await getDefaultTeamId(workspaceId),
                       title: story.title,
                       description: `**Agent:** ${agentDef?.name || spawnedAgent}\n\n**Rationale:**\n${story.rationale}\n\n**Spawned from:** Chat\n**Priority:** P1`,
                       priority: 2, // High priority (Linear uses 1=urgent, 2=high, 3=medium, 4=low)
+                      workspaceId,
                     });
 
                     linearUrl = linearTask.url;
@@ -860,6 +918,8 @@ async function processChat(job: Job<ChatJob>): Promise<void> {
             }
           }
           
+          usage = usageFromSDKResult(resultMsg, sdkOptions.model);
+
           // Extract suggested actions
           const suggestedActions = extractSuggestedActions(fullContent);
           if (suggestedActions.length > 0) {
@@ -889,6 +949,21 @@ async function processChat(job: Job<ChatJob>): Promise<void> {
 
     console.log(`[Chat Worker] SDK stream finished for message ${messageId}, fullContent length: ${fullContent.length}`);
 
+    // Record spend so chat counts against the workspace budget
+    const cost = calculateCost(usage);
+    await prisma.agentSession.create({
+      data: {
+        workspaceId,
+        projectId: projectId || null,
+        agentName: 'Head of Product',
+        agentType: 'chat',
+        status: 'completed',
+        tokensUsed: countTokens(cost),
+        ...costFields(cost),
+        completedAt: new Date(),
+      },
+    });
+
     // Check if HoP wants to create a story for work execution
     const storyRequest = detectStoryCreationRequest(fullContent);
     if (storyRequest) {
@@ -936,13 +1011,13 @@ async function processChat(job: Job<ChatJob>): Promise<void> {
 
         // Create Linear issue
         let linearUrl: string | null = null;
-        const linearTeamId = process.env.LINEAR_TEAM_ID;
-        if (linearTeamId) {
+        if ((await getWorkspaceIntegrations(workspaceId)).linear) {
           const linearTask = await createLinearTask({
-            teamId: linearTeamId,
+            teamId: await getDefaultTeamId(workspaceId),
             title: story.title,
             description: `**Type:** ${storyRequest.agentType || 'General'}\n\n**Description:**\n${story.rationale}\n\n**Requested from:** Chat\n**Priority:** P1`,
             priority: 2,  // High
+            workspaceId,
           });
 
           linearUrl = linearTask.url;
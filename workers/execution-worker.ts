@@ -15,16 +15,64 @@ import { config } from 'dotenv';
 import { resolve } from 'path';
 config({ path: resolve(__dirname, '../.env.local') });
 
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import Redis from 'ioredis';
 import { PrismaClient } from '@prisma/client';
-import { cloneRepo, createBranch, applyChanges, commitChanges, pushBranch, cleanup } from '../lib/git';
-import { createPullRequest, parseRepoUrlWithInstallation, getAuthenticatedCloneUrl } from '../lib/github';
-import { sendSlackNotification } from '../lib/slack';
-import { updateLinearTaskStatus, getTeamWorkflowStates, addLinearComment } from '../lib/linear';
+import {
+  createBranch,
+  checkoutBranch,
+  getBranchDiff,
+  getChangedFiles,
+  rebaseOntoBase,
+  deleteRemoteBranch,
+  applyChanges,
+  hasUncommittedChanges,
+  commitChanges,
+  pushBranch,
+} from '../lib/git';
+import { acquireWorktree, releaseWorktree } from '../lib/git-cache';
+import {
+  describeStory,
+  claimExecutionSlot,
+  releaseExecutionSlot,
+  SCHEDULER_RETRY_MS,
+  type WaitReason,
+} from '../lib/queue/scheduler';
+import { CANCEL_CHANNEL, getCancelRequest, clearCancelRequest, type CancelRequest } from '../lib/queue/execution';
+import { changesFromDiff, formatRejectionReport, type FileChange, type PatchReport } from '../lib/patch';
+import {
+  createPullRequest,
+  parseRepoUrl,
+  parseRepoUrlWithInstallation,
+  getAuthenticatedCloneUrl,
+  getReviewComments,
+  replyToReviewComment,
+  commentOnPullRequest,
+  type ReviewComment,
+} from '../lib/github';
+import { sendSlackNotification, sendExecutionPlan } from '../lib/slack';
+import { getGithubInstallationId } from '../lib/integrations';
+import { syncStoryStatusToLinear, addLinearComment } from '../lib/linear';
 import { featureFlags } from '../lib/config/feature-flags';
-import { runAgentWithSDK } from '../lib/agents/sdk-runner';
-import { codeGenerationAgent } from '../lib/agents/index';
+import { runAgentWithSDK, AgentCancelledError } from '../lib/agents/sdk-runner';
+import { checkBudget, downgradeModel } from '../lib/budgets';
+import { forecastCost } from '../lib/pricing';
+import { codeGenerationAgent, agentRegistry } from '../lib/agents/index';
+import {
+  verifyRepository,
+  formatVerificationFailures,
+  summarizeVerification,
+  type VerificationResult,
+} from '../lib/verification';
+import {
+  PLAN_OUTPUT_TYPE,
+  PLAN_FORMAT_INSTRUCTIONS,
+  parseExecutionPlan,
+  formatPlanMarkdown,
+  formatPlanForPrompt,
+  getLatestPlan,
+  type ExecutionPlan,
+} from '../lib/stories/execution-plan';
 
 // Database client
 const directDatabaseUrl = process.env.DATABASE_URL?.replace(':6543', ':5432').replace('?pgbouncer=true&connection_limit=1', '');
@@ -49,77 +97,152 @@ const connection = new Redis(
 interface ExecutionJob {
   storyId: string;
   priority?: 'P0' | 'P1' | 'P2' | 'P3';
+  review?: ReviewFollowUp; // Set for 'address-review' jobs
+  mode?: 'plan' | 'rebase'; // Set for 'plan-story' and 'rebase-branch' jobs
+  waiting?: WaitReason; // Why the scheduler is holding the job back
 }
 
-interface CodeChange {
-  path: string;
-  content: string;
-  operation: 'create' | 'modify' | 'delete';
+interface ReviewFollowUp {
+  reviewId: number;
+  prNumber: number;
+  reviewer?: string;
 }
 
 // ============================================================================
 // LINEAR INTEGRATION
 // ============================================================================
 
+type LinearStory = { linearTaskId: string | null; workspaceId: string };
+
 async function updateLinearTaskStatusForStory(
-  linearTaskId: string | null,
-  storyStatus: string,
-  teamId: string = 'd5cbb99d-df57-4b21-87c9-95fc5089a6a2'
+  story: LinearStory,
+  storyStatus: string
 ): Promise<void> {
-  if (!linearTaskId) return;
+  if (!story.linearTaskId) return;
 
   try {
-    const states = await getTeamWorkflowStates(teamId);
-    
-    let targetState = states.find((s) => {
-      const stateName = s.name.toLowerCase();
-      const stateType = s.type.toLowerCase();
-
-      switch (storyStatus) {
-        case 'in_progress':
-          return stateType === 'started' || stateName.includes('progress');
-        case 'completed':
-          return stateType === 'completed' || stateName.includes('done');
-        case 'failed':
-          return stateType === 'canceled' || stateName.includes('failed');
-        default:
-          return stateType === 'unstarted' || stateName.includes('todo');
-      }
-    });
-
-    if (!targetState) {
-      targetState = states.find((s) => {
-        if (storyStatus === 'in_progress') return s.type === 'started';
-        if (storyStatus === 'completed') return s.type === 'completed';
-        if (storyStatus === 'failed') return s.type === 'canceled';
-        return s.type === 'unstarted';
-      });
-    }
-
-    if (targetState) {
-      await updateLinearTaskStatus(linearTaskId, targetState.id);
-      console.log(`[Linear] Updated task ${linearTaskId} to: ${targetState.name}`);
+    const stateName = await syncStoryStatusToLinear(story.linearTaskId, storyStatus, undefined, story.workspaceId);
+    if (stateName) {
+      console.log(`[Linear] Updated task ${story.linearTaskId} to: ${stateName}`);
     }
   } catch (error) {
     console.error('[Linear] Failed to update task status:', error);
   }
 }
 
-async function postLinearComment(linearTaskId: string | null, comment: string): Promise<void> {
-  if (!linearTaskId) return;
+async function postLinearComment(story: LinearStory, comment: string): Promise<void> {
+  if (!story.linearTaskId) return;
   try {
-    await addLinearComment(linearTaskId, comment);
+    await addLinearComment(story.linearTaskId, comment, story.workspaceId);
   } catch (error) {
     console.error('[Linear] Failed to post comment:', error);
   }
 }
 
+// ============================================================================
+// CANCELLATION
+// ============================================================================
+
+// Stories executing in this process; aborting the controller stops the agent
+const activeExecutions = new Map<string, AbortController>();
+
+// Cancel requests are published to every worker; only the one running the story acts
+const cancelSubscriber = connection.duplicate();
+cancelSubscriber.subscribe(CANCEL_CHANNEL).catch((error) => {
+  console.error('[Execution] Failed to subscribe to cancel requests:', error);
+});
+cancelSubscriber.on('message', (_channel: string, message: string) => {
+  try {
+    const request = JSON.parse(message) as CancelRequest;
+    const controller = activeExecutions.get(request.storyId);
+    if (controller) {
+      console.log(`[Execution] Cancel requested for story ${request.storyId} via ${request.source}`);
+      controller.abort();
+    }
+  } catch (error) {
+    console.error('[Execution] Invalid cancel request:', error);
+  }
+});
+
+/**
+ * Run a story's execution so it can be cancelled while it runs
+ */
+async function withCancellation(storyId: string, fn: () => Promise<void>): Promise<void> {
+  const controller = new AbortController();
+  activeExecutions.set(storyId, controller);
+
+  // Requested while the job was waiting to be picked up
+  if (await getCancelRequest(connection, storyId)) controller.abort();
+
+  try {
+    await fn();
+  } finally {
+    activeExecutions.delete(storyId);
+    await clearCancelRequest(connection, storyId);
+  }
+}
+
+/**
+ * Stop between steps that don't run an agent (verification, push)
+ */
+function throwIfCancelled(storyId: string): void {
+  if (activeExecutions.get(storyId)?.signal.aborted) {
+    throw new AgentCancelledError('cancelled', 'Execution cancelled');
+  }
+}
+
+const STOP_HEADLINES: Record<AgentCancelledError['reason'], string> = {
+  cancelled: '⏹️ Execution Cancelled',
+  timeout: '⏱️ Execution Timed Out',
+  max_turns: '🔁 Execution Hit Turn Limit',
+};
+
+/**
+ * Roll a stopped execution back: no branch left on the remote, story back
+ * to pending for a fresh approval. The runner already marked the agent
+ * session cancelled.
+ */
+async function rollBackStoppedExecution(
+  story: { id: string } & LinearStory,
+  repoPath: string | null,
+  branchName: string,
+  error: AgentCancelledError
+): Promise<void> {
+  const headline = STOP_HEADLINES[error.reason];
+  const request = error.reason === 'cancelled' ? await getCancelRequest(connection, story.id) : null;
+  console.log(`[Execution] ${headline} for story ${story.id}: ${error.message}`);
+
+  let branchDeleted = false;
+  if (repoPath) {
+    try {
+      branchDeleted = await deleteRemoteBranch(repoPath, branchName);
+    } catch (deleteError) {
+      console.error(`[Execution] Failed to delete ${branchName}:`, deleteError);
+    }
+  }
+
+  await prisma.story.update({
+    where: { id: story.id },
+    data: { status: 'pending', userApproved: false, userNotes: `${headline}: ${error.message}` },
+  });
+
+  await updateLinearTaskStatusForStory(story, 'pending');
+  await postLinearComment(story,
+    `**${headline}**\n\n` +
+    `${error.message}` +
+    (request ? ` (via ${request.source}${request.requestedBy ? ` by ${request.requestedBy}` : ''})` : '') +
+    `\n\n` +
+    (branchDeleted ? `Deleted branch \`${branchName}\`. ` : '') +
+    `The story is back to pending; approve it again to retry.`
+  );
+}
+
 // ============================================================================
 // CODE GENERATION AGENT
 // ============================================================================
 
 interface CodeGenResult {
-  changes: CodeChange[];
+  changes: FileChange[];
   explanation: string;
   testsRun: boolean;
   lintPassed: boolean;
@@ -127,8 +250,35 @@ interface CodeGenResult {
   estimatedCost: number;
   thinkingTrace: Array<{ turn: number; thinking: string; action: string }>;
   toolCalls: Array<{ tool: string; input: unknown; output: unknown; duration: number }>;
+  replies: ReviewReply[];
+}
+
+interface ReviewReply {
+  commentId: number;
+  reply: string;
 }
 
+// Output format shared by code and content agents. Edits to existing files
+// are patches, never full rewrites, so large files can't be truncated.
+const CHANGE_FORMAT_INSTRUCTIONS = `OUTPUT YOUR CHANGES in this exact JSON format:
+{
+  "changes": [
+    { "operation": "patch", "path": "src/existing.ts", "diff": "@@ -12,3 +12,4 @@\\n context\\n-old line\\n+new line\\n context" },
+    { "operation": "replace", "path": "src/other.ts", "edits": [{ "search": "exact existing text", "replace": "new text" }] },
+    { "operation": "create", "path": "src/new-file.ts", "content": "full content of the new file" },
+    { "operation": "delete", "path": "src/unused.ts" },
+    { "operation": "rename", "from": "src/old-name.ts", "path": "src/new-name.ts" }
+  ],
+  "explanation": "Brief explanation of changes made"
+}
+
+For existing files use "patch" (unified diff hunks with 3 lines of context) or "replace"
+(each search block must match exactly one place). Only use "create" for new files.
+You may instead put a complete unified diff of all files in a top-level "diff" field.
+
+If no code changes are needed, explain why and return an empty changes array.
+Do NOT include markdown code blocks in your JSON response.`;
+
 /**
  * Run Code Generation Agent to produce actual code changes
  */
@@ -164,9 +314,10 @@ async function runCodeGenAgent(
     testsRun,
     lintPassed,
     tokensUsed: result.session.tokensUsed,
-    estimatedCost: estimateCost(result.session.tokensUsed),
+    estimatedCost: result.session.cost.totalCost,
     thinkingTrace: (result.session as any).thinkingTrace || [],
     toolCalls: result.session.toolCalls,
+    replies: parseReviewReplies(result.output),
   };
 }
 
@@ -189,36 +340,52 @@ INSTRUCTIONS:
 4. Run tests if available: npm test or yarn test
 5. Run linter if available: npm run lint or eslint
 
-OUTPUT YOUR CHANGES in this exact JSON format:
-{
-  "changes": [
-    {
-      "path": "relative/path/to/file.ts",
-      "content": "full new content of file",
-      "operation": "create|modify|delete"
-    }
-  ],
-  "explanation": "Brief explanation of changes made"
+${CHANGE_FORMAT_INSTRUCTIONS}`;
 }
 
-If no code changes are needed, explain why and return empty changes array.
-Do NOT include markdown code blocks in your JSON response.`;
+/**
+ * Check a single change from agent output has the fields its operation needs
+ */
+function isValidChange(c: any): c is FileChange {
+  if (!c || typeof c.path !== 'string' || !c.path) return false;
+  switch (c.operation) {
+    case 'create':
+    case 'modify':
+      return typeof c.content === 'string';
+    case 'patch':
+      return typeof c.diff === 'string';
+    case 'replace':
+      return Array.isArray(c.edits) && c.edits.every((e: any) => typeof e?.search === 'string' && typeof e?.replace === 'string');
+    case 'delete':
+      return true;
+    case 'rename':
+      return typeof c.from === 'string' && (c.diff === undefined || typeof c.diff === 'string');
+    default:
+      return false;
+  }
 }
 
 /**
  * Parse code changes from agent output
  */
-function parseCodeChanges(output: string): CodeChange[] {
+function parseCodeChanges(output: string): FileChange[] {
   try {
     // Try to find JSON in the output
-    const jsonMatch = output.match(/\{[\s\S]*"changes"[\s\S]*\}/);
+    const jsonMatch = output.match(/\{[\s\S]*"(changes|diff)"[\s\S]*\}/);
     if (jsonMatch) {
       const parsed = JSON.parse(jsonMatch[0]);
+      const changes: FileChange[] = [];
+      if (typeof parsed.diff === 'string') {
+        changes.push(...changesFromDiff(parsed.diff));
+      }
       if (Array.isArray(parsed.changes)) {
-        return parsed.changes.filter((c: any) => 
-          c.path && c.content !== undefined && c.operation
-        );
+        const valid = parsed.changes.filter(isValidChange);
+        if (valid.length < parsed.changes.length) {
+          console.warn(`[CodeGen] Ignored ${parsed.changes.length - valid.length} malformed changes`);
+        }
+        changes.push(...valid);
       }
+      return changes;
     }
     return [];
   } catch {
@@ -228,19 +395,54 @@ function parseCodeChanges(output: string): CodeChange[] {
 }
 
 /**
- * Estimate cost from tokens
+ * Parse per-comment replies from agent output (review follow-ups only)
  */
-function estimateCost(tokens: number): number {
-  // Opus pricing: $0.015 input, $0.075 output per 1K
-  const inputTokens = tokens * 0.7;
-  const outputTokens = tokens * 0.3;
-  return (inputTokens / 1000 * 0.015) + (outputTokens / 1000 * 0.075);
+function parseReviewReplies(output: string): ReviewReply[] {
+  try {
+    const jsonMatch = output.match(/\{[\s\S]*"replies"[\s\S]*\}/);
+    if (!jsonMatch) return [];
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!Array.isArray(parsed.replies)) return [];
+    return parsed.replies
+      .filter((r: any) => typeof r?.reply === 'string' && Number.isFinite(Number(r?.commentId)))
+      .map((r: any) => ({ commentId: Number(r.commentId), reply: r.reply }));
+  } catch {
+    return [];
+  }
 }
 
 // ============================================================================
 // EXECUTION LOGIC
 // ============================================================================
 
+/**
+ * Budget gate for an agent session on a story. Throws when a budget is
+ * exhausted; otherwise returns a cheaper model to use near the limit.
+ */
+async function budgetedModel(agentRole: string, story: any): Promise<string | undefined> {
+  const budget = await checkBudget({
+    workspaceId: story.workspaceId,
+    projectId: story.projectId,
+    storyId: story.id,
+  });
+
+  if (!budget.allowed) throw new Error(`Budget exceeded: ${budget.reason}`);
+  if (!budget.downgrade) return undefined;
+
+  const agent = agentRegistry[agentRole];
+  return agent ? downgradeModel(agent.model) : undefined;
+}
+
+/**
+ * Map a stored AgentSession name (display name or role) to a registry role
+ */
+function resolveAgentRole(agentName: string | undefined): string {
+  if (!agentName) return 'codegen';
+  if (agentRegistry[agentName]) return agentName;
+  const match = Object.entries(agentRegistry).find(([, agent]) => agent.name === agentName);
+  return match ? match[0] : 'codegen';
+}
+
 /**
  * Run any agent for a story via Agent SDK
  * Routes to correct agent based on role (security, seo, codegen, etc.)
@@ -249,19 +451,28 @@ async function runAgentForStory(
   agentRole: string,
   story: any,
   repoPath: string,
-  options: { orchestratorRunId?: string }
+  options: { orchestratorRunId?: string; feedback?: string }
 ): Promise<CodeGenResult> {
   // Build context based on agent type
-  const context = buildAgentContext(agentRole, story, repoPath);
+  let context = buildAgentContext(agentRole, story, repoPath);
+  if (options.feedback) {
+    context += options.feedback;
+  }
 
   console.log(`[${agentRole}] Running agent for story: ${story.title}`);
 
+  const model = await budgetedModel(agentRole, story);
+
   // Run agent via SDK - works for all 17 specialist agents
   const result = await runAgentWithSDK(agentRole, context, {
     projectId: story.projectId,
     storyId: story.id,
+    workspaceId: story.workspaceId,
     orchestratorRunId: options.orchestratorRunId,
     workingDirectory: repoPath,
+    model,
+    signal: activeExecutions.get(story.id)?.signal,
+    strictTurnLimit: true,
   });
 
   // Parse code changes from agent output (for code/content agents)
@@ -280,9 +491,10 @@ async function runAgentForStory(
     testsRun,
     lintPassed,
     tokensUsed: result.session.tokensUsed,
-    estimatedCost: estimateCost(result.session.tokensUsed),
+    estimatedCost: result.session.cost.totalCost,
     thinkingTrace: (result.session as any).thinkingTrace || [],
     toolCalls: result.session.toolCalls,
+    replies: parseReviewReplies(result.output),
   };
 }
 
@@ -343,20 +555,7 @@ INSTRUCTIONS:
 4. Run tests if available: npm test or yarn test
 5. Run linter if available: npm run lint or eslint
 
-OUTPUT YOUR CHANGES in this exact JSON format:
-{
-  "changes": [
-    {
-      "path": "relative/path/to/file.ts",
-      "content": "full new content of file",
-      "operation": "create|modify|delete"
-    }
-  ],
-  "explanation": "Brief explanation of changes made"
-}
-
-If no code changes are needed, explain why and return empty changes array.
-Do NOT include markdown code blocks in your JSON response.`;
+${CHANGE_FORMAT_INSTRUCTIONS}`;
 
   } else {
     // Fallback for unknown agent types
@@ -364,6 +563,161 @@ Do NOT include markdown code blocks in your JSON response.`;
   }
 }
 
+// ============================================================================
+// CHANGE APPLICATION
+// ============================================================================
+
+// Extra agent turns allowed to resend changes that didn't apply
+const MAX_PATCH_RETRIES = 1;
+
+/**
+ * Appended to the agent context when some changes were rejected
+ */
+function buildRejectionFeedback(report: PatchReport): string {
+  return `
+
+CHANGES REJECTED:
+Some of your changes could not be applied. Changes that applied are already in the repository.
+Re-read the affected files and resend only the rejected changes, in the same JSON format.
+
+${formatRejectionReport(report)}`;
+}
+
+/**
+ * Apply an agent's changes; an empty change list applies nothing
+ */
+async function applyAgentChanges(repoPath: string, changes: FileChange[]): Promise<PatchReport> {
+  if (changes.length === 0) return { applied: [], rejected: [] };
+  return applyChanges(repoPath, changes);
+}
+
+/**
+ * Apply the agent's changes, giving it a bounded number of turns to resend
+ * rejected hunks. Returns the final report and merged agent result.
+ * @param baseFeedback - Context the original run had beyond the story (e.g. review comments)
+ */
+async function applyWithRetries(
+  agentRole: string,
+  story: any,
+  repoPath: string,
+  agentResult: CodeGenResult,
+  baseFeedback: string = ''
+): Promise<{ report: PatchReport; agentResult: CodeGenResult }> {
+  let report = await applyAgentChanges(repoPath, agentResult.changes);
+
+  for (let attempt = 1; report.rejected.length > 0 && attempt <= MAX_PATCH_RETRIES; attempt++) {
+    console.log(`[Execution] ${report.rejected.length} changes rejected for ${story.id}, retry ${attempt}/${MAX_PATCH_RETRIES}`);
+    await postLinearComment(story,
+      `**🔁 Changes Rejected - Retrying (${attempt}/${MAX_PATCH_RETRIES})**\n\n${formatRejectionReport(report)}`
+    );
+
+    const retry = await runAgentForStory(agentRole, story, repoPath, {
+      feedback: baseFeedback + buildRejectionFeedback(report),
+    });
+    agentResult = mergeAgentResults(agentResult, retry);
+    report = await applyAgentChanges(repoPath, retry.changes);
+  }
+
+  return { report, agentResult };
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+// Extra agent turns allowed to fix a failing typecheck/lint/test run
+const MAX_VERIFICATION_RETRIES = 2;
+
+// Changes to these files need a fresh dependency install
+const DEPENDENCY_FILES = /(^|\/)(package\.json|package-lock\.json|pnpm-lock\.yaml|yarn\.lock|bun\.lockb?)$/;
+
+/**
+ * Appended to the agent context when retrying after failed verification
+ */
+function buildVerificationFeedback(failures: string, rejected: PatchReport | null): string {
+  const rejections = rejected && rejected.rejected.length > 0
+    ? `\n\nYour last fix attempt also had rejected changes:\n\n${formatRejectionReport(rejected)}`
+    : '';
+
+  return `
+
+VERIFICATION FAILED:
+Your previous changes are already applied in the repository, but the checks below failed.
+Fix these failures with minimal changes. Output only the files you change, in the same JSON format.
+
+${failures}${rejections}`;
+}
+
+/**
+ * Combine a retry's result into the running result for the story
+ */
+function mergeAgentResults(base: CodeGenResult, retry: CodeGenResult): CodeGenResult {
+  const changes = new Map(base.changes.map(c => [c.path, c]));
+  for (const change of retry.changes) changes.set(change.path, change);
+  const replies = new Map(base.replies.map(r => [r.commentId, r]));
+  for (const reply of retry.replies) replies.set(reply.commentId, reply);
+
+  return {
+    ...base,
+    changes: Array.from(changes.values()),
+    replies: Array.from(replies.values()),
+    testsRun: base.testsRun || retry.testsRun,
+    lintPassed: base.lintPassed || retry.lintPassed,
+    tokensUsed: base.tokensUsed + retry.tokensUsed,
+    estimatedCost: base.estimatedCost + retry.estimatedCost,
+    thinkingTrace: [...base.thinkingTrace, ...retry.thinkingTrace],
+    toolCalls: [...base.toolCalls, ...retry.toolCalls],
+  };
+}
+
+/**
+ * Verify the agent's branch, giving the agent a bounded number of turns to
+ * fix failures. Returns the final verification and the merged agent result.
+ */
+async function verifyWithRetries(
+  agentRole: string,
+  story: any,
+  repoPath: string,
+  agentResult: CodeGenResult,
+  baseFeedback: string = ''
+): Promise<{ verification: VerificationResult; agentResult: CodeGenResult; attempts: number }> {
+  let verification = await verifyRepository(repoPath);
+  let installed = verification.steps.some(s => s.name === 'install' && s.passed);
+  let attempts = 0;
+  let lastReport: PatchReport | null = null;
+
+  while (!verification.passed && attempts < MAX_VERIFICATION_RETRIES) {
+    attempts++;
+    console.log(`[Execution] Verification failed for ${story.id}, retry ${attempts}/${MAX_VERIFICATION_RETRIES}`);
+    await postLinearComment(story,
+      `**🔁 Verification Failed - Retrying (${attempts}/${MAX_VERIFICATION_RETRIES})**\n\n` +
+      summarizeVerification(verification)
+    );
+
+    const retry = await runAgentForStory(agentRole, story, repoPath, {
+      feedback: baseFeedback + buildVerificationFeedback(formatVerificationFailures(verification), lastReport),
+    });
+    lastReport = await applyAgentChanges(repoPath, retry.changes);
+    agentResult = mergeAgentResults(agentResult, retry);
+
+    const reinstall = !installed || retry.changes.some(c =>
+      DEPENDENCY_FILES.test(c.path) || (c.operation === 'rename' && DEPENDENCY_FILES.test(c.from))
+    );
+    verification = await verifyRepository(repoPath, { install: reinstall });
+    installed = installed || verification.steps.some(s => s.name === 'install' && s.passed);
+  }
+
+  return { verification, agentResult, attempts };
+}
+
+/**
+ * Full verification log for a failed story
+ */
+function formatVerificationLog(verification: VerificationResult): string {
+  const failures = formatVerificationFailures(verification);
+  return `${summarizeVerification(verification)}\n\n${failures.slice(-8000)}`;
+}
+
 /**
  * Execute story with Code Generation Agent (SDK mode)
  */
@@ -385,7 +739,7 @@ async function executeStorySDK(storyId: string): Promise<void> {
     where: { storyId: story.id },
     orderBy: { startedAt: 'desc' },
   });
-  const agentRole = agentSession?.agentName || 'codegen';
+  const agentRole = resolveAgentRole(agentSession?.agentName);
   console.log(`[Execution] Agent role: ${agentRole}`);
 
   // Determine agent category
@@ -404,7 +758,7 @@ async function executeStorySDK(storyId: string): Promise<void> {
       where: { id: storyId },
       data: { status: 'completed' },
     });
-    await updateLinearTaskStatusForStory(story.linearTaskId, 'completed');
+    await updateLinearTaskStatusForStory(story, 'completed');
     return;
   }
 
@@ -413,37 +767,61 @@ async function executeStorySDK(storyId: string): Promise<void> {
     return;
   }
 
+  // Refuse before cloning; the story goes back to pending for a later approval
+  const budget = await checkBudget({ workspaceId: story.workspaceId, projectId: story.projectId, storyId });
+  if (!budget.allowed) {
+    console.log(`[Execution] Story ${storyId} refused: ${budget.reason}`);
+    await prisma.story.update({
+      where: { id: storyId },
+      data: { status: 'pending', userNotes: `Not executed: ${budget.reason}` },
+    });
+    await postLinearComment(story, `**💸 Budget Exceeded**\n\n${budget.reason}`);
+    return;
+  }
+
   // Mark in progress
   await prisma.story.update({
     where: { id: storyId },
     data: { status: 'in_progress' },
   });
-  await updateLinearTaskStatusForStory(story.linearTaskId, 'in_progress');
-  await postLinearComment(story.linearTaskId,
+  await updateLinearTaskStatusForStory(story, 'in_progress');
+  await postLinearComment(story,
     `**🤖 ${agentSession?.agentName || 'Agent'} Started**\n\n` +
     `Working on: ${story.title}\n\n` +
     `_Using Agent SDK with Read, Write, Edit, Bash tools_`
   );
 
   let repoPath: string | null = null;
+  const branchName = `ai-improvement-${storyId.slice(0, 8)}`;
 
   try {
-    // Clone repository
+    // Check out repository from the worktree cache
     const repo = story.project.repo;
     if (!repo) throw new Error('No repository configured');
 
-    const authenticatedUrl = await getAuthenticatedCloneUrl(repo);
-    repoPath = await cloneRepo(authenticatedUrl);
-    const branchName = `ai-improvement-${storyId.slice(0, 8)}`;
+    const installationId = await getGithubInstallationId(story.workspaceId);
+    const authenticatedUrl = await getAuthenticatedCloneUrl(repo, installationId);
+    repoPath = await acquireWorktree(authenticatedUrl);
     await createBranch(repoPath, branchName);
 
+    // Execute against the plan the approver saw, if there was one
+    const storedPlan = await getLatestPlan(storyId);
+    const planFeedback = storedPlan ? formatPlanForPrompt(storedPlan.plan) : '';
+    if (storedPlan) {
+      console.log(`[Execution] Following plan ${storedPlan.id}`);
+      await prisma.agentOutput.update({
+        where: { id: storedPlan.id },
+        data: { status: 'approved' },
+      });
+    }
+
     // Run agent via SDK - routes to correct agent based on role
-    const agentResult = await runAgentForStory(agentRole, story, repoPath, {});
+    let agentResult = await runAgentForStory(agentRole, story, repoPath, { feedback: planFeedback });
 
     // Post thinking trace to Linear
     if (agentResult.thinkingTrace.length > 0 || agentResult.toolCalls.length > 0) {
       const thinkingTraceComment = formatThinkingTraceForLinear(agentResult);
-      await postLinearComment(story.linearTaskId,
+      await postLinearComment(story,
         `**🤔 Agent Thinking Trace**\n\n${thinkingTraceComment}`
       );
     }
@@ -451,7 +829,7 @@ async function executeStorySDK(storyId: string): Promise<void> {
     // Handle different agent types
     if (isAnalysisAgent) {
       // Analysis agents: Post findings to Linear, no PR needed
-      await postLinearComment(story.linearTaskId,
+      await postLinearComment(story,
         `**📊 Analysis Complete**\n\n` +
         `${agentResult.explanation}\n\n` +
         `Tokens used: ${agentResult.tokensUsed}\n` +
@@ -467,7 +845,7 @@ async function executeStorySDK(storyId: string): Promise<void> {
         },
       });
 
-      await updateLinearTaskStatusForStory(story.linearTaskId, 'completed');
+      await updateLinearTaskStatusForStory(story, 'completed');
 
       // Slack notification
       try {
@@ -477,6 +855,7 @@ async function executeStorySDK(storyId: string): Promise<void> {
           title: story.title,
           rationale: `${agentRole} analysis completed: ${agentResult.explanation.substring(0, 200)}`,
           prUrl: '', // No PR for analysis
+          workspaceId: story.workspaceId,
         });
       } catch (e) {
         console.error('[Execution] Slack notification failed:', e);
@@ -486,37 +865,97 @@ async function executeStorySDK(storyId: string): Promise<void> {
 
     } else {
       // Code/Content agents: Apply changes and create PR
-      if (agentResult.changes.length > 0) {
-        await applyChanges(repoPath, agentResult.changes.map(c => ({
-          path: c.path,
-          content: c.content,
-        })));
-
-        await postLinearComment(story.linearTaskId,
-          `**⚙️ Code Changes Generated**\n\n` +
-          `Files modified: ${agentResult.changes.length}\n` +
-          `Tokens used: ${agentResult.tokensUsed}\n` +
-          `Cost: $${agentResult.estimatedCost.toFixed(4)}\n\n` +
+      const applied = await applyWithRetries(agentRole, story, repoPath, agentResult, planFeedback);
+      agentResult = applied.agentResult;
+
+      if (applied.report.rejected.length > 0) {
+        throw new Error(`Changes could not be applied:\n\n${formatRejectionReport(applied.report)}`);
+      }
+
+      // The agent may also have edited files directly with its tools, so the
+      // working tree (not the parsed change list) decides whether there's work
+      if (!(await hasUncommittedChanges(repoPath))) {
+        console.log(`[Execution] Story ${storyId} produced no changes - marking no-op`);
+
+        await prisma.story.update({
+          where: { id: storyId },
+          data: {
+            status: 'no_op',
+            executedAt: new Date(),
+          },
+        });
+
+        await updateLinearTaskStatusForStory(story, 'completed');
+        await postLinearComment(story,
+          `**➖ No Changes Needed**\n\n` +
+          `The ${agentRole} agent made no changes, so no PR was opened.\n\n` +
           `\`\`\`\n${agentResult.explanation}\n\`\`\``
         );
-      } else {
-        // No changes - create documentation file as fallback
-        const fallbackChanges = [{
-          path: 'AI_IMPROVEMENTS.md',
-          content: `# AI Analysis\n\nStory: ${story.title}\nAnalysis: ${agentResult.explanation}\n`,
-        }];
-        await applyChanges(repoPath, fallbackChanges);
+        return;
+      }
+
+      await postLinearComment(story,
+        `**⚙️ Code Changes Generated**\n\n` +
+        `Files modified: ${agentResult.changes.length}\n` +
+        `Tokens used: ${agentResult.tokensUsed}\n` +
+        `Cost: $${agentResult.estimatedCost.toFixed(4)}\n\n` +
+        `\`\`\`\n${agentResult.explanation}\n\`\`\``
+      );
+
+      // Verify before opening a PR
+      const verified = await verifyWithRetries(agentRole, story, repoPath, agentResult, planFeedback);
+      agentResult = verified.agentResult;
+      let { verification } = verified;
+      let failureNote = `Checks still failing after ${verified.attempts} fix attempts, so no PR was opened.`;
+
+      if (verification.passed) {
+        await commitChanges(repoPath, `AI improvement: ${story.title}`);
+
+        // Main may have moved while the agent worked (e.g. an overlapping story merged)
+        const rebase = await rebaseOntoBase(repoPath);
+        if (rebase.conflicts.length > 0) {
+          throw new Error(`Branch conflicts with main after rebase: ${rebase.conflicts.join(', ')}`);
+        }
+        if (rebase.rebased) {
+          console.log(`[Execution] Story ${storyId} rebased onto latest main - re-running verification`);
+          verification = await verifyRepository(repoPath);
+          failureNote = 'Checks passed on the original base but fail after rebasing onto the latest main, so no PR was opened.';
+        }
+      }
+
+      if (!verification.passed) {
+        console.log(`[Execution] Story ${storyId} failed verification - no PR opened`);
+
+        await prisma.story.update({
+          where: { id: storyId },
+          data: {
+            status: 'failed',
+            verificationLog: verification as object,
+          },
+        });
+
+        await updateLinearTaskStatusForStory(story, 'failed');
+        await postLinearComment(story,
+          `**❌ Verification Failed**\n\n` +
+          `${failureNote}\n\n` +
+          `${formatVerificationLog(verification)}`
+        );
+        return;
       }
 
-      // Commit and push
-      await commitChanges(repoPath, `AI improvement: ${story.title}`);
+      // Last point where a cancel leaves nothing behind on GitHub
+      throwIfCancelled(storyId);
+
+      // Push; the changed files feed conflict prediction for later stories
+      const touchedPaths = await getChangedFiles(repoPath);
       await pushBranch(repoPath, branchName);
 
       // Create PR - use async parser to get owner from GitHub App installation
-      const { owner, repo: repoName } = await parseRepoUrlWithInstallation(repo);
+      const { owner, repo: repoName } = await parseRepoUrlWithInstallation(repo, installationId);
 
-      const prBody = buildPRBody(story, agentResult, agentRole);
+      const prBody = buildPRBody(story, agentResult, agentRole, verification);
       const prResult = await createPullRequest({
+        installationId,
         owner,
         repo: repoName,
         head: branchName,
@@ -529,14 +968,17 @@ async function executeStorySDK(storyId: string): Promise<void> {
       await prisma.story.update({
         where: { id: storyId },
         data: {
-          status: 'completed',
+          status: 'pr_open',
           executedAt: new Date(),
           prUrl: prResult.url,
+          prNumber: prResult.number,
+          verificationLog: verification as object,
+          touchedPaths,
         },
       });
 
-      await updateLinearTaskStatusForStory(story.linearTaskId, 'completed');
-      await postLinearComment(story.linearTaskId,
+      await updateLinearTaskStatusForStory(story, 'pr_open');
+      await postLinearComment(story,
         `**✅ Pull Request Created**\n\n` +
         `${prResult.url}\n\n` +
         `Files changed: ${agentResult.changes.length}\n` +
@@ -552,6 +994,7 @@ async function executeStorySDK(storyId: string): Promise<void> {
           title: story.title,
           rationale: story.rationale,
           prUrl: prResult.url,
+          workspaceId: story.workspaceId,
         });
       } catch (e) {
         console.error('[Execution] Slack notification failed:', e);
@@ -561,6 +1004,12 @@ async function executeStorySDK(storyId: string): Promise<void> {
     }
 
   } catch (error) {
+    // Cancel requests, wall-clock and turn limits
+    if (error instanceof AgentCancelledError) {
+      await rollBackStoppedExecution(story, repoPath, branchName, error);
+      return;
+    }
+
     console.error(`[Execution] Error executing story ${storyId}:`, error);
 
     await prisma.story.update({
@@ -568,21 +1017,26 @@ async function executeStorySDK(storyId: string): Promise<void> {
       data: { status: 'failed' },
     });
 
-    await updateLinearTaskStatusForStory(story.linearTaskId, 'failed');
-    await postLinearComment(story.linearTaskId,
+    await updateLinearTaskStatusForStory(story, 'failed');
+    await postLinearComment(story,
       `**❌ Execution Failed**\n\n` +
       `Error: ${error instanceof Error ? error.message : String(error)}\n\n` +
       `_The ${agentRole} agent encountered an issue_`
     );
   } finally {
-    if (repoPath) await cleanup(repoPath);
+    if (repoPath) await releaseWorktree(repoPath);
   }
 }
 
 /**
  * Build PR body with agent metadata and thinking trace
  */
-function buildPRBody(story: any, result: CodeGenResult, agentRole: string): string {
+function buildPRBody(
+  story: any,
+  result: CodeGenResult,
+  agentRole: string,
+  verification: VerificationResult
+): string {
   // Build tool usage summary
   const toolSummary = result.toolCalls.length > 0
     ? result.toolCalls.map(tc => `\`${tc.tool}\``).join(', ')
@@ -609,10 +1063,11 @@ ${story.rationale}
 - **Model:** Claude Opus via Agent SDK
 - **Tokens used:** ${result.tokensUsed}
 - **Estimated cost:** $${result.estimatedCost.toFixed(4)}
-- **Tests run:** ${result.testsRun ? '✅' : '⚠️ Not available'}
-- **Lint passed:** ${result.lintPassed ? '✅' : '⚠️ Not available'}
 - **Tools used:** ${toolSummary}
 
+### Verification
+${summarizeVerification(verification)}
+
 ### Changes
 ${result.changes.map(c => `- \`${c.path}\` (${c.operation})`).join('\n')}
 
@@ -659,6 +1114,404 @@ function formatThinkingTraceForLinear(result: CodeGenResult): string {
   return sections.join('\n');
 }
 
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Read-only prompt: explore the repo and describe the change, don't make it
+ */
+function buildPlanContext(agentRole: string, story: any, repoPath: string): string {
+  return `You are planning this task for project "${story.project.name}". A human will review your plan before any code is changed.
+
+TASK: ${story.title}
+
+RATIONALE: ${story.rationale}
+
+REPOSITORY PATH: ${repoPath}
+
+INSTRUCTIONS:
+1. Read the relevant files to understand the codebase structure (you only have Read, Grep and Glob)
+2. Do NOT change any files - describe the change the ${agentRole} agent would make
+3. List every file you expect to create, modify or delete, with a one-line reason
+4. Call out risks: behaviour changes, migrations, missing tests, anything a reviewer should decide
+5. Estimate the total tokens the implementation will take (reading, editing, fixing checks)
+
+${PLAN_FORMAT_INSTRUCTIONS}`;
+}
+
+/**
+ * Run the story's agent read-only and store its plan for approval
+ */
+async function executeStoryPlan(storyId: string): Promise<void> {
+  console.log(`[Execution] Planning story: ${storyId}`);
+
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    include: { project: true },
+  });
+
+  if (!story) {
+    console.error(`[Execution] Story ${storyId} not found`);
+    return;
+  }
+
+  if (story.status !== 'pending') {
+    console.log(`[Execution] Story ${storyId} is ${story.status} - skipping plan`);
+    return;
+  }
+
+  const agentSession = await prisma.agentSession.findFirst({
+    where: { storyId: story.id },
+    orderBy: { startedAt: 'desc' },
+  });
+  const agentRole = resolveAgentRole(agentSession?.agentName);
+
+  let repoPath: string | null = null;
+
+  try {
+    const repo = story.project.repo;
+    if (!repo) throw new Error('No repository configured');
+
+    const installationId = await getGithubInstallationId(story.workspaceId);
+    const authenticatedUrl = await getAuthenticatedCloneUrl(repo, installationId);
+    repoPath = await acquireWorktree(authenticatedUrl);
+
+    const model = await budgetedModel(agentRole, story);
+    const result = await runAgentWithSDK(agentRole, buildPlanContext(agentRole, story, repoPath), {
+      projectId: story.projectId,
+      storyId: story.id,
+      workspaceId: story.workspaceId,
+      workingDirectory: repoPath,
+      readOnly: true,
+      model,
+    });
+
+    const parsed = parseExecutionPlan(result.output);
+    if (!parsed) throw new Error('Agent did not return a plan');
+
+    // Priced at the model the approved run will use
+    const plan: ExecutionPlan = {
+      ...parsed,
+      estimatedCost: forecastCost(agentRegistry[agentRole]?.model, parsed.estimatedTokens),
+    };
+
+    // A new plan supersedes any earlier one awaiting review
+    await prisma.agentOutput.updateMany({
+      where: { outputType: PLAN_OUTPUT_TYPE, status: 'pending', agentSession: { storyId } },
+      data: { status: 'archived' },
+    });
+    const output = await prisma.agentOutput.create({
+      data: {
+        agentSessionId: result.session.id,
+        projectId: story.projectId,
+        outputType: PLAN_OUTPUT_TYPE,
+        title: `Plan: ${story.title}`,
+        description: plan.summary || null,
+        contentType: 'json',
+        content: JSON.stringify(plan),
+        status: 'pending',
+      },
+    });
+
+    console.log(`[Execution] Plan ${output.id} stored for story ${storyId}: ${plan.files.length} files, ~${plan.estimatedTokens} tokens`);
+
+    await postLinearComment(story,
+      `**📋 Execution Plan**\n\n${formatPlanMarkdown(plan)}\n\n` +
+      `_Planning used ${result.session.tokensUsed} tokens ($${result.session.cost.totalCost.toFixed(4)})_`
+    );
+
+    try {
+      await sendExecutionPlan({
+        completionId: storyId,
+        projectName: story.project.name,
+        title: story.title,
+        plan,
+        linearUrl: story.linearIssueUrl || undefined,
+        workspaceId: story.workspaceId,
+      });
+    } catch (e) {
+      console.error('[Execution] Slack notification failed:', e);
+    }
+
+  } catch (error) {
+    // Planning is advisory: the story stays pending and can still be approved
+    console.error(`[Execution] Error planning story ${storyId}:`, error);
+    await postLinearComment(story,
+      `**⚠️ Planning Failed**\n\n` +
+      `Error: ${error instanceof Error ? error.message : String(error)}\n\n` +
+      `_The story can still be approved without a plan_`
+    );
+  } finally {
+    if (repoPath) await releaseWorktree(repoPath);
+  }
+}
+
+// ============================================================================
+// REVIEW FOLLOW-UP
+// ============================================================================
+
+// Branch diff shown to the agent when addressing a review
+const MAX_REVIEW_DIFF_CHARS = 30_000;
+
+/**
+ * Review comments and the current PR diff, appended to the story context
+ */
+function buildReviewFeedback(
+  review: { body: string; reviewer: string; comments: ReviewComment[] },
+  diff: string
+): string {
+  const comments = review.comments.map(c =>
+    `### Comment ${c.id} on \`${c.path}\`${c.line ? ` line ${c.line}` : ''}\n\n` +
+    `${c.body}\n\n\`\`\`diff\n${c.diffHunk}\n\`\`\``
+  );
+  const shownDiff = diff.length > MAX_REVIEW_DIFF_CHARS
+    ? `${diff.slice(0, MAX_REVIEW_DIFF_CHARS)}\n...(truncated)`
+    : diff;
+
+  return `\n\n## Pull Request Review\n\n` +
+    `You already opened a pull request for this story and ${review.reviewer} reviewed it. ` +
+    `The repository is checked out on the PR branch. Address the review with additional changes ` +
+    `on top of the current branch - do not start over.\n\n` +
+    (review.body ? `### Review summary\n\n${review.body}\n\n` : '') +
+    (comments.length > 0 ? `${comments.join('\n\n')}\n\n` : '') +
+    `### Current PR diff\n\n\`\`\`diff\n${shownDiff}\n\`\`\`\n\n` +
+    `In addition to "changes", include a "replies" array in your JSON with one entry per comment ` +
+    `saying what you changed (or why no change is needed):\n` +
+    `"replies": [{ "commentId": <comment id>, "reply": "..." }]\n`;
+}
+
+/**
+ * Address a PR review: re-run the agent on the existing branch, push the
+ * fixes to the same PR and reply to each comment thread
+ */
+async function executeReviewFollowUp(storyId: string, review: ReviewFollowUp): Promise<void> {
+  console.log(`[Execution] Addressing review ${review.reviewId} on PR #${review.prNumber} for story ${storyId}`);
+
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    include: { project: true },
+  });
+
+  if (!story) {
+    console.error(`[Execution] Story ${storyId} not found`);
+    return;
+  }
+
+  if (story.status !== 'pr_open' || !story.prUrl || !story.project.repo) {
+    console.log(`[Execution] Story ${storyId} no longer has an open PR - skipping review follow-up`);
+    return;
+  }
+
+  const agentRole = 'codegen';
+  const { owner, repo } = parseRepoUrl(story.prUrl);
+  const installationId = await getGithubInstallationId(story.workspaceId);
+  const pr = { owner, repo, pullNumber: review.prNumber, installationId };
+  const branchName = `ai-improvement-${storyId.slice(0, 8)}`;
+
+  let repoPath: string | null = null;
+
+  try {
+    const reviewDetails = await getReviewComments({ ...pr, reviewId: review.reviewId });
+    if (reviewDetails.comments.length === 0 && !reviewDetails.body.trim()) {
+      console.log(`[Execution] Review ${review.reviewId} has no comments - nothing to address`);
+      return;
+    }
+
+    await postLinearComment(story,
+      `**🔁 Addressing Review**\n\n` +
+      `${reviewDetails.comments.length} comment(s) from ${reviewDetails.reviewer} on ${story.prUrl}`
+    );
+
+    const authenticatedUrl = await getAuthenticatedCloneUrl(story.project.repo, installationId);
+    repoPath = await acquireWorktree(authenticatedUrl);
+    await checkoutBranch(repoPath, branchName);
+    const diff = await getBranchDiff(repoPath);
+
+    const feedback = buildReviewFeedback(reviewDetails, diff);
+    let agentResult = await runAgentForStory(agentRole, story, repoPath, { feedback });
+
+    const applied = await applyWithRetries(agentRole, story, repoPath, agentResult, feedback);
+    agentResult = applied.agentResult;
+
+    if (applied.report.rejected.length > 0) {
+      throw new Error(`Changes could not be applied:\n\n${formatRejectionReport(applied.report)}`);
+    }
+
+    const replyFor = new Map(agentResult.replies.map(r => [r.commentId, r.reply]));
+    let commitNote = '';
+
+    if (await hasUncommittedChanges(repoPath)) {
+      const verified = await verifyWithRetries(agentRole, story, repoPath, agentResult, feedback);
+      agentResult = verified.agentResult;
+      const { verification } = verified;
+
+      if (!verification.passed) {
+        console.log(`[Execution] Review fixes for story ${storyId} failed verification - nothing pushed`);
+
+        await commentOnPullRequest({
+          ...pr,
+          body: `**❌ Could not address this review automatically**\n\n` +
+            `Checks still failed after ${verified.attempts} fix attempts, so nothing was pushed.\n\n` +
+            `${summarizeVerification(verification)}`,
+        });
+        await postLinearComment(story,
+          `**❌ Review Follow-up Failed Verification**\n\n${formatVerificationLog(verification)}`
+        );
+        return;
+      }
+
+      const sha = await commitChanges(repoPath, `Address review feedback: ${story.title}`);
+      await pushBranch(repoPath, branchName);
+      commitNote = `\n\n_Changes in ${sha.slice(0, 7)}_`;
+
+      await prisma.story.update({
+        where: { id: storyId },
+        data: { verificationLog: verification as object, touchedPaths: await getChangedFiles(repoPath) },
+      });
+    } else {
+      console.log(`[Execution] Review on story ${storyId} needed no code changes`);
+    }
+
+    // Reply in each thread; a review without inline comments gets a PR comment
+    for (const comment of reviewDetails.comments) {
+      const reply = replyFor.get(comment.id) || (commitNote ? 'Addressed.' : 'No change made.');
+      try {
+        await replyToReviewComment({
+          ...pr,
+          commentId: comment.inReplyToId ?? comment.id,
+          body: `${reply}${commitNote}`,
+        });
+      } catch (error) {
+        console.error(`[Execution] Failed to reply to review comment ${comment.id}:`, error);
+      }
+    }
+
+    if (reviewDetails.comments.length === 0) {
+      await commentOnPullRequest({ ...pr, body: `${agentResult.explanation}${commitNote}` });
+    }
+
+    await postLinearComment(story,
+      `**✅ Review Addressed**\n\n` +
+      `${commitNote ? `Pushed to ${story.prUrl}` : 'No code changes were needed.'}\n` +
+      `Tokens used: ${agentResult.tokensUsed}\n` +
+      `Cost: $${agentResult.estimatedCost.toFixed(4)}`
+    );
+
+    console.log(`[Execution] Review ${review.reviewId} on story ${storyId} addressed`);
+
+  } catch (error) {
+    // The PR stays open; the reviewer can follow up by hand
+    console.error(`[Execution] Error addressing review on story ${storyId}:`, error);
+
+    const message = error instanceof Error ? error.message : String(error);
+    await postLinearComment(story,
+      `**❌ Review Follow-up Failed**\n\nError: ${message}`
+    );
+    try {
+      await commentOnPullRequest({
+        ...pr,
+        body: `**❌ Could not address this review automatically**\n\n${message.slice(0, 1000)}`,
+      });
+    } catch (e) {
+      console.error('[Execution] Failed to comment on PR:', e);
+    }
+  } finally {
+    if (repoPath) await releaseWorktree(repoPath);
+  }
+}
+
+// ============================================================================
+// STALE BRANCHES
+// ============================================================================
+
+/**
+ * Rebase an open PR's branch onto main after an overlapping story merged,
+ * re-verify and force-push it. Conflicts and failing checks are reported on
+ * the PR instead of pushed.
+ */
+async function executeBranchRebase(storyId: string): Promise<void> {
+  console.log(`[Execution] Rebasing branch for story ${storyId}`);
+
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    include: { project: true },
+  });
+
+  if (!story || story.status !== 'pr_open' || !story.prUrl || !story.prNumber || !story.project.repo) {
+    console.log(`[Execution] Story ${storyId} no longer has an open PR - skipping rebase`);
+    return;
+  }
+
+  const { owner, repo } = parseRepoUrl(story.prUrl);
+  const installationId = await getGithubInstallationId(story.workspaceId);
+  const pr = { owner, repo, pullNumber: story.prNumber, installationId };
+  const branchName = `ai-improvement-${storyId.slice(0, 8)}`;
+
+  let repoPath: string | null = null;
+
+  try {
+    const authenticatedUrl = await getAuthenticatedCloneUrl(story.project.repo, installationId);
+    repoPath = await acquireWorktree(authenticatedUrl);
+    await checkoutBranch(repoPath, branchName);
+
+    const rebase = await rebaseOntoBase(repoPath);
+
+    if (rebase.conflicts.length > 0) {
+      const files = rebase.conflicts.map(f => `- \`${f}\``).join('\n');
+      await commentOnPullRequest({
+        ...pr,
+        body: `**⚠️ Needs a manual rebase**\n\nA change merged to main conflicts with this PR in:\n\n${files}`,
+      });
+      await postLinearComment(story, `**⚠️ PR Needs Manual Rebase**\n\nConflicts with main in:\n${files}`);
+      return;
+    }
+
+    if (!rebase.rebased) {
+      console.log(`[Execution] Branch for story ${storyId} is already up to date`);
+      return;
+    }
+
+    const verification = await verifyRepository(repoPath);
+
+    if (!verification.passed) {
+      await commentOnPullRequest({
+        ...pr,
+        body: `**⚠️ Checks fail on the latest main**\n\n` +
+          `This PR rebases cleanly onto main, but checks fail afterwards, so the rebase was not pushed.\n\n` +
+          `${summarizeVerification(verification)}`,
+      });
+      await postLinearComment(story,
+        `**⚠️ Rebase Failed Verification**\n\n${formatVerificationLog(verification)}`
+      );
+      return;
+    }
+
+    await pushBranch(repoPath, branchName, 'origin', { force: true });
+
+    await prisma.story.update({
+      where: { id: storyId },
+      data: { verificationLog: verification as object, touchedPaths: await getChangedFiles(repoPath) },
+    });
+
+    await commentOnPullRequest({
+      ...pr,
+      body: `**🔄 Rebased onto main**\n\nAn overlapping change was merged, so this branch was rebased and re-verified.\n\n${summarizeVerification(verification)}`,
+    });
+    await postLinearComment(story, `**🔄 PR Rebased onto Main**\n\n${story.prUrl}`);
+
+    console.log(`[Execution] Branch for story ${storyId} rebased and pushed`);
+
+  } catch (error) {
+    console.error(`[Execution] Error rebasing branch for story ${storyId}:`, error);
+    await postLinearComment(story,
+      `**❌ Rebase Failed**\n\nError: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    if (repoPath) await releaseWorktree(repoPath);
+  }
+}
+
 // ============================================================================
 // LEGACY FALLBACK
 // ============================================================================
@@ -684,7 +1537,7 @@ async function executeStoryLegacy(storyId: string): Promise<void> {
       where: { id: storyId },
       data: { status: 'completed' },
     });
-    await updateLinearTaskStatusForStory(story.linearTaskId, 'completed');
+    await updateLinearTaskStatusForStory(story, 'completed');
     return;
   }
 
@@ -696,8 +1549,8 @@ async function executeStoryLegacy(storyId: string): Promise<void> {
     where: { id: storyId },
     data: { status: 'in_progress' },
   });
-  await updateLinearTaskStatusForStory(story.linearTaskId, 'in_progress');
-  await postLinearComment(story.linearTaskId,
+  await updateLinearTaskStatusForStory(story, 'in_progress');
+  await postLinearComment(story,
     `**🚀 Execution Started**\n\nWorking on: ${story.title}`
   );
 
@@ -707,13 +1560,15 @@ async function executeStoryLegacy(storyId: string): Promise<void> {
     const repo = story.project.repo;
     if (!repo) throw new Error('No repository configured');
 
-    const authenticatedUrl = await getAuthenticatedCloneUrl(repo);
-    repoPath = await cloneRepo(authenticatedUrl);
+    const installationId = await getGithubInstallationId(story.workspaceId);
+    const authenticatedUrl = await getAuthenticatedCloneUrl(repo, installationId);
+    repoPath = await acquireWorktree(authenticatedUrl);
     const branchName = `ai-improvement-${storyId.slice(0, 8)}`;
     await createBranch(repoPath, branchName);
 
     // Placeholder changes (legacy)
-    const placeholderChanges = [{
+    const placeholderChanges: FileChange[] = [{
+      operation: 'modify',
       path: 'AI_IMPROVEMENTS.md',
       content: `# AI-Generated Improvements\n\nStory: ${storyId}\nGenerated: ${new Date().toISOString()}\n\n${story.title}\n\n${story.rationale}\n`,
     }];
@@ -723,9 +1578,10 @@ async function executeStoryLegacy(storyId: string): Promise<void> {
     await pushBranch(repoPath, branchName);
 
     // Use async parser to get owner from GitHub App installation
-    const { owner, repo: repoName } = await parseRepoUrlWithInstallation(repo);
+    const { owner, repo: repoName } = await parseRepoUrlWithInstallation(repo, installationId);
     
     const prResult = await createPullRequest({
+      installationId,
       owner,
       repo: repoName,
       head: branchName,
@@ -737,14 +1593,15 @@ async function executeStoryLegacy(storyId: string): Promise<void> {
     await prisma.story.update({
       where: { id: storyId },
       data: {
-        status: 'completed',
+        status: 'pr_open',
         executedAt: new Date(),
         prUrl: prResult.url,
+        prNumber: prResult.number,
       },
     });
 
-    await updateLinearTaskStatusForStory(story.linearTaskId, 'completed');
-    await postLinearComment(story.linearTaskId,
+    await updateLinearTaskStatusForStory(story, 'pr_open');
+    await postLinearComment(story,
       `**✅ Pull Request Created**\n\n${prResult.url}`
     );
 
@@ -755,6 +1612,7 @@ async function executeStoryLegacy(storyId: string): Promise<void> {
         title: story.title,
         rationale: story.rationale,
         prUrl: prResult.url,
+        workspaceId: story.workspaceId,
       });
     } catch (e) {
       console.error('[Execution] Slack failed:', e);
@@ -766,12 +1624,12 @@ async function executeStoryLegacy(storyId: string): Promise<void> {
       where: { id: storyId },
       data: { status: 'failed' },
     });
-    await updateLinearTaskStatusForStory(story.linearTaskId, 'failed');
-    await postLinearComment(story.linearTaskId,
+    await updateLinearTaskStatusForStory(story, 'failed');
+    await postLinearComment(story,
       `**❌ Execution Failed**\n\n${error instanceof Error ? error.message : String(error)}`
     );
   } finally {
-    if (repoPath) await cleanup(repoPath);
+    if (repoPath) await releaseWorktree(repoPath);
   }
 }
 
@@ -790,15 +1648,48 @@ async function executeStory(storyId: string): Promise<void> {
   }
 }
 
-async function processExecutionJob(job: Job<ExecutionJob>): Promise<void> {
-  const { storyId, priority } = job.data;
+async function processExecutionJob(job: Job<ExecutionJob>, token?: string): Promise<void> {
+  const { storyId, priority, review } = job.data;
   
   // Log priority for queue ordering visibility
   if (priority) {
     console.log(`[Execution] Processing ${priority} priority story: ${storyId}`);
   }
-  
-  await executeStory(storyId);
+
+  // Plans are read-only and don't need a slot
+  if (job.data.mode === 'plan') {
+    await executeStoryPlan(storyId);
+    return;
+  }
+
+  // Jobs that write to the repo wait for other jobs on the story, overlapping
+  // stories and the project limit
+  const slotId = job.id || storyId;
+  const scheduled = await describeStory(storyId);
+  if (scheduled) {
+    const waiting = await claimExecutionSlot(connection, scheduled, slotId);
+    if (waiting) {
+      console.log(`[Execution] Story ${storyId} waiting: ${waiting.message}`);
+      await job.updateData({ ...job.data, waiting: { ...waiting, since: job.data.waiting?.since || waiting.since } });
+      await job.moveToDelayed(Date.now() + SCHEDULER_RETRY_MS, token);
+      throw new DelayedError();
+    }
+    if (job.data.waiting) {
+      await job.updateData({ ...job.data, waiting: undefined });
+    }
+  }
+
+  try {
+    if (review) {
+      await executeReviewFollowUp(storyId, review);
+    } else if (job.data.mode === 'rebase') {
+      await executeBranchRebase(storyId);
+    } else {
+      await withCancellation(storyId, () => executeStory(storyId));
+    }
+  } finally {
+    if (scheduled) await releaseExecutionSlot(connection, slotId);
+  }
 }
 
 // Worker with priority support
@@ -823,6 +1714,7 @@ worker.on('failed', (job, err) => {
 async function shutdown() {
   console.log('[Execution] Shutting down...');
   await worker.close();
+  await cancelSubscriber.quit();
   await connection.quit();
   await prisma.$disconnect();
   process.exit(0);
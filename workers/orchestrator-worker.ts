@@ -9,8 +9,10 @@ import Redis from 'ioredis';
 import { PrismaClient } from '@prisma/client';
 import { runOrchestrator, type ScanContext } from '../lib/orchestrator';
 import { sendCompletionNotification } from '../lib/slack';
+import { fingerprintFinding, findDuplicateStory, mergeIntoStory } from '../lib/stories/dedupe';
 import { createLinearTask, getDefaultTeamId, mapPriorityToLinear, addLinearComment, getOrCreateProject, getOrCreateLabel, getBacklogStateId } from '../lib/linear';
 import { featureFlags } from '../lib/config/feature-flags';
+import { enqueueStoryPlan } from '../lib/queue/execution';
 
 // Create fresh Prisma client with direct connection (not pooler)
 const directDatabaseUrl = process.env.DATABASE_URL?.replace(':6543', ':5432').replace('?pgbouncer=true&connection_limit=1', '');
@@ -50,13 +52,14 @@ async function processProject(job: Job<OrchestratorJob>): Promise<void> {
 
   try {
     // Run orchestrator for this single project
-    const result = await runOrchestrator([scanContext]);
+    const result = await runOrchestrator([scanContext], { workspaceId });
 
     console.log(`[Orchestrator Worker] Project ${projectId}: ${result.findings.length} findings, ${result.stories.length} stories`);
 
-    // Save agent findings to database
+    // Save agent findings to database, keeping IDs so stories can link back
+    const findingIds = new Map<string, string>();
     for (const finding of result.findings) {
-      await prisma.agentFinding.create({
+      const dbFinding = await prisma.agentFinding.create({
         data: {
           workspaceId,
           runId,
@@ -71,6 +74,7 @@ async function processProject(job: Job<OrchestratorJob>): Promise<void> {
           rank: finding.rank || 0,
         },
       });
+      findingIds.set(`${finding.agent}:${finding.issue}`, dbFinding.id);
     }
 
     // Get project for notifications
@@ -80,11 +84,50 @@ async function processProject(job: Job<OrchestratorJob>): Promise<void> {
 
     // Save stories to database, create Linear tasks, and send Slack notifications
     for (const story of result.stories) {
+      const agentFindingId = findingIds.get(`${story.agent}:${story.title}`);
+      const fingerprint = fingerprintFinding({ projectId: story.projectId, agent: story.agent, issue: story.title });
+
+      // Merge into an existing pending story instead of creating a duplicate
+      const duplicate = await findDuplicateStory({
+        workspaceId,
+        projectId: story.projectId,
+        agent: story.agent,
+        fingerprint,
+        title: story.title,
+      });
+
+      if (duplicate) {
+        const merged = await mergeIntoStory(duplicate, {
+          workspaceId,
+          projectId: story.projectId,
+          runId,
+          agentFindingId,
+          priorityScore: story.priorityScore || 50,
+        });
+
+        console.log(`[Orchestrator Worker] Merged "${story.title}" into story ${duplicate.storyId} (similarity ${duplicate.similarity.toFixed(2)}, seen ${merged.observationCount}x)`);
+
+        if (duplicate.linearTaskId) {
+          try {
+            await addLinearComment(
+              duplicate.linearTaskId,
+              `Re-observed in orchestrator run ${runId} (seen ${merged.observationCount}x, priority score now ${merged.priorityScore})`,
+              workspaceId
+            );
+          } catch (linearError) {
+            console.error('[Orchestrator Worker] Linear comment failed:', linearError);
+          }
+        }
+        continue;
+      }
+
       const dbStory = await prisma.story.create({
         data: {
           workspaceId,
           runId,
           projectId: story.projectId,
+          fingerprint,
+          sourceAgent: story.agent,
           title: story.title,
           rationale: story.rationale,
           priority: story.priority,
@@ -94,33 +137,34 @@ async function processProject(job: Job<OrchestratorJob>): Promise<void> {
           priorityLevel: story.priorityLevel || 'P2',
           priorityScore: story.priorityScore || 50,
           advancesLaunchStage: story.advancesLaunchStage || false,
+          ...(agentFindingId && { findings: { connect: { id: agentFindingId } } }),
         },
       });
 
       // Create Linear task with labels, project, and workflow state
       try {
-        const teamId = await getDefaultTeamId();
+        const teamId = await getDefaultTeamId(workspaceId);
         // Use new priority system (priorityLevel) for Linear mapping
         const linearPriority = mapPriorityToLinear(story.priorityLevel || story.priority);
 
         // Get or create Linear project for this dashboard project
         const linearProjectId = project?.name
-          ? await getOrCreateProject(teamId, project.name)
+          ? await getOrCreateProject(teamId, project.name, workspaceId)
           : undefined;
 
         // Get backlog state for new tasks
-        const backlogStateId = await getBacklogStateId(teamId);
+        const backlogStateId = await getBacklogStateId(teamId, workspaceId);
 
         // Create labels for filtering
         const labelIds: string[] = [];
 
         // Priority label (use new priorityLevel system)
-        const priorityLabel = await getOrCreateLabel(teamId, `priority:${(story.priorityLevel || story.priority).toLowerCase()}`);
+        const priorityLabel = await getOrCreateLabel(teamId, `priority:${(story.priorityLevel || story.priority).toLowerCase()}`, workspaceId);
         labelIds.push(priorityLabel);
 
         // Policy label
         if (story.policy) {
-          const policyLabel = await getOrCreateLabel(teamId, `policy:${story.policy.toLowerCase()}`);
+          const policyLabel = await getOrCreateLabel(teamId, `policy:${story.policy.toLowerCase()}`, workspaceId);
           labelIds.push(policyLabel);
         }
 
@@ -141,6 +185,7 @@ _Story ID: ${dbStory.id}_`,
           labelIds,
           projectId: linearProjectId,
           stateId: backlogStateId,
+          workspaceId,
         });
 
         // Update story with Linear task ID, URL, and identifier
@@ -164,7 +209,8 @@ _Story ID: ${dbStory.id}_`,
 
           await addLinearComment(
             linearTask.id,
-            `**Agent Dialogue:**\n\n${dialogue}\n\n_Generated by AI Co-Founder orchestrator run ${runId}_`
+            `**Agent Dialogue:**\n\n${dialogue}\n\n_Generated by AI Co-Founder orchestrator run ${runId}_`,
+            workspaceId
           );
 
           console.log(`[Orchestrator Worker] Posted agent dialogue to Linear task ${linearTask.identifier}`);
@@ -192,12 +238,18 @@ _Story ID: ${dbStory.id}_`,
             priority: story.priority,
             policy: story.policy,
             linearUrl: updatedStory?.linearIssueUrl || undefined,
+            workspaceId,
           });
         } catch (slackError) {
           // Log but don't fail the job if Slack fails
           console.error('[Orchestrator Worker] Slack notification failed:', slackError);
         }
       }
+
+      // Give the approver a read-only plan of what execution would change
+      if (story.policy === 'approval_required' && featureFlags.EXECUTION_PLANS_ENABLED) {
+        await enqueueStoryPlan(dbStory.id, 'orchestrator');
+      }
     }
 
     console.log(`[Orchestrator Worker] Project ${projectId} complete: ${result.findings.length} findings, ${result.stories.length} stories saved`);
@@ -3,7 +3,7 @@
  * Scan Worker
  *
  * Processes scan jobs from Redis queue (BullMQ)
- * Executes all scanners: domain, SEO, analytics, Vercel, performance, screenshot, npm_audit, secrets
+ * Runs any scanner registered in lib/scanners/registry.ts
  * Saves results to database
  *
  * Last updated: 2026-01-07
@@ -17,14 +17,9 @@ config({ path: resolve(__dirname, '../.env.local') });
 import { Worker } from 'bullmq';
 import Redis from 'ioredis';
 import { PrismaClient } from '@prisma/client';
-import { scanDomain } from '../lib/scanners/domain';
-import { scanSEO } from '../lib/scanners/seo';
-import { scanAnalytics } from '../lib/scanners/analytics';
-import { scanVercelDeployment } from '../lib/scanners/vercel';
-import { scanPerformance } from '../lib/scanners/performance';
-import { captureScreenshot } from '../lib/scanners/screenshot';
-import { scanNpmAudit } from '../lib/scanners/security-npm';
-import { scanSecrets } from '../lib/scanners/security-secrets';
+import { getScanner, runScanner, usesRepo, withRepoCheckout, type ScanTarget } from '../lib/scanners/registry';
+import { recordScanDelta } from '../lib/scans/delta';
+import { raiseScanSignals } from '../lib/scans/signals';
 
 // Create fresh Prisma client for worker with direct connection (no pgBouncer)
 // PgBouncer in transaction mode doesn't support prepared statements
@@ -56,8 +51,8 @@ interface ScanJob {
   projectId: string;
   projectName: string;
   domain: string;
-  repo?: string; // For npm_audit and secrets scanners
-  scanType: 'domain' | 'seo' | 'analytics' | 'vercel' | 'performance' | 'screenshot' | 'npm_audit' | 'secrets';
+  repo?: string; // Cloned for scanners that declare a 'repo' input
+  scanType: string; // Any registered scanner type
   workspaceId: string;
 }
 
@@ -70,191 +65,58 @@ async function processScanJob(job: any) {
   const startTime = Date.now();
 
   try {
-    switch (scanType) {
-      case 'domain': {
-        const result = await scanDomain(domain);
-        const durationMs = Date.now() - startTime;
-
-        await db.scan.create({
-          data: {
-            workspaceId,
-            projectId,
-            scanType: 'domain',
-            status: result.status,
-            domainData: result.domainData || {},
-            scannedAt: new Date(),
-            durationMs
-          }
-        });
-
-        console.log(`[${job.id}] ✓ Domain scan complete: ${result.status} (${durationMs}ms)`);
-        break;
-      }
-
-      case 'seo': {
-        const result = await scanSEO(domain);
-        const durationMs = Date.now() - startTime;
-
-        await db.scan.create({
-          data: {
-            workspaceId,
-            projectId,
-            scanType: 'seo',
-            status: result.status,
-            seoDetail: result.seoDetail || {},
-            scannedAt: new Date(),
-            durationMs
-          }
-        });
-
-        console.log(`[${job.id}] ✓ SEO scan complete: ${result.seoScore} (${durationMs}ms)`);
-        break;
-      }
-
-      case 'analytics': {
-        const result = await scanAnalytics(domain);
-        const durationMs = Date.now() - startTime;
-
-        await db.scan.create({
-          data: {
-            workspaceId,
-            projectId,
-            scanType: 'analytics',
-            status: result.status,
-            analyticsData: result.analyticsData || {},
-            scannedAt: new Date(),
-            durationMs
-          }
-        });
-
-        console.log(`[${job.id}] ✓ Analytics scan complete: ${result.detected.length} detected (${durationMs}ms)`);
-        break;
-      }
-
-      case 'vercel': {
-        const result = await scanVercelDeployment(projectName);
-        const durationMs = Date.now() - startTime;
-
-        await db.scan.create({
-          data: {
-            workspaceId,
-            projectId,
-            scanType: 'vercel',
-            status: result.status,
-            vercelData: result.latestDeployment || {},
-            scannedAt: new Date(),
-            durationMs
-          }
-        });
-
-        console.log(`[${job.id}] ✓ Vercel scan complete: ${result.status} (${durationMs}ms)`);
-        break;
-      }
-
-      case 'performance': {
-        const result = await scanPerformance(domain);
-        const durationMs = Date.now() - startTime;
-
-        await db.scan.create({
-          data: {
-            workspaceId,
-            projectId,
-            scanType: 'performance',
-            status: result.status,
-            playwrightMetrics: (result.metrics || {}) as any,
-            scannedAt: new Date(),
-            durationMs
-          }
-        });
-
-        console.log(`[${job.id}] ✓ Performance scan complete: ${result.status} (${durationMs}ms)`);
-        break;
-      }
-
-      case 'screenshot': {
-        const result = await captureScreenshot(domain);
-        const durationMs = Date.now() - startTime;
-
-        await db.scan.create({
-          data: {
-            workspaceId,
-            projectId,
-            scanType: 'screenshot',
-            status: result.status,
-            playwrightMetrics: {
-              screenshotUrl: result.screenshotUrl,
-              screenshotPath: result.screenshotPath,
-              dimensions: result.dimensions
-            } as any,
-            scannedAt: new Date(),
-            durationMs
-          }
-        });
+    const scanner = getScanner(scanType);
+    if (!scanner) {
+      throw new Error(`Unknown scan type: ${scanType}`);
+    }
 
-        console.log(`[${job.id}] ✓ Screenshot capture complete: ${result.screenshotUrl} (${durationMs}ms)`);
-        break;
-      }
+    // Per-project scanner options (e.g. performance pages and budgets)
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { hasResend: true, agentConfig: { select: { agentSettings: true } } },
+    });
 
-      case 'npm_audit': {
-        const { repo } = data;
-        if (!repo) {
-          throw new Error('Repository path required for npm_audit scan');
-        }
+    const target: ScanTarget = {
+      projectName,
+      domain: domain || null,
+      agentSettings: (project?.agentConfig?.agentSettings as Record<string, any> | null) ?? undefined,
+      hasResend: project?.hasResend ?? false,
+    };
 
-        const result = await scanNpmAudit(repo);
-        const durationMs = Date.now() - startTime;
+    // Repo scanners get a fresh checkout that is removed afterwards
+    const result = usesRepo(scanner) && data.repo
+      ? await withRepoCheckout(data.repo, workspaceId, (repoPath) => runScanner(scanner, { ...target, repoPath }))
+      : await runScanner(scanner, target);
 
-        await db.scan.create({
-          data: {
-            workspaceId,
-            projectId,
-            scanType: 'npm_audit',
-            status: result.status,
-            securityIssues: {
-              vulnerabilities: result.vulnerabilities || [],
-              metadata: result.metadata || {}
-            } as any,
-            scannedAt: new Date(),
-            durationMs
-          }
-        });
+    const record = scanner.toRecord(result);
+    const durationMs = Date.now() - startTime;
 
-        console.log(`[${job.id}] ✓ NPM audit complete: ${result.vulnerabilities?.length || 0} vulnerabilities (${durationMs}ms)`);
-        break;
+    await db.scan.create({
+      data: {
+        workspaceId,
+        projectId,
+        scanType,
+        status: record.status,
+        [scanner.column]: record.data,
+        scannedAt: new Date(),
+        durationMs
       }
+    });
 
-      case 'secrets': {
-        const { repo } = data;
-        if (!repo) {
-          throw new Error('Repository path required for secrets scan');
-        }
-
-        // For secrets scanner, we need to read files from the repo
-        // This is a simplified implementation - in production, you'd want to
-        // scan multiple files and aggregate results
-        const result = await scanSecrets('', repo);
-        const durationMs = Date.now() - startTime;
-
-        await db.scan.create({
-          data: {
-            workspaceId,
-            projectId,
-            scanType: 'secrets',
-            status: result.status,
-            securityIssues: {
-              findings: result.findings || []
-            } as any,
-            scannedAt: new Date(),
-            durationMs
-          }
-        });
+    console.log(`[${job.id}] ✓ ${scanType} scan complete: ${record.summary} (${durationMs}ms)`);
 
-        console.log(`[${job.id}] ✓ Secrets scan complete: ${result.findings?.length || 0} findings (${durationMs}ms)`);
-        break;
-      }
+    // Classify issues against the previous scan so the orchestrator only sees changes
+    try {
+      await recordScanDelta(projectId, scanType);
+    } catch (deltaError) {
+      console.error(`[${job.id}] Failed to record scan delta:`, deltaError);
+    }
 
-      default:
-        throw new Error(`Unknown scan type: ${scanType}`);
+    // Urgent conditions (e.g. a certificate about to expire) go straight to the priority system
+    try {
+      await raiseScanSignals({ workspaceId, projectId, scanType, stored: record.data });
+    } catch (signalError) {
+      console.error(`[${job.id}] Failed to raise scan signals:`, signalError);
     }
 
     return { success: true, scanType, projectName };
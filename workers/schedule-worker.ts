@@ -0,0 +1,147 @@
+#!/usr/bin/env tsx
+/**
+ * Schedule Worker
+ *
+ * Processes the jobs fired by per-project BullMQ job schedulers (see
+ * lib/schedules.ts) and turns each into a scan job or an orchestrator run
+ * for that project. Schedulers are resynced from the database on start and
+ * every RESYNC_INTERVAL_MS, so projects created or edited outside the
+ * schedules API (status, domain, repo) get the right schedulers.
+ */
+
+// Load environment variables from .env.local when running locally
+import { config } from 'dotenv';
+import { resolve } from 'path';
+config({ path: resolve(__dirname, '../.env.local') });
+
+import { Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { prisma } from '../lib/db';
+import { SCHEDULES_QUEUE, getScheduleSettings, syncAllSchedules, syncProjectSchedules, type ScheduleJob } from '../lib/schedules';
+import { canRunScanner, getScanner } from '../lib/scanners/registry';
+import { reserveScans, releaseScans, QuotaExceededError } from '../lib/quotas';
+import { enqueueScan } from '../lib/queue/scans';
+import { buildScanContexts, queueOrchestratorRun } from '../lib/queue/orchestrator';
+
+// Redis connection for BullMQ worker
+const connection = new Redis(
+  process.env.REDIS_URL || 'redis://localhost:6379',
+  {
+    maxRetriesPerRequest: null,
+    enableReadyCheck: false,
+    // TLS for Upstash (rediss://)
+    tls: process.env.REDIS_URL?.startsWith('rediss://') ? {} : undefined,
+  }
+);
+
+const RESYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Run one scheduled firing. Returns what was queued, or why nothing was.
+ */
+async function processScheduleJob(job: Job<ScheduleJob>): Promise<string> {
+  const { projectId, workspaceId, kind, scanType } = job.data;
+
+  // Settings may have changed since the scheduler was registered
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, workspaceId },
+    select: {
+      id: true,
+      name: true,
+      domain: true,
+      repo: true,
+      status: true,
+      workspaceId: true,
+      agentConfig: {
+        select: { timezone: true, scanSchedules: true, orchestratorSchedule: true, schedulesPaused: true },
+      },
+    },
+  });
+  if (!project || !project.status.includes('ACTIVE') || getScheduleSettings(project.agentConfig).paused) {
+    await syncProjectSchedules(projectId);
+    return 'skipped: project deleted, inactive or paused';
+  }
+
+  if (kind === 'scan') {
+    const scanner = scanType ? getScanner(scanType) : undefined;
+    if (!scanner || !canRunScanner(scanner, project)) {
+      return `skipped: ${project.name} can't run ${scanType} scans`;
+    }
+  }
+
+  // Orchestrator runs need new findings to analyze
+  const scanContexts = kind === 'orchestrator'
+    ? await buildScanContexts(workspaceId, { projectIds: [projectId] })
+    : [];
+  if (kind === 'orchestrator' && scanContexts.length === 0) {
+    return `skipped: no new scan findings for ${project.name}`;
+  }
+
+  try {
+    await reserveScans(workspaceId, 1);
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return `skipped: ${error.message}`;
+    }
+    throw error;
+  }
+
+  try {
+    if (kind === 'scan') {
+      const jobId = await enqueueScan(project, scanType!);
+      return `queued ${scanType} scan for ${project.name} (${jobId})`;
+    }
+
+    const runId = await queueOrchestratorRun(workspaceId, scanContexts);
+    return `queued orchestrator run for ${project.name} (${runId})`;
+  } catch (error) {
+    // Nothing was queued, so the scan goes back to today's allowance
+    await releaseScans(workspaceId, 1);
+    throw error;
+  }
+}
+
+const worker = new Worker<ScheduleJob, string>(SCHEDULES_QUEUE, processScheduleJob, {
+  connection,
+  concurrency: 5,
+});
+
+worker.on('completed', (job, result) => {
+  console.log(`[Schedule Worker] ${job.name} for ${job.data.projectId}: ${result}`);
+});
+
+worker.on('failed', (job, err) => {
+  console.error(`[Schedule Worker] Job ${job?.id} failed:`, err);
+});
+
+worker.on('error', (err) => {
+  console.error('[Schedule Worker] Worker error:', err);
+});
+
+async function resync(): Promise<void> {
+  try {
+    const { projects, schedulers } = await syncAllSchedules();
+    console.log(`[Schedule Worker] Synced ${schedulers} schedulers for ${projects} projects`);
+  } catch (error) {
+    console.error('[Schedule Worker] Failed to sync schedules:', error);
+  }
+}
+
+resync();
+const resyncTimer = setInterval(resync, RESYNC_INTERVAL_MS);
+
+console.log('[Schedule Worker] Started');
+console.log('[Schedule Worker] Waiting for jobs...');
+
+// Graceful shutdown
+async function shutdown() {
+  console.log('[Schedule Worker] Shutting down...');
+  clearInterval(resyncTimer);
+  await worker.close();
+  await connection.quit();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);